@@ -0,0 +1,116 @@
+/**
+ * Service Worker - offline support
+ *
+ * Caches:
+ * - retro-app-shell: index.html and hashed build assets (cache-first, runtime)
+ * - retro-catalog: games.json (network-first, falls back to the cached copy)
+ * - retro-emulatorjs: EmulatorJS loader and cores (cache-first, runtime)
+ * - retro-offline-games: ROMs, covers, cores and BIOS files of games the user
+ *   pinned for offline play (filled by src/services/storage/offlineService.ts)
+ *
+ * Cache names are shared with offlineService; bump CACHE_VERSION in both
+ * when the layout changes.
+ */
+
+const CACHE_VERSION = 'v1';
+const APP_SHELL_CACHE = `retro-app-shell-${CACHE_VERSION}`;
+const CATALOG_CACHE = `retro-catalog-${CACHE_VERSION}`;
+const EMULATORJS_CACHE = `retro-emulatorjs-${CACHE_VERSION}`;
+const OFFLINE_GAMES_CACHE = `retro-offline-games-${CACHE_VERSION}`;
+const KNOWN_CACHES = [APP_SHELL_CACHE, CATALOG_CACHE, EMULATORJS_CACHE, OFFLINE_GAMES_CACHE];
+
+const EMULATORJS_ORIGIN = 'https://cdn.emulatorjs.org';
+
+/** Version-pinned EmulatorJS releases mirrored to our CDN (immutable) */
+const EMULATORJS_MIRROR_PATH = /^\/emulatorjs\/[^/]+\/data\//;
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches
+      .open(APP_SHELL_CACHE)
+      .then((cache) => cache.addAll(['/', '/manifest.webmanifest']))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((names) =>
+        Promise.all(
+          names
+            .filter((name) => name.startsWith('retro-') && !KNOWN_CACHES.includes(name))
+            .map((name) => caches.delete(name))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+/**
+ * Serves from a cache, falling back to the network and storing the response.
+ */
+async function cacheFirst(request, cacheName) {
+  const cached = await caches.match(request, { ignoreVary: true });
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(cacheName);
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+/**
+ * Serves from the network, refreshing the cache, and falls back to the
+ * cached copy when offline.
+ */
+async function networkFirst(request, cacheName, fallbackUrl) {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(cacheName);
+      await cache.put(fallbackUrl ?? request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await caches.match(fallbackUrl ?? request, { ignoreVary: true });
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET' || request.headers.has('range')) return;
+
+  const url = new URL(request.url);
+
+  // SPA navigations: any route is served by index.html
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request, APP_SHELL_CACHE, '/'));
+    return;
+  }
+
+  if (url.pathname.endsWith('/games.json')) {
+    event.respondWith(networkFirst(request, CATALOG_CACHE));
+    return;
+  }
+
+  if (url.origin === self.location.origin && url.pathname.startsWith('/assets/')) {
+    event.respondWith(cacheFirst(request, APP_SHELL_CACHE));
+    return;
+  }
+
+  if (url.origin === EMULATORJS_ORIGIN || EMULATORJS_MIRROR_PATH.test(url.pathname)) {
+    event.respondWith(cacheFirst(request, EMULATORJS_CACHE));
+    return;
+  }
+
+  // Pinned ROMs, covers and BIOS files; everything else goes to the network
+  event.respondWith(
+    caches.match(request, { ignoreVary: true }).then((cached) => cached ?? fetch(request))
+  );
+});
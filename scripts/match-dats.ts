@@ -0,0 +1,212 @@
+#!/usr/bin/env node
+/**
+ * Verify catalog ROMs against No-Intro/Redump DAT files
+ *
+ * Hashes every ROM referenced by games.json, looks the hashes up in the
+ * given Logiqx XML DATs and writes crc32, sha1, datName and dumpStatus
+ * back into the manifest. Byte-swapped N64 dumps (.v64/.n64) are hashed in
+ * big-endian .z64 order, the order No-Intro lists them in.
+ *
+ * Usage (Node 22.6+, which runs TypeScript directly):
+ *   npm run match:dats -- --roms /root/r2-uploads/roms --dat dats/*.dat [--manifest public/games.json] [--dry-run]
+ *
+ * --roms points at the directory laid out like the CDN (roms/<console>/<file>),
+ * e.g. the download directory of vps-myrient-download.sh.
+ */
+
+import { createReadStream, existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { open } from 'node:fs/promises';
+import { createHash } from 'node:crypto';
+import { basename, dirname, extname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { parseArgs } from 'node:util';
+import { createDatIndex, matchRom, parseDat } from '../src/utils/datMatching.ts';
+import type { DatIndex, DatMatch, RomHashes } from '../src/utils/datMatching.ts';
+import { crc32Update, formatCrc32 } from '../src/utils/crc32.ts';
+import type { Game, GamesManifest } from '../src/types/game.types.ts';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const rootDir = resolve(__dirname, '..');
+
+/** Compressed or multi-file formats whose hashes never appear in DATs */
+const UNVERIFIABLE_EXTENSIONS = new Set(['.chd', '.pbp', '.cue', '.zip', '.7z']);
+
+const { values } = parseArgs({
+  options: {
+    roms: { type: 'string' },
+    dat: { type: 'string', multiple: true },
+    manifest: { type: 'string', default: resolve(rootDir, 'public', 'games.json') },
+    'dry-run': { type: 'boolean', default: false },
+  },
+  allowPositionals: false,
+});
+
+if (!values.roms || !values.dat?.length) {
+  console.error('Usage: match-dats.ts --roms <dir> --dat <file.dat> [--dat ...] [--manifest games.json] [--dry-run]');
+  process.exit(1);
+}
+
+/** Byte order of an N64 dump: big-endian, byte-swapped or little-endian */
+type N64ByteOrder = 'z64' | 'v64' | 'n64';
+
+/** Bytes per swapped unit for each N64 byte order */
+const N64_WORD_SIZE: Record<N64ByteOrder, number> = { z64: 1, v64: 2, n64: 4 };
+
+/**
+ * Reads the first bytes of a file.
+ */
+async function readHead(path: string, length: number): Promise<{ head: Buffer; size: number }> {
+  const file = await open(path, 'r');
+  try {
+    const { size } = await file.stat();
+    const { buffer } = await file.read(Buffer.alloc(length), 0, length, 0);
+    return { head: buffer, size };
+  } finally {
+    await file.close();
+  }
+}
+
+/**
+ * Hashes a file from a byte offset, streaming to keep disc images out of memory.
+ * N64 data is converted to big-endian order on the fly.
+ */
+async function hashFile(path: string, start = 0, byteOrder: N64ByteOrder = 'z64'): Promise<RomHashes> {
+  const sha1 = createHash('sha1');
+  const wordSize = N64_WORD_SIZE[byteOrder];
+  let crc = 0;
+  let size = 0;
+  let pending = Buffer.alloc(0);
+
+  const update = (bytes: Buffer) => {
+    sha1.update(bytes);
+    crc = crc32Update(bytes, crc);
+    size += bytes.length;
+  };
+
+  for await (const chunk of createReadStream(path, { start })) {
+    // Carry a partial word over to the next chunk so words are never split
+    const bytes = pending.length > 0 ? Buffer.concat([pending, chunk as Buffer]) : (chunk as Buffer);
+    const whole = bytes.length - (bytes.length % wordSize);
+    pending = Buffer.from(bytes.subarray(whole));
+
+    const words = bytes.subarray(0, whole);
+    if (byteOrder === 'v64') words.swap16();
+    if (byteOrder === 'n64') words.swap32();
+    update(words);
+  }
+  if (pending.length > 0) update(pending);
+
+  return { size, crc32: formatCrc32(crc), sha1: sha1.digest('hex') };
+}
+
+/**
+ * Detects the byte order of an N64 dump from its first word.
+ */
+async function detectN64ByteOrder(path: string): Promise<N64ByteOrder> {
+  const { head } = await readHead(path, 2);
+  if (head[0] === 0x37 && head[1] === 0x80) return 'v64';
+  if (head[0] === 0x40 && head[1] === 0x12) return 'n64';
+  return 'z64';
+}
+
+/**
+ * Size of a file header that some DATs exclude from their hashes
+ * (iNES/FDS headers, SNES copier headers).
+ */
+async function detectHeaderSize(path: string): Promise<number> {
+  const { head, size } = await readHead(path, 4);
+  const magic = head.toString('latin1');
+  if (magic === 'NES\x1a' || magic === 'FDS\x1a') return 16;
+  if (extname(path).toLowerCase() === '.smc' && size % 1024 === 512) return 512;
+  return 0;
+}
+
+/**
+ * Maps a manifest romPath (CDN URL or relative path) to a local file.
+ */
+function resolveLocalRom(romPath: string, romsDir: string): string {
+  const relative = romPath.replace(/^https?:\/\/[^/]+\//, '').replace(/^roms\//, '');
+  return resolve(romsDir, decodeURIComponent(relative));
+}
+
+/**
+ * Hashes a ROM and matches it, trying the headerless data when the
+ * headered file is not found (No-Intro DATs list headerless hashes).
+ */
+async function verifyRom(path: string, game: Game, index: DatIndex): Promise<{ hashes: RomHashes; match: DatMatch }> {
+  const names = [game.datName, basename(path, extname(path)), game.title].filter(
+    (name): name is string => Boolean(name)
+  );
+
+  const byteOrder = game.console === 'n64' ? await detectN64ByteOrder(path) : 'z64';
+  const hashes = await hashFile(path, 0, byteOrder);
+  const match = matchRom(index, hashes, names);
+  if (match.status === 'verified' || match.status === 'bad') {
+    return { hashes, match };
+  }
+
+  const headerSize = await detectHeaderSize(path);
+  if (headerSize > 0) {
+    const headerless = await hashFile(path, headerSize);
+    const headerlessMatch = matchRom(index, headerless, names);
+    if (headerlessMatch.status === 'verified' || headerlessMatch.status === 'bad') {
+      return { hashes: headerless, match: headerlessMatch };
+    }
+  }
+
+  return { hashes, match };
+}
+
+const manifestPath = resolve(values.manifest);
+const manifest: GamesManifest = JSON.parse(readFileSync(manifestPath, 'utf-8'));
+const romsDir = resolve(values.roms);
+
+console.log(`📚 Loading ${values.dat.length} DAT file(s)...`);
+const index = createDatIndex(
+  values.dat.map((path) => {
+    const dat = parseDat(readFileSync(path, 'utf-8'));
+    console.log(`   ${dat.name}${dat.version ? ` (${dat.version})` : ''}: ${dat.games.length} games`);
+    return dat;
+  })
+);
+
+const counts: Record<string, number> = { verified: 0, bad: 0, modified: 0, unknown: 0, skipped: 0 };
+const games: Game[] = [];
+
+for (const game of manifest.games) {
+  const path = resolveLocalRom(game.romPath, romsDir);
+
+  if (UNVERIFIABLE_EXTENSIONS.has(extname(path).toLowerCase()) || !existsSync(path)) {
+    console.log(`⏭️  ${game.id}: ${existsSync(path) ? 'compressed format, not verifiable' : `not found at ${path}`}`);
+    counts.skipped++;
+    games.push(game);
+    continue;
+  }
+
+  const { hashes, match } = await verifyRom(path, game, index);
+  counts[match.status]++;
+
+  const icon = { verified: '✅', bad: '❌', modified: '⚠️ ', unknown: '❔' }[match.status];
+  console.log(`${icon} ${game.id}: ${match.status}${match.datName ? ` (${match.datName})` : ''}`);
+
+  games.push({
+    ...game,
+    crc32: hashes.crc32,
+    sha1: hashes.sha1,
+    // An unmatched dump keeps the name recorded by an earlier run or by hand
+    datName: match.datName ?? game.datName,
+    dumpStatus: match.status,
+  });
+}
+
+console.log(
+  `\n📊 ${counts.verified} verified, ${counts.bad} bad, ${counts.modified} modified, ` +
+    `${counts.unknown} unknown, ${counts.skipped} skipped`
+);
+
+if (values['dry-run']) {
+  console.log('🔍 Dry run: manifest not written');
+} else {
+  writeFileSync(manifestPath, `${JSON.stringify({ ...manifest, games }, null, 2)}\n`);
+  console.log(`💾 Updated ${manifestPath}`);
+}
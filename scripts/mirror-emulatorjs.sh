@@ -0,0 +1,69 @@
+#!/bin/bash
+# EmulatorJS Mirror Script - Run on VPS
+# Downloads an EmulatorJS release and uploads its data directory to R2 as
+# emulatorjs/<version>/data/, where the app loads it from
+# (VITE_EMULATORJS_VERSION picks the version).
+#
+# Usage: ./mirror-emulatorjs.sh <version> [--force]
+#   e.g. ./mirror-emulatorjs.sh 4.2.3
+#
+# Requires: curl, 7z (p7zip-full), rclone with an "r2" remote
+
+set -e
+
+R2_BUCKET="komplexaci-retro"  # Change to your bucket name
+WORK_DIR="/root/emulatorjs-mirror"
+
+VERSION="${1#v}"
+FORCE="$2"
+
+if [ -z "$VERSION" ]; then
+    echo "Usage: $0 <version> [--force]"
+    echo "Releases: https://github.com/EmulatorJS/EmulatorJS/releases"
+    exit 1
+fi
+
+# Release archives contain the data/ directory with loader, emulator and cores
+RELEASE_URL="${RELEASE_URL:-https://github.com/EmulatorJS/EmulatorJS/releases/download/v$VERSION/$VERSION.7z}"
+R2_PATH="emulatorjs/$VERSION/data"
+
+# Releases are immutable once mirrored: saves record the version they were made with
+if [ "$FORCE" != "--force" ] && rclone lsf "r2:$R2_BUCKET/$R2_PATH/loader.js" 2>/dev/null | grep -q loader.js; then
+    echo "EmulatorJS $VERSION is already mirrored at $R2_PATH (use --force to replace it)"
+    exit 0
+fi
+
+rm -rf "$WORK_DIR/$VERSION"
+mkdir -p "$WORK_DIR/$VERSION"
+cd "$WORK_DIR/$VERSION"
+
+echo "Downloading EmulatorJS $VERSION..."
+curl -fL --progress-bar -o release.7z "$RELEASE_URL"
+
+echo "Extracting..."
+7z x -y release.7z > /dev/null
+
+DATA_DIR=$(dirname "$(find . -path '*/data/loader.js' | head -n 1)")
+if [ -z "$DATA_DIR" ] || [ ! -f "$DATA_DIR/loader.js" ] || [ ! -d "$DATA_DIR/cores" ]; then
+    echo "No data/ directory with loader.js and cores/ found in the release archive"
+    exit 1
+fi
+
+echo "Found $(find "$DATA_DIR/cores" -name '*.data' | wc -l) core files in $DATA_DIR"
+
+echo "Uploading to r2:$R2_BUCKET/$R2_PATH..."
+rclone sync "$DATA_DIR" "r2:$R2_BUCKET/$R2_PATH" \
+    --progress \
+    --transfers 8 \
+    --checkers 16 \
+    --header-upload "Cache-Control: public, max-age=31536000, immutable" \
+    --header-upload "Cross-Origin-Resource-Policy: cross-origin"
+
+echo ""
+echo "=== Mirror Summary ==="
+rclone size "r2:$R2_BUCKET/$R2_PATH" 2>/dev/null || echo "Could not get mirror size"
+echo ""
+echo "Set VITE_EMULATORJS_VERSION=$VERSION and redeploy to switch the app to this release."
+echo "Save states made with the previous version will ask for confirmation before loading."
+
+rm -rf "$WORK_DIR/$VERSION"
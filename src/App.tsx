@@ -5,6 +5,7 @@
 import { Suspense, lazy, useEffect, Component, type ReactNode } from 'react';
 import { BrowserRouter, Routes, Route, Link } from 'react-router-dom';
 import { useGameStore } from './stores';
+import { useGameLibrary } from './hooks/useGameLibrary';
 import { ImmersiveHome } from './components/home';
 // Direct import for PlayPage to avoid lazy loading issues
 import { PlayPage } from './pages/PlayPage';
@@ -127,6 +128,8 @@ function MinimalLayout({ children }: { children: React.ReactNode }) {
           <Link to="/" style={{ color: '#a0a0a0', textDecoration: 'none', fontSize: '0.9rem', textTransform: 'uppercase', letterSpacing: '0.1em' }}>Home</Link>
           <Link to="/browse" style={{ color: '#a0a0a0', textDecoration: 'none', fontSize: '0.9rem', textTransform: 'uppercase', letterSpacing: '0.1em' }}>Browse</Link>
           <Link to="/favorites" style={{ color: '#a0a0a0', textDecoration: 'none', fontSize: '0.9rem', textTransform: 'uppercase', letterSpacing: '0.1em' }}>Favorites</Link>
+          <Link to="/collections" style={{ color: '#a0a0a0', textDecoration: 'none', fontSize: '0.9rem', textTransform: 'uppercase', letterSpacing: '0.1em' }}>Collections</Link>
+          <Link to="/stats" style={{ color: '#a0a0a0', textDecoration: 'none', fontSize: '0.9rem', textTransform: 'uppercase', letterSpacing: '0.1em' }}>Stats</Link>
         </nav>
       </header>
       <main style={{ paddingTop: '80px', minHeight: '100vh' }}>
@@ -153,6 +156,9 @@ function FullScreenLayout({ children }: { children: React.ReactNode }) {
 // Lazy load pages (except PlayPage which is directly imported)
 const BrowsePage = lazy(() => import('./pages/BrowsePage'));
 const FavoritesPage = lazy(() => import('./pages/FavoritesPage'));
+const CollectionsPage = lazy(() => import('./pages/CollectionsPage'));
+const CollectionPage = lazy(() => import('./pages/CollectionPage'));
+const StatsPage = lazy(() => import('./pages/StatsPage'));
 const SettingsPage = lazy(() => import('./pages/SettingsPage'));
 const NotFoundPage = lazy(() => import('./pages/NotFoundPage'));
 
@@ -164,6 +170,9 @@ function App() {
     fetchGames().catch(console.error);
   }, [fetchGames]);
 
+  // Keep imported ROMs (My Library) in the game list
+  useGameLibrary();
+
   return (
     <ErrorBoundary>
       <BrowserRouter>
@@ -209,6 +218,36 @@ function App() {
               </MinimalLayout>
             }
           />
+          <Route
+            path="/collections"
+            element={
+              <MinimalLayout>
+                <Suspense fallback={<PageLoader />}>
+                  <CollectionsPage />
+                </Suspense>
+              </MinimalLayout>
+            }
+          />
+          <Route
+            path="/collections/:collectionId"
+            element={
+              <MinimalLayout>
+                <Suspense fallback={<PageLoader />}>
+                  <CollectionPage />
+                </Suspense>
+              </MinimalLayout>
+            }
+          />
+          <Route
+            path="/stats"
+            element={
+              <MinimalLayout>
+                <Suspense fallback={<PageLoader />}>
+                  <StatsPage />
+                </Suspense>
+              </MinimalLayout>
+            }
+          />
           <Route
             path="/settings"
             element={
@@ -0,0 +1,53 @@
+/**
+ * HighlightedText Component
+ * Renders text with search matches marked
+ */
+
+import { memo } from 'react';
+import clsx from 'clsx';
+import type { HighlightRange } from '@/types';
+import styles from './HighlightedText.module.css';
+
+export interface HighlightedTextProps {
+  /** Text to display */
+  text: string;
+  /** Sorted, non-overlapping ranges to mark */
+  ranges?: readonly HighlightRange[];
+  /** Additional class name for the marks */
+  markClassName?: string;
+}
+
+/**
+ * HighlightedText component
+ * Splits the text at the match ranges and wraps matches in <mark>
+ */
+export const HighlightedText = memo(function HighlightedText({
+  text,
+  ranges,
+  markClassName,
+}: HighlightedTextProps) {
+  if (!ranges || ranges.length === 0) {
+    return <>{text}</>;
+  }
+
+  const parts = [];
+  let position = 0;
+
+  for (const range of ranges) {
+    if (range.start > position) {
+      parts.push(text.slice(position, range.start));
+    }
+    parts.push(
+      <mark key={range.start} className={clsx(styles.mark, markClassName)}>
+        {text.slice(range.start, range.end)}
+      </mark>
+    );
+    position = range.end;
+  }
+
+  if (position < text.length) {
+    parts.push(text.slice(position));
+  }
+
+  return <>{parts}</>;
+});
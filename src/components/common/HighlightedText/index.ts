@@ -0,0 +1 @@
+export { HighlightedText, type HighlightedTextProps } from './HighlightedText';
@@ -31,7 +31,10 @@ export type IconName =
   | 'calendar'
   | 'globe'
   | 'code'
-  | 'building';
+  | 'building'
+  | 'download'
+  | 'check'
+  | 'clock';
 
 type IconComponent = (props: SVGProps<SVGSVGElement>) => ReactElement;
 
@@ -305,4 +308,26 @@ export const iconComponents: Record<IconName, IconComponent> = {
       />
     </svg>
   ),
+
+  download: (props) => (
+    <svg {...defaultProps} {...props}>
+      <path
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        d="M3 16.5v2.25A2.25 2.25 0 005.25 21h13.5A2.25 2.25 0 0021 18.75V16.5M16.5 12L12 16.5m0 0L7.5 12m4.5 4.5V3"
+      />
+    </svg>
+  ),
+
+  check: (props) => (
+    <svg {...defaultProps} {...props}>
+      <path strokeLinecap="round" strokeLinejoin="round" d="M4.5 12.75l6 6 9-13.5" />
+    </svg>
+  ),
+
+  clock: (props) => (
+    <svg {...defaultProps} {...props}>
+      <path strokeLinecap="round" strokeLinejoin="round" d="M12 6v6h4.5m4.5 0a9 9 0 11-18 0 9 9 0 0118 0z" />
+    </svg>
+  ),
 };
@@ -17,6 +17,18 @@ import clsx from 'clsx';
 import { Icon } from '../Icon';
 import styles from './SearchInput.module.css';
 
+/**
+ * Chip shown under the input, e.g. a filter understood in the query
+ */
+export interface SearchInputChip {
+  /** Unique id, passed to onChipRemove */
+  id: string;
+  /** Chip text */
+  label: string;
+  /** Why the chip's filter is not applied (shown as a tooltip) */
+  error?: string;
+}
+
 export interface SearchInputProps
   extends Omit<InputHTMLAttributes<HTMLInputElement>, 'onChange' | 'value'> {
   /** Current search value */
@@ -33,6 +45,10 @@ export interface SearchInputProps
   onClear?: () => void;
   /** Show loading indicator */
   isLoading?: boolean;
+  /** Chips shown under the input */
+  chips?: readonly SearchInputChip[];
+  /** Callback when a chip's remove button is clicked */
+  onChipRemove?: (id: string) => void;
   /** Additional class name */
   className?: string;
 }
@@ -51,6 +67,8 @@ export const SearchInput = memo(
       autoFocus = false,
       onClear,
       isLoading = false,
+      chips,
+      onChipRemove,
       className,
       ...props
     },
@@ -59,11 +77,18 @@ export const SearchInput = memo(
     const [internalValue, setInternalValue] = useState(value);
     const debounceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
     const inputRef = useRef<HTMLInputElement | null>(null);
+    // Last value passed to onChange, so its echo does not undo newer typing
+    const [emittedValue, setEmittedValue] = useState(value);
+    const [previousValue, setPreviousValue] = useState(value);
 
-    // Sync internal value with external value
-    useEffect(() => {
-      setInternalValue(value);
-    }, [value]);
+    // Sync internal value with external value (e.g. cleared from outside)
+    if (value !== previousValue) {
+      setPreviousValue(value);
+      if (value !== emittedValue) {
+        setEmittedValue(value);
+        setInternalValue(value);
+      }
+    }
 
     // Handle input change with debounce
     const handleChange = useCallback(
@@ -79,9 +104,11 @@ export const SearchInput = memo(
         // Debounce the onChange callback
         if (debounceMs > 0) {
           debounceTimerRef.current = setTimeout(() => {
+            setEmittedValue(newValue);
             onChange(newValue);
           }, debounceMs);
         } else {
+          setEmittedValue(newValue);
           onChange(newValue);
         }
       },
@@ -90,7 +117,11 @@ export const SearchInput = memo(
 
     // Handle clear button click
     const handleClear = useCallback(() => {
+      if (debounceTimerRef.current) {
+        clearTimeout(debounceTimerRef.current);
+      }
       setInternalValue('');
+      setEmittedValue('');
       onChange('');
       onClear?.();
 
@@ -124,9 +155,9 @@ export const SearchInput = memo(
 
     const hasValue = internalValue.length > 0;
 
-    return (
+    const input = (
       <div
-        className={clsx(styles.container, className, {
+        className={clsx(styles.container, !chips && className, {
           [styles.loading]: isLoading,
         })}
       >
@@ -164,5 +195,38 @@ export const SearchInput = memo(
         </button>
       </div>
     );
+
+    if (!chips) {
+      return input;
+    }
+
+    return (
+      <div className={clsx(styles.wrapper, className)}>
+        {input}
+        {chips.length > 0 && (
+          <ul className={styles.chips} aria-label="Active search filters">
+            {chips.map((chip) => (
+              <li
+                key={chip.id}
+                className={clsx(styles.chip, { [styles.chipError]: chip.error })}
+                title={chip.error}
+              >
+                <span>{chip.label}</span>
+                {onChipRemove && (
+                  <button
+                    type="button"
+                    className={styles.chipRemove}
+                    onClick={() => onChipRemove(chip.id)}
+                    aria-label={`Remove ${chip.label}`}
+                  >
+                    <Icon name="close" size={12} />
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    );
   })
 );
@@ -1 +1 @@
-export { SearchInput, type SearchInputProps } from './SearchInput';
+export { SearchInput, type SearchInputProps, type SearchInputChip } from './SearchInput';
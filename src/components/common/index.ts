@@ -25,7 +25,10 @@ export {
 } from './Toast';
 
 // SearchInput
-export { SearchInput, type SearchInputProps } from './SearchInput';
+export { SearchInput, type SearchInputProps, type SearchInputChip } from './SearchInput';
+
+// HighlightedText
+export { HighlightedText, type HighlightedTextProps } from './HighlightedText';
 
 // Badge
 export { Badge, type BadgeProps } from './Badge';
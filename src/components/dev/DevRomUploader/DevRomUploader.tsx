@@ -9,28 +9,9 @@ import { useState, useCallback, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useGameStore } from '@/stores';
 import type { ConsoleType, Game } from '@/types';
-import { CONSOLE_CONFIG } from '@/types';
-
-// Map file extensions to console types
-const EXTENSION_TO_CONSOLE: Record<string, ConsoleType> = {
-  '.nes': 'nes',
-  '.unf': 'nes',
-  '.fds': 'nes',
-  '.sfc': 'snes',
-  '.smc': 'snes',
-  '.z64': 'n64',
-  '.n64': 'n64',
-  '.v64': 'n64',
-  '.gb': 'gb',
-  '.gbc': 'gb',
-  '.gba': 'gba',
-  '.bin': 'ps1',
-  '.cue': 'ps1',
-  '.iso': 'ps1',
-  '.img': 'ps1',
-  '.pbp': 'ps1',
-  '.chd': 'ps1',
-};
+import { CONSOLE_CONFIG, getAllSupportedExtensions } from '@/types';
+import { inspectRom } from '@/services/emulator';
+import type { RomInspection } from '@/services/emulator';
 
 interface DevRomUploaderProps {
   onRomLoaded?: (game: Game) => void;
@@ -41,18 +22,12 @@ export function DevRomUploader({ onRomLoaded }: DevRomUploaderProps) {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [selectedConsole, setSelectedConsole] = useState<ConsoleType | ''>('');
+  const [title, setTitle] = useState('');
+  const [region, setRegion] = useState('');
+  const [inspection, setInspection] = useState<RomInspection | null>(null);
   const [error, setError] = useState<string | null>(null);
   const setGames = useGameStore((state) => state.setGames);
-  const games = useGameStore((state) => state.games);
-
-  // Detect console from file extension
-  const detectConsole = useCallback((filename: string): ConsoleType | null => {
-    const ext = filename.toLowerCase().match(/\.[^.]+$/)?.[0];
-    if (ext && ext in EXTENSION_TO_CONSOLE) {
-      return EXTENSION_TO_CONSOLE[ext];
-    }
-    return null;
-  }, []);
+  const catalogGames = useGameStore((state) => state.catalogGames);
 
   // Handle file selection
   const handleFileChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
@@ -61,13 +36,24 @@ export function DevRomUploader({ onRomLoaded }: DevRomUploaderProps) {
 
     setSelectedFile(file);
     setError(null);
+    setInspection(null);
+    setTitle(file.name.replace(/\.[^.]+$/, ''));
+    setRegion('');
 
-    // Auto-detect console
-    const detected = detectConsole(file.name);
-    if (detected) {
-      setSelectedConsole(detected);
-    }
-  }, [detectConsole]);
+    // Pre-fill console, title and region from the ROM header
+    inspectRom(file)
+      .then((result) => {
+        setInspection(result);
+        if (result.console) {
+          setSelectedConsole(result.console);
+        }
+        if (result.header?.title) {
+          setTitle(result.header.title);
+        }
+        setRegion(result.header?.region ?? '');
+      })
+      .catch(console.error);
+  }, []);
 
   // Handle console selection
   const handleConsoleChange = useCallback((e: React.ChangeEvent<HTMLSelectElement>) => {
@@ -93,15 +79,16 @@ export function DevRomUploader({ onRomLoaded }: DevRomUploaderProps) {
       // Create a temporary game entry
       const tempGame: Game = {
         id: `dev-${Date.now()}`,
-        title: selectedFile.name.replace(/\.[^.]+$/, ''),
+        title: title.trim() || selectedFile.name.replace(/\.[^.]+$/, ''),
         console: selectedConsole,
         romPath: blobUrl,
+        region: region.trim() || undefined,
         description: 'Development test ROM',
         addedAt: new Date().toISOString(),
       };
 
       // Add to games list temporarily
-      setGames([tempGame, ...games]);
+      setGames([tempGame, ...catalogGames]);
 
       // Notify parent if callback provided
       onRomLoaded?.(tempGame);
@@ -111,7 +98,7 @@ export function DevRomUploader({ onRomLoaded }: DevRomUploaderProps) {
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load ROM');
     }
-  }, [selectedFile, selectedConsole, games, setGames, navigate, onRomLoaded]);
+  }, [selectedFile, selectedConsole, title, region, catalogGames, setGames, navigate, onRomLoaded]);
 
   // Only show in development
   if (import.meta.env.PROD) {
@@ -140,7 +127,7 @@ export function DevRomUploader({ onRomLoaded }: DevRomUploaderProps) {
         <input
           ref={fileInputRef}
           type="file"
-          accept=".nes,.unf,.fds,.sfc,.smc,.z64,.n64,.v64,.gb,.gbc,.gba,.bin,.cue,.iso,.img,.pbp,.chd"
+          accept={getAllSupportedExtensions().join(',')}
           onChange={handleFileChange}
           style={{ display: 'none' }}
         />
@@ -181,6 +168,39 @@ export function DevRomUploader({ onRomLoaded }: DevRomUploaderProps) {
           ))}
         </select>
 
+        {/* Title and Region (pre-filled from the ROM header) */}
+        <input
+          type="text"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          placeholder="Title"
+          aria-label="Title"
+          style={{
+            padding: '8px 12px',
+            backgroundColor: '#1a1a2e',
+            border: '1px solid #00ffff',
+            borderRadius: '4px',
+            color: '#ffffff',
+            fontFamily: 'Rajdhani, sans-serif',
+          }}
+        />
+        <input
+          type="text"
+          value={region}
+          onChange={(e) => setRegion(e.target.value)}
+          placeholder="Region"
+          aria-label="Region"
+          style={{
+            width: '80px',
+            padding: '8px 12px',
+            backgroundColor: '#1a1a2e',
+            border: '1px solid #00ffff',
+            borderRadius: '4px',
+            color: '#ffffff',
+            fontFamily: 'Rajdhani, sans-serif',
+          }}
+        />
+
         {/* Load Button */}
         <button
           onClick={handleLoadRom}
@@ -200,6 +220,27 @@ export function DevRomUploader({ onRomLoaded }: DevRomUploaderProps) {
         </button>
       </div>
 
+      {/* ROM Header Details */}
+      {inspection && (
+        <p style={{
+          color: '#a0a0a0',
+          fontFamily: 'monospace',
+          fontSize: '12px',
+          marginTop: '10px',
+          marginBottom: 0,
+        }}>
+          {inspection.header ? inspection.header.format.toUpperCase() : 'No header'}
+          {inspection.header && 'mapper' in inspection.header && ` · mapper ${inspection.header.mapper}`}
+          {inspection.header?.format === 'snes' && ` · ${inspection.header.mapMode}`}
+          {inspection.header?.format === 'n64' && ` · ${inspection.header.byteOrder}`}
+          {inspection.header?.checksums.map((sum) =>
+            sum.valid === undefined ? null : ` · ${sum.name} ${sum.valid ? 'OK' : 'BAD'}`
+          )}
+          {inspection.crc32 && ` · CRC32 ${inspection.crc32}`}
+          {inspection.sha1 && ` · SHA-1 ${inspection.sha1}`}
+        </p>
+      )}
+
       {/* Error Message */}
       {error && (
         <p style={{ color: '#ff0055', marginTop: '10px', marginBottom: 0 }}>
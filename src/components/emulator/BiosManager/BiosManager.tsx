@@ -0,0 +1,170 @@
+/**
+ * BiosManager Component
+ *
+ * Lists the BIOS files of every console that uses one, with their
+ * verification status. Users drop or pick their own BIOS dumps; files are
+ * identified by MD5 against the console registry.
+ */
+
+import { memo, useCallback, useRef, useState, type ChangeEvent, type DragEvent } from 'react';
+import clsx from 'clsx';
+import { Badge } from '@/components/common';
+import { biosService } from '@/services/storage';
+import type { StoredBiosFile } from '@/services/database';
+import { SUPPORTED_CONSOLES, getConsoleConfig } from '@/types';
+import type { ConsoleType } from '@/types';
+import styles from './BiosManager.module.css';
+
+export interface BiosManagerProps {
+  /** BIOS files the user has supplied */
+  storedFiles: readonly StoredBiosFile[];
+  /** Callback with the files dropped or picked by the user */
+  onImport: (files: File[]) => void;
+  /** Callback to remove a stored BIOS file */
+  onRemove: (console: ConsoleType, fileName: string) => void;
+  /** Whether an import is in progress */
+  isImporting?: boolean;
+}
+
+/** Consoles with at least one known BIOS file */
+const BIOS_CONSOLES = SUPPORTED_CONSOLES.filter(
+  (consoleType) => (getConsoleConfig(consoleType).biosFiles?.length ?? 0) > 0
+);
+
+/** Display labels for BIOS regions */
+const REGION_LABELS = { us: 'US', eu: 'EU', jp: 'JP' } as const;
+
+/**
+ * Formats a byte count for display
+ */
+function formatSize(bytes: number): string {
+  return bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.round(bytes / 1024)} KB`;
+}
+
+function BiosManagerComponent({ storedFiles, onImport, onRemove, isImporting = false }: BiosManagerProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const missing = biosService.getMissingRequired(storedFiles);
+
+  const handleFiles = useCallback(
+    (fileList: FileList | null) => {
+      const files = Array.from(fileList ?? []);
+      if (files.length > 0) onImport(files);
+    },
+    [onImport]
+  );
+
+  const handleInputChange = useCallback(
+    (event: ChangeEvent<HTMLInputElement>) => {
+      handleFiles(event.target.files);
+      event.target.value = '';
+    },
+    [handleFiles]
+  );
+
+  const handleDragOver = useCallback((event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(true);
+  }, []);
+
+  const handleDragLeave = useCallback(() => setIsDragging(false), []);
+
+  const handleDrop = useCallback(
+    (event: DragEvent<HTMLDivElement>) => {
+      event.preventDefault();
+      setIsDragging(false);
+      handleFiles(event.dataTransfer.files);
+    },
+    [handleFiles]
+  );
+
+  return (
+    <div className={styles.manager}>
+      <div
+        className={clsx(styles.dropZone, isDragging && styles.dropZoneActive)}
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
+      >
+        <span className={styles.dropText}>
+          {isImporting ? 'Verifying BIOS files…' : 'Drop BIOS files here'}
+        </span>
+        <button
+          type="button"
+          className={styles.browseButton}
+          onClick={() => inputRef.current?.click()}
+          disabled={isImporting}
+        >
+          Browse
+        </button>
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          className={styles.fileInput}
+          onChange={handleInputChange}
+          tabIndex={-1}
+          aria-hidden="true"
+        />
+      </div>
+
+      {missing.length > 0 && (
+        <div className={styles.missing} role="status">
+          <span className={styles.missingTitle}>Missing required BIOS</span>
+          <ul className={styles.missingList}>
+            {missing.map(({ console: consoleType, bios }) => (
+              <li key={`${consoleType}-${bios.name}`}>
+                {getConsoleConfig(consoleType).name}: <code>{bios.name}</code>
+                {bios.description && ` (${bios.description})`}
+              </li>
+            ))}
+          </ul>
+          <span className={styles.hint}>These consoles fall back to the shared CDN BIOS.</span>
+        </div>
+      )}
+
+      {BIOS_CONSOLES.map((consoleType) => (
+        <div key={consoleType} className={styles.console}>
+          <h3 className={styles.consoleName}>{getConsoleConfig(consoleType).name}</h3>
+          <ul className={styles.files}>
+            {biosService.getConsoleStatus(consoleType, storedFiles).map(({ bios, stored }) => (
+              <li key={bios.name} className={clsx(styles.file, stored && styles.fileInstalled)}>
+                <div className={styles.fileInfo}>
+                  <code className={styles.fileName}>{bios.name}</code>
+                  {bios.description && <span className={styles.fileDescription}>{bios.description}</span>}
+                </div>
+                <div className={styles.fileMeta}>
+                  {bios.region && <Badge>{REGION_LABELS[bios.region]}</Badge>}
+                  <Badge variant={bios.required ? 'warning' : 'default'}>
+                    {bios.required ? 'Required' : 'Optional'}
+                  </Badge>
+                  {stored ? (
+                    <>
+                      <Badge variant="success">Verified · {formatSize(stored.size)}</Badge>
+                      <button
+                        type="button"
+                        className={styles.removeButton}
+                        onClick={() => onRemove(consoleType, bios.name)}
+                        aria-label={`Remove ${bios.name}`}
+                      >
+                        Remove
+                      </button>
+                    </>
+                  ) : (
+                    <Badge variant="error">Not installed</Badge>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export const BiosManager = memo(BiosManagerComponent);
+BiosManager.displayName = 'BiosManager';
+
+export default BiosManager;
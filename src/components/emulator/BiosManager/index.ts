@@ -0,0 +1,2 @@
+export { BiosManager } from './BiosManager';
+export type { BiosManagerProps } from './BiosManager';
@@ -0,0 +1,235 @@
+/**
+ * CheatManager Component
+ *
+ * Modal listing the cheats saved for a game, with toggles that apply them
+ * to the running game, a form that validates codes as they are typed
+ * (Game Genie, Pro Action Replay, GameShark or raw address:value), and
+ * import of RetroArch `.cht` files.
+ */
+
+import { memo, useCallback, useId, useMemo, useRef, useState, type ChangeEvent, type FormEvent } from 'react';
+import clsx from 'clsx';
+import { Badge, Button, Icon, Modal } from '@/components/common';
+import { useCheats } from '@/hooks/useCheats';
+import { useToast } from '@/hooks/useToast';
+import { cheatService } from '@/services/storage';
+import {
+  CHEAT_FORMAT_LABELS,
+  describeCheatLine,
+  getCheatFormats,
+  parseCheatCode,
+} from '@/services/emulator';
+import type { ConsoleType } from '@/types';
+import styles from './CheatManager.module.css';
+
+export interface CheatManagerProps {
+  /** Whether the modal is open */
+  isOpen: boolean;
+  /** Callback when the modal should close */
+  onClose: () => void;
+  /** Game the cheats belong to */
+  gameId: string;
+  /** Console of the game, which decides the accepted code formats */
+  console: ConsoleType;
+}
+
+/** Example codes shown as placeholders */
+const CODE_PLACEHOLDERS: Partial<Record<ConsoleType, string>> = {
+  nes: 'SXIOPO',
+  snes: 'DD32-6DAD or 7E0DBF09',
+  gb: '00A-17B-C49 or 01FFA0C6',
+  genesis: 'FFFE10:0009',
+  n64: '8033B1AC 0003',
+  ps1: '800C3F1C 0063',
+  gba: 'XXXXXXXX YYYYYYYY',
+};
+
+function CheatManagerComponent({ isOpen, onClose, gameId, console: consoleType }: CheatManagerProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const statusId = useId();
+  const [description, setDescription] = useState('');
+  const [code, setCode] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+
+  const { cheats, isLoading } = useCheats(gameId);
+  const { success, error: showError } = useToast();
+
+  const formats = getCheatFormats(consoleType);
+  const parsed = useMemo(() => (code.trim() ? parseCheatCode(code, consoleType) : null), [code, consoleType]);
+
+  const handleSubmit = useCallback(
+    async (event: FormEvent) => {
+      event.preventDefault();
+
+      try {
+        await cheatService.addCheat(gameId, consoleType, { description, code });
+        setDescription('');
+        setCode('');
+      } catch (error) {
+        showError(error instanceof Error ? error.message : 'Failed to add cheat');
+      }
+    },
+    [gameId, consoleType, description, code, showError]
+  );
+
+  const handleToggle = useCallback(
+    async (id: number, enabled: boolean) => {
+      try {
+        await cheatService.setEnabled(id, enabled);
+      } catch (error) {
+        showError(error instanceof Error ? error.message : 'Failed to toggle cheat');
+      }
+    },
+    [showError]
+  );
+
+  const handleDelete = useCallback(
+    async (id: number) => {
+      try {
+        await cheatService.deleteCheat(id);
+      } catch (error) {
+        showError(error instanceof Error ? error.message : 'Failed to delete cheat');
+      }
+    },
+    [showError]
+  );
+
+  const handleImport = useCallback(
+    async (event: ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      // Reset so the same file can be picked again
+      event.target.value = '';
+      if (!file) return;
+
+      setIsImporting(true);
+      try {
+        const { imported, skipped } = await cheatService.importChtFile(gameId, consoleType, file);
+        success(
+          skipped.length > 0
+            ? `Imported ${imported} cheats (${skipped.length} skipped)`
+            : `Imported ${imported} cheats`
+        );
+      } catch (error) {
+        showError(error instanceof Error ? error.message : 'Failed to import cheats');
+      } finally {
+        setIsImporting(false);
+      }
+    },
+    [gameId, consoleType, success, showError]
+  );
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Cheats" size="md">
+      {formats.length === 0 ? (
+        <p className={styles.hint}>Cheats are not supported for this console.</p>
+      ) : (
+        <div className={styles.manager}>
+          <p className={styles.hint}>
+            Accepts {formats.map((format) => CHEAT_FORMAT_LABELS[format]).join(', ')} codes. Enabled
+            cheats are applied while the game runs.
+          </p>
+
+          {!isLoading && cheats.length === 0 && <p className={styles.empty}>No cheats saved for this game.</p>}
+
+          {cheats.length > 0 && (
+            <ul className={styles.list}>
+              {cheats.map((cheat) => (
+                <li key={cheat.id} className={clsx(styles.cheat, cheat.enabled && styles.enabled)}>
+                  <label className={styles.toggle}>
+                    <input
+                      type="checkbox"
+                      role="switch"
+                      checked={cheat.enabled}
+                      onChange={(event) => handleToggle(cheat.id!, event.target.checked)}
+                    />
+                    <span className={styles.cheatName}>{cheat.description}</span>
+                  </label>
+                  <code className={styles.cheatCode}>{cheat.code.split('+').join(' + ')}</code>
+                  <Badge size="sm" className={styles.format}>
+                    {CHEAT_FORMAT_LABELS[cheat.format]}
+                  </Badge>
+                  <button
+                    type="button"
+                    className={styles.deleteButton}
+                    onClick={() => handleDelete(cheat.id!)}
+                    aria-label={`Delete ${cheat.description}`}
+                    title="Delete cheat"
+                  >
+                    <Icon name="close" size={14} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <form className={styles.form} onSubmit={handleSubmit}>
+            <input
+              type="text"
+              className={styles.input}
+              value={description}
+              onChange={(event) => setDescription(event.target.value)}
+              placeholder="Description, e.g. Infinite lives"
+              aria-label="Cheat description"
+              maxLength={80}
+            />
+            <textarea
+              className={clsx(styles.input, styles.codeInput)}
+              value={code}
+              onChange={(event) => setCode(event.target.value)}
+              placeholder={CODE_PLACEHOLDERS[consoleType] ?? '7E0DBF:09'}
+              aria-label="Cheat code"
+              aria-invalid={parsed?.error ? true : undefined}
+              aria-describedby={statusId}
+              rows={2}
+              spellCheck={false}
+            />
+            <div id={statusId} className={styles.status} aria-live="polite">
+              {parsed?.error && <span className={styles.error}>{parsed.error}</span>}
+              {parsed?.cheat && (
+                <>
+                  <span className={styles.detected}>{CHEAT_FORMAT_LABELS[parsed.cheat.format]}</span>
+                  {parsed.cheat.lines.map((line) => {
+                    const decoded = describeCheatLine(line);
+                    return decoded ? (
+                      <span key={line.code} className={styles.decoded}>
+                        {decoded}
+                      </span>
+                    ) : null;
+                  })}
+                </>
+              )}
+            </div>
+            <div className={styles.actions}>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => fileInputRef.current?.click()}
+                isLoading={isImporting}
+              >
+                Import .cht
+              </Button>
+              <Button type="submit" variant="primary" size="sm" disabled={!parsed?.cheat}>
+                Add cheat
+              </Button>
+            </div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".cht"
+              className={styles.fileInput}
+              onChange={handleImport}
+              tabIndex={-1}
+              aria-hidden="true"
+            />
+          </form>
+        </div>
+      )}
+    </Modal>
+  );
+}
+
+export const CheatManager = memo(CheatManagerComponent);
+CheatManager.displayName = 'CheatManager';
+
+export default CheatManager;
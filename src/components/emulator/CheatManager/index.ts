@@ -0,0 +1,2 @@
+export { CheatManager } from './CheatManager';
+export type { CheatManagerProps } from './CheatManager';
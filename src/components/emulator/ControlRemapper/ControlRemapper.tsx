@@ -0,0 +1,271 @@
+/**
+ * ControlRemapper Component
+ *
+ * Per-console, per-player keyboard and gamepad remapping.
+ * Click a binding, then press a key or a gamepad button / push a stick
+ * to rebind it. Escape cancels the capture.
+ */
+
+import { memo, useCallback, useEffect, useMemo, useState } from 'react';
+import clsx from 'clsx';
+import {
+  CONTROL_PLAYERS,
+  findControlConflicts,
+  formatControlMapping,
+  getAllConsoleTypes,
+  getConsoleConfig,
+  getConsoleControls,
+  getConsoleName,
+  getEffectiveMapping,
+  keyboardEventToMapping,
+  setButtonMapping,
+} from '@/services/emulator';
+import type {
+  ConsoleControlMappings,
+  ConsoleType,
+  ControlDevice,
+  ControlMappingsByConsole,
+  ControlPlayer,
+  GamepadMapping,
+  InputButton,
+  KeyboardMapping,
+} from '@/types';
+import styles from './ControlRemapper.module.css';
+
+export interface ControlRemapperProps {
+  /** Stored control overrides for every console */
+  controlMappings: ControlMappingsByConsole;
+  /** Callback when a console's overrides change */
+  onChange: (console: ConsoleType, mappings: ConsoleControlMappings) => void;
+  /** Callback when a console is reset to its defaults */
+  onReset: (console: ConsoleType) => void;
+  /** Only remap this console (hides the console tabs) */
+  console?: ConsoleType;
+}
+
+/** How far a stick must be pushed to be captured */
+const AXIS_CAPTURE_THRESHOLD = 0.6;
+
+/**
+ * Waits for a new gamepad button press or stick push.
+ * Inputs already held when capture starts are ignored.
+ */
+function captureGamepadInput(onCapture: (mapping: GamepadMapping) => void): () => void {
+  let frame = 0;
+  let baseline: { buttons: boolean[]; axes: number[] }[] | null = null;
+
+  const poll = () => {
+    const pads = Array.from(navigator.getGamepads?.() ?? []);
+    const snapshot = pads.map((pad) => ({
+      buttons: pad ? pad.buttons.map((button) => button.pressed) : [],
+      axes: pad ? Array.from(pad.axes) : [],
+    }));
+
+    if (!baseline) {
+      baseline = snapshot;
+    } else {
+      const initial = baseline;
+      for (let p = 0; p < snapshot.length; p++) {
+        const { buttons, axes } = snapshot[p];
+        const buttonIndex = buttons.findIndex((pressed, i) => pressed && !initial[p]?.buttons[i]);
+        if (buttonIndex !== -1) {
+          onCapture({ button: buttonIndex });
+          return;
+        }
+
+        const axisIndex = axes.findIndex(
+          (value, i) =>
+            Math.abs(value) > AXIS_CAPTURE_THRESHOLD &&
+            Math.abs(initial[p]?.axes[i] ?? 0) <= AXIS_CAPTURE_THRESHOLD
+        );
+        if (axisIndex !== -1) {
+          onCapture({ button: -1, axis: axisIndex, axisDirection: axes[axisIndex] > 0 ? 1 : -1 });
+          return;
+        }
+      }
+    }
+
+    frame = requestAnimationFrame(poll);
+  };
+
+  frame = requestAnimationFrame(poll);
+  return () => cancelAnimationFrame(frame);
+}
+
+function ControlRemapperComponent({ controlMappings, onChange, onReset, console: fixedConsole }: ControlRemapperProps) {
+  const [selectedConsole, setConsoleType] = useState<ConsoleType>('nes');
+  const consoleType = fixedConsole ?? selectedConsole;
+  const [player, setPlayer] = useState<ControlPlayer>('player1');
+  const [device, setDevice] = useState<ControlDevice>('keyboard');
+  const [capturing, setCapturing] = useState<InputButton | null>(null);
+
+  const overrides = controlMappings[consoleType];
+  const controls = getConsoleControls(consoleType);
+  const mapping = getEffectiveMapping(overrides, device, player);
+
+  const conflicts = useMemo(() => {
+    const byButton = new Map<InputButton, string>();
+    for (const conflict of findControlConflicts(consoleType, overrides)) {
+      if (conflict.device === device && conflict.player === player && !byButton.has(conflict.button)) {
+        byButton.set(conflict.button, conflict.reason);
+      }
+    }
+    return byButton;
+  }, [consoleType, overrides, device, player]);
+
+  // Stop capturing when the selection changes
+  const selectConsole = useCallback((type: ConsoleType) => {
+    setCapturing(null);
+    setConsoleType(type);
+  }, []);
+
+  const selectPlayer = useCallback((slot: ControlPlayer) => {
+    setCapturing(null);
+    setPlayer(slot);
+  }, []);
+
+  const selectDevice = useCallback((type: ControlDevice) => {
+    setCapturing(null);
+    setDevice(type);
+  }, []);
+
+  const handleReset = useCallback(() => {
+    setCapturing(null);
+    onReset(consoleType);
+  }, [consoleType, onReset]);
+
+  // Capture the next key press or gamepad input for the selected button
+  useEffect(() => {
+    if (!capturing) return;
+
+    const bind = (binding: KeyboardMapping | GamepadMapping) => {
+      setCapturing(null);
+      onChange(consoleType, setButtonMapping(overrides, device, player, capturing, binding));
+    };
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      event.preventDefault();
+      event.stopPropagation();
+
+      if (event.key === 'Escape') {
+        setCapturing(null);
+        return;
+      }
+      if (device === 'keyboard') {
+        const binding = keyboardEventToMapping(event);
+        if (binding) bind(binding);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    const stopGamepadCapture = device === 'gamepad' ? captureGamepadInput(bind) : undefined;
+
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown, true);
+      stopGamepadCapture?.();
+    };
+  }, [capturing, consoleType, device, player, overrides, onChange]);
+
+  return (
+    <div className={styles.remapper}>
+      <div className={styles.selectors}>
+        {!fixedConsole && (
+          <div className={styles.tabs} role="tablist" aria-label="Console">
+            {getAllConsoleTypes().map((type) => (
+              <button
+                key={type}
+                type="button"
+                role="tab"
+                aria-selected={type === consoleType}
+                className={clsx(styles.tab, type === consoleType && styles.tabActive)}
+                onClick={() => selectConsole(type)}
+                title={getConsoleName(type)}
+              >
+                {getConsoleConfig(type).shortName}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className={styles.selectorRow}>
+          <div className={styles.tabs} role="tablist" aria-label="Player">
+            {CONTROL_PLAYERS.map((slot, index) => (
+              <button
+                key={slot}
+                type="button"
+                role="tab"
+                aria-selected={slot === player}
+                className={clsx(styles.tab, slot === player && styles.tabActive)}
+                onClick={() => selectPlayer(slot)}
+              >
+                P{index + 1}
+              </button>
+            ))}
+          </div>
+
+          <div className={styles.tabs} role="tablist" aria-label="Device">
+            {(['keyboard', 'gamepad'] as const).map((type) => (
+              <button
+                key={type}
+                type="button"
+                role="tab"
+                aria-selected={type === device}
+                className={clsx(styles.tab, type === device && styles.tabActive)}
+                onClick={() => selectDevice(type)}
+              >
+                {type === 'keyboard' ? 'Keyboard' : 'Gamepad'}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <ul className={styles.bindings}>
+        {controls.map(({ button, label }) => {
+          const conflict = conflicts.get(button);
+          const isCapturing = capturing === button;
+
+          return (
+            <li key={button} className={clsx(styles.binding, conflict && styles.bindingConflict)}>
+              <span className={styles.buttonLabel}>{label}</span>
+              <button
+                type="button"
+                className={clsx(styles.bindingButton, isCapturing && styles.bindingButtonCapturing)}
+                onClick={() => setCapturing(isCapturing ? null : button)}
+                aria-label={`Rebind ${label}`}
+              >
+                {isCapturing
+                  ? device === 'keyboard'
+                    ? 'Press a key…'
+                    : 'Press a button…'
+                  : formatControlMapping(mapping[button]) || 'Unbound'}
+              </button>
+              {conflict && <span className={styles.conflict}>{conflict}</span>}
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className={styles.footer}>
+        <span className={styles.hint}>
+          {conflicts.size > 0
+            ? `${conflicts.size} conflicting binding${conflicts.size === 1 ? '' : 's'}`
+            : 'Click a binding to change it'}
+        </span>
+        <button
+          type="button"
+          className={styles.resetButton}
+          onClick={handleReset}
+          disabled={!overrides}
+        >
+          Reset {getConsoleName(consoleType)}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export const ControlRemapper = memo(ControlRemapperComponent);
+ControlRemapper.displayName = 'ControlRemapper';
+
+export default ControlRemapper;
@@ -0,0 +1,2 @@
+export { ControlRemapper } from './ControlRemapper';
+export type { ControlRemapperProps } from './ControlRemapper';
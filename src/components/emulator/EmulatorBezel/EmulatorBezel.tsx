@@ -22,30 +22,6 @@ export interface EmulatorBezelProps {
   className?: string;
 }
 
-/**
- * Console-specific accent colors
- */
-const CONSOLE_COLORS: Record<ConsoleType, string> = {
-  nes: '#E60012',
-  snes: '#7B5AA6',
-  n64: '#009E60',
-  gb: '#8B956D',
-  gba: '#5A2D82',
-  ps1: '#003087',
-};
-
-/**
- * Console-specific secondary colors for gradients
- */
-const CONSOLE_SECONDARY_COLORS: Record<ConsoleType, string> = {
-  nes: '#8B0000',
-  snes: '#4B2A66',
-  n64: '#006030',
-  gb: '#5B654D',
-  gba: '#3A1D52',
-  ps1: '#001057',
-};
-
 /**
  * PlayStation button symbols component
  */
@@ -66,9 +42,10 @@ function EmulatorBezelComponent({
   console: consoleType,
   className = '',
 }: EmulatorBezelProps) {
-  const accentColor = consoleType ? CONSOLE_COLORS[consoleType] : '#00ffff';
-  const secondaryColor = consoleType ? CONSOLE_SECONDARY_COLORS[consoleType] : '#006666';
-  const consoleName = consoleType ? CONSOLE_CONFIG[consoleType].name : 'RETRO';
+  const consoleConfig = consoleType ? CONSOLE_CONFIG[consoleType] : undefined;
+  const accentColor = consoleConfig?.color ?? '#00ffff';
+  const secondaryColor = consoleConfig?.secondaryColor ?? '#006666';
+  const consoleName = consoleConfig?.name ?? 'RETRO';
   const { hasGamepad, primaryGamepad } = useGamepad();
   const isPlayStation = consoleType === 'ps1';
 
@@ -3,12 +3,22 @@
  *
  * Main container for the EmulatorJS player.
  * Handles initialization, loading states, error handling, cleanup,
- * and keyboard shortcuts (ESC for menu, F for fullscreen).
+ * auto-save/resume, the game's enabled cheats, rewind/fast-forward/slow
+ * motion, per-player gamepads (including controllers plugged in or out
+ * mid-game), and keyboard shortcuts (ESC for menu, F for fullscreen).
  */
 
-import { memo, useCallback, useEffect, useRef, useState } from 'react';
+import { memo, useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { useEmulator } from '@/hooks/useEmulator';
+import { useAutoSave } from '@/hooks/useAutoSave';
+import { useCheats } from '@/hooks/useCheats';
+import { useSpeedControls } from '@/hooks/useSpeedControls';
+import { useGamepadAssignments } from '@/hooks/useGamepadAssignments';
+import { useToast } from '@/hooks/useToast';
 import { useEmulatorStore } from '@/stores/emulatorStore';
+import { saveStateService } from '@/services/storage';
+import { CONTROL_PLAYERS, toEjsGamepadSelection, type ResolvedGamepads } from '@/services/emulator';
+import { SAVE_SLOT } from '@/types';
 import { LoadingOverlay } from '../LoadingOverlay';
 import { ErrorOverlay } from '../ErrorOverlay';
 import type { Game } from '@/types';
@@ -23,6 +33,8 @@ export interface EmulatorContainerProps {
   onError?: (error: string) => void;
   /** Callback when user clicks back in error overlay */
   onBack?: () => void;
+  /** Load the game's auto-save once the emulator has started */
+  resumeFromAutoSave?: boolean;
 }
 
 /**
@@ -36,6 +48,10 @@ function getLoadingStatus(progress: number): string {
   return 'Starting...';
 }
 
+/** How long to wait for the EmulatorJS game manager before giving up on resume */
+const RESUME_MAX_ATTEMPTS = 20;
+const RESUME_RETRY_DELAY = 500;
+
 /**
  * Main emulator container component.
  * Integrates with EmulatorJS through the useEmulator hook.
@@ -45,6 +61,7 @@ function EmulatorContainerComponent({
   onReady,
   onError,
   onBack,
+  resumeFromAutoSave = false,
 }: EmulatorContainerProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const [retryCount, setRetryCount] = useState(0);
@@ -61,6 +78,10 @@ function EmulatorContainerComponent({
   const loadGame = useEmulatorStore((state) => state.loadGame);
   const unloadGame = useEmulatorStore((state) => state.unloadGame);
   const storeVolume = useEmulatorStore((state) => state.volume);
+  const isFastForward = useEmulatorStore((state) => state.isFastForward);
+  const isSlowMotion = useEmulatorStore((state) => state.isSlowMotion);
+  const isRewinding = useEmulatorStore((state) => state.isRewinding);
+  const currentShader = useEmulatorStore((state) => state.currentShader);
 
   /**
    * Complete the loading sequence - called when emulator is ready or game starts.
@@ -89,6 +110,15 @@ function EmulatorContainerComponent({
     setVolume,
     toggleFullscreen,
     toggleMenu,
+    saveState,
+    loadState,
+    captureScreenshot,
+    applyCheats,
+    setFastForward: setEmulatorFastForward,
+    setSlowMotion: setEmulatorSlowMotion,
+    setRewinding: setEmulatorRewinding,
+    setShader,
+    setGamepadSelection,
   } = useEmulator(containerRef, {
     onReady: () => {
       // Complete loading when emulator signals ready
@@ -111,6 +141,54 @@ function EmulatorContainerComponent({
     enableThreads: false, // Disable threading for better frame pacing on high refresh rate monitors
   });
 
+  // Auto-save to the AUTO slot while the game is running and on exit.
+  // Declared before the init effect so its unmount save runs before cleanup().
+  const { saveNow: autoSaveNow } = useAutoSave(game.id, {
+    isActive: !showCustomLoader && !error,
+    saveState,
+    consoleType: game.console,
+    captureScreenshot,
+  });
+
+  // Resume from the auto-save once the game has started
+  useEffect(() => {
+    if (!resumeFromAutoSave || showCustomLoader || error) return;
+
+    let cancelled = false;
+    let attempts = 0;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const tryResume = async () => {
+      if (cancelled) return;
+
+      // The fallback loading detection can fire before the game manager exists
+      if (!window.EJS_emulator?.gameManager) {
+        if (++attempts < RESUME_MAX_ATTEMPTS) {
+          retryTimer = setTimeout(tryResume, RESUME_RETRY_DELAY);
+        } else {
+          console.warn('[Emulator] Could not resume: emulator did not become ready');
+        }
+        return;
+      }
+
+      try {
+        const data = await saveStateService.loadState(game.id, SAVE_SLOT.AUTO);
+        if (data && !cancelled) {
+          await loadState(data);
+        }
+      } catch (err) {
+        console.error('[Emulator] Failed to resume from auto-save:', err);
+      }
+    };
+
+    tryResume();
+
+    return () => {
+      cancelled = true;
+      if (retryTimer) clearTimeout(retryTimer);
+    };
+  }, [resumeFromAutoSave, showCustomLoader, error, game.id, loadState]);
+
   // Initialize emulator when game changes or on retry
   useEffect(() => {
     if (!game) return;
@@ -122,7 +200,7 @@ function EmulatorContainerComponent({
 
     loadGame(game);
     setLoading(true);
-    initializeEmulator(game);
+    initializeEmulator(game, retryCount);
 
     return () => {
       cleanup();
@@ -218,6 +296,66 @@ function EmulatorContainerComponent({
     }
   }, [isReady, storeVolume, setVolume]);
 
+  // Apply the enabled cheats once the game runs and whenever they change
+  const { enabledCheats } = useCheats(game.id);
+  const cheatCodes = useMemo(() => enabledCheats.map((cheat) => cheat.code), [enabledCheats]);
+
+  useEffect(() => {
+    if (showCustomLoader || error) return;
+
+    const timer = setTimeout(() => {
+      if (!applyCheats(cheatCodes) && cheatCodes.length > 0) {
+        console.warn('Cheats are not supported by this core');
+      }
+    }, 100);
+    return () => clearTimeout(timer);
+  }, [showCustomLoader, error, cheatCodes, applyCheats]);
+
+  // Rewind, fast-forward and slow motion: inputs update the store, which is applied here
+  useSpeedControls(isReady && !error);
+
+  useEffect(() => {
+    if (isReady) setEmulatorFastForward(isFastForward);
+  }, [isReady, isFastForward, setEmulatorFastForward]);
+
+  useEffect(() => {
+    if (isReady) setEmulatorSlowMotion(isSlowMotion);
+  }, [isReady, isSlowMotion, setEmulatorSlowMotion]);
+
+  useEffect(() => {
+    if (isReady) setEmulatorRewinding(isRewinding);
+  }, [isReady, isRewinding, setEmulatorRewinding]);
+
+  // Shader picked in-game; null keeps the one the game started with
+  useEffect(() => {
+    if (isReady && currentShader !== null) setShader(currentShader);
+  }, [isReady, currentShader, setShader]);
+
+  // Give each player their gamepad, again whenever one is plugged in or out
+  const { resolved: playerGamepads } = useGamepadAssignments();
+  const { info, warning } = useToast();
+  const previousGamepadsRef = useRef<ResolvedGamepads | null>(null);
+
+  useEffect(() => {
+    if (!isReady) return;
+
+    setGamepadSelection(toEjsGamepadSelection(playerGamepads));
+
+    const previous = previousGamepadsRef.current;
+    previousGamepadsRef.current = playerGamepads;
+    if (!previous) return;
+
+    CONTROL_PLAYERS.forEach((player, slot) => {
+      const before = previous[player];
+      const after = playerGamepads[player];
+      if (after && (before?.id !== after.id || before.index !== after.index)) {
+        info(`Controller connected to Player ${slot + 1}`);
+      } else if (before && !after) {
+        warning(`Player ${slot + 1} controller disconnected`);
+      }
+    });
+  }, [isReady, playerGamepads, setGamepadSelection, info, warning]);
+
   // Keyboard shortcuts: F = fullscreen, ESC = menu
   useEffect(() => {
     if (!isReady) return;
@@ -256,11 +394,12 @@ function EmulatorContainerComponent({
   }, []);
 
   // Handle back navigation
-  const handleBack = useCallback(() => {
+  const handleBack = useCallback(async () => {
+    await autoSaveNow();
     cleanup();
     unloadGame();
     onBack?.();
-  }, [cleanup, unloadGame, onBack]);
+  }, [autoSaveNow, cleanup, unloadGame, onBack]);
 
   return (
     <div
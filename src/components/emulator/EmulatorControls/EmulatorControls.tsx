@@ -2,13 +2,26 @@
  * EmulatorControls Component
  *
  * Control bar below the emulator with volume, fullscreen, save/load,
- * and playback controls. Connects to the emulator store for state management.
+ * cheats, shader selection, player controllers, per-game settings, and playback controls
+ * (pause, hold-to-rewind, fast-forward and slow motion). Connects to the emulator store for state
+ * management.
  */
 
-import { memo, useCallback, useEffect, useRef } from 'react';
+import { memo, useCallback, useEffect, useRef, useState, type KeyboardEvent as ReactKeyboardEvent } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
 import { useEmulatorStore } from '@/stores/emulatorStore';
 import { useFullscreen } from '@/hooks/useFullscreen';
+import { useCheats } from '@/hooks/useCheats';
+import { useToast } from '@/hooks/useToast';
+import { Button, Modal } from '@/components/common';
+import { getCheatFormats, getPresetShader, resolveShader } from '@/services/emulator';
+import { settingsProfileService, settingsService } from '@/services/storage';
+import { CONSOLE_CONFIG } from '@/types';
 import { VolumeControl } from '../VolumeControl';
+import { CheatManager } from '../CheatManager';
+import { ShaderPicker } from '../ShaderPicker';
+import { SettingsProfileEditor } from '../SettingsProfileEditor';
+import { PlayerAssignment } from '../PlayerAssignment';
 import styles from './EmulatorControls.module.css';
 
 export interface EmulatorControlsProps {
@@ -51,6 +64,60 @@ function PauseIcon() {
   );
 }
 
+/**
+ * Rewind icon
+ */
+function RewindIcon() {
+  return (
+    <svg
+      viewBox="0 0 24 24"
+      fill="currentColor"
+      aria-hidden="true"
+    >
+      <polygon points="11,5 2,12 11,19 11,5" />
+      <polygon points="22,5 13,12 22,19 22,5" />
+    </svg>
+  );
+}
+
+/**
+ * Fast-forward icon
+ */
+function FastForwardIcon() {
+  return (
+    <svg
+      viewBox="0 0 24 24"
+      fill="currentColor"
+      aria-hidden="true"
+    >
+      <polygon points="13,5 22,12 13,19 13,5" />
+      <polygon points="2,5 11,12 2,19 2,5" />
+    </svg>
+  );
+}
+
+/**
+ * Slow motion icon (hourglass)
+ */
+function SlowMotionIcon() {
+  return (
+    <svg
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      aria-hidden="true"
+    >
+      <path d="M6,2H18" />
+      <path d="M6,22H18" />
+      <path d="M7,2V6a5,5,0,0,0,10,0V2" />
+      <path d="M7,22V18a5,5,0,0,1,10,0v4" />
+    </svg>
+  );
+}
+
 /**
  * Save icon
  */
@@ -92,6 +159,50 @@ function SettingsIcon() {
   );
 }
 
+/**
+ * Shader icon
+ */
+function ShaderIcon() {
+  return (
+    <svg
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      aria-hidden="true"
+    >
+      <rect x="2" y="4" width="20" height="14" rx="2" />
+      <line x1="6" y1="9" x2="18" y2="9" />
+      <line x1="6" y1="13" x2="18" y2="13" />
+      <line x1="8" y1="22" x2="16" y2="22" />
+    </svg>
+  );
+}
+
+/**
+ * Players icon
+ */
+function PlayersIcon() {
+  return (
+    <svg
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      aria-hidden="true"
+    >
+      <path d="M17 21v-2a4 4 0 0 0-4-4H5a4 4 0 0 0-4 4v2" />
+      <circle cx="9" cy="7" r="4" />
+      <path d="M23 21v-2a4 4 0 0 0-3-3.87" />
+      <path d="M16 3.13a4 4 0 0 1 0 7.75" />
+    </svg>
+  );
+}
+
 /**
  * Gamepad icon
  */
@@ -115,6 +226,27 @@ function GamepadIcon() {
   );
 }
 
+/**
+ * Cheats icon
+ */
+function CheatsIcon() {
+  return (
+    <svg
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      aria-hidden="true"
+    >
+      <polyline points="16,18 22,12 16,6" />
+      <polyline points="8,6 2,12 8,18" />
+      <line x1="14" y1="4" x2="10" y2="20" />
+    </svg>
+  );
+}
+
 /**
  * Fullscreen expand icon
  */
@@ -168,6 +300,11 @@ function EmulatorControlsComponent({
   className = '',
 }: EmulatorControlsProps) {
   const controlsRef = useRef<HTMLDivElement>(null);
+  const [isCheatManagerOpen, setIsCheatManagerOpen] = useState(false);
+  const [isShaderPickerOpen, setIsShaderPickerOpen] = useState(false);
+  const [isGameSettingsOpen, setIsGameSettingsOpen] = useState(false);
+  const [isPlayersOpen, setIsPlayersOpen] = useState(false);
+  const { error: showError } = useToast();
 
   // Store state
   const isPlaying = useEmulatorStore((state) => state.isPlaying);
@@ -175,6 +312,11 @@ function EmulatorControlsComponent({
   const volume = useEmulatorStore((state) => state.volume);
   const isMuted = useEmulatorStore((state) => state.isMuted);
   const showVirtualGamepad = useEmulatorStore((state) => state.showVirtualGamepad);
+  const currentGame = useEmulatorStore((state) => state.currentGame);
+  const isFastForward = useEmulatorStore((state) => state.isFastForward);
+  const isSlowMotion = useEmulatorStore((state) => state.isSlowMotion);
+  const isRewinding = useEmulatorStore((state) => state.isRewinding);
+  const currentShader = useEmulatorStore((state) => state.currentShader);
 
   // Store actions
   const setPlaying = useEmulatorStore((state) => state.setPlaying);
@@ -182,12 +324,34 @@ function EmulatorControlsComponent({
   const toggleMute = useEmulatorStore((state) => state.toggleMute);
   const toggleVirtualGamepad = useEmulatorStore((state) => state.toggleVirtualGamepad);
   const setFullscreen = useEmulatorStore((state) => state.setFullscreen);
+  const toggleFastForward = useEmulatorStore((state) => state.toggleFastForward);
+  const toggleSlowMotion = useEmulatorStore((state) => state.toggleSlowMotion);
+  const setRewinding = useEmulatorStore((state) => state.setRewinding);
+  const setCurrentShader = useEmulatorStore((state) => state.setCurrentShader);
+
+  // Settings of the running game, with its console and game profiles applied
+  const settings = useLiveQuery(
+    () => (currentGame ? settingsProfileService.getEffectiveSettings(currentGame) : undefined),
+    [currentGame]
+  );
+
+  // Rewind only works when enabled in the settings before the game started
+  const rewindEnabled = settings?.rewindEnabled ?? false;
+
+  // Shader saved for the game's console; the picker previews others live
+  const shaderPreset = currentGame && settings ? getPresetShader(currentGame.console, settings.display.shader) : '';
+  const savedShader = currentGame && settings ? resolveShader(currentGame.console, settings) : '';
+  const activeShader = currentShader ?? savedShader;
 
   // Fullscreen hook - use emulatorRef if provided, otherwise use controls parent
   const { isFullscreen, toggleFullscreen, isSupported: isFullscreenSupported } = useFullscreen(
     emulatorRef ?? { current: null }
   );
 
+  // Cheats of the running game
+  const { enabledCheats } = useCheats(currentGame?.id ?? null);
+  const supportsCheats = currentGame ? getCheatFormats(currentGame.console).length > 0 : false;
+
   // Sync fullscreen state with store
   useEffect(() => {
     setFullscreen(isFullscreen);
@@ -206,6 +370,59 @@ function EmulatorControlsComponent({
     }
   }, [isPlaying, setPlaying]);
 
+  // Rewind while the button is held (pointer, or Space/Enter when focused)
+  const handleRewindKeyDown = useCallback(
+    (event: ReactKeyboardEvent<HTMLButtonElement>) => {
+      if (event.key === ' ' || event.key === 'Enter') {
+        event.preventDefault();
+        event.stopPropagation();
+        setRewinding(true);
+      }
+    },
+    [setRewinding]
+  );
+
+  const handleRewindKeyUp = useCallback(
+    (event: ReactKeyboardEvent<HTMLButtonElement>) => {
+      if (event.key === ' ' || event.key === 'Enter') {
+        setRewinding(false);
+      }
+    },
+    [setRewinding]
+  );
+
+  // Closing the shader picker without saving goes back to the saved shader
+  const handleShaderPickerClose = useCallback(() => {
+    if (currentShader !== null && currentShader !== savedShader) {
+      setCurrentShader(savedShader);
+    }
+    setIsShaderPickerOpen(false);
+  }, [currentShader, savedShader, setCurrentShader]);
+
+  const handleShaderSave = useCallback(
+    async (scope: 'game' | 'console') => {
+      if (!currentGame) return;
+
+      try {
+        if (scope === 'game') {
+          await settingsProfileService.setOverride('game', currentGame.id, 'shader', activeShader);
+        } else {
+          // Picking the preset again follows the preset rather than pinning it
+          await settingsService.setConsoleShader(
+            currentGame.console,
+            activeShader === shaderPreset ? null : activeShader
+          );
+          // The console's shader now applies to this game too
+          await settingsProfileService.setOverride('game', currentGame.id, 'shader', undefined);
+        }
+        setIsShaderPickerOpen(false);
+      } catch (error) {
+        showError(error instanceof Error ? error.message : 'Failed to save shader');
+      }
+    },
+    [currentGame, activeShader, shaderPreset, showError]
+  );
+
   // Handle volume change
   const handleVolumeChange = useCallback(
     (newVolume: number) => {
@@ -306,6 +523,55 @@ function EmulatorControlsComponent({
             {isPlaying ? <PauseIcon /> : <PlayIcon />}
           </span>
         </button>
+
+        {rewindEnabled && (
+          <button
+            type="button"
+            className={`${styles.controlButton} ${isRewinding ? styles.active : ''}`}
+            onPointerDown={() => setRewinding(true)}
+            onPointerUp={() => setRewinding(false)}
+            onPointerLeave={() => setRewinding(false)}
+            onPointerCancel={() => setRewinding(false)}
+            onKeyDown={handleRewindKeyDown}
+            onKeyUp={handleRewindKeyUp}
+            disabled={isDisabled}
+            aria-label="Rewind (hold)"
+            aria-pressed={isRewinding}
+            title="Rewind (hold Backspace)"
+          >
+            <span className={styles.icon}>
+              <RewindIcon />
+            </span>
+          </button>
+        )}
+
+        <button
+          type="button"
+          className={`${styles.controlButton} ${isFastForward ? styles.active : ''}`}
+          onClick={toggleFastForward}
+          disabled={isDisabled}
+          aria-label={isFastForward ? 'Stop fast-forward' : 'Fast-forward'}
+          aria-pressed={isFastForward}
+          title="Fast-forward (=, or hold `)"
+        >
+          <span className={styles.icon}>
+            <FastForwardIcon />
+          </span>
+        </button>
+
+        <button
+          type="button"
+          className={`${styles.controlButton} ${isSlowMotion ? styles.active : ''}`}
+          onClick={toggleSlowMotion}
+          disabled={isDisabled}
+          aria-label={isSlowMotion ? 'Stop slow motion' : 'Slow motion'}
+          aria-pressed={isSlowMotion}
+          title="Slow motion (hold -)"
+        >
+          <span className={styles.icon}>
+            <SlowMotionIcon />
+          </span>
+        </button>
       </div>
 
       {/* Center Section - Volume */}
@@ -336,6 +602,54 @@ function EmulatorControlsComponent({
           </button>
         )}
 
+        {/* Cheats */}
+        {supportsCheats && (
+          <button
+            type="button"
+            className={`${styles.controlButton} ${enabledCheats.length > 0 ? styles.active : ''}`}
+            onClick={() => setIsCheatManagerOpen(true)}
+            disabled={isDisabled}
+            aria-label={
+              enabledCheats.length > 0 ? `Cheats (${enabledCheats.length} enabled)` : 'Cheats'
+            }
+            title="Cheats"
+          >
+            <span className={styles.icon}>
+              <CheatsIcon />
+            </span>
+          </button>
+        )}
+
+        {/* Shader */}
+        {currentGame && (
+          <button
+            type="button"
+            className={`${styles.controlButton} ${isShaderPickerOpen ? styles.active : ''}`}
+            onClick={() => setIsShaderPickerOpen(true)}
+            disabled={isDisabled}
+            aria-label="Choose shader"
+            title="Shader"
+          >
+            <span className={styles.icon}>
+              <ShaderIcon />
+            </span>
+          </button>
+        )}
+
+        {/* Controller of each player */}
+        <button
+          type="button"
+          className={`${styles.controlButton} ${isPlayersOpen ? styles.active : ''}`}
+          onClick={() => setIsPlayersOpen(true)}
+          disabled={isDisabled}
+          aria-label="Assign controllers to players"
+          title="Players"
+        >
+          <span className={styles.icon}>
+            <PlayersIcon />
+          </span>
+        </button>
+
         {/* Virtual Gamepad Toggle (for mobile) */}
         <button
           type="button"
@@ -351,13 +665,14 @@ function EmulatorControlsComponent({
           </span>
         </button>
 
-        {/* Settings (placeholder for future) */}
+        {/* Settings of this game */}
         <button
           type="button"
-          className={styles.controlButton}
-          disabled={true}
-          aria-label="Settings (coming soon)"
-          title="Settings (Coming Soon)"
+          className={`${styles.controlButton} ${isGameSettingsOpen ? styles.active : ''}`}
+          onClick={() => setIsGameSettingsOpen(true)}
+          disabled={isDisabled || !currentGame}
+          aria-label="Game settings"
+          title="Game Settings"
         >
           <span className={styles.icon}>
             <SettingsIcon />
@@ -381,6 +696,62 @@ function EmulatorControlsComponent({
           </button>
         )}
       </div>
+
+      {currentGame && supportsCheats && (
+        <CheatManager
+          isOpen={isCheatManagerOpen}
+          onClose={() => setIsCheatManagerOpen(false)}
+          gameId={currentGame.id}
+          console={currentGame.console}
+        />
+      )}
+
+      {currentGame && (
+        <Modal isOpen={isShaderPickerOpen} onClose={handleShaderPickerClose} title="Shader" size="md">
+          <ShaderPicker
+            value={activeShader}
+            preset={shaderPreset}
+            onChange={setCurrentShader}
+            label={`Shader for ${CONSOLE_CONFIG[currentGame.console].name}`}
+          />
+          <div className={styles.shaderActions}>
+            <Button variant="ghost" size="sm" onClick={handleShaderPickerClose}>
+              Cancel
+            </Button>
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => handleShaderSave('game')}
+              disabled={activeShader === savedShader}
+            >
+              Save for this game
+            </Button>
+            <Button
+              variant="primary"
+              size="sm"
+              onClick={() => handleShaderSave('console')}
+              disabled={activeShader === savedShader}
+            >
+              Save for {CONSOLE_CONFIG[currentGame.console].shortName}
+            </Button>
+          </div>
+        </Modal>
+      )}
+
+      {currentGame && (
+        <Modal
+          isOpen={isGameSettingsOpen}
+          onClose={() => setIsGameSettingsOpen(false)}
+          title={`${currentGame.title} Settings`}
+          size="lg"
+        >
+          <SettingsProfileEditor game={currentGame} />
+        </Modal>
+      )}
+
+      <Modal isOpen={isPlayersOpen} onClose={() => setIsPlayersOpen(false)} title="Players" size="md">
+        <PlayerAssignment players={currentGame?.players} />
+      </Modal>
     </div>
   );
 }
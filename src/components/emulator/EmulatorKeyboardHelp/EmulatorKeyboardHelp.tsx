@@ -7,6 +7,7 @@ import { memo, useMemo } from 'react';
 import clsx from 'clsx';
 import type { ConsoleType } from '@/types/console.types';
 import { CONSOLE_CONFIG } from '@/types/console.types';
+import { formatControlMapping, getDefaultMapping } from '@/services/emulator';
 import { Modal } from '@/components/common/Modal';
 import { Icon, type IconName } from '@/components/common/Icon';
 import styles from './EmulatorKeyboardHelp.module.css';
@@ -63,59 +64,52 @@ const BASE_MAPPINGS: MappingSection[] = [
       { action: 'EmulatorJS Menu', keys: ['Esc'] },
     ],
   },
+  {
+    title: 'Speed',
+    icon: 'clock',
+    mappings: [
+      { action: 'Rewind (hold, if enabled)', keys: ['Backspace'] },
+      { action: 'Fast-Forward (hold)', keys: ['`'] },
+      { action: 'Fast-Forward On/Off', keys: ['='] },
+      { action: 'Slow Motion (hold)', keys: ['-'] },
+    ],
+  },
 ];
 
 /**
- * Console-specific action button mappings (EmulatorJS defaults)
+ * Console inputs that are not part of the remappable button layout
  */
-const CONSOLE_ACTION_MAPPINGS: Record<ConsoleType, KeyMapping[]> = {
-  nes: [
-    { action: 'A Button', keys: ['X'] },
-    { action: 'B Button', keys: ['Z'] },
-  ],
-  snes: [
-    { action: 'A Button', keys: ['X'] },
-    { action: 'B Button', keys: ['Z'] },
-    { action: 'X Button', keys: ['S'] },
-    { action: 'Y Button', keys: ['A'] },
-    { action: 'L Shoulder', keys: ['Q'] },
-    { action: 'R Shoulder', keys: ['E'] },
-  ],
+const CONSOLE_EXTRA_MAPPINGS: Partial<Record<ConsoleType, KeyMapping[]>> = {
   ps1: [
-    { action: '✕ Cross', keys: ['X'] },
-    { action: '○ Circle', keys: ['S'] },
-    { action: '□ Square', keys: ['Z'] },
-    { action: '△ Triangle', keys: ['A'] },
-    { action: 'L1', keys: ['Q'] },
-    { action: 'R1', keys: ['E'] },
-    { action: 'L2', keys: ['Tab'] },
-    { action: 'R2', keys: ['R'] },
     { action: 'L Stick', keys: ['T/G/F/H'] },
     { action: 'R Stick', keys: ['I/K/J/L'] },
   ],
   n64: [
-    { action: 'A Button', keys: ['X'] },
-    { action: 'B Button', keys: ['Z'] },
     { action: 'C-Up', keys: ['I'] },
     { action: 'C-Down', keys: ['K'] },
     { action: 'C-Left', keys: ['J'] },
     { action: 'C-Right', keys: ['L'] },
-    { action: 'L Shoulder', keys: ['Q'] },
-    { action: 'R Shoulder', keys: ['E'] },
-    { action: 'Z Trigger', keys: ['Space'] },
-  ],
-  gb: [
-    { action: 'A Button', keys: ['X'] },
-    { action: 'B Button', keys: ['Z'] },
-  ],
-  gba: [
-    { action: 'A Button', keys: ['X'] },
-    { action: 'B Button', keys: ['Z'] },
-    { action: 'L Shoulder', keys: ['Q'] },
-    { action: 'R Shoulder', keys: ['E'] },
   ],
+  nds: [{ action: 'Touch Screen', keys: ['Mouse'] }],
 };
 
+/**
+ * Builds the action rows for a console from its registry buttons and the
+ * default player 1 keyboard layout. Start and Select are listed under System
+ * unless the console names them differently.
+ */
+function getConsoleActionMappings(consoleType: ConsoleType): KeyMapping[] {
+  const keyboard = getDefaultMapping('keyboard', 'player1');
+  const actions = CONSOLE_CONFIG[consoleType].buttons
+    .filter(
+      ({ button, label }) =>
+        !(button === 'start' && label === 'Start') && !(button === 'select' && label === 'Select')
+    )
+    .map(({ button, label }) => ({ action: label, keys: [formatControlMapping(keyboard[button]) || '—'] }));
+
+  return [...actions, ...(CONSOLE_EXTRA_MAPPINGS[consoleType] ?? [])];
+}
+
 /**
  * KeyDisplay component for rendering keyboard keys
  */
@@ -169,7 +163,7 @@ export const EmulatorKeyboardHelp = memo(function EmulatorKeyboardHelp({
 
   // Build sections with console-specific actions
   const sections = useMemo<MappingSection[]>(() => {
-    const actionMappings = CONSOLE_ACTION_MAPPINGS[consoleType] || [];
+    const actionMappings = getConsoleActionMappings(consoleType);
 
     return [
       BASE_MAPPINGS[0], // Movement
@@ -179,6 +173,7 @@ export const EmulatorKeyboardHelp = memo(function EmulatorKeyboardHelp({
         mappings: actionMappings,
       },
       BASE_MAPPINGS[1], // System
+      BASE_MAPPINGS[2], // Speed
     ];
   }, [consoleType]);
 
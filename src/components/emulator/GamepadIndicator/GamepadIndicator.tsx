@@ -1,11 +1,13 @@
 /**
  * GamepadIndicator Component
- * Shows connection status of physical gamepad controllers
+ * Shows connection status of physical gamepad controllers and the player
+ * each one controls
  */
 
 import { memo } from 'react';
 import clsx from 'clsx';
-import { useGamepad } from '@/hooks/useGamepad';
+import { useGamepadAssignments } from '@/hooks/useGamepadAssignments';
+import { CONTROL_PLAYERS, formatGamepadName } from '@/services/emulator';
 import { Icon } from '@/components/common/Icon';
 import styles from './GamepadIndicator.module.css';
 
@@ -21,32 +23,29 @@ export interface GamepadIndicatorProps {
 export const GamepadIndicator = memo(function GamepadIndicator({
   className,
 }: GamepadIndicatorProps) {
-  const { hasGamepad, primaryGamepad } = useGamepad();
+  const { connected, resolved } = useGamepadAssignments();
+  const hasGamepad = connected.length > 0;
 
-  // Get controller name (clean up common patterns)
-  const getControllerName = (): string => {
-    if (!primaryGamepad?.id) return 'No controller';
-
-    // Common patterns to clean up
-    let name = primaryGamepad.id;
-
-    // Remove vendor/product IDs
-    name = name.replace(/\s*\(.*?\)\s*/g, ' ').trim();
-
-    // Truncate if too long
-    if (name.length > 30) {
-      name = name.substring(0, 27) + '...';
-    }
-
-    return name || 'Controller';
-  };
+  // Player slot of each connected controller (unassigned ones have none)
+  const controllers = connected.map((gamepad) => {
+    const slot = CONTROL_PLAYERS.findIndex((player) => resolved[player]?.index === gamepad.index);
+    return {
+      index: gamepad.index,
+      name: formatGamepadName(gamepad.id),
+      player: slot === -1 ? null : slot + 1,
+    };
+  });
 
   return (
     <div className={clsx(styles.container, className)}>
       <div
         className={clsx(styles.indicator, { [styles.connected]: hasGamepad })}
         role="status"
-        aria-label={hasGamepad ? `Controller connected: ${getControllerName()}` : 'No controller connected'}
+        aria-label={
+          hasGamepad
+            ? `Controllers connected: ${controllers.map((controller) => controller.name).join(', ')}`
+            : 'No controller connected'
+        }
         tabIndex={hasGamepad ? 0 : -1}
       >
         <Icon
@@ -65,22 +64,19 @@ export const GamepadIndicator = memo(function GamepadIndicator({
 
       {/* Tooltip */}
       <div className={styles.tooltip} role="tooltip">
-        <div className={styles.tooltipTitle}>Controller</div>
-        <div
-          className={clsx(styles.tooltipStatus, {
-            [styles.connected]: hasGamepad,
-            [styles.disconnected]: !hasGamepad,
-          })}
-        >
-          {hasGamepad ? (
-            <>
-              <span>Connected:</span>
-              <span>{getControllerName()}</span>
-            </>
-          ) : (
+        <div className={styles.tooltipTitle}>{controllers.length > 1 ? 'Controllers' : 'Controller'}</div>
+        {hasGamepad ? (
+          controllers.map((controller) => (
+            <div key={controller.index} className={clsx(styles.tooltipStatus, styles.connected)}>
+              <span>{controller.player ? `Player ${controller.player}:` : 'Unassigned:'}</span>
+              <span>{controller.name}</span>
+            </div>
+          ))
+        ) : (
+          <div className={clsx(styles.tooltipStatus, styles.disconnected)}>
             <span>Not connected</span>
-          )}
-        </div>
+          </div>
+        )}
       </div>
     </div>
   );
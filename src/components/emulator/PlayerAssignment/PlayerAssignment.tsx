@@ -0,0 +1,149 @@
+/**
+ * PlayerAssignment Component
+ *
+ * Binds connected gamepads to player slots for local multiplayer. A player
+ * left on "Auto" takes the next free controller; a bound player keeps
+ * their controller across reconnects and waits for it while it is
+ * unplugged. Pressing a button lights up the slot of that controller.
+ */
+
+import { memo, useEffect, useMemo, useState, type ChangeEvent } from 'react';
+import clsx from 'clsx';
+import { useGamepadAssignments } from '@/hooks/useGamepadAssignments';
+import { useToast } from '@/hooks/useToast';
+import { CONTROL_PLAYERS, formatGamepadName } from '@/services/emulator';
+import type { ControlPlayer } from '@/types';
+import styles from './PlayerAssignment.module.css';
+
+export interface PlayerAssignmentProps {
+  /** Number of players the game supports; later slots are dimmed */
+  players?: number;
+  /** Additional CSS class name */
+  className?: string;
+}
+
+/** Axis deflection that counts as input when spotting a controller */
+const AXIS_THRESHOLD = 0.5;
+
+/**
+ * Tracks the indexes of the gamepads with a button pressed or stick held.
+ * Only re-renders when that set changes, not on every polled frame.
+ */
+function usePressedGamepads(enabled: boolean): ReadonlySet<number> {
+  const [pressed, setPressed] = useState<ReadonlySet<number>>(() => new Set());
+
+  useEffect(() => {
+    if (!enabled || typeof navigator.getGamepads !== 'function') return;
+
+    let frame = 0;
+    let previousKey = '';
+
+    const poll = () => {
+      const indexes = Array.from(navigator.getGamepads())
+        .filter(
+          (gamepad): gamepad is Gamepad =>
+            !!gamepad?.connected &&
+            (gamepad.buttons.some((button) => button.pressed) ||
+              gamepad.axes.some((axis) => Math.abs(axis) > AXIS_THRESHOLD))
+        )
+        .map((gamepad) => gamepad.index);
+
+      const key = indexes.join(',');
+      if (key !== previousKey) {
+        previousKey = key;
+        setPressed(new Set(indexes));
+      }
+      frame = requestAnimationFrame(poll);
+    };
+
+    frame = requestAnimationFrame(poll);
+    return () => cancelAnimationFrame(frame);
+  }, [enabled]);
+
+  return pressed;
+}
+
+function PlayerAssignmentComponent({ players, className }: PlayerAssignmentProps) {
+  const { connected, assignments, resolved, assign } = useGamepadAssignments();
+  const { error: showError } = useToast();
+  const pressed = usePressedGamepads(connected.length > 0);
+
+  // Identical controllers share an ID, so each model is listed once
+  const connectedIds = useMemo(() => [...new Set(connected.map((gamepad) => gamepad.id))], [connected]);
+
+  const handleChange = (player: ControlPlayer) => async (event: ChangeEvent<HTMLSelectElement>) => {
+    try {
+      await assign(player, event.target.value || null);
+    } catch {
+      showError('Failed to assign controller');
+    }
+  };
+
+  return (
+    <div className={clsx(styles.container, className)}>
+      <ul className={styles.players}>
+        {CONTROL_PLAYERS.map((player, slot) => {
+          const gamepad = resolved[player];
+          const boundId = assignments[player];
+          const isUnused = players !== undefined && slot >= players;
+          const isWaiting = boundId !== undefined && !gamepad;
+
+          return (
+            <li
+              key={player}
+              className={clsx(
+                styles.player,
+                isUnused && styles.unused,
+                gamepad && pressed.has(gamepad.index) && styles.active
+              )}
+            >
+              <span className={styles.playerNumber}>P{slot + 1}</span>
+
+              <div className={styles.playerInfo}>
+                <span className={styles.playerLabel}>
+                  Player {slot + 1}
+                  {isUnused && <span className={styles.unusedNote}> · not used by this game</span>}
+                </span>
+                <span className={clsx(styles.playerStatus, isWaiting && styles.waiting)}>
+                  {gamepad
+                    ? formatGamepadName(gamepad.id)
+                    : isWaiting
+                      ? 'Waiting for controller...'
+                      : 'Keyboard or no controller'}
+                </span>
+              </div>
+
+              <select
+                className={styles.select}
+                value={boundId ?? ''}
+                onChange={handleChange(player)}
+                aria-label={`Player ${slot + 1} controller`}
+              >
+                <option value="">Auto</option>
+                {connectedIds.map((id) => (
+                  <option key={id} value={id}>
+                    {formatGamepadName(id)}
+                  </option>
+                ))}
+                {boundId !== undefined && !connectedIds.includes(boundId) && (
+                  <option value={boundId}>{formatGamepadName(boundId)} (disconnected)</option>
+                )}
+              </select>
+            </li>
+          );
+        })}
+      </ul>
+
+      <p className={styles.hint}>
+        {connected.length === 0
+          ? 'No controllers detected. Connect one and press any button.'
+          : 'Press a button on a controller to see which player it controls.'}
+      </p>
+    </div>
+  );
+}
+
+export const PlayerAssignment = memo(PlayerAssignmentComponent);
+PlayerAssignment.displayName = 'PlayerAssignment';
+
+export default PlayerAssignment;
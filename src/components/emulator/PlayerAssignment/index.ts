@@ -0,0 +1,2 @@
+export { PlayerAssignment } from './PlayerAssignment';
+export type { PlayerAssignmentProps } from './PlayerAssignment';
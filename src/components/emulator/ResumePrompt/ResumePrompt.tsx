@@ -0,0 +1,90 @@
+/**
+ * ResumePrompt Component
+ *
+ * Offers to resume a game from its auto-save before the emulator starts.
+ */
+
+import { memo, useEffect, useState } from 'react';
+import styles from './ResumePrompt.module.css';
+
+export interface ResumePromptProps {
+  /** Title of the game being launched */
+  gameTitle: string;
+  /** When the auto-save was taken */
+  savedAt: Date;
+  /** Optional screenshot captured with the auto-save */
+  screenshot?: Blob;
+  /** Callback when user chooses to resume from the auto-save */
+  onResume: () => void;
+  /** Callback when user chooses to start from the beginning */
+  onStartFresh: () => void;
+}
+
+/**
+ * Format how long ago the auto-save was taken
+ */
+function formatSavedAgo(date: Date): string {
+  const minutes = Math.floor((Date.now() - date.getTime()) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} h ago`;
+  return date.toLocaleDateString();
+}
+
+function ResumePromptComponent({
+  gameTitle,
+  savedAt,
+  screenshot,
+  onResume,
+  onStartFresh,
+}: ResumePromptProps) {
+  const [screenshotUrl, setScreenshotUrl] = useState<string | null>(null);
+
+  // Create and revoke the screenshot object URL
+  useEffect(() => {
+    if (!screenshot) return;
+    const url = URL.createObjectURL(screenshot);
+    setTimeout(() => setScreenshotUrl(url), 0);
+    return () => URL.revokeObjectURL(url);
+  }, [screenshot]);
+
+  return (
+    <div className={styles.overlay}>
+      <div
+        className={styles.modal}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="resume-prompt-title"
+      >
+        {screenshotUrl && (
+          <img
+            src={screenshotUrl}
+            alt={`Last auto-save of ${gameTitle}`}
+            className={styles.screenshot}
+          />
+        )}
+
+        <h2 id="resume-prompt-title" className={styles.title}>Continue where you left off?</h2>
+        <p className={styles.message}>
+          <span className={styles.gameTitle}>{gameTitle}</span> was auto-saved{' '}
+          {formatSavedAgo(savedAt)}.
+        </p>
+
+        <div className={styles.actions}>
+          <button type="button" className={styles.resumeButton} onClick={onResume} autoFocus>
+            Resume
+          </button>
+          <button type="button" className={styles.freshButton} onClick={onStartFresh}>
+            Start Fresh
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export const ResumePrompt = memo(ResumePromptComponent);
+ResumePrompt.displayName = 'ResumePrompt';
+
+export default ResumePrompt;
@@ -0,0 +1,2 @@
+export { ResumePrompt } from './ResumePrompt';
+export type { ResumePromptProps } from './ResumePrompt';
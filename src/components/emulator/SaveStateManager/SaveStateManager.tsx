@@ -14,7 +14,13 @@ import {
 import { createPortal } from 'react-dom';
 import clsx from 'clsx';
 import { useSaveStates, MAX_SLOTS } from '@/hooks/useSaveStates';
+import { useToast } from '@/hooks/useToast';
+import { useGameStore } from '@/stores';
+import { saveStateArchiveService, isQuotaExceededError, SAVE_ARCHIVE_EXTENSION } from '@/services/storage';
+import { syncService, type SyncConflict } from '@/services/api';
+import { EMULATORJS_VERSION } from '@/services/emulator';
 import { Icon } from '@/components/common/Icon';
+import { SAVE_SLOT } from '@/types';
 import { SaveStateSlot } from './SaveStateSlot';
 import styles from './SaveStateManager.module.css';
 
@@ -36,7 +42,28 @@ export interface SaveStateManagerProps {
 interface ConfirmState {
   isOpen: boolean;
   slot: number;
-  action: 'overwrite' | 'delete';
+  action: 'overwrite' | 'delete' | 'version';
+}
+
+/** Confirmation dialog titles per action */
+const CONFIRM_TITLES: Record<ConfirmState['action'], string> = {
+  overwrite: 'Overwrite Save?',
+  delete: 'Delete Save?',
+  version: 'Different Emulator Version',
+};
+
+/** Confirmation button labels per action */
+const CONFIRM_LABELS: Record<ConfirmState['action'], string> = {
+  overwrite: 'Overwrite',
+  delete: 'Delete',
+  version: 'Load Anyway',
+};
+
+/** Slot name for sync messages, which also cover the reserved slots */
+function formatSlotName(slot: number): string {
+  if (slot === SAVE_SLOT.AUTO) return 'Auto-save';
+  if (slot === SAVE_SLOT.QUICK) return 'Quick save';
+  return `Slot ${slot}`;
 }
 
 /**
@@ -51,6 +78,8 @@ export const SaveStateManager = memo(function SaveStateManager({
   onGetState,
   onLoadState,
 }: SaveStateManagerProps) {
+  const games = useGameStore((state) => state.games);
+  const game = games.find((g) => g.id === gameId);
   const {
     saveStates,
     isLoading,
@@ -58,8 +87,7 @@ export const SaveStateManager = memo(function SaveStateManager({
     loadState,
     deleteState,
     getSlotInfo,
-    // getScreenshotUrl, // Available for future screenshot feature
-  } = useSaveStates(gameId);
+  } = useSaveStates(gameId, game?.console);
 
   const [selectedSlot, setSelectedSlot] = useState<number | null>(null);
   const [confirm, setConfirm] = useState<ConfirmState>({
@@ -69,6 +97,10 @@ export const SaveStateManager = memo(function SaveStateManager({
   });
   const [isProcessing, setIsProcessing] = useState(false);
 
+  const { success, error: showError } = useToast();
+  const [isSyncEnabled] = useState(() => syncService.isConfigured());
+  const [syncConflicts, setSyncConflicts] = useState<SyncConflict[]>([]);
+
   const panelRef = useRef<HTMLDivElement>(null);
   const previousActiveElement = useRef<HTMLElement | null>(null);
 
@@ -97,23 +129,21 @@ export const SaveStateManager = memo(function SaveStateManager({
         onClose();
       } catch (error) {
         console.error('Failed to save state:', error);
+        showError(isQuotaExceededError(error) ? (error as Error).message : 'Failed to save state');
       } finally {
         setIsProcessing(false);
       }
     },
-    [onGetState, saveState, slotInfoMap, onClose]
+    [onGetState, saveState, slotInfoMap, onClose, showError]
   );
 
   /**
-   * Handle loading from a slot
+   * Load a slot into the emulator
    */
-  const handleLoad = useCallback(
+  const loadSlot = useCallback(
     async (slot: number) => {
       if (!onLoadState) return;
 
-      const slotInfo = slotInfoMap.get(slot);
-      if (!slotInfo?.hasData) return;
-
       try {
         setIsProcessing(true);
         const data = await loadState(slot);
@@ -127,7 +157,29 @@ export const SaveStateManager = memo(function SaveStateManager({
         setIsProcessing(false);
       }
     },
-    [onLoadState, loadState, slotInfoMap, onClose]
+    [onLoadState, loadState, onClose]
+  );
+
+  /**
+   * Handle loading from a slot
+   * States made by another EmulatorJS release may crash the core, so ask first
+   */
+  const handleLoad = useCallback(
+    async (slot: number) => {
+      if (!onLoadState) return;
+
+      const slotInfo = slotInfoMap.get(slot);
+      if (!slotInfo?.hasData) return;
+
+      const state = saveStates.find((s) => s.slot === slot);
+      if (state && state.emulatorVersion !== EMULATORJS_VERSION) {
+        setConfirm({ isOpen: true, slot, action: 'version' });
+        return;
+      }
+
+      await loadSlot(slot);
+    },
+    [onLoadState, slotInfoMap, saveStates, loadSlot]
   );
 
   /**
@@ -159,6 +211,12 @@ export const SaveStateManager = memo(function SaveStateManager({
   const handleConfirm = useCallback(async () => {
     const { slot, action } = confirm;
 
+    if (action === 'version') {
+      setConfirm({ isOpen: false, slot: -1, action: 'overwrite' });
+      await loadSlot(slot);
+      return;
+    }
+
     try {
       setIsProcessing(true);
 
@@ -171,11 +229,12 @@ export const SaveStateManager = memo(function SaveStateManager({
       }
     } catch (error) {
       console.error(`Failed to ${action}:`, error);
+      if (isQuotaExceededError(error)) showError((error as Error).message);
     } finally {
       setIsProcessing(false);
       setConfirm({ isOpen: false, slot: -1, action: 'overwrite' });
     }
-  }, [confirm, deleteState, saveState, onGetState, onClose]);
+  }, [confirm, deleteState, saveState, onGetState, onClose, loadSlot, showError]);
 
   /**
    * Cancel confirmation
@@ -184,6 +243,91 @@ export const SaveStateManager = memo(function SaveStateManager({
     setConfirm({ isOpen: false, slot: -1, action: 'overwrite' });
   }, []);
 
+  /**
+   * Export all saves for this game as an archive
+   */
+  const handleExport = useCallback(async () => {
+    if (!game) return;
+
+    try {
+      setIsProcessing(true);
+      const { blob, count } = await saveStateArchiveService.exportGame(game);
+      if (count === 0) {
+        showError('No save states to export');
+        return;
+      }
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = saveStateArchiveService.getFileName(game.id);
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+      success(`Exported ${count} save state${count === 1 ? '' : 's'}`);
+    } catch (error) {
+      console.error('Failed to export save states:', error);
+      showError('Failed to export save states');
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [game, success, showError]);
+
+  /**
+   * Import saves for this game from an archive
+   */
+  const handleImport = useCallback(() => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = SAVE_ARCHIVE_EXTENSION;
+    input.onchange = async (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (!file) return;
+
+      try {
+        setIsProcessing(true);
+        const { imported, skipped } = await saveStateArchiveService.importArchive(file, {
+          games,
+          gameId,
+        });
+        success(
+          skipped.length > 0
+            ? `Imported ${imported} save states (${skipped.length} skipped)`
+            : `Imported ${imported} save states`
+        );
+      } catch (error) {
+        showError(error instanceof Error ? error.message : 'Failed to import save states');
+      } finally {
+        setIsProcessing(false);
+      }
+    };
+    input.click();
+  }, [games, gameId, success, showError]);
+
+  /**
+   * Sync this game's saves with the cloud
+   */
+  const handleSync = useCallback(async () => {
+    try {
+      setIsProcessing(true);
+      const { pushed, pulled, deleted, conflicts, failed } = await syncService.syncGame(gameId);
+      setSyncConflicts(conflicts);
+      const summary =
+        deleted > 0
+          ? `Synced: ${pushed} uploaded, ${pulled} downloaded, ${deleted} deleted`
+          : `Synced: ${pushed} uploaded, ${pulled} downloaded`;
+      if (failed.length > 0) {
+        showError(`${summary}, ${failed.length} failed`);
+      } else {
+        success(summary);
+      }
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to sync save states');
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [gameId, success, showError]);
+
   /**
    * Handle keyboard shortcuts
    */
@@ -246,6 +390,11 @@ export const SaveStateManager = memo(function SaveStateManager({
     return null;
   }
 
+  // EmulatorJS release of the save awaiting version confirmation
+  const confirmVersion = confirm.action === 'version'
+    ? saveStates.find((s) => s.slot === confirm.slot)?.emulatorVersion
+    : undefined;
+
   // Get screenshot for a slot
   const getScreenshotBlob = (slot: number): Blob | undefined => {
     const state = saveStates.find((s) => s.slot === slot);
@@ -281,14 +430,51 @@ export const SaveStateManager = memo(function SaveStateManager({
               {mode === 'save' ? 'Save State' : 'Load State'}
             </h2>
           </div>
-          <button
-            type="button"
-            className={styles.closeButton}
-            onClick={onClose}
-            aria-label="Close save state panel"
-          >
-            <Icon name="close" size={20} />
-          </button>
+          <div className={styles.headerActions}>
+            {isSyncEnabled && (
+              <button
+                type="button"
+                className={styles.archiveButton}
+                onClick={handleSync}
+                disabled={isProcessing}
+                aria-label="Sync save states with the cloud"
+                title="Cloud sync"
+              >
+                <Icon name="globe" size={18} />
+                <span>Sync</span>
+              </button>
+            )}
+            <button
+              type="button"
+              className={styles.archiveButton}
+              onClick={handleExport}
+              disabled={isProcessing || !game || saveStates.length === 0}
+              aria-label="Export save states to file"
+              title="Export saves"
+            >
+              <Icon name="save" size={18} />
+              <span>Export</span>
+            </button>
+            <button
+              type="button"
+              className={styles.archiveButton}
+              onClick={handleImport}
+              disabled={isProcessing || !game}
+              aria-label="Import save states from file"
+              title="Import saves"
+            >
+              <Icon name="load" size={18} />
+              <span>Import</span>
+            </button>
+            <button
+              type="button"
+              className={styles.closeButton}
+              onClick={onClose}
+              aria-label="Close save state panel"
+            >
+              <Icon name="close" size={20} />
+            </button>
+          </div>
         </header>
 
         {/* Content */}
@@ -299,6 +485,32 @@ export const SaveStateManager = memo(function SaveStateManager({
             </div>
           ) : (
             <>
+              {syncConflicts.length > 0 && (
+                <div className={styles.conflicts} role="status">
+                  <div className={styles.conflictsHeader}>
+                    <span className={styles.conflictsTitle}>Sync conflicts</span>
+                    <button
+                      type="button"
+                      className={styles.conflictsDismiss}
+                      onClick={() => setSyncConflicts([])}
+                      aria-label="Dismiss sync conflicts"
+                    >
+                      <Icon name="close" size={14} />
+                    </button>
+                  </div>
+                  <ul className={styles.conflictsList}>
+                    {syncConflicts.map((conflict) => (
+                      <li key={conflict.slot}>
+                        {formatSlotName(conflict.slot)} changed on this device (
+                        {conflict.localUpdatedAt.toLocaleString()}) and in the cloud (
+                        {conflict.remoteUpdatedAt.toLocaleString()}). Kept the{' '}
+                        {conflict.winner === 'local' ? 'local' : 'cloud'} copy.
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
               <div className={styles.slotsGrid} role="listbox" aria-label="Save slots">
                 {Array.from({ length: MAX_SLOTS }, (_, slot) => {
                   const info = slotInfoMap.get(slot);
@@ -340,12 +552,16 @@ export const SaveStateManager = memo(function SaveStateManager({
         >
           <div className={styles.confirmDialog}>
             <h3 id="confirm-title" className={styles.confirmTitle}>
-              {confirm.action === 'delete' ? 'Delete Save?' : 'Overwrite Save?'}
+              {CONFIRM_TITLES[confirm.action]}
             </h3>
             <p id="confirm-message" className={styles.confirmMessage}>
               {confirm.action === 'delete'
                 ? `Are you sure you want to delete the save in slot ${confirm.slot}? This cannot be undone.`
-                : `Slot ${confirm.slot} already has data. Overwrite it with a new save?`}
+                : confirm.action === 'version'
+                  ? `The save in slot ${confirm.slot} was made with ${
+                      confirmVersion ? `EmulatorJS ${confirmVersion}` : 'an unknown EmulatorJS version'
+                    }, but ${EMULATORJS_VERSION} is running. Loading it may fail or crash the game.`
+                  : `Slot ${confirm.slot} already has data. Overwrite it with a new save?`}
             </p>
             <div className={styles.confirmButtons}>
               <button
@@ -361,7 +577,7 @@ export const SaveStateManager = memo(function SaveStateManager({
                 onClick={handleConfirm}
                 disabled={isProcessing}
               >
-                {confirm.action === 'delete' ? 'Delete' : 'Overwrite'}
+                {CONFIRM_LABELS[confirm.action]}
               </button>
             </div>
           </div>
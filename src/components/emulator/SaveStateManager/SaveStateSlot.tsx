@@ -4,6 +4,7 @@
  */
 
 import { memo, useEffect, useState, useRef, type MouseEvent } from 'react';
+import { createPortal } from 'react-dom';
 import clsx from 'clsx';
 import { Icon } from '@/components/common/Icon';
 import styles from './SaveStateSlot.module.css';
@@ -29,6 +30,41 @@ export interface SaveStateSlotProps {
   disabled?: boolean;
 }
 
+/** Width of the enlarged screenshot preview */
+const PREVIEW_WIDTH = 320;
+
+/** Gap between the slot and the preview, and the minimum distance to the viewport edge */
+const PREVIEW_MARGIN = 8;
+
+/**
+ * Position of the enlarged preview (fixed, in viewport pixels)
+ */
+interface PreviewPosition {
+  left: number;
+  top: number;
+  width: number;
+}
+
+/**
+ * Places the enlarged preview above the slot, or below it when there is
+ * no room above, kept inside the viewport.
+ */
+function getPreviewPosition(slot: HTMLElement): PreviewPosition {
+  const rect = slot.getBoundingClientRect();
+  const width = Math.min(PREVIEW_WIDTH, window.innerWidth - PREVIEW_MARGIN * 2);
+  // Screenshots are around 4:3; the exact height is not needed for placement
+  const height = (width * 3) / 4;
+
+  const left = Math.min(
+    Math.max(rect.left + rect.width / 2 - width / 2, PREVIEW_MARGIN),
+    window.innerWidth - width - PREVIEW_MARGIN
+  );
+  const above = rect.top - height - PREVIEW_MARGIN;
+  const top = above >= PREVIEW_MARGIN ? above : rect.bottom + PREVIEW_MARGIN;
+
+  return { left, top, width };
+}
+
 /**
  * Formats a date to a user-friendly string
  */
@@ -127,6 +163,15 @@ export const SaveStateSlot = memo(function SaveStateSlot({
   // Use custom hook for blob URL management
   const screenshotUrl = useBlobUrl(screenshot);
 
+  // Enlarged screenshot shown while the slot is hovered or focused
+  const [preview, setPreview] = useState<PreviewPosition | null>(null);
+
+  const showPreview = (event: React.SyntheticEvent<HTMLDivElement>) => {
+    if (screenshotUrl) setPreview(getPreviewPosition(event.currentTarget));
+  };
+
+  const hidePreview = () => setPreview(null);
+
   // Handle delete click - prevent event bubbling
   const handleDeleteClick = (event: MouseEvent<HTMLButtonElement>) => {
     event.stopPropagation();
@@ -155,6 +200,10 @@ export const SaveStateSlot = memo(function SaveStateSlot({
       })}
       onClick={isDisabled ? undefined : onSelect}
       onKeyDown={handleKeyDown}
+      onMouseEnter={showPreview}
+      onMouseLeave={hidePreview}
+      onFocus={showPreview}
+      onBlur={hidePreview}
       role="button"
       tabIndex={isDisabled ? -1 : 0}
       aria-label={
@@ -218,6 +267,19 @@ export const SaveStateSlot = memo(function SaveStateSlot({
           {hasData && timestamp ? formatTimestamp(timestamp) : 'No save data'}
         </span>
       </div>
+
+      {/* Enlarged preview, outside the scrolling panel so it is never clipped */}
+      {preview && screenshotUrl &&
+        createPortal(
+          <img
+            src={screenshotUrl}
+            alt=""
+            aria-hidden="true"
+            className={styles.largePreview}
+            style={{ left: preview.left, top: preview.top, width: preview.width }}
+          />,
+          document.body
+        )}
     </div>
   );
 });
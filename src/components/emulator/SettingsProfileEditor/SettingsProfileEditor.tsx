@@ -0,0 +1,256 @@
+/**
+ * SettingsProfileEditor Component
+ *
+ * Edits the setting overrides of one game, or of every game of its
+ * console. Each setting either follows the default (the console profile,
+ * then the global settings) or is set for the profile; "Reset to global"
+ * clears the whole profile.
+ */
+
+import { memo, useCallback, useId, useState } from 'react';
+import clsx from 'clsx';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { Button } from '@/components/common';
+import { useToast } from '@/hooks/useToast';
+import { db, type SettingsOverrides, type SettingsProfileScope } from '@/services/database';
+import { SHADER_OPTIONS, getConsoleName, resolveShader } from '@/services/emulator';
+import { applySettingsOverrides, settingsProfileService } from '@/services/storage';
+import { FAST_FORWARD_RATIOS, REWIND_GRANULARITIES } from '@/types';
+import type { ConsoleControlMappings, FastForwardRatio, Game } from '@/types';
+import { ControlRemapper } from '../ControlRemapper';
+import styles from './SettingsProfileEditor.module.css';
+
+export interface SettingsProfileEditorProps {
+  /** Game whose profile (or console profile) is edited */
+  game: Pick<Game, 'id' | 'title' | 'console'>;
+  /** Additional CSS class name */
+  className?: string;
+}
+
+interface OverrideOption<T> {
+  value: T;
+  label: string;
+}
+
+const ON_OFF_CHOICES: readonly OverrideOption<boolean>[] = [
+  { value: true, label: 'On' },
+  { value: false, label: 'Off' },
+];
+
+const SHADER_CHOICES = SHADER_OPTIONS.map((option) => ({ value: option.id, label: option.label }));
+
+const FAST_FORWARD_CHOICES = FAST_FORWARD_RATIOS.map((ratio: FastForwardRatio) => ({
+  value: ratio,
+  label: ratio === 'unlimited' ? 'Max' : `${ratio}×`,
+}));
+
+const GRANULARITY_CHOICES = REWIND_GRANULARITIES.map((granularity) => ({
+  value: granularity,
+  label: `${granularity} frames`,
+}));
+
+interface OverrideRowProps<T> {
+  label: string;
+  description: string;
+  /** Value set in the profile, undefined when following the default */
+  value: T | undefined;
+  /** Value the game gets without this override */
+  inherited: T;
+  options: readonly OverrideOption<T>[];
+  onChange: (value: T | undefined) => void;
+}
+
+/**
+ * One overridable setting: "Default (…)" or one of the options.
+ */
+function OverrideRow<T>({ label, description, value, inherited, options, onChange }: OverrideRowProps<T>) {
+  const id = useId();
+  const selected = value === undefined ? -1 : options.findIndex((option) => option.value === value);
+  const inheritedLabel = options.find((option) => option.value === inherited)?.label ?? '';
+
+  return (
+    <div className={clsx(styles.row, value !== undefined && styles.overridden)}>
+      <label htmlFor={id} className={styles.rowInfo}>
+        <span className={styles.rowLabel}>{label}</span>
+        <span className={styles.rowDescription}>{description}</span>
+      </label>
+      <select
+        id={id}
+        className={styles.select}
+        value={selected}
+        onChange={(event) => {
+          const index = Number(event.target.value);
+          onChange(index < 0 ? undefined : options[index].value);
+        }}
+      >
+        <option value={-1}>Default ({inheritedLabel})</option>
+        {options.map((option, index) => (
+          <option key={option.label} value={index}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
+function SettingsProfileEditorComponent({ game, className }: SettingsProfileEditorProps) {
+  const [scope, setScope] = useState<SettingsProfileScope>('game');
+  const { success, error: showError } = useToast();
+
+  const data = useLiveQuery(
+    () =>
+      Promise.all([
+        db.getSettings(),
+        db.getSettingsProfile('console', game.console),
+        db.getSettingsProfile('game', game.id),
+      ]),
+    [game.id, game.console]
+  );
+
+  const targetId = scope === 'game' ? game.id : game.console;
+  const consoleName = getConsoleName(game.console);
+
+  const handleChange = useCallback(
+    async <K extends keyof SettingsOverrides>(key: K, value: SettingsOverrides[K] | undefined) => {
+      try {
+        await settingsProfileService.setOverride(scope, targetId, key, value);
+      } catch (error) {
+        showError(error instanceof Error ? error.message : 'Failed to save setting');
+      }
+    },
+    [scope, targetId, showError]
+  );
+
+  const handleReset = useCallback(async () => {
+    try {
+      await settingsProfileService.resetProfile(scope, targetId);
+      success(scope === 'game' ? `${game.title} uses the default settings` : `${consoleName} games use the global settings`);
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to reset settings');
+    }
+  }, [scope, targetId, game.title, consoleName, success, showError]);
+
+  if (!data) return null;
+
+  const [settings, consoleProfile, gameProfile] = data;
+  const profile = scope === 'game' ? gameProfile : consoleProfile;
+  const overrides = profile?.overrides ?? {};
+  // What the game gets from below this profile: the console profile and global settings
+  const inherited = applySettingsOverrides(settings, game.console, scope === 'game' ? [consoleProfile?.overrides] : []);
+  const inheritedControls: ConsoleControlMappings = inherited.controlMappings[game.console] ?? {};
+
+  return (
+    <div className={clsx(styles.editor, className)}>
+      <div className={styles.tabs} role="tablist" aria-label="Profile">
+        {(['game', 'console'] as const).map((tab) => {
+          const hasProfile = tab === 'game' ? !!gameProfile : !!consoleProfile;
+          return (
+            <button
+              key={tab}
+              type="button"
+              role="tab"
+              aria-selected={tab === scope}
+              className={clsx(styles.tab, tab === scope && styles.tabActive)}
+              onClick={() => setScope(tab)}
+            >
+              {tab === 'game' ? 'This game' : `All ${consoleName} games`}
+              {hasProfile && <span className={styles.customDot} aria-label="(customized)" />}
+            </button>
+          );
+        })}
+      </div>
+
+      <div className={styles.rows}>
+        <OverrideRow
+          label="Shader"
+          description="Video filter"
+          value={overrides.shader}
+          inherited={resolveShader(game.console, inherited)}
+          options={SHADER_CHOICES}
+          onChange={(value) => handleChange('shader', value)}
+        />
+        <OverrideRow
+          label="Fast-Forward Speed"
+          description="Speed multiplier while fast-forwarding"
+          value={overrides.fastForwardRatio}
+          inherited={inherited.fastForwardRatio}
+          options={FAST_FORWARD_CHOICES}
+          onChange={(value) => handleChange('fastForwardRatio', value)}
+        />
+        <OverrideRow
+          label="Rewind"
+          description="Record frames so the game can be rewound"
+          value={overrides.rewindEnabled}
+          inherited={inherited.rewindEnabled}
+          options={ON_OFF_CHOICES}
+          onChange={(value) => handleChange('rewindEnabled', value)}
+        />
+        <OverrideRow
+          label="Rewind Granularity"
+          description="Frames between rewind snapshots"
+          value={overrides.rewindGranularity}
+          inherited={inherited.rewindGranularity}
+          options={GRANULARITY_CHOICES}
+          onChange={(value) => handleChange('rewindGranularity', value)}
+        />
+        <OverrideRow
+          label="Integer Scaling"
+          description="Scale by whole multiples"
+          value={overrides.integerScaling}
+          inherited={inherited.display.integerScaling}
+          options={ON_OFF_CHOICES}
+          onChange={(value) => handleChange('integerScaling', value)}
+        />
+        <OverrideRow
+          label="Keep Aspect Ratio"
+          description="Do not stretch to fill the screen"
+          value={overrides.maintainAspectRatio}
+          inherited={inherited.display.maintainAspectRatio}
+          options={ON_OFF_CHOICES}
+          onChange={(value) => handleChange('maintainAspectRatio', value)}
+        />
+
+        <div className={clsx(styles.row, overrides.controls && styles.overridden)}>
+          <div className={styles.rowInfo}>
+            <span className={styles.rowLabel}>Custom Controls</span>
+            <span className={styles.rowDescription}>
+              {overrides.controls ? 'Controls below replace the default ones' : 'Uses the default controls'}
+            </span>
+          </div>
+          <button
+            type="button"
+            role="switch"
+            aria-checked={!!overrides.controls}
+            aria-label="Custom controls"
+            className={clsx(styles.toggle, overrides.controls && styles.toggleActive)}
+            onClick={() => handleChange('controls', overrides.controls ? undefined : inheritedControls)}
+          >
+            <span className={styles.toggleThumb} />
+          </button>
+        </div>
+
+        {overrides.controls && (
+          <ControlRemapper
+            console={game.console}
+            controlMappings={{ [game.console]: overrides.controls }}
+            onChange={(_, mappings) => handleChange('controls', mappings)}
+            onReset={() => handleChange('controls', {})}
+          />
+        )}
+      </div>
+
+      <div className={styles.footer}>
+        <span className={styles.hint}>Changes apply the next time the game starts.</span>
+        <Button variant="secondary" size="sm" onClick={handleReset} disabled={!profile}>
+          Reset to global
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export const SettingsProfileEditor = memo(SettingsProfileEditorComponent);
+SettingsProfileEditor.displayName = 'SettingsProfileEditor';
+
+export default SettingsProfileEditor;
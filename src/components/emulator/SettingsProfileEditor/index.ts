@@ -0,0 +1,2 @@
+export { SettingsProfileEditor } from './SettingsProfileEditor';
+export type { SettingsProfileEditorProps } from './SettingsProfileEditor';
@@ -0,0 +1,115 @@
+/**
+ * ShaderPicker Component
+ *
+ * List of the available shaders with a preview of the selected one, drawn
+ * over a small pixel-art sprite. The console's preset is marked so the
+ * user can always get back to it.
+ */
+
+import { memo, useCallback, type KeyboardEvent } from 'react';
+import clsx from 'clsx';
+import { Badge } from '@/components/common';
+import { SHADER_OPTIONS, getShaderOption } from '@/services/emulator';
+import type { EmulatorShader } from '@/types';
+import styles from './ShaderPicker.module.css';
+
+export interface ShaderPickerProps {
+  /** Selected shader ('' = none) */
+  value: EmulatorShader;
+  /** Shader the console uses by default, marked in the list */
+  preset?: EmulatorShader;
+  /** Callback when a shader is picked */
+  onChange: (shader: EmulatorShader) => void;
+  /** Accessible name of the list */
+  label?: string;
+  /** Additional CSS class name */
+  className?: string;
+}
+
+/** Sprite drawn in the preview, one character per pixel */
+const PREVIEW_SPRITE = [
+  '..........',
+  '..RR..RR..',
+  '.RWRRRRRR.',
+  '.RWRRRRRR.',
+  '.RRRRRRRR.',
+  '..RRRRRR..',
+  '...RRRR...',
+  '....RR....',
+  '..........',
+];
+
+const PREVIEW_COLORS: Record<string, string> = {
+  '.': '#1b2a6b',
+  R: '#e0284f',
+  W: '#ffffff',
+};
+
+const PREVIEW_PIXELS = PREVIEW_SPRITE.flatMap((row) => row.split(''));
+
+function ShaderPickerComponent({ value, preset, onChange, label = 'Shader', className }: ShaderPickerProps) {
+  const selected = getShaderOption(value);
+
+  // Arrow keys move the selection, as in a native radio group
+  const handleKeyDown = useCallback(
+    (event: KeyboardEvent<HTMLDivElement>) => {
+      const step = { ArrowDown: 1, ArrowRight: 1, ArrowUp: -1, ArrowLeft: -1 }[event.key];
+      if (step === undefined) return;
+      event.preventDefault();
+
+      const index = SHADER_OPTIONS.findIndex((option) => option.id === selected.id);
+      const next = (index + step + SHADER_OPTIONS.length) % SHADER_OPTIONS.length;
+      onChange(SHADER_OPTIONS[next].id);
+      event.currentTarget.querySelectorAll<HTMLButtonElement>('[role="radio"]')[next]?.focus();
+    },
+    [selected.id, onChange]
+  );
+
+  return (
+    <div className={clsx(styles.picker, className)}>
+      <div className={styles.previewFrame} aria-hidden="true">
+        <div
+          className={clsx(styles.preview, styles[selected.look])}
+          style={{ gridTemplateColumns: `repeat(${PREVIEW_SPRITE[0].length}, 1fr)` }}
+        >
+          {PREVIEW_PIXELS.map((pixel, index) => (
+            <span key={index} style={{ background: PREVIEW_COLORS[pixel] }} />
+          ))}
+        </div>
+        <span className={styles.previewLabel}>{selected.label}</span>
+      </div>
+
+      <div role="radiogroup" aria-label={label} className={styles.options} onKeyDown={handleKeyDown}>
+        {SHADER_OPTIONS.map((option) => {
+          const isSelected = option.id === selected.id;
+          return (
+            <button
+              key={option.id || 'none'}
+              type="button"
+              role="radio"
+              aria-checked={isSelected}
+              tabIndex={isSelected ? 0 : -1}
+              className={clsx(styles.option, isSelected && styles.selected)}
+              onClick={() => onChange(option.id)}
+            >
+              <span className={styles.optionName}>
+                {option.label}
+                {option.id === preset && (
+                  <Badge size="sm" className={styles.presetBadge}>
+                    Default
+                  </Badge>
+                )}
+              </span>
+              <span className={styles.optionDescription}>{option.description}</span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+export const ShaderPicker = memo(ShaderPickerComponent);
+ShaderPicker.displayName = 'ShaderPicker';
+
+export default ShaderPicker;
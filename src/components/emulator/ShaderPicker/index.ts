@@ -0,0 +1,2 @@
+export { ShaderPicker } from './ShaderPicker';
+export type { ShaderPickerProps } from './ShaderPicker';
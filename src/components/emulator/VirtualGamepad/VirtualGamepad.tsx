@@ -1,18 +1,22 @@
 /**
  * VirtualGamepad Component
  * Touch-friendly on-screen controls for mobile devices
- * Supports multiple console layouts (NES, SNES, PS1, N64, GB, GBA)
+ * Supports multiple console layouts (Nintendo, Sega, Atari, PC Engine, PS1, arcade)
  */
 
 import { memo, useCallback, useState, useRef, useEffect, type TouchEvent } from 'react';
 import clsx from 'clsx';
-import type { ConsoleType } from '@/types/console.types';
+import { getConsoleConfig } from '@/types';
+import type { ConsoleButton, ConsoleControlMappings, ConsoleType, InputButton, TouchLayout } from '@/types';
+import { getEffectiveMapping, isGamepadMapping } from '@/services/emulator';
 import { Icon } from '@/components/common/Icon';
 import styles from './VirtualGamepad.module.css';
 
 export interface VirtualGamepadProps {
   /** Console type to determine button layout */
   console: ConsoleType;
+  /** User control overrides for the console (player 1 keyboard keys are used) */
+  controls?: ConsoleControlMappings;
   /** Callback when a button is pressed */
   onButtonPress?: (button: string) => void;
   /** Callback when a button is released */
@@ -26,77 +30,59 @@ export interface VirtualGamepadProps {
 }
 
 /**
- * Button configurations per console type
+ * On-screen D-pad and system buttons, shared by every console
  */
-const CONSOLE_BUTTONS: Record<ConsoleType, { actions: string[]; shoulders?: string[]; cButtons?: boolean }> = {
-  nes: {
-    actions: ['B', 'A'],
-  },
-  snes: {
-    actions: ['Y', 'X', 'B', 'A'],
-    shoulders: ['L', 'R'],
-  },
-  ps1: {
-    actions: ['Square', 'Triangle', 'X', 'O'],
-    shoulders: ['L1', 'R1', 'L2', 'R2'],
-  },
-  n64: {
-    actions: ['B', 'A'],
-    shoulders: ['L', 'R', 'Z'],
-    cButtons: true,
-  },
-  gb: {
-    actions: ['B', 'A'],
-  },
-  gba: {
-    actions: ['B', 'A'],
-    shoulders: ['L', 'R'],
-  },
+const SYSTEM_BUTTONS: Record<string, InputButton> = {
+  Up: 'up',
+  Down: 'down',
+  Left: 'left',
+  Right: 'right',
+  Start: 'start',
+  Select: 'select',
 };
 
 /**
- * Keyboard key mappings for each button
+ * Keyboard keys for the N64 C-buttons (right analog stick, not remappable)
  */
-const BUTTON_KEYMAPS: Record<string, string> = {
-  // D-Pad
-  Up: 'ArrowUp',
-  Down: 'ArrowDown',
-  Left: 'ArrowLeft',
-  Right: 'ArrowRight',
-  // Action buttons
-  A: 'KeyX',
-  B: 'KeyZ',
-  X: 'KeyS',
-  Y: 'KeyA',
-  // PlayStation buttons
-  O: 'KeyX',
-  Square: 'KeyA',
-  Triangle: 'KeyS',
-  // Shoulder buttons
-  L: 'KeyQ',
-  R: 'KeyE',
-  L1: 'KeyQ',
-  R1: 'KeyE',
-  L2: 'Digit1',
-  R2: 'Digit3',
-  Z: 'KeyQ',
-  // System buttons
-  Start: 'Enter',
-  Select: 'ShiftRight',
-  // N64 C-Buttons
+const C_BUTTON_KEYMAPS: Record<string, string> = {
   CUp: 'KeyI',
   CDown: 'KeyK',
   CLeft: 'KeyJ',
   CRight: 'KeyL',
 };
 
+/**
+ * Resolves the keyboard code for an on-screen button from the player 1
+ * keyboard mapping. C-buttons use their fixed stick keys.
+ */
+function resolveKeyCode(button: string, controls: ConsoleControlMappings | undefined): string {
+  if (C_BUTTON_KEYMAPS[button]) {
+    return C_BUTTON_KEYMAPS[button];
+  }
+
+  const input = SYSTEM_BUTTONS[button] ?? (button as InputButton);
+  const mapping = getEffectiveMapping(controls, 'keyboard', 'player1')[input];
+  return mapping && !isGamepadMapping(mapping) ? mapping.key : button;
+}
+
+/**
+ * Action button grid class for each touch layout
+ */
+const ACTION_GRID_CLASSES: Record<TouchLayout['grid'], string> = {
+  gb: styles.actionButtonsGb,
+  nes: styles.actionButtonsNes,
+  snes: styles.actionButtonsSnes,
+  ps1: styles.actionButtonsPs1,
+  n64: styles.actionButtonsN64,
+};
+
 /**
  * Dispatches a keyboard event to simulate button press/release
  */
-function dispatchKeyEvent(key: string, type: 'keydown' | 'keyup') {
+function dispatchKeyEvent(key: string, code: string, type: 'keydown' | 'keyup') {
   const event = new KeyboardEvent(type, {
     key,
-    code: BUTTON_KEYMAPS[key] || key,
+    code,
     bubbles: true,
     cancelable: true,
   });
@@ -177,6 +163,7 @@ const GamepadButton = memo(function GamepadButton({
  */
 export const VirtualGamepad = memo(function VirtualGamepad({
   console: consoleType,
+  controls,
   onButtonPress,
   onButtonRelease,
   opacity = 0.7,
@@ -187,7 +174,9 @@ export const VirtualGamepad = memo(function VirtualGamepad({
   const prevVisibleRef = useRef(visible);
   // Use prop directly as the source of truth, with local override for toggle
   const [localOverride, setLocalOverride] = useState<boolean | null>(null);
-  const config = CONSOLE_BUTTONS[consoleType];
+  const { buttons, touchLayout: layout } = getConsoleConfig(consoleType);
+  const buttonFor = (input: InputButton): ConsoleButton =>
+    buttons.find((b) => b.button === input) ?? { button: input, label: input.toUpperCase() };
 
   // Reset local override when prop changes - using ref comparison to avoid sync setState
   useEffect(() => {
@@ -206,10 +195,10 @@ export const VirtualGamepad = memo(function VirtualGamepad({
    */
   const handlePress = useCallback(
     (button: string) => {
-      dispatchKeyEvent(button, 'keydown');
+      dispatchKeyEvent(button, resolveKeyCode(button, controls), 'keydown');
       onButtonPress?.(button);
     },
-    [onButtonPress]
+    [controls, onButtonPress]
   );
 
   /**
@@ -217,10 +206,10 @@ export const VirtualGamepad = memo(function VirtualGamepad({
    */
   const handleRelease = useCallback(
     (button: string) => {
-      dispatchKeyEvent(button, 'keyup');
+      dispatchKeyEvent(button, resolveKeyCode(button, controls), 'keyup');
       onButtonRelease?.(button);
     },
-    [onButtonRelease]
+    [controls, onButtonRelease]
   );
 
   /**
@@ -233,34 +222,20 @@ export const VirtualGamepad = memo(function VirtualGamepad({
   }, [isVisible, onVisibilityChange]);
 
   /**
-   * Get button class based on button name
+   * Get button class based on the RetroPad input
    */
-  const getButtonClass = (button: string): string => {
-    const buttonLower = button.toLowerCase();
-    if (buttonLower === 'a' || buttonLower === 'o') return styles.buttonA;
-    if (buttonLower === 'b' || buttonLower === 'x') return styles.buttonB;
-    if (buttonLower === 'x' || buttonLower === 'square') return styles.buttonX;
-    if (buttonLower === 'y' || buttonLower === 'triangle') return styles.buttonY;
-    return '';
-  };
-
-  /**
-   * Get action buttons grid class
-   */
-  const getActionGridClass = (): string => {
-    switch (consoleType) {
-      case 'nes':
-      case 'gb':
-        return styles.actionButtonsNes;
-      case 'snes':
-      case 'gba':
-        return styles.actionButtonsSnes;
-      case 'ps1':
-        return styles.actionButtonsPs1;
-      case 'n64':
-        return styles.actionButtonsN64;
+  const getButtonClass = (button: InputButton): string => {
+    switch (button) {
+      case 'a':
+        return styles.buttonA;
+      case 'b':
+        return styles.buttonB;
+      case 'x':
+        return styles.buttonX;
+      case 'y':
+        return styles.buttonY;
       default:
-        return styles.actionButtonsGb;
+        return '';
     }
   };
 
@@ -343,23 +318,26 @@ export const VirtualGamepad = memo(function VirtualGamepad({
         {/* Right section - Action buttons */}
         <div className={styles.rightSection}>
           {/* Shoulder buttons */}
-          {config.shoulders && (
+          {layout.shoulders && (
             <div className={styles.shoulderButtons} role="group" aria-label="Shoulder buttons">
-              {config.shoulders.map((button) => (
-                <GamepadButton
-                  key={button}
-                  label={button}
-                  className={styles.shoulderButton}
-                  onPress={() => handlePress(button)}
-                  onRelease={() => handleRelease(button)}
-                  ariaLabel={`${button} shoulder button`}
-                />
-              ))}
+              {layout.shoulders.map((input) => {
+                const { label, shortLabel } = buttonFor(input);
+                return (
+                  <GamepadButton
+                    key={input}
+                    label={shortLabel ?? label}
+                    className={styles.shoulderButton}
+                    onPress={() => handlePress(input)}
+                    onRelease={() => handleRelease(input)}
+                    ariaLabel={`${label} shoulder button`}
+                  />
+                );
+              })}
             </div>
           )}
 
           {/* N64 C-Buttons */}
-          {config.cButtons && (
+          {layout.cButtons && (
             <div className={styles.cButtons} role="group" aria-label="C-buttons">
               <GamepadButton
                 label="C"
@@ -394,20 +372,23 @@ export const VirtualGamepad = memo(function VirtualGamepad({
 
           {/* Action buttons */}
           <div
-            className={clsx(styles.actionButtons, getActionGridClass())}
+            className={clsx(styles.actionButtons, ACTION_GRID_CLASSES[layout.grid])}
             role="group"
             aria-label="Action buttons"
           >
-            {config.actions.map((button) => (
-              <GamepadButton
-                key={button}
-                label={button.length > 2 ? button.charAt(0) : button}
-                className={clsx(styles.actionButton, getButtonClass(button))}
-                onPress={() => handlePress(button)}
-                onRelease={() => handleRelease(button)}
-                ariaLabel={`${button} button`}
-              />
-            ))}
+            {layout.actions.map((input) => {
+              const { label, shortLabel } = buttonFor(input);
+              return (
+                <GamepadButton
+                  key={input}
+                  label={shortLabel ?? label}
+                  className={clsx(styles.actionButton, getButtonClass(input))}
+                  onPress={() => handlePress(input)}
+                  onRelease={() => handleRelease(input)}
+                  ariaLabel={`${label} button`}
+                />
+              );
+            })}
           </div>
         </div>
       </div>
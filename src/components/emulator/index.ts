@@ -43,6 +43,30 @@ export type { SaveStateManagerProps, SaveStateSlotProps } from './SaveStateManag
 export { VirtualGamepad } from './VirtualGamepad';
 export type { VirtualGamepadProps } from './VirtualGamepad';
 
+// Cheat Manager
+export { CheatManager } from './CheatManager';
+export type { CheatManagerProps } from './CheatManager';
+
+// Shader Picker
+export { ShaderPicker } from './ShaderPicker';
+export type { ShaderPickerProps } from './ShaderPicker';
+
+// Settings Profile Editor
+export { SettingsProfileEditor } from './SettingsProfileEditor';
+export type { SettingsProfileEditorProps } from './SettingsProfileEditor';
+
+// Control Remapper
+export { ControlRemapper } from './ControlRemapper';
+export type { ControlRemapperProps } from './ControlRemapper';
+
+// Player Assignment
+export { PlayerAssignment } from './PlayerAssignment';
+export type { PlayerAssignmentProps } from './PlayerAssignment';
+
+// BIOS Manager
+export { BiosManager } from './BiosManager';
+export type { BiosManagerProps } from './BiosManager';
+
 // Gamepad Indicator
 export { GamepadIndicator } from './GamepadIndicator';
 export type { GamepadIndicatorProps } from './GamepadIndicator';
@@ -59,3 +83,7 @@ export type { EmulatorKeyboardHelpProps } from './EmulatorKeyboardHelp';
 // Browser Warning
 export { BrowserWarning } from './BrowserWarning';
 export type { BrowserWarningProps } from './BrowserWarning';
+
+// Resume Prompt
+export { ResumePrompt } from './ResumePrompt';
+export type { ResumePromptProps } from './ResumePrompt';
@@ -0,0 +1,68 @@
+/**
+ * CollectionCover Component
+ * Mosaic of the first game covers in a collection
+ */
+
+import { memo } from 'react';
+import clsx from 'clsx';
+import { Icon } from '../../common';
+import type { Game } from '@/types';
+import styles from './CollectionCover.module.css';
+
+export interface CollectionCoverProps {
+  /** Games in the collection, in display order */
+  games: readonly Game[];
+  /** Smart collections show a filter badge */
+  isSmart?: boolean;
+  /** Additional CSS class name */
+  className?: string;
+}
+
+/** Covers shown in the mosaic */
+const MOSAIC_SIZE = 4;
+
+/**
+ * Collection cover mosaic
+ * One cover fills the tile; two to four are laid out in a 2×2 grid
+ */
+export const CollectionCover = memo(function CollectionCover({
+  games,
+  isSmart = false,
+  className,
+}: CollectionCoverProps) {
+  const covers = games.filter((game) => game.coverPath).slice(0, MOSAIC_SIZE);
+
+  return (
+    <div
+      className={clsx(styles.cover, covers.length === 1 && styles.single, className)}
+      aria-hidden="true"
+    >
+      {covers.length === 0 ? (
+        <div className={styles.placeholder}>
+          <Icon name={isSmart ? 'search' : 'grid'} size={40} />
+        </div>
+      ) : (
+        covers.map((game) => (
+          <img
+            key={game.id}
+            src={game.coverPath}
+            alt=""
+            className={styles.tile}
+            loading="lazy"
+            crossOrigin="anonymous"
+          />
+        ))
+      )}
+      {isSmart && (
+        <span className={styles.smartBadge}>
+          <Icon name="search" size={12} />
+          Smart
+        </span>
+      )}
+    </div>
+  );
+});
+
+CollectionCover.displayName = 'CollectionCover';
+
+export default CollectionCover;
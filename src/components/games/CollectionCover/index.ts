@@ -0,0 +1 @@
+export { CollectionCover, type CollectionCoverProps } from './CollectionCover';
@@ -0,0 +1,229 @@
+/**
+ * CollectionMenu Component
+ * Context menu for adding a game to collections and removing it from them
+ */
+
+import {
+  memo,
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+  type FormEvent,
+  type KeyboardEvent,
+  type SyntheticEvent,
+} from 'react';
+import { createPortal } from 'react-dom';
+import { Link } from 'react-router-dom';
+import { Icon } from '../../common';
+import { useCollections } from '@/hooks/useCollections';
+import { useToastActions } from '@/hooks/useToast';
+import { collectionService, isSmartCollection } from '@/services/storage';
+import type { GameCollection } from '@/services/database';
+import type { Game } from '@/types';
+import styles from './CollectionMenu.module.css';
+
+export interface CollectionMenuProps {
+  /** Game the menu acts on */
+  game: Game;
+  /** Viewport position of the menu's top-left corner */
+  position: { x: number; y: number };
+  /** Called when the menu should close */
+  onClose: () => void;
+}
+
+/** Menu width, used to keep the menu inside the viewport */
+const MENU_WIDTH = 260;
+
+/** Tallest the menu grows before its list scrolls */
+const MENU_MAX_HEIGHT = 360;
+
+/** Smallest gap between the menu and the viewport edge */
+const VIEWPORT_MARGIN = 8;
+
+/**
+ * Stops menu events from reaching the card the menu belongs to.
+ * React events bubble through portals, so a click in the menu would
+ * otherwise also activate the card's link.
+ */
+function stopPropagation(event: SyntheticEvent) {
+  event.stopPropagation();
+}
+
+/**
+ * Collection context menu
+ * Lists the manual collections with a checkmark where the game is included;
+ * smart collections are not listed since their games come from a filter.
+ */
+export const CollectionMenu = memo(function CollectionMenu({ game, position, onClose }: CollectionMenuProps) {
+  const { collections, isLoading } = useCollections();
+  const toast = useToastActions();
+  const menuRef = useRef<HTMLDivElement>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [newName, setNewName] = useState('');
+
+  const manualCollections = collections.filter((collection) => !isSmartCollection(collection));
+
+  // Close on outside click and when the page scrolls away from the card
+  useEffect(() => {
+    const handlePointerDown = (event: PointerEvent) => {
+      if (!menuRef.current?.contains(event.target as Node)) {
+        onClose();
+      }
+    };
+
+    document.addEventListener('pointerdown', handlePointerDown);
+    window.addEventListener('scroll', onClose, { passive: true });
+
+    return () => {
+      document.removeEventListener('pointerdown', handlePointerDown);
+      window.removeEventListener('scroll', onClose);
+    };
+  }, [onClose]);
+
+  // Move focus into the menu once the collections are listed
+  useEffect(() => {
+    if (!isLoading) {
+      menuRef.current?.querySelector<HTMLElement>('button, input')?.focus();
+    }
+  }, [isLoading]);
+
+  const handleKeyDown = useCallback(
+    (event: KeyboardEvent<HTMLDivElement>) => {
+      event.stopPropagation();
+
+      if (event.key === 'Escape') {
+        event.preventDefault();
+        onClose();
+        return;
+      }
+
+      // Arrow keys move between menu items
+      if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+        event.preventDefault();
+        const items = Array.from(menuRef.current?.querySelectorAll<HTMLElement>('[role^="menuitem"]') ?? []);
+        const current = items.indexOf(document.activeElement as HTMLElement);
+        const next = event.key === 'ArrowDown' ? current + 1 : current - 1;
+        items[(next + items.length) % items.length]?.focus();
+      }
+    },
+    [onClose]
+  );
+
+  const handleToggle = useCallback(
+    async (collection: GameCollection) => {
+      const isIncluded = collection.gameIds.includes(game.id);
+
+      try {
+        if (isIncluded) {
+          await collectionService.removeGame(collection.id!, game.id);
+          toast.info(`Removed ${game.title} from ${collection.name}`);
+        } else {
+          await collectionService.addGame(collection.id!, game.id);
+          toast.success(`Added ${game.title} to ${collection.name}`);
+        }
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : 'Failed to update collection');
+      }
+    },
+    [game.id, game.title, toast]
+  );
+
+  const handleCreate = useCallback(
+    async (event: FormEvent) => {
+      event.preventDefault();
+
+      try {
+        await collectionService.createCollection({ name: newName, gameIds: [game.id] });
+        toast.success(`Created ${newName.trim()} with ${game.title}`);
+        onClose();
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : 'Failed to create collection');
+      }
+    },
+    [newName, game.id, game.title, toast, onClose]
+  );
+
+  // Keep the menu on screen when opened near the right or bottom edge
+  const left = Math.max(VIEWPORT_MARGIN, Math.min(position.x, window.innerWidth - MENU_WIDTH - VIEWPORT_MARGIN));
+  const top = Math.max(VIEWPORT_MARGIN, Math.min(position.y, window.innerHeight - MENU_MAX_HEIGHT - VIEWPORT_MARGIN));
+
+  return createPortal(
+    <div
+      ref={menuRef}
+      className={styles.menu}
+      style={{ left, top, width: MENU_WIDTH, maxHeight: MENU_MAX_HEIGHT }}
+      role="menu"
+      aria-label={`Collections for ${game.title}`}
+      onClick={stopPropagation}
+      onContextMenu={(event) => {
+        event.preventDefault();
+        event.stopPropagation();
+      }}
+      onKeyDown={handleKeyDown}
+    >
+      <div className={styles.heading}>Add to collection</div>
+
+      {isLoading ? null : manualCollections.length === 0 && !isCreating ? (
+        <p className={styles.empty}>No collections yet</p>
+      ) : (
+        <ul className={styles.list}>
+          {manualCollections.map((collection) => {
+            const isIncluded = collection.gameIds.includes(game.id);
+
+            return (
+              <li key={collection.id}>
+                <button
+                  type="button"
+                  role="menuitemcheckbox"
+                  aria-checked={isIncluded}
+                  className={styles.item}
+                  onClick={() => handleToggle(collection)}
+                >
+                  <span className={styles.check} aria-hidden="true">
+                    {isIncluded && <Icon name="check" size={14} />}
+                  </span>
+                  <span className={styles.itemLabel}>{collection.name}</span>
+                  <span className={styles.itemCount}>{collection.gameIds.length}</span>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <div className={styles.footer}>
+        {isCreating ? (
+          <form className={styles.createForm} onSubmit={handleCreate}>
+            <input
+              type="text"
+              className={styles.createInput}
+              value={newName}
+              onChange={(event) => setNewName(event.target.value)}
+              placeholder="Collection name"
+              aria-label="New collection name"
+              maxLength={80}
+              autoFocus
+            />
+            <button type="submit" className={styles.createButton} disabled={!newName.trim()}>
+              Create
+            </button>
+          </form>
+        ) : (
+          <button type="button" role="menuitem" className={styles.item} onClick={() => setIsCreating(true)}>
+            <span className={styles.check} aria-hidden="true">+</span>
+            <span className={styles.itemLabel}>New collection…</span>
+          </button>
+        )}
+        <Link to="/collections" role="menuitem" className={styles.manageLink} onClick={onClose}>
+          Manage collections
+        </Link>
+      </div>
+    </div>,
+    document.body
+  );
+});
+
+CollectionMenu.displayName = 'CollectionMenu';
+
+export default CollectionMenu;
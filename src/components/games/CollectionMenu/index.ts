@@ -0,0 +1 @@
+export { CollectionMenu, type CollectionMenuProps } from './CollectionMenu';
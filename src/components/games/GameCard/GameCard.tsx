@@ -1,15 +1,18 @@
 /**
  * GameCard Component
  * Displays a game with cover art, title, console badge, and interactive elements
+ * Right-clicking a card opens the collection menu
  */
 
 import { memo, useState, useCallback, type MouseEvent, type ReactNode } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import clsx from 'clsx';
-import { Badge, Icon } from '../../common';
+import { Badge, HighlightedText, Icon } from '../../common';
 import { FavoriteButton } from '../FavoriteButton';
-import { CONSOLE_CONFIG } from '@/services/emulator/coreConfig';
-import type { Game, ConsoleType } from '@/types';
+import { OfflineButton } from '../OfflineButton';
+import { CollectionMenu } from '../CollectionMenu';
+import { CONSOLE_CONFIG } from '@/types';
+import type { Game, ConsoleType, GameSearchResult } from '@/types';
 import styles from './GameCard.module.css';
 
 export interface GameCardProps {
@@ -25,6 +28,8 @@ export interface GameCardProps {
   onClick?: () => void;
   /** Handler for info button click */
   onInfoClick?: (game: Game) => void;
+  /** Search matches to mark in the title and description */
+  highlights?: GameSearchResult['highlights'];
 }
 
 /**
@@ -43,10 +48,12 @@ export const GameCard = memo(function GameCard({
   size = 'md',
   onClick,
   onInfoClick,
+  highlights,
 }: GameCardProps) {
   const navigate = useNavigate();
   const [imageError, setImageError] = useState(false);
   const [imageLoaded, setImageLoaded] = useState(false);
+  const [menuPosition, setMenuPosition] = useState<{ x: number; y: number } | null>(null);
 
   // Cover URL (already includes CDN base from gameStore)
   const coverUrl = game.coverPath || PLACEHOLDER_IMAGE;
@@ -103,6 +110,28 @@ export const GameCard = memo(function GameCard({
     [onInfoClick, game]
   );
 
+  /**
+   * Open the collection menu at the pointer
+   * (or under the card when opened from the keyboard)
+   */
+  const handleContextMenu = useCallback((event: MouseEvent<HTMLElement>) => {
+    event.preventDefault();
+
+    if (event.clientX === 0 && event.clientY === 0) {
+      const rect = event.currentTarget.getBoundingClientRect();
+      setMenuPosition({ x: rect.left, y: rect.bottom });
+    } else {
+      setMenuPosition({ x: event.clientX, y: event.clientY });
+    }
+  }, []);
+
+  /**
+   * Close the collection menu
+   */
+  const handleMenuClose = useCallback(() => {
+    setMenuPosition(null);
+  }, []);
+
   // Common card content
   const cardContent: ReactNode = (
     <>
@@ -149,6 +178,10 @@ export const GameCard = memo(function GameCard({
               <Icon name="info" size={size === 'lg' ? 18 : 16} />
             </button>
           )}
+          <OfflineButton
+            game={game}
+            size={size === 'lg' ? 'md' : 'sm'}
+          />
           <FavoriteButton
             gameId={game.id}
             size={size === 'lg' ? 'md' : 'sm'}
@@ -170,14 +203,23 @@ export const GameCard = memo(function GameCard({
           </Badge>
         )}
 
+        {/* Imported from the user's own ROM files */}
+        {game.source === 'library' && (
+          <Badge size="sm" className={styles.libraryBadge}>
+            My Library
+          </Badge>
+        )}
+
         {/* Game title */}
         <h3 className={styles.title} title={game.title}>
-          {game.title}
+          <HighlightedText text={game.title} ranges={highlights?.title} />
         </h3>
 
         {/* Optional description */}
         {showDescription && game.description && (
-          <p className={styles.description}>{game.description}</p>
+          <p className={styles.description}>
+            <HighlightedText text={game.description} ranges={highlights?.description} />
+          </p>
         )}
 
         {/* Optional metadata row */}
@@ -194,6 +236,11 @@ export const GameCard = memo(function GameCard({
           </div>
         )}
       </div>
+
+      {/* Collection context menu (portal) */}
+      {menuPosition && (
+        <CollectionMenu game={game} position={menuPosition} onClose={handleMenuClose} />
+      )}
     </>
   );
 
@@ -201,6 +248,7 @@ export const GameCard = memo(function GameCard({
   const styleProps = {
     className: clsx(styles.gameCard, styles[size]),
     style: { '--console-color': consoleColor } as React.CSSProperties,
+    onContextMenu: handleContextMenu,
   };
 
   // Render as div with onClick handler
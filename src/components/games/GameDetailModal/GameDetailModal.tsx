@@ -1,14 +1,17 @@
 /**
  * GameDetailModal Component
- * Displays detailed game information in a modal dialog
+ * Displays detailed game information in a modal dialog, and the game's
+ * settings profile
  */
 
-import { memo, useCallback } from 'react';
+import { memo, useCallback, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Modal, Badge, Icon, Button, type IconName } from '../../common';
 import { FavoriteButton } from '../FavoriteButton';
-import { CONSOLE_CONFIG } from '@/services/emulator/coreConfig';
-import type { Game, ConsoleType } from '@/types';
+import { OfflineButton } from '../OfflineButton';
+import { SettingsProfileEditor } from '@/components/emulator/SettingsProfileEditor';
+import { CONSOLE_CONFIG } from '@/types';
+import type { Game, ConsoleType, DumpStatus } from '@/types';
 import styles from './GameDetailModal.module.css';
 
 export interface GameDetailModalProps {
@@ -26,6 +29,18 @@ export interface GameDetailModalProps {
 const PLACEHOLDER_IMAGE =
   'data:image/svg+xml,%3Csvg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 300 400" fill="%231e293b"%3E%3Crect width="300" height="400"/%3E%3Ctext x="150" y="200" text-anchor="middle" fill="%2364748b" font-size="48"%3E?%3C/text%3E%3C/svg%3E';
 
+/**
+ * Badge shown for each DAT verification result ('unknown' shows none)
+ */
+const DUMP_STATUS_BADGES: Record<
+  Exclude<DumpStatus, 'unknown'>,
+  { label: string; variant: 'success' | 'warning' | 'error'; hint: string }
+> = {
+  verified: { label: 'Verified dump', variant: 'success', hint: 'Matches a known good No-Intro/Redump dump' },
+  modified: { label: 'Modified dump', variant: 'warning', hint: 'Differs from the known good dump (hack, patch or corruption)' },
+  bad: { label: 'Bad dump', variant: 'error', hint: 'Matches a dump the DAT marks as bad' },
+};
+
 /**
  * Format genre for display
  */
@@ -69,24 +84,32 @@ export const GameDetailModal = memo(function GameDetailModal({
   onClose,
 }: GameDetailModalProps) {
   const navigate = useNavigate();
+  const [isEditingSettings, setIsEditingSettings] = useState(false);
+
+  const handleClose = useCallback(() => {
+    setIsEditingSettings(false);
+    onClose();
+  }, [onClose]);
 
   const handlePlay = useCallback(() => {
     if (game) {
-      onClose();
+      handleClose();
       navigate(`/play/${game.id}`);
     }
-  }, [game, navigate, onClose]);
+  }, [game, navigate, handleClose]);
 
   if (!game) return null;
 
   const consoleConfig = CONSOLE_CONFIG[game.console as ConsoleType];
   const consoleName = consoleConfig?.name ?? game.console.toUpperCase();
   const coverUrl = game.coverPath || PLACEHOLDER_IMAGE;
+  const dumpBadge =
+    game.dumpStatus && game.dumpStatus !== 'unknown' ? DUMP_STATUS_BADGES[game.dumpStatus] : null;
 
   return (
     <Modal
       isOpen={isOpen}
-      onClose={onClose}
+      onClose={handleClose}
       size="lg"
       className={styles.modal}
     >
@@ -104,84 +127,125 @@ export const GameDetailModal = memo(function GameDetailModal({
           </div>
         </div>
 
-        {/* Info Section */}
-        <div className={styles.infoSection}>
-          {/* Header */}
-          <div className={styles.header}>
-            <Badge
-              variant="console"
-              console={game.console as ConsoleType}
-              size="md"
-            >
-              {consoleName}
-            </Badge>
-            <FavoriteButton gameId={game.id} size="md" />
+        {/* Info Section, or the game's settings profile */}
+        {isEditingSettings ? (
+          <div className={styles.infoSection}>
+            <div className={styles.settingsHeader}>
+              <Button variant="ghost" size="sm" onClick={() => setIsEditingSettings(false)}>
+                <Icon name="chevron-left" size={16} />
+                Back
+              </Button>
+              <h2 className={styles.settingsTitle}>{game.title} Settings</h2>
+            </div>
+            <SettingsProfileEditor game={game} />
           </div>
+        ) : (
+          <div className={styles.infoSection}>
+            {/* Header */}
+            <div className={styles.header}>
+              <div className={styles.badges}>
+                <Badge
+                  variant="console"
+                  console={game.console as ConsoleType}
+                  size="md"
+                >
+                  {consoleName}
+                </Badge>
+                {dumpBadge && (
+                  <span title={[dumpBadge.hint, game.crc32 && `CRC32 ${game.crc32}`].filter(Boolean).join(' · ')}>
+                    <Badge variant={dumpBadge.variant} size="md">
+                      {dumpBadge.label}
+                    </Badge>
+                  </span>
+                )}
+              </div>
+              <FavoriteButton gameId={game.id} size="md" />
+            </div>
 
-          {/* Title */}
-          <h2 className={styles.title}>{game.title}</h2>
-
-          {/* Description */}
-          {game.description && (
-            <p className={styles.description}>{game.description}</p>
-          )}
+            {/* Title */}
+            <h2 className={styles.title}>{game.title}</h2>
+
+            {/* Description */}
+            {game.description && (
+              <p className={styles.description}>{game.description}</p>
+            )}
+
+            {/* Metadata Grid */}
+            <div className={styles.metadataGrid}>
+              <MetadataItem
+                label="Genre"
+                value={game.genre ? formatGenre(game.genre) : undefined}
+                icon="tag"
+              />
+              <MetadataItem
+                label="Players"
+                value={game.players ? `${game.players} Player${game.players > 1 ? 's' : ''}` : undefined}
+                icon="users"
+              />
+              <MetadataItem
+                label="Year"
+                value={game.releaseYear}
+                icon="calendar"
+              />
+              <MetadataItem
+                label="Region"
+                value={game.region}
+                icon="globe"
+              />
+              <MetadataItem
+                label="Developer"
+                value={game.developer}
+                icon="code"
+              />
+              <MetadataItem
+                label="Publisher"
+                value={game.publisher}
+                icon="building"
+              />
+              <MetadataItem
+                label="DAT Name"
+                value={game.datName}
+                icon="info"
+              />
+            </div>
 
-          {/* Metadata Grid */}
-          <div className={styles.metadataGrid}>
-            <MetadataItem
-              label="Genre"
-              value={game.genre ? formatGenre(game.genre) : undefined}
-              icon="tag"
-            />
-            <MetadataItem
-              label="Players"
-              value={game.players ? `${game.players} Player${game.players > 1 ? 's' : ''}` : undefined}
-              icon="users"
-            />
-            <MetadataItem
-              label="Year"
-              value={game.releaseYear}
-              icon="calendar"
-            />
-            <MetadataItem
-              label="Region"
-              value={game.region}
-              icon="globe"
-            />
-            <MetadataItem
-              label="Developer"
-              value={game.developer}
-              icon="code"
-            />
-            <MetadataItem
-              label="Publisher"
-              value={game.publisher}
-              icon="building"
-            />
+            {/* Tags */}
+            {game.tags && game.tags.length > 0 && (
+              <div className={styles.tags}>
+                {game.tags.map((tag) => (
+                  <span key={tag} className={styles.tag}>
+                    {tag}
+                  </span>
+                ))}
+              </div>
+            )}
+
+            {/* Play Button */}
+            <Button
+              variant="primary"
+              size="lg"
+              onClick={handlePlay}
+              className={styles.playButton}
+            >
+              <Icon name="play" size={20} />
+              Play Now
+            </Button>
+
+            {/* Offline download */}
+            <OfflineButton game={game} size="md" showLabel className={styles.offlineButton} />
+
+            {/* Per-game settings */}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setIsEditingSettings(true)}
+              className={styles.settingsButton}
+            >
+              <Icon name="settings" size={16} />
+              Game Settings
+            </Button>
           </div>
-
-          {/* Tags */}
-          {game.tags && game.tags.length > 0 && (
-            <div className={styles.tags}>
-              {game.tags.map((tag) => (
-                <span key={tag} className={styles.tag}>
-                  {tag}
-                </span>
-              ))}
-            </div>
-          )}
-
-          {/* Play Button */}
-          <Button
-            variant="primary"
-            size="lg"
-            onClick={handlePlay}
-            className={styles.playButton}
-          >
-            <Icon name="play" size={20} />
-            Play Now
-          </Button>
-        </div>
+        )}
       </div>
     </Modal>
   );
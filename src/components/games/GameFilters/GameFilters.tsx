@@ -1,13 +1,15 @@
 /**
  * GameFilters Component
- * Filter bar with view mode toggle, sort controls, and results count
+ * Filter bar with view mode toggle, sort controls, results count, and
+ * genre, players, release year, region and favorites filters
  */
 
-import { memo, useCallback } from 'react';
+import { memo, useCallback, useMemo } from 'react';
 import clsx from 'clsx';
 import { Icon } from '../../common';
 import { useGameStore } from '@/stores/gameStore';
-import type { GameSortField, ViewMode } from '@/types';
+import { GAME_GENRES, GENRE_LABELS, PLAYER_COUNTS } from '@/types';
+import type { GameGenre, GameSortField, PlayerCount, ViewMode } from '@/types';
 import styles from './GameFilters.module.css';
 
 export interface GameFiltersProps {
@@ -31,9 +33,21 @@ const SORT_OPTIONS: SortOption[] = [
   { value: 'title', label: 'Title' },
   { value: 'console', label: 'Console' },
   { value: 'releaseYear', label: 'Year' },
+  { value: 'genre', label: 'Genre' },
   { value: 'lastPlayed', label: 'Recent' },
+  { value: 'addedAt', label: 'Added' },
 ];
 
+/** Sort fields where newest first is the natural order */
+const DESCENDING_FIELDS: readonly GameSortField[] = ['lastPlayed', 'addedAt'];
+
+/**
+ * Parses a year input, empty meaning no bound
+ */
+function parseYearInput(value: string): number | undefined {
+  return value === '' ? undefined : Number(value);
+}
+
 /**
  * GameFilters component with view mode and sort controls
  * Connected to useGameStore for state management
@@ -44,15 +58,33 @@ export const GameFilters = memo(function GameFilters({
   className,
 }: GameFiltersProps) {
   const {
+    games,
     viewMode,
     sortBy,
     sortOrder,
+    selectedGenre,
+    selectedPlayers,
+    releaseYearRange,
+    selectedRegion,
+    favoritesOnly,
     setViewMode,
     setSortBy,
     setSortOrder,
+    setSelectedGenre,
+    setSelectedPlayers,
+    setReleaseYearRange,
+    setSelectedRegion,
+    setFavoritesOnly,
     resetFilters,
   } = useGameStore();
 
+  // Regions present in the catalog
+  const regions = useMemo(
+    () =>
+      [...new Set(games.map((game) => game.region).filter((region): region is string => !!region))].sort(),
+    [games]
+  );
+
   /**
    * Handle view mode toggle
    */
@@ -68,9 +100,11 @@ export const GameFilters = memo(function GameFilters({
    */
   const handleSortByChange = useCallback(
     (event: React.ChangeEvent<HTMLSelectElement>) => {
-      setSortBy(event.target.value as GameSortField);
+      const field = event.target.value as GameSortField;
+      setSortBy(field);
+      setSortOrder(DESCENDING_FIELDS.includes(field) ? 'desc' : 'asc');
     },
-    [setSortBy]
+    [setSortBy, setSortOrder]
   );
 
   /**
@@ -80,6 +114,61 @@ export const GameFilters = memo(function GameFilters({
     setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc');
   }, [sortOrder, setSortOrder]);
 
+  /**
+   * Handle genre filter change
+   */
+  const handleGenreChange = useCallback(
+    (event: React.ChangeEvent<HTMLSelectElement>) => {
+      setSelectedGenre((event.target.value || null) as GameGenre | null);
+    },
+    [setSelectedGenre]
+  );
+
+  /**
+   * Handle players filter change
+   */
+  const handlePlayersChange = useCallback(
+    (event: React.ChangeEvent<HTMLSelectElement>) => {
+      const value = Number(event.target.value);
+      setSelectedPlayers(value ? (value as PlayerCount) : null);
+    },
+    [setSelectedPlayers]
+  );
+
+  /**
+   * Handle release year bound changes
+   */
+  const handleYearMinChange = useCallback(
+    (event: React.ChangeEvent<HTMLInputElement>) => {
+      setReleaseYearRange({ ...releaseYearRange, min: parseYearInput(event.target.value) });
+    },
+    [releaseYearRange, setReleaseYearRange]
+  );
+
+  const handleYearMaxChange = useCallback(
+    (event: React.ChangeEvent<HTMLInputElement>) => {
+      setReleaseYearRange({ ...releaseYearRange, max: parseYearInput(event.target.value) });
+    },
+    [releaseYearRange, setReleaseYearRange]
+  );
+
+  /**
+   * Handle region filter change
+   */
+  const handleRegionChange = useCallback(
+    (event: React.ChangeEvent<HTMLSelectElement>) => {
+      setSelectedRegion(event.target.value || null);
+    },
+    [setSelectedRegion]
+  );
+
+  /**
+   * Handle favorites only toggle
+   */
+  const handleFavoritesToggle = useCallback(() => {
+    setFavoritesOnly(!favoritesOnly);
+  }, [favoritesOnly, setFavoritesOnly]);
+
   /**
    * Handle reset filters
    */
@@ -183,6 +272,92 @@ export const GameFilters = memo(function GameFilters({
           </button>
         </div>
       </div>
+
+      {/* Attribute filters */}
+      <div className={styles.filterControls} role="group" aria-label="Filter games">
+        <select
+          className={clsx(styles.filterSelect, { [styles.filterActive]: selectedGenre })}
+          value={selectedGenre ?? ''}
+          onChange={handleGenreChange}
+          aria-label="Filter by genre"
+        >
+          <option value="">All genres</option>
+          {GAME_GENRES.map((genre) => (
+            <option key={genre} value={genre}>
+              {GENRE_LABELS[genre]}
+            </option>
+          ))}
+        </select>
+
+        <select
+          className={clsx(styles.filterSelect, { [styles.filterActive]: selectedPlayers })}
+          value={selectedPlayers ?? ''}
+          onChange={handlePlayersChange}
+          aria-label="Filter by number of players"
+        >
+          <option value="">Any players</option>
+          {PLAYER_COUNTS.map((count) => (
+            <option key={count} value={count}>
+              {count === 1 ? '1 player' : `${count}+ players`}
+            </option>
+          ))}
+        </select>
+
+        <div
+          className={clsx(styles.yearRange, {
+            [styles.filterActive]:
+              releaseYearRange.min !== undefined || releaseYearRange.max !== undefined,
+          })}
+        >
+          <input
+            type="number"
+            className={styles.yearInput}
+            value={releaseYearRange.min ?? ''}
+            onChange={handleYearMinChange}
+            placeholder="From"
+            min={1970}
+            max={2030}
+            aria-label="Released from year"
+          />
+          <span aria-hidden="true">–</span>
+          <input
+            type="number"
+            className={styles.yearInput}
+            value={releaseYearRange.max ?? ''}
+            onChange={handleYearMaxChange}
+            placeholder="To"
+            min={1970}
+            max={2030}
+            aria-label="Released until year"
+          />
+        </div>
+
+        {regions.length > 0 && (
+          <select
+            className={clsx(styles.filterSelect, { [styles.filterActive]: selectedRegion })}
+            value={selectedRegion ?? ''}
+            onChange={handleRegionChange}
+            aria-label="Filter by region"
+          >
+            <option value="">All regions</option>
+            {regions.map((region) => (
+              <option key={region} value={region}>
+                {region}
+              </option>
+            ))}
+          </select>
+        )}
+
+        <button
+          type="button"
+          className={clsx(styles.favoritesToggle, { [styles.filterActive]: favoritesOnly })}
+          onClick={handleFavoritesToggle}
+          aria-pressed={favoritesOnly}
+        >
+          <Icon name={favoritesOnly ? 'heart-filled' : 'heart'} size={16} aria-hidden />
+          Favorites
+        </button>
+      </div>
     </div>
   );
 });
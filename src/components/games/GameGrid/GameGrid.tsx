@@ -7,7 +7,7 @@ import { memo, useMemo } from 'react';
 import clsx from 'clsx';
 import { GameCard } from '../GameCard';
 import { GameCardSkeleton } from '../GameCardSkeleton';
-import type { Game } from '@/types';
+import type { Game, GameSearchResult } from '@/types';
 import styles from './GameGrid.module.css';
 
 export interface GameGridProps {
@@ -29,6 +29,8 @@ export interface GameGridProps {
   skeletonCount?: number;
   /** Handler for game info button click */
   onGameInfoClick?: (game: Game) => void;
+  /** Search matches per game id, marked on the cards */
+  highlights?: ReadonlyMap<string, GameSearchResult['highlights']>;
   /** Additional CSS class name */
   className?: string;
 }
@@ -48,6 +50,7 @@ export const GameGrid = memo(function GameGrid({
   showDescription = false,
   skeletonCount = 8,
   onGameInfoClick,
+  highlights,
   className,
 }: GameGridProps) {
   // Generate skeleton array only when needed
@@ -113,6 +116,7 @@ export const GameGrid = memo(function GameGrid({
             showConsole={showConsole}
             showDescription={showDescription}
             onInfoClick={onGameInfoClick}
+            highlights={highlights?.get(game.id)}
           />
         </div>
       ))}
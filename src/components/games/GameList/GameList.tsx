@@ -6,11 +6,11 @@
 import { memo, useState, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
 import clsx from 'clsx';
-import { Badge, Icon } from '../../common';
+import { Badge, HighlightedText, Icon } from '../../common';
 import { FavoriteButton } from '../FavoriteButton';
 import { useGameStore } from '@/stores/gameStore';
-import { CONSOLE_CONFIG } from '@/services/emulator/coreConfig';
-import type { Game, ConsoleType, GameSortField, SortOrder } from '@/types';
+import { CONSOLE_CONFIG } from '@/types';
+import type { Game, ConsoleType, GameSearchResult, GameSortField, SortOrder } from '@/types';
 import styles from './GameList.module.css';
 
 export interface GameListProps {
@@ -20,6 +20,8 @@ export interface GameListProps {
   isLoading?: boolean;
   /** Message to display when no games */
   emptyMessage?: string;
+  /** Search matches per game id, marked in the titles */
+  highlights?: ReadonlyMap<string, GameSearchResult['highlights']>;
   /** Additional CSS class name */
   className?: string;
 }
@@ -81,10 +83,11 @@ const SortableHeader = memo(function SortableHeader({
  */
 interface GameRowProps {
   game: Game;
+  highlights?: GameSearchResult['highlights'];
   onNavigate: (gameId: string) => void;
 }
 
-const GameRow = memo(function GameRow({ game, onNavigate }: GameRowProps) {
+const GameRow = memo(function GameRow({ game, highlights, onNavigate }: GameRowProps) {
   const [imageError, setImageError] = useState(false);
 
   const consoleConfig = CONSOLE_CONFIG[game.console as ConsoleType];
@@ -136,7 +139,9 @@ const GameRow = memo(function GameRow({ game, onNavigate }: GameRowProps) {
 
       {/* Title */}
       <td className={clsx(styles.td, styles.titleCell)}>
-        <span className={styles.title}>{game.title}</span>
+        <span className={styles.title}>
+          <HighlightedText text={game.title} ranges={highlights?.title} />
+        </span>
       </td>
 
       {/* Console */}
@@ -186,6 +191,7 @@ export const GameList = memo(function GameList({
   games,
   isLoading = false,
   emptyMessage = 'No games found',
+  highlights,
   className,
 }: GameListProps) {
   const navigate = useNavigate();
@@ -290,7 +296,12 @@ export const GameList = memo(function GameList({
         </thead>
         <tbody className={styles.tbody}>
           {games.map((game) => (
-            <GameRow key={game.id} game={game} onNavigate={handleNavigate} />
+            <GameRow
+              key={game.id}
+              game={game}
+              highlights={highlights?.get(game.id)}
+              onNavigate={handleNavigate}
+            />
           ))}
         </tbody>
       </table>
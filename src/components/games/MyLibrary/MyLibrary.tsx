@@ -0,0 +1,177 @@
+/**
+ * MyLibrary Component
+ *
+ * Panel for the user's imported ROMs. Users import single files or whole
+ * folders; each game can be renamed inline or removed from the library.
+ */
+
+import { memo, useCallback, useRef, useState, type ChangeEvent, type FormEvent } from 'react';
+import { Badge } from '@/components/common';
+import { getConsoleConfig } from '@/types';
+import type { Game } from '@/types';
+import styles from './MyLibrary.module.css';
+
+export interface MyLibraryProps {
+  /** Games imported by the user */
+  games: readonly Game[];
+  /** Callback with the files picked by the user */
+  onImport: (files: File[]) => void;
+  /** Callback to change a game's title */
+  onRename: (id: string, title: string) => void;
+  /** Callback to remove a game from the library */
+  onRemove: (game: Game) => void;
+  /** Whether an import is in progress */
+  isImporting?: boolean;
+}
+
+/** Attributes enabling folder selection on a file input (non-standard) */
+const FOLDER_INPUT_PROPS = { webkitdirectory: '', directory: '' } as Record<string, string>;
+
+function MyLibraryComponent({ games, onImport, onRename, onRemove, isImporting = false }: MyLibraryProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  const handleInputChange = useCallback(
+    (event: ChangeEvent<HTMLInputElement>) => {
+      const files = Array.from(event.target.files ?? []);
+      if (files.length > 0) onImport(files);
+      event.target.value = '';
+    },
+    [onImport]
+  );
+
+  const startEditing = useCallback((game: Game) => {
+    setEditingId(game.id);
+    setDraftTitle(game.title);
+  }, []);
+
+  const cancelEditing = useCallback(() => setEditingId(null), []);
+
+  const handleRenameSubmit = useCallback(
+    (event: FormEvent<HTMLFormElement>) => {
+      event.preventDefault();
+      if (editingId && draftTitle.trim()) {
+        onRename(editingId, draftTitle.trim());
+      }
+      setEditingId(null);
+    },
+    [editingId, draftTitle, onRename]
+  );
+
+  return (
+    <section className={styles.library} aria-labelledby="my-library-title">
+      <div className={styles.header}>
+        <h2 id="my-library-title" className={styles.title}>
+          My Library <Badge>{games.length}</Badge>
+        </h2>
+        <div className={styles.actions}>
+          <button
+            type="button"
+            className={styles.button}
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isImporting}
+          >
+            Import Files
+          </button>
+          <button
+            type="button"
+            className={styles.button}
+            onClick={() => folderInputRef.current?.click()}
+            disabled={isImporting}
+          >
+            Import Folder
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            className={styles.fileInput}
+            onChange={handleInputChange}
+            tabIndex={-1}
+            aria-hidden="true"
+          />
+          <input
+            ref={folderInputRef}
+            type="file"
+            multiple
+            {...FOLDER_INPUT_PROPS}
+            className={styles.fileInput}
+            onChange={handleInputChange}
+            tabIndex={-1}
+            aria-hidden="true"
+          />
+        </div>
+      </div>
+
+      {isImporting && <p className={styles.hint}>Importing ROMs…</p>}
+
+      {games.length === 0 ? (
+        <p className={styles.hint}>
+          Import your own ROM dumps to play them here. The console is detected automatically and
+          files stay in this browser.
+        </p>
+      ) : (
+        <ul className={styles.games}>
+          {games.map((game) => (
+            <li key={game.id} className={styles.game}>
+              {editingId === game.id ? (
+                <form className={styles.renameForm} onSubmit={handleRenameSubmit}>
+                  <input
+                    type="text"
+                    className={styles.renameInput}
+                    value={draftTitle}
+                    onChange={(event) => setDraftTitle(event.target.value)}
+                    onKeyDown={(event) => event.key === 'Escape' && cancelEditing()}
+                    aria-label={`New title for ${game.title}`}
+                    autoFocus
+                  />
+                  <button type="submit" className={styles.button}>
+                    Save
+                  </button>
+                  <button type="button" className={styles.button} onClick={cancelEditing}>
+                    Cancel
+                  </button>
+                </form>
+              ) : (
+                <>
+                  <div className={styles.gameInfo}>
+                    <span className={styles.gameTitle}>{game.title}</span>
+                    <code className={styles.fileName}>{game.romPath}</code>
+                  </div>
+                  <div className={styles.gameMeta}>
+                    <Badge variant="console" console={game.console}>
+                      {getConsoleConfig(game.console).shortName}
+                    </Badge>
+                    <button
+                      type="button"
+                      className={styles.button}
+                      onClick={() => startEditing(game)}
+                      aria-label={`Rename ${game.title}`}
+                    >
+                      Rename
+                    </button>
+                    <button
+                      type="button"
+                      className={styles.button}
+                      onClick={() => onRemove(game)}
+                      aria-label={`Remove ${game.title}`}
+                    >
+                      Remove
+                    </button>
+                  </div>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
+
+export const MyLibrary = memo(MyLibraryComponent);
+MyLibrary.displayName = 'MyLibrary';
+
+export default MyLibrary;
@@ -0,0 +1,2 @@
+export { MyLibrary, type MyLibraryProps } from './MyLibrary';
+export { default } from './MyLibrary';
@@ -0,0 +1,110 @@
+/**
+ * OfflineButton Component
+ * Downloads a game for offline play or removes its offline copy
+ */
+
+import { memo, useCallback, type MouseEvent } from 'react';
+import clsx from 'clsx';
+import { Icon } from '../../common';
+import { useOfflineGame } from '@/hooks/useOfflineGames';
+import { formatSaveSize } from '@/hooks/useSaveStates';
+import { useToastActions } from '@/hooks/useToast';
+import type { Game } from '@/types';
+import styles from './OfflineButton.module.css';
+
+export interface OfflineButtonProps {
+  /** Game to download */
+  game: Game;
+  /** Button size variant */
+  size?: 'sm' | 'md' | 'lg';
+  /** Show text label alongside icon */
+  showLabel?: boolean;
+  /** Additional CSS class name */
+  className?: string;
+}
+
+/**
+ * Offline toggle button
+ * Renders nothing for library games, which are already stored locally
+ */
+export const OfflineButton = memo(function OfflineButton({
+  game,
+  size = 'md',
+  showLabel = false,
+  className,
+}: OfflineButtonProps) {
+  const { isAvailable, isPinned, isDownloading, progress, pin, unpin } = useOfflineGame(game);
+  const toast = useToastActions();
+
+  const handleClick = useCallback(
+    async (event: MouseEvent<HTMLButtonElement>) => {
+      // Prevent event bubbling to parent elements (e.g., card click)
+      event.preventDefault();
+      event.stopPropagation();
+
+      try {
+        if (isPinned) {
+          await unpin();
+          toast.info(`Removed offline copy of ${game.title}`);
+        } else {
+          const entry = await pin();
+          toast.success(`${game.title} is available offline (${formatSaveSize(entry.size)})`);
+        }
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : 'Failed to update offline copy');
+      }
+    },
+    [isPinned, pin, unpin, toast, game.title]
+  );
+
+  if (!isAvailable) {
+    return null;
+  }
+
+  const iconSize = size === 'sm' ? 16 : size === 'lg' ? 28 : 20;
+
+  const ariaLabel = isDownloading
+    ? 'Downloading for offline play'
+    : isPinned
+      ? 'Remove offline copy'
+      : 'Download for offline';
+
+  const label = isDownloading && progress
+    ? `Downloading ${progress.completed}/${progress.total} · ${formatSaveSize(progress.loaded)}`
+    : isPinned
+      ? 'Available offline'
+      : 'Download for offline';
+
+  return (
+    <button
+      type="button"
+      className={clsx(
+        styles.offlineButton,
+        styles[size],
+        {
+          [styles.active]: isPinned,
+          [styles.downloading]: isDownloading,
+        },
+        className
+      )}
+      onClick={handleClick}
+      disabled={isDownloading}
+      aria-label={ariaLabel}
+      aria-pressed={isPinned}
+      aria-busy={isDownloading}
+      title={ariaLabel}
+    >
+      <Icon
+        name={isPinned ? 'check' : 'download'}
+        size={iconSize}
+        className={styles.icon}
+        aria-hidden
+      />
+      {showLabel && <span className={styles.label}>{label}</span>}
+    </button>
+  );
+});
+
+OfflineButton.displayName = 'OfflineButton';
+
+export default OfflineButton;
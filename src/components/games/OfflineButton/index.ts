@@ -0,0 +1 @@
+export { OfflineButton, type OfflineButtonProps } from './OfflineButton';
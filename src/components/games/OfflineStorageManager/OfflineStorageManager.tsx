@@ -0,0 +1,128 @@
+/**
+ * OfflineStorageManager Component
+ *
+ * Storage usage view for offline play: how much of the browser quota is
+ * used, whether storage is persistent, and the games downloaded for
+ * offline play.
+ */
+
+import { memo } from 'react';
+import clsx from 'clsx';
+import { Badge } from '@/components/common';
+import type { OfflineGame } from '@/services/database';
+import type { StorageUsage } from '@/services/storage';
+import { formatSaveSize } from '@/hooks/useSaveStates';
+import { getConsoleConfig } from '@/types';
+import type { ConsoleType } from '@/types';
+import styles from './OfflineStorageManager.module.css';
+
+export interface OfflineStorageManagerProps {
+  /** Games downloaded for offline play */
+  pinnedGames: readonly OfflineGame[];
+  /** Browser storage usage (null while loading or unsupported) */
+  usage: StorageUsage | null;
+  /** Callback to request persistent storage */
+  onRequestPersistence: () => void;
+  /** Callback to remove a game's offline copy */
+  onRemove: (gameId: string) => void;
+  /** Callback to clear the runtime cache */
+  onClearCache: () => void;
+}
+
+/** Usage share above which the bar turns to a warning */
+const HIGH_USAGE = 0.8;
+
+function OfflineStorageManagerComponent({
+  pinnedGames,
+  usage,
+  onRequestPersistence,
+  onRemove,
+  onClearCache,
+}: OfflineStorageManagerProps) {
+  const share = usage && usage.quota > 0 ? Math.min(usage.usage / usage.quota, 1) : 0;
+
+  return (
+    <div className={styles.manager}>
+      {usage && usage.quota > 0 ? (
+        <div className={styles.usage}>
+          <div
+            className={styles.usageBar}
+            role="meter"
+            aria-label="Storage used"
+            aria-valuemin={0}
+            aria-valuemax={usage.quota}
+            aria-valuenow={usage.usage}
+          >
+            <div
+              className={clsx(styles.usageFill, share >= HIGH_USAGE && styles.usageFillHigh)}
+              style={{ width: `${share * 100}%` }}
+            />
+          </div>
+          <span className={styles.usageText}>
+            {formatSaveSize(usage.usage)} of {formatSaveSize(usage.quota)} used
+            {usage.pinnedSize > 0 && ` · ${formatSaveSize(usage.pinnedSize)} offline games`}
+          </span>
+        </div>
+      ) : (
+        <span className={styles.hint}>Storage usage is not available in this browser.</span>
+      )}
+
+      <div className={styles.persistence}>
+        {usage?.persisted ? (
+          <Badge variant="success">Persistent storage</Badge>
+        ) : (
+          <>
+            <Badge variant="warning">Best-effort storage</Badge>
+            <span className={styles.hint}>
+              The browser may clear downloads when space runs low, and the oldest offline games are
+              removed above {HIGH_USAGE * 100}% usage.
+            </span>
+            <button type="button" className={styles.actionButton} onClick={onRequestPersistence}>
+              Make persistent
+            </button>
+          </>
+        )}
+      </div>
+
+      {pinnedGames.length > 0 ? (
+        <ul className={styles.games}>
+          {pinnedGames.map((entry) => (
+            <li key={entry.gameId} className={styles.game}>
+              <div className={styles.gameInfo}>
+                <span className={styles.gameTitle}>{entry.title}</span>
+                <span className={styles.gameMeta}>
+                  {getConsoleConfig(entry.console as ConsoleType).name} · {formatSaveSize(entry.size)} · downloaded{' '}
+                  {entry.pinnedAt.toLocaleDateString()}
+                </span>
+              </div>
+              <button
+                type="button"
+                className={styles.actionButton}
+                onClick={() => onRemove(entry.gameId)}
+                aria-label={`Remove offline copy of ${entry.title}`}
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <span className={styles.hint}>
+          No games downloaded yet. Use “Download for offline” on a game to play it without a connection.
+        </span>
+      )}
+
+      <div className={styles.footer}>
+        <span className={styles.hint}>Emulator files cached while playing are re-downloaded when needed.</span>
+        <button type="button" className={styles.actionButton} onClick={onClearCache}>
+          Clear cache
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export const OfflineStorageManager = memo(OfflineStorageManagerComponent);
+OfflineStorageManager.displayName = 'OfflineStorageManager';
+
+export default OfflineStorageManager;
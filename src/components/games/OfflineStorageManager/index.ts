@@ -0,0 +1 @@
+export { OfflineStorageManager, type OfflineStorageManagerProps } from './OfflineStorageManager';
@@ -0,0 +1,220 @@
+/**
+ * StorageUsageManager Component
+ *
+ * Breakdown of the browser storage used by saves, screenshots, imported
+ * ROMs, BIOS files, offline games and the emulator cache, per console and
+ * for the largest games, with bulk cleanups to free space.
+ */
+
+import { memo, useMemo, useState } from 'react';
+import type { StorageCategory, StorageCleanupRule, StorageReport } from '@/services/storage';
+import { formatSaveSize } from '@/hooks/useSaveStates';
+import { CONSOLE_CONFIG, isConsoleType } from '@/types';
+import type { Game } from '@/types';
+import styles from './StorageUsageManager.module.css';
+
+export interface StorageUsageManagerProps {
+  /** Storage report (null while loading or unsupported) */
+  report: StorageReport | null;
+  /** Known games, for titles */
+  games: readonly Game[];
+  /** Callback to run (after confirmation) a cleanup */
+  onCleanup: (rule: StorageCleanupRule) => void;
+}
+
+/** Category labels, in display order */
+const CATEGORY_LABELS: Record<StorageCategory, string> = {
+  saves: 'Save states',
+  screenshots: 'Screenshots',
+  importedRoms: 'Imported ROMs',
+  bios: 'BIOS files',
+  offlineGames: 'Offline games',
+  emulatorCache: 'Emulator cache',
+};
+
+const CATEGORIES = Object.keys(CATEGORY_LABELS) as StorageCategory[];
+
+/** Segment colours per category */
+const CATEGORY_COLORS: Record<StorageCategory, string> = {
+  saves: 'var(--color-neon-cyan)',
+  screenshots: 'var(--color-neon-blue)',
+  importedRoms: 'var(--color-neon-magenta)',
+  bios: 'var(--color-neon-purple)',
+  offlineGames: 'var(--color-success)',
+  emulatorCache: 'var(--color-warning)',
+};
+
+/** Segment colour for usage outside the categories */
+const OTHER_COLOR = 'var(--color-text-muted)';
+
+/** Choices for "not played in" cleanups, in days */
+const STALE_DAYS = [30, 90, 180, 365];
+
+/** Number of games listed */
+const MAX_GAMES = 8;
+
+/**
+ * Gets a console's display name.
+ */
+function getConsoleName(console: string | null | undefined): string {
+  if (!console) return 'Unknown console';
+  return isConsoleType(console) ? CONSOLE_CONFIG[console].name : console;
+}
+
+function StorageUsageManagerComponent({ report, games, onCleanup }: StorageUsageManagerProps) {
+  const [staleDays, setStaleDays] = useState(90);
+
+  const titles = useMemo(() => new Map(games.map((game) => [game.id, game.title])), [games]);
+
+  if (!report) {
+    return <span className={styles.hint}>Reading storage usage…</span>;
+  }
+
+  // Without a browser estimate, the bar is relative to the known total
+  const known = CATEGORIES.reduce((total, category) => total + report.categories[category], 0);
+  const scale = report.quota > 0 ? report.quota : Math.max(known + report.other, 1);
+  const largestGames = report.games.slice(0, MAX_GAMES);
+
+  return (
+    <div className={styles.manager}>
+      <div className={styles.usage}>
+        <div
+          className={styles.usageBar}
+          role="meter"
+          aria-label="Storage used"
+          aria-valuemin={0}
+          aria-valuemax={scale}
+          aria-valuenow={known + report.other}
+        >
+          {CATEGORIES.map((category) => (
+            <div
+              key={category}
+              className={styles.segment}
+              style={{
+                width: `${(report.categories[category] / scale) * 100}%`,
+                background: CATEGORY_COLORS[category],
+              }}
+            />
+          ))}
+          <div
+            className={styles.segment}
+            style={{ width: `${(report.other / scale) * 100}%`, background: OTHER_COLOR }}
+          />
+        </div>
+        <span className={styles.usageText}>
+          {report.quota > 0
+            ? `${formatSaveSize(report.usage)} of ${formatSaveSize(report.quota)} used`
+            : `${formatSaveSize(known)} used by games and saves`}
+        </span>
+
+        <ul className={styles.legend}>
+          {CATEGORIES.map((category) => (
+            <li key={category} className={styles.legendItem}>
+              <span className={styles.swatch} style={{ background: CATEGORY_COLORS[category] }} />
+              {CATEGORY_LABELS[category]}
+              <span className={styles.legendSize}>{formatSaveSize(report.categories[category])}</span>
+            </li>
+          ))}
+          {report.quota > 0 && (
+            <li className={styles.legendItem}>
+              <span className={styles.swatch} style={{ background: OTHER_COLOR }} />
+              Other
+              <span className={styles.legendSize}>{formatSaveSize(report.other)}</span>
+            </li>
+          )}
+        </ul>
+      </div>
+
+      {report.consoles.length > 0 && (
+        <div className={styles.group}>
+          <h3 className={styles.groupTitle}>By console</h3>
+          <ul className={styles.list}>
+            {report.consoles.map((usage) => (
+              <li key={usage.console ?? 'unknown'} className={styles.row}>
+                <span className={styles.rowTitle}>{getConsoleName(usage.console)}</span>
+                <span className={styles.rowMeta}>
+                  {usage.gameCount === 1 ? '1 game' : `${usage.gameCount} games`}
+                  {usage.breakdown.bios > 0 && ` · BIOS ${formatSaveSize(usage.breakdown.bios)}`}
+                </span>
+                <span className={styles.rowSize}>{formatSaveSize(usage.total)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {largestGames.length > 0 && (
+        <div className={styles.group}>
+          <h3 className={styles.groupTitle}>Largest games</h3>
+          <ul className={styles.list}>
+            {largestGames.map((usage) => (
+              <li key={usage.gameId} className={styles.row}>
+                <span className={styles.rowTitle}>{titles.get(usage.gameId) ?? usage.gameId}</span>
+                <span className={styles.rowMeta}>
+                  {getConsoleName(usage.console)}
+                  {usage.saveCount > 0 && ` · ${usage.saveCount === 1 ? '1 save' : `${usage.saveCount} saves`}`}
+                  {usage.lastPlayedAt !== undefined &&
+                    ` · played ${new Date(usage.lastPlayedAt).toLocaleDateString()}`}
+                </span>
+                <span className={styles.rowSize}>{formatSaveSize(usage.total)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className={styles.group}>
+        <h3 className={styles.groupTitle}>Free up space</h3>
+        <label className={styles.staleSelect}>
+          For games not played in
+          <select
+            className={styles.select}
+            value={staleDays}
+            onChange={(event) => setStaleDays(Number(event.target.value))}
+          >
+            {STALE_DAYS.map((days) => (
+              <option key={days} value={days}>
+                {days} days
+              </option>
+            ))}
+          </select>
+        </label>
+        <div className={styles.actions}>
+          <button
+            type="button"
+            className={styles.actionButton}
+            onClick={() => onCleanup({ type: 'stale-saves', days: staleDays })}
+          >
+            Delete their saves
+          </button>
+          <button
+            type="button"
+            className={styles.actionButton}
+            onClick={() => onCleanup({ type: 'stale-offline-games', days: staleDays })}
+          >
+            Remove their offline copies
+          </button>
+          <button
+            type="button"
+            className={styles.actionButton}
+            onClick={() => onCleanup({ type: 'screenshots' })}
+          >
+            Delete all save screenshots
+          </button>
+          <button
+            type="button"
+            className={styles.actionButton}
+            onClick={() => onCleanup({ type: 'emulator-cache' })}
+          >
+            Clear emulator cache
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export const StorageUsageManager = memo(StorageUsageManagerComponent);
+StorageUsageManager.displayName = 'StorageUsageManager';
+
+export default StorageUsageManager;
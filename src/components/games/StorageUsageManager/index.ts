@@ -0,0 +1 @@
+export { StorageUsageManager, type StorageUsageManagerProps } from './StorageUsageManager';
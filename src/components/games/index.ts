@@ -6,6 +6,9 @@
 // FavoriteButton
 export { FavoriteButton, type FavoriteButtonProps } from './FavoriteButton';
 
+// OfflineButton
+export { OfflineButton, type OfflineButtonProps } from './OfflineButton';
+
 // GameCard
 export { GameCard, type GameCardProps } from './GameCard';
 
@@ -23,3 +26,18 @@ export { GameFilters, type GameFiltersProps } from './GameFilters';
 
 // GameDetailModal
 export { GameDetailModal, type GameDetailModalProps } from './GameDetailModal';
+
+// MyLibrary
+export { MyLibrary, type MyLibraryProps } from './MyLibrary';
+
+// CollectionCover
+export { CollectionCover, type CollectionCoverProps } from './CollectionCover';
+
+// CollectionMenu
+export { CollectionMenu, type CollectionMenuProps } from './CollectionMenu';
+
+// OfflineStorageManager
+export { OfflineStorageManager, type OfflineStorageManagerProps } from './OfflineStorageManager';
+
+// StorageUsageManager
+export { StorageUsageManager, type StorageUsageManagerProps } from './StorageUsageManager';
@@ -0,0 +1,160 @@
+/**
+ * AttributeFilter Component
+ * Genre, players, release year, region and favorites filters
+ */
+
+import { GAME_GENRES, GENRE_LABELS, PLAYER_COUNTS } from '../../../types';
+import type { GameGenre, PlayerCount } from '../../../types';
+import type { YearRange } from '../../../stores';
+import styles from './AttributeFilter.module.css';
+
+export interface AttributeFilterProps {
+  /** Selected genre (null for all) */
+  selectedGenre: GameGenre | null;
+  /** Minimum number of players (null for any) */
+  selectedPlayers: PlayerCount | null;
+  /** Release year range */
+  releaseYearRange: YearRange;
+  /** Selected region (null for all) */
+  selectedRegion: string | null;
+  /** Regions available to choose from */
+  regions: readonly string[];
+  /** Whether only favorites are shown */
+  favoritesOnly: boolean;
+  onGenreChange: (genre: GameGenre | null) => void;
+  onPlayersChange: (players: PlayerCount | null) => void;
+  onReleaseYearRangeChange: (range: YearRange) => void;
+  onRegionChange: (region: string | null) => void;
+  onFavoritesOnlyChange: (favoritesOnly: boolean) => void;
+  /** Whether the sidebar is collapsed (filters are hidden) */
+  isCollapsed?: boolean;
+}
+
+/**
+ * Parses a year input, empty meaning no bound
+ */
+function parseYearInput(value: string): number | undefined {
+  return value === '' ? undefined : Number(value);
+}
+
+/**
+ * AttributeFilter Component
+ * Chip groups for genre, players and region, plus year inputs and a favorites toggle
+ */
+export function AttributeFilter({
+  selectedGenre,
+  selectedPlayers,
+  releaseYearRange,
+  selectedRegion,
+  regions,
+  favoritesOnly,
+  onGenreChange,
+  onPlayersChange,
+  onReleaseYearRangeChange,
+  onRegionChange,
+  onFavoritesOnlyChange,
+  isCollapsed = false,
+}: AttributeFilterProps) {
+  if (isCollapsed) {
+    return null;
+  }
+
+  return (
+    <div className={styles.attributeFilter}>
+      <label className={styles.favoritesToggle}>
+        <input
+          type="checkbox"
+          checked={favoritesOnly}
+          onChange={(event) => onFavoritesOnlyChange(event.target.checked)}
+        />
+        Favorites only
+      </label>
+
+      <section className={styles.group} aria-label="Filter by genre">
+        <h3 className={styles.filterTitle}>Genre</h3>
+        <div className={styles.chips}>
+          {GAME_GENRES.map((genre) => (
+            <button
+              key={genre}
+              type="button"
+              className={`${styles.chip} ${selectedGenre === genre ? styles.active : ''}`}
+              onClick={() => onGenreChange(selectedGenre === genre ? null : genre)}
+              aria-pressed={selectedGenre === genre}
+            >
+              {GENRE_LABELS[genre]}
+            </button>
+          ))}
+        </div>
+      </section>
+
+      <section className={styles.group} aria-label="Filter by number of players">
+        <h3 className={styles.filterTitle}>Players</h3>
+        <div className={styles.chips}>
+          {PLAYER_COUNTS.map((count) => (
+            <button
+              key={count}
+              type="button"
+              className={`${styles.chip} ${selectedPlayers === count ? styles.active : ''}`}
+              onClick={() => onPlayersChange(selectedPlayers === count ? null : count)}
+              aria-pressed={selectedPlayers === count}
+            >
+              {count === 1 ? '1' : `${count}+`}
+            </button>
+          ))}
+        </div>
+      </section>
+
+      <section className={styles.group} aria-label="Filter by release year">
+        <h3 className={styles.filterTitle}>Released</h3>
+        <div className={styles.yearRange}>
+          <input
+            type="number"
+            className={styles.yearInput}
+            value={releaseYearRange.min ?? ''}
+            onChange={(event) =>
+              onReleaseYearRangeChange({ ...releaseYearRange, min: parseYearInput(event.target.value) })
+            }
+            placeholder="From"
+            min={1970}
+            max={2030}
+            aria-label="Released from year"
+          />
+          <span aria-hidden="true">–</span>
+          <input
+            type="number"
+            className={styles.yearInput}
+            value={releaseYearRange.max ?? ''}
+            onChange={(event) =>
+              onReleaseYearRangeChange({ ...releaseYearRange, max: parseYearInput(event.target.value) })
+            }
+            placeholder="To"
+            min={1970}
+            max={2030}
+            aria-label="Released until year"
+          />
+        </div>
+      </section>
+
+      {regions.length > 0 && (
+        <section className={styles.group} aria-label="Filter by region">
+          <h3 className={styles.filterTitle}>Region</h3>
+          <div className={styles.chips}>
+            {regions.map((region) => (
+              <button
+                key={region}
+                type="button"
+                className={`${styles.chip} ${selectedRegion === region ? styles.active : ''}`}
+                onClick={() => onRegionChange(selectedRegion === region ? null : region)}
+                aria-pressed={selectedRegion === region}
+              >
+                {region}
+              </button>
+            ))}
+          </div>
+        </section>
+      )}
+    </div>
+  );
+}
+
+export default AttributeFilter;
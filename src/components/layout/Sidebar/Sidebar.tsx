@@ -1,13 +1,14 @@
 /**
  * Sidebar Component
- * Responsive sidebar with console filters
+ * Responsive sidebar with console and attribute filters
  * Desktop: Collapsible sidebar
  * Mobile: Full-screen overlay
  */
 
-import { useCallback, useEffect, useRef } from 'react';
-import { useGameStore, selectSelectedConsole, selectGameCountByConsole, selectTotalGameCount } from '../../../stores';
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import { useGameStore, selectGames, selectSelectedConsole, selectGameCountByConsole, selectTotalGameCount } from '../../../stores';
 import { ConsoleFilter } from './ConsoleFilter';
+import { AttributeFilter } from './AttributeFilter';
 import type { ConsoleType } from '../../../types';
 import styles from './Sidebar.module.css';
 
@@ -76,6 +77,24 @@ export function Sidebar({
   const gameCounts = useGameStore(selectGameCountByConsole);
   const totalGameCount = useGameStore(selectTotalGameCount);
   const setSelectedConsole = useGameStore((state) => state.setSelectedConsole);
+  const games = useGameStore(selectGames);
+  const selectedGenre = useGameStore((state) => state.selectedGenre);
+  const selectedPlayers = useGameStore((state) => state.selectedPlayers);
+  const releaseYearRange = useGameStore((state) => state.releaseYearRange);
+  const selectedRegion = useGameStore((state) => state.selectedRegion);
+  const favoritesOnly = useGameStore((state) => state.favoritesOnly);
+  const setSelectedGenre = useGameStore((state) => state.setSelectedGenre);
+  const setSelectedPlayers = useGameStore((state) => state.setSelectedPlayers);
+  const setReleaseYearRange = useGameStore((state) => state.setReleaseYearRange);
+  const setSelectedRegion = useGameStore((state) => state.setSelectedRegion);
+  const setFavoritesOnly = useGameStore((state) => state.setFavoritesOnly);
+
+  // Regions present in the catalog
+  const regions = useMemo(
+    () =>
+      [...new Set(games.map((game) => game.region).filter((region): region is string => !!region))].sort(),
+    [games]
+  );
 
   // Handle console selection
   const handleConsoleSelect = useCallback(
@@ -185,6 +204,20 @@ export function Sidebar({
             totalGameCount={totalGameCount}
             isCollapsed={isCollapsed}
           />
+          <AttributeFilter
+            selectedGenre={selectedGenre}
+            selectedPlayers={selectedPlayers}
+            releaseYearRange={releaseYearRange}
+            selectedRegion={selectedRegion}
+            regions={regions}
+            favoritesOnly={favoritesOnly}
+            onGenreChange={setSelectedGenre}
+            onPlayersChange={setSelectedPlayers}
+            onReleaseYearRangeChange={setReleaseYearRange}
+            onRegionChange={setSelectedRegion}
+            onFavoritesOnlyChange={setFavoritesOnly}
+            isCollapsed={isCollapsed}
+          />
         </div>
 
         {/* Collapse toggle button (desktop only) */}
@@ -4,4 +4,5 @@
 
 export { Sidebar, type SidebarProps } from './Sidebar';
 export { ConsoleFilter, type ConsoleFilterProps } from './ConsoleFilter';
+export { AttributeFilter, type AttributeFilterProps } from './AttributeFilter';
 export { default } from './Sidebar';
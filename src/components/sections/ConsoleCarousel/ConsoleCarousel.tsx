@@ -75,6 +75,80 @@ const ConsoleIcons: Record<ConsoleType, React.FC<{ className?: string }>> = {
       <circle cx="54" cy="38" r="3" fill="var(--color-bg-primary)" />
     </svg>
   ),
+  nds: ({ className }) => (
+    <svg viewBox="0 0 64 64" fill="currentColor" className={className}>
+      <rect x="12" y="2" width="40" height="28" rx="3" />
+      <rect x="12" y="34" width="40" height="28" rx="3" />
+      <rect x="18" y="7" width="28" height="18" rx="1" fill="var(--color-bg-primary)" />
+      <rect x="22" y="38" width="20" height="16" rx="1" fill="var(--color-bg-primary)" />
+    </svg>
+  ),
+  genesis: ({ className }) => (
+    <svg viewBox="0 0 64 64" fill="currentColor" className={className}>
+      <path d="M4 24c0-6 4-10 10-10h36c6 0 10 4 10 10v10c0 10-6 16-14 16-5 0-8-4-14-4s-9 4-14 4C10 50 4 44 4 34V24z" />
+      <circle cx="17" cy="30" r="6" fill="var(--color-bg-primary)" />
+      <circle cx="40" cy="34" r="3.5" fill="var(--color-bg-primary)" />
+      <circle cx="47" cy="30" r="3.5" fill="var(--color-bg-primary)" />
+      <circle cx="54" cy="26" r="3.5" fill="var(--color-bg-primary)" />
+    </svg>
+  ),
+  sms: ({ className }) => (
+    <svg viewBox="0 0 64 64" fill="currentColor" className={className}>
+      <rect x="4" y="18" width="56" height="28" rx="3" />
+      <rect x="10" y="28" width="12" height="4" fill="var(--color-bg-primary)" />
+      <rect x="14" y="24" width="4" height="12" fill="var(--color-bg-primary)" />
+      <rect x="38" y="26" width="7" height="7" rx="1" fill="var(--color-bg-primary)" />
+      <rect x="49" y="26" width="7" height="7" rx="1" fill="var(--color-bg-primary)" />
+    </svg>
+  ),
+  gg: ({ className }) => (
+    <svg viewBox="0 0 64 64" fill="currentColor" className={className}>
+      <rect x="2" y="14" width="60" height="36" rx="12" />
+      <rect x="20" y="18" width="24" height="22" rx="2" fill="var(--color-bg-primary)" />
+      <circle cx="11" cy="32" r="5" fill="var(--color-bg-primary)" />
+      <circle cx="51" cy="34" r="3" fill="var(--color-bg-primary)" />
+      <circle cx="56" cy="29" r="3" fill="var(--color-bg-primary)" />
+    </svg>
+  ),
+  segacd: ({ className }) => (
+    <svg viewBox="0 0 64 64" fill="currentColor" className={className}>
+      <circle cx="32" cy="32" r="26" />
+      <circle cx="32" cy="32" r="16" fill="var(--color-bg-primary)" />
+      <circle cx="32" cy="32" r="10" />
+      <circle cx="32" cy="32" r="4" fill="var(--color-bg-primary)" />
+    </svg>
+  ),
+  atari2600: ({ className }) => (
+    <svg viewBox="0 0 64 64" fill="currentColor" className={className}>
+      <rect x="10" y="26" width="44" height="32" rx="4" />
+      <rect x="28" y="6" width="8" height="24" rx="4" />
+      <circle cx="20" cy="36" r="4" fill="var(--color-bg-primary)" />
+    </svg>
+  ),
+  atari7800: ({ className }) => (
+    <svg viewBox="0 0 64 64" fill="currentColor" className={className}>
+      <rect x="4" y="22" width="56" height="24" rx="3" />
+      <rect x="8" y="26" width="48" height="4" fill="var(--color-bg-primary)" />
+      <rect x="8" y="34" width="48" height="2" fill="var(--color-bg-primary)" />
+      <rect x="8" y="40" width="48" height="2" fill="var(--color-bg-primary)" />
+    </svg>
+  ),
+  pce: ({ className }) => (
+    <svg viewBox="0 0 64 64" fill="currentColor" className={className}>
+      <rect x="10" y="10" width="44" height="44" rx="3" />
+      <rect x="16" y="16" width="32" height="8" fill="var(--color-bg-primary)" />
+      <rect x="22" y="32" width="20" height="16" rx="1" fill="var(--color-bg-primary)" />
+    </svg>
+  ),
+  arcade: ({ className }) => (
+    <svg viewBox="0 0 64 64" fill="currentColor" className={className}>
+      <path d="M16 4h32v22l6 8v26H10V34l6-8V4z" />
+      <rect x="20" y="9" width="24" height="16" rx="1" fill="var(--color-bg-primary)" />
+      <circle cx="24" cy="40" r="3" fill="var(--color-bg-primary)" />
+      <circle cx="36" cy="40" r="3" fill="var(--color-bg-primary)" />
+      <circle cx="44" cy="40" r="3" fill="var(--color-bg-primary)" />
+    </svg>
+  ),
 };
 
 /**
@@ -21,6 +21,8 @@ export interface GameCarouselProps {
   isLoading?: boolean;
   /** Message to display when there are no games */
   emptyMessage?: string;
+  /** Screenshots shown instead of the cover ("last seen"), by game ID */
+  lastSeen?: ReadonlyMap<string, Blob>;
   /** Additional CSS class name */
   className?: string;
 }
@@ -30,11 +32,22 @@ export interface GameCarouselProps {
  */
 const GameCarouselCard = memo(function GameCarouselCard({
   game,
+  lastSeen,
 }: {
   game: Game;
+  lastSeen?: Blob;
 }) {
   const { isFavorite, toggle, isLoading } = useFavoriteStatus(game.id);
   const consoleConfig = CONSOLE_CONFIG[game.console];
+  const [lastSeenUrl, setLastSeenUrl] = useState<string | null>(null);
+
+  // Create and revoke the screenshot object URL
+  useEffect(() => {
+    if (!lastSeen) return;
+    const url = URL.createObjectURL(lastSeen);
+    setTimeout(() => setLastSeenUrl(url), 0);
+    return () => URL.revokeObjectURL(url);
+  }, [lastSeen]);
 
   const handleFavoriteClick = useCallback(
     (e: React.MouseEvent) => {
@@ -51,7 +64,12 @@ const GameCarouselCard = memo(function GameCarouselCard({
     <Link to={`/game/${game.id}`} className={styles.cardLink}>
       <Card variant="interactive" padding="none" className={styles.card}>
         <div className={styles.cardImage}>
-          {game.coverPath ? (
+          {lastSeen && lastSeenUrl ? (
+            <>
+              <img src={lastSeenUrl} alt="" className={styles.lastSeenImage} />
+              <span className={styles.lastSeenLabel}>Last seen</span>
+            </>
+          ) : game.coverPath ? (
             <img
               src={game.coverPath}
               alt=""
@@ -107,6 +125,7 @@ export const GameCarousel = memo(function GameCarousel({
   games,
   isLoading = false,
   emptyMessage = 'No games to display',
+  lastSeen,
   className,
 }: GameCarouselProps) {
   const scrollContainerRef = useRef<HTMLDivElement>(null);
@@ -199,7 +218,7 @@ export const GameCarousel = memo(function GameCarousel({
       >
         {games.map((game) => (
           <div key={game.id} className={styles.cardWrapper} role="listitem">
-            <GameCarouselCard game={game} />
+            <GameCarouselCard game={game} lastSeen={lastSeen?.get(game.id)} />
           </div>
         ))}
       </div>
@@ -1,11 +1,13 @@
 /**
  * RecentlyPlayed Component
- * Section displaying recently played games in a carousel
+ * Section displaying recently played games in a carousel, showing the
+ * screenshot of each game's latest save where there is one
  */
 
 import { memo, useMemo } from 'react';
 import clsx from 'clsx';
 import { useRecentlyPlayed } from '@/hooks/useRecentlyPlayed';
+import { useLastSeenScreenshots } from '@/hooks/useSaveStates';
 import { useGameStore } from '@/stores/gameStore';
 import { SectionHeader } from '../SectionHeader';
 import { GameCarousel } from '../GameCarousel';
@@ -57,6 +59,10 @@ export const RecentlyPlayed = memo(function RecentlyPlayed({
       .slice(0, limit);
   }, [games, recentGameIds, limit]);
 
+  // Screenshot of each game's latest save, shown as its "last seen" image
+  const recentIds = useMemo(() => recentGames.map((game) => game.id), [recentGames]);
+  const lastSeen = useLastSeenScreenshots(recentIds);
+
   const hasMoreGames = recentGameIds.length > limit;
 
   return (
@@ -82,6 +88,7 @@ export const RecentlyPlayed = memo(function RecentlyPlayed({
         games={recentGames}
         isLoading={isLoading}
         emptyMessage="No games played yet. Start playing!"
+        lastSeen={lastSeen}
       />
     </section>
   );
@@ -48,6 +48,7 @@ export {
   GAMEPAD_AXES,
   type GamepadState,
 } from './useGamepad';
+export { useGamepadAssignments } from './useGamepadAssignments';
 
 // =============================================================================
 // Local Storage Hooks
@@ -68,8 +69,8 @@ export {
   useEmulator,
   useEmulatorSupport,
   CDN_BASE_URL,
-  CORE_MAPPING,
 } from './useEmulator';
+export { useSpeedControls, SPEED_KEYS, SPEED_GAMEPAD_BUTTONS } from './useSpeedControls';
 
 // =============================================================================
 // Database Hooks (Dexie Live Query based)
@@ -88,6 +89,7 @@ export {
   useRecentlyPlayed,
   usePlaySession,
   useGamePlayStats,
+  usePlayAnalytics,
   formatPlayTime,
 } from './useRecentlyPlayed';
 
@@ -96,11 +98,34 @@ export {
   useSaveStates,
   useSaveSlot,
   useSaveStatesCount,
+  useLastSeenScreenshots,
   formatSaveSize,
   MAX_SLOTS,
   type SlotInfo,
 } from './useSaveStates';
 
+// Auto-Save
+export { useAutoSave } from './useAutoSave';
+
+// Imported ROM Library
+export { useGameLibrary } from './useGameLibrary';
+
+// Game Filters
+export { useGameFilterData } from './useGameFilterData';
+export { useGameFilterParams } from './useGameFilterParams';
+
+// Collections
+export { useCollections, useCollection, useCollectionGames } from './useCollections';
+
+// Cheats
+export { useCheats } from './useCheats';
+
+// Offline Games
+export { useOfflineGame, useOfflineStorage } from './useOfflineGames';
+
+// Storage Usage
+export { useStorageReport } from './useStorageReport';
+
 // =============================================================================
 // Toast Hooks
 // =============================================================================
@@ -0,0 +1,145 @@
+/**
+ * Auto-Save Hook for Retro Gaming Platform
+ *
+ * Periodically writes the running game's state to the reserved AUTO slot
+ * and takes a final auto-save when the player leaves the game.
+ */
+
+import { useCallback, useEffect, useRef } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '@/services/database';
+import { saveStateService } from '@/services/storage';
+import { SAVE_SLOT } from '@/types';
+
+/**
+ * Return type for useAutoSave hook
+ */
+interface UseAutoSaveReturn {
+  /** Whether auto-save is enabled in user settings */
+  isEnabled: boolean;
+  /** Take an auto-save immediately (e.g. before navigating away) */
+  saveNow: () => Promise<void>;
+}
+
+/**
+ * Hook that auto-saves a running game to SAVE_SLOT.AUTO.
+ * Reads the enabled flag and interval from UserSettings.
+ *
+ * Saves are taken:
+ * - every `autoSaveIntervalSeconds` while the game is running
+ * - when the page is hidden or unloaded
+ * - when the hook unmounts (leaving the play page)
+ *
+ * @param gameId - The game being played
+ * @param options - Configuration options
+ * @returns Object with enabled state and a manual trigger
+ *
+ * @example
+ * ```tsx
+ * function Player({ game }: { game: Game }) {
+ *   const { saveState, isReady } = useEmulator(containerRef);
+ *   const { saveNow } = useAutoSave(game.id, { isActive: isReady, saveState });
+ *
+ *   const handleBack = async () => {
+ *     await saveNow();
+ *     navigate('/browse');
+ *   };
+ * }
+ * ```
+ */
+export function useAutoSave(
+  gameId: string,
+  options: {
+    /** Whether the game is running and can be saved */
+    isActive: boolean;
+    /** Captures the current emulator state (from useEmulator) */
+    saveState: () => Promise<ArrayBuffer | null>;
+    /** Console the game runs on, recorded with the save */
+    consoleType?: string;
+    /** Captures a thumbnail stored with the save (from useEmulator) */
+    captureScreenshot?: () => Promise<Blob | null>;
+  }
+): UseAutoSaveReturn {
+  const { isActive, saveState, consoleType, captureScreenshot } = options;
+
+  const settings = useLiveQuery(() => db.getSettings(), []);
+  const isEnabled = settings?.autoSaveEnabled ?? false;
+  const intervalSeconds = settings?.autoSaveIntervalSeconds ?? 0;
+
+  const isSavingRef = useRef(false);
+  // Latest thumbnail, reused when the canvas is already gone (unmount save)
+  const lastScreenshotRef = useRef<{ gameId: string; blob: Blob } | null>(null);
+  const stateRef = useRef({ gameId, consoleType, isActive, isEnabled, saveState, captureScreenshot });
+
+  // Keep latest values available to unmount/unload handlers
+  useEffect(() => {
+    stateRef.current = { gameId, consoleType, isActive, isEnabled, saveState, captureScreenshot };
+  }, [gameId, consoleType, isActive, isEnabled, saveState, captureScreenshot]);
+
+  const saveNow = useCallback(async () => {
+    const { gameId, consoleType, isActive, isEnabled, saveState, captureScreenshot } = stateRef.current;
+    if (!gameId || !isActive || !isEnabled || isSavingRef.current) return;
+
+    isSavingRef.current = true;
+    try {
+      // A missing screenshot never blocks the save
+      const [data, screenshot] = await Promise.all([
+        saveState(),
+        captureScreenshot?.().catch(() => null) ?? null,
+      ]);
+      if (screenshot) lastScreenshotRef.current = { gameId, blob: screenshot };
+      const lastScreenshot = lastScreenshotRef.current;
+
+      if (data && data.byteLength > 0) {
+        await saveStateService.saveState(
+          gameId,
+          SAVE_SLOT.AUTO,
+          data,
+          lastScreenshot?.gameId === gameId ? lastScreenshot.blob : undefined,
+          consoleType
+        );
+      }
+    } catch (error) {
+      console.error('Auto-save failed:', error);
+    } finally {
+      isSavingRef.current = false;
+    }
+  }, []);
+
+  // Periodic auto-save
+  useEffect(() => {
+    if (!isActive || !isEnabled || intervalSeconds <= 0) return;
+
+    const interval = setInterval(() => {
+      saveNow();
+    }, intervalSeconds * 1000);
+
+    return () => clearInterval(interval);
+  }, [isActive, isEnabled, intervalSeconds, saveNow]);
+
+  // Save when the tab is hidden or closed
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') {
+        saveNow();
+      }
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('pagehide', saveNow);
+
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('pagehide', saveNow);
+    };
+  }, [saveNow]);
+
+  // Save when leaving the game
+  useEffect(() => {
+    return () => {
+      saveNow();
+    };
+  }, [saveNow]);
+
+  return { isEnabled, saveNow };
+}
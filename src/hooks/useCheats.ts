@@ -0,0 +1,42 @@
+/**
+ * Cheats Hook for Retro Gaming Platform
+ *
+ * Reactive access to the cheat codes saved for a game using Dexie live
+ * queries.
+ */
+
+import { useMemo } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db, type GameCheat } from '@/services/database';
+
+/**
+ * Hook for the cheats saved for a game, in the order they were added.
+ *
+ * @param gameId - The game ID (null when no game is loaded)
+ * @returns Object with all cheats, the enabled ones and loading state
+ *
+ * @example
+ * ```tsx
+ * function CheatCount({ gameId }: { gameId: string }) {
+ *   const { enabledCheats } = useCheats(gameId);
+ *   return <span>{enabledCheats.length} cheats on</span>;
+ * }
+ * ```
+ */
+export function useCheats(gameId: string | null): {
+  cheats: GameCheat[];
+  enabledCheats: GameCheat[];
+  isLoading: boolean;
+} {
+  const cheatsData = useLiveQuery(async () => (gameId ? db.getCheatsForGame(gameId) : []), [gameId]);
+
+  // Memoize to prevent new references on each render
+  const cheats = useMemo(() => cheatsData ?? [], [cheatsData]);
+  const enabledCheats = useMemo(() => cheats.filter((cheat) => cheat.enabled), [cheats]);
+
+  return {
+    cheats,
+    enabledCheats,
+    isLoading: cheatsData === undefined,
+  };
+}
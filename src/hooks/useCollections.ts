@@ -0,0 +1,101 @@
+/**
+ * Collections Hooks for Retro Gaming Platform
+ *
+ * Reactive access to user-defined game collections using Dexie live
+ * queries, and resolution of a collection to the games it contains.
+ */
+
+import { useMemo } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db, type GameCollection } from '@/services/database';
+import { useGameStore, queryGames } from '@/stores/gameStore';
+import type { Game } from '@/types';
+
+/**
+ * Hook for listing all collections, most recently changed first.
+ *
+ * @returns Object with collections and loading state
+ *
+ * @example
+ * ```tsx
+ * function CollectionList() {
+ *   const { collections, isLoading } = useCollections();
+ *   if (isLoading) return <LoadingSpinner />;
+ *   return <ul>{collections.map((c) => <li key={c.id}>{c.name}</li>)}</ul>;
+ * }
+ * ```
+ */
+export function useCollections(): {
+  collections: GameCollection[];
+  isLoading: boolean;
+} {
+  const collectionsData = useLiveQuery(() => db.getCollections(), []);
+
+  // Memoize to prevent a new reference on each render
+  const collections = useMemo(() => collectionsData ?? [], [collectionsData]);
+
+  return {
+    collections,
+    isLoading: collectionsData === undefined,
+  };
+}
+
+/**
+ * Hook for a single collection.
+ *
+ * @param id - The collection ID
+ * @returns Object with the collection (null when it does not exist) and loading state
+ */
+export function useCollection(id: number | undefined): {
+  collection: GameCollection | null;
+  isLoading: boolean;
+} {
+  const collectionData = useLiveQuery(
+    async () => (id === undefined ? null : ((await db.collections.get(id)) ?? null)),
+    [id]
+  );
+
+  return {
+    collection: collectionData ?? null,
+    isLoading: collectionData === undefined,
+  };
+}
+
+/**
+ * Resolves a collection to its games. Manual collections keep their own
+ * order (games no longer in the library are skipped); smart collections
+ * apply their saved filter to the current game list.
+ * Smart filters on favorites or last played need useGameFilterData mounted.
+ *
+ * @param collection - The collection to resolve
+ * @returns Games in the collection, in display order
+ *
+ * @example
+ * ```tsx
+ * function CollectionGames({ collection }: { collection: GameCollection }) {
+ *   useGameFilterData();
+ *   const games = useCollectionGames(collection);
+ *   return <GameGrid games={games} />;
+ * }
+ * ```
+ */
+export function useCollectionGames(collection: GameCollection | null): Game[] {
+  const games = useGameStore((state) => state.games);
+  const favoriteGameIds = useGameStore((state) => state.favoriteGameIds);
+  const lastPlayedAt = useGameStore((state) => state.lastPlayedAt);
+
+  return useMemo(() => {
+    if (!collection) return [];
+
+    if (collection.filter) {
+      return queryGames(games, collection.filter, { favoriteGameIds, lastPlayedAt }).map(
+        (result) => result.game
+      );
+    }
+
+    const gamesById = new Map(games.map((game) => [game.id, game]));
+    return collection.gameIds
+      .map((id) => gamesById.get(id))
+      .filter((game): game is Game => game !== undefined);
+  }, [collection, games, favoriteGameIds, lastPlayedAt]);
+}
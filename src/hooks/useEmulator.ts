@@ -7,13 +7,26 @@
 
 import { useCallback, useEffect, useRef, useState, type RefObject } from 'react';
 import { CONSOLE_CONFIG } from '@/types';
-import type { Game, ConsoleType, EmulatorCore } from '@/types';
+import { biosService, libraryService, settingsProfileService } from '@/services/storage';
+import {
+  CUSTOM_SHADERS,
+  buildEmulatorControls,
+  captureScreenshot as captureCanvasScreenshot,
+  findEmulatorCanvas,
+  getConsoleCores,
+  getEmulatorDataPath,
+  resolveShader,
+  toEjsShaderName,
+  type EjsShaderDefinition,
+  type EmulatorControls,
+} from '@/services/emulator';
+import type { EmulatorShader, Game } from '@/types';
 
 /**
- * CDN base URL for EmulatorJS assets
- * Using 'latest' for best VSync and performance features
+ * Base URL for EmulatorJS assets (the pinned release, see
+ * EMULATORJS_VERSION)
  */
-const CDN_BASE_URL = 'https://cdn.emulatorjs.org/latest/data/';
+const CDN_BASE_URL = getEmulatorDataPath();
 
 /**
  * Global flag to track if EmulatorJS script has been loaded
@@ -24,20 +37,6 @@ let emulatorJsLoading = false;
 let emulatorJsLoadPromise: Promise<void> | null = null;
 
 
-/**
- * Mapping from our console types to EmulatorJS core names
- */
-const CORE_MAPPING: Record<ConsoleType, EmulatorCore> = {
-  // Note: mednafen_psx_hw has WebAssembly issues in EmulatorJS (function signature mismatch)
-  // Using pcsx_rearmed which also supports BIOS and is more stable in browsers
-  ps1: 'pcsx_rearmed',
-  nes: 'nes',
-  snes: 'snes',
-  n64: 'n64',
-  gb: 'gb',
-  gba: 'gba',
-};
-
 /**
  * Global EmulatorJS configuration interface
  */
@@ -80,15 +79,27 @@ declare global {
     /** Old save state format support */
     EJS_oldEJSNetplayServer?: boolean;
     /** Default control mappings per player */
-    EJS_defaultControls?: Record<number, Record<number, { value: string; value2: string }>>;
+    EJS_defaultControls?: EmulatorControls;
+    /** Shaders added to the EmulatorJS built-ins, keyed by name */
+    EJS_shaders?: Record<string, EjsShaderDefinition>;
     /** Emulator instance reference */
     EJS_emulator?: {
+      /** Whether emulation is paused (menu open or paused by the player) */
+      paused?: boolean;
       pause: () => void;
       play: () => void;
       mute: () => void;
       unmute: () => void;
       setVolume: (volume: number) => void;
       toggleFullscreen?: () => void;
+      /** Changes a menu setting and applies it (e.g. 'shader') */
+      changeSettingOption?: (option: string, value: string) => void;
+      /** Switches the shader of the running game */
+      enableShader?: (name: string) => void;
+      /** Gamepad of each player, as `${Gamepad.id}_${Gamepad.index}` or 'notconnected' */
+      gamepadSelection?: string[];
+      /** Refreshes the gamepad lists of the control settings menu */
+      updateGamepadLabels?: () => void;
       elements: {
         menu: HTMLElement;
         fullscreen: HTMLElement;
@@ -96,6 +107,16 @@ declare global {
       gameManager: {
         saveState: () => Promise<ArrayBuffer>;
         loadState: (data: ArrayBuffer) => Promise<void>;
+        /** Sets the code of a cheat slot and whether it is applied */
+        setCheat: (index: number, enabled: boolean, code: string) => void;
+        /** Clears all cheat slots */
+        resetCheat: () => void;
+        /** Starts (1) or stops (0) fast-forward */
+        toggleFastForward?: (active: 0 | 1) => void;
+        /** Starts (1) or stops (0) slow motion */
+        toggleSlowMotion?: (active: 0 | 1) => void;
+        /** Starts (1) or stops (0) rewinding (needs rewind enabled at startup) */
+        toggleRewind?: (active: 0 | 1) => void;
       };
     };
   }
@@ -105,8 +126,12 @@ declare global {
  * Emulator hook return type
  */
 interface UseEmulatorReturn {
-  /** Initialize the emulator with a game */
-  initializeEmulator: (game: Game) => Promise<void>;
+  /**
+   * Initialize the emulator with a game.
+   * Retries pass an increasing attempt number to step through the
+   * console's fallback cores.
+   */
+  initializeEmulator: (game: Game, attempt?: number) => Promise<void>;
   /** Clean up emulator resources */
   cleanup: () => void;
   /** Whether the emulator is ready to play */
@@ -131,6 +156,33 @@ interface UseEmulatorReturn {
   saveState: () => Promise<ArrayBuffer | null>;
   /** Load a saved state */
   loadState: (data: ArrayBuffer) => Promise<void>;
+  /** Capture a WebP thumbnail of the running game */
+  captureScreenshot: () => Promise<Blob | null>;
+  /** Replace the active cheats with the given codes; false when the core does not support cheats */
+  applyCheats: (codes: readonly string[]) => boolean;
+  /** Start or stop fast-forward */
+  setFastForward: (active: boolean) => void;
+  /** Start or stop slow motion */
+  setSlowMotion: (active: boolean) => void;
+  /** Start or stop rewinding */
+  setRewinding: (active: boolean) => void;
+  /** Switch the shader of the running game */
+  setShader: (shader: EmulatorShader) => void;
+  /** Set the gamepad of each player (see toEjsGamepadSelection) */
+  setGamepadSelection: (selection: string[]) => void;
+}
+
+/**
+ * Calls one of the EmulatorJS speed toggles on the running game.
+ */
+function toggleSpeed(method: 'toggleFastForward' | 'toggleSlowMotion' | 'toggleRewind', active: boolean): void {
+  const gameManager = typeof window !== 'undefined' ? window.EJS_emulator?.gameManager : undefined;
+
+  try {
+    gameManager?.[method]?.(active ? 1 : 0);
+  } catch (err) {
+    console.warn(`${method} failed:`, err);
+  }
 }
 
 /**
@@ -217,6 +269,8 @@ export function useEmulator(
   const initializationIdRef = useRef(0); // Track which initialization is current
   const callbacksRef = useRef({ onReady, onGameStart, onSaveState, onLoadState, onError });
   const originalGetContextRef = useRef<typeof HTMLCanvasElement.prototype.getContext | null>(null);
+  const biosObjectUrlRef = useRef<string | null>(null); // Blob URL of a user-supplied BIOS
+  const romObjectUrlRef = useRef<string | null>(null); // Blob URL of an imported library ROM
 
   // Track mounted state to prevent state updates after unmount
   useEffect(() => {
@@ -269,6 +323,18 @@ export function useEmulator(
       originalGetContextRef.current = null;
     }
 
+    // Release the user-supplied BIOS blob URL
+    if (biosObjectUrlRef.current) {
+      URL.revokeObjectURL(biosObjectUrlRef.current);
+      biosObjectUrlRef.current = null;
+    }
+
+    // Release the imported library ROM blob URL
+    if (romObjectUrlRef.current) {
+      URL.revokeObjectURL(romObjectUrlRef.current);
+      romObjectUrlRef.current = null;
+    }
+
     // Clean up global EmulatorJS variables
     if (typeof window !== 'undefined') {
       // @ts-expect-error - Cleaning up EmulatorJS global variables
@@ -318,7 +384,7 @@ export function useEmulator(
    * Initialize the emulator with a game
    */
   const initializeEmulator = useCallback(
-    async (game: Game) => {
+    async (game: Game, attempt = 0) => {
       if (typeof window === 'undefined') {
         setError('Cannot initialize emulator in SSR environment');
         return;
@@ -375,11 +441,9 @@ export function useEmulator(
           throw new Error(`Unknown console type: ${game.console}`);
         }
 
-        // Get EmulatorJS core name
-        const coreName = CORE_MAPPING[game.console];
-        if (!coreName) {
-          throw new Error(`No emulator core available for: ${game.console}`);
-        }
+        // Get EmulatorJS core name, moving to the fallback cores on retries
+        const cores = getConsoleCores(game.console);
+        const coreName = cores[attempt % cores.length];
 
         // Ensure container has a player element
         if (containerRef.current) {
@@ -391,9 +455,23 @@ export function useEmulator(
           }
         }
 
+        // Imported library games are read from IndexedDB and served from a
+        // blob URL; catalog games load straight from their ROM path
+        let gameUrl = game.romPath;
+        if (game.source === 'library') {
+          const romUrl = await libraryService.getRomUrl(game.id);
+          if (currentInitId !== initializationIdRef.current || !isMountedRef.current) {
+            URL.revokeObjectURL(romUrl);
+            return;
+          }
+          if (romObjectUrlRef.current) URL.revokeObjectURL(romObjectUrlRef.current);
+          romObjectUrlRef.current = romUrl;
+          gameUrl = romUrl;
+        }
+
         // Configure EmulatorJS global variables
         window.EJS_player = '#emulator-player';
-        window.EJS_gameUrl = game.romPath;
+        window.EJS_gameUrl = gameUrl;
         window.EJS_core = coreName;
         window.EJS_pathtodata = CDN_BASE_URL;
         window.EJS_color = accentColor;
@@ -404,15 +482,32 @@ export function useEmulator(
         window.EJS_startOnLoaded = true; // Auto-start game without "Start Game" button
         window.EJS_CacheLimit = 1073741824; // 1GB cache limit
 
+        // The user's settings with the console and game profiles applied
+        const settings = await settingsProfileService.getEffectiveSettings(game);
+        if (currentInitId !== initializationIdRef.current || !isMountedRef.current) {
+          return;
+        }
+
+        window.EJS_shaders = CUSTOM_SHADERS;
+        const { display } = settings;
+        const shader = resolveShader(game.console, settings);
+
         // Performance settings for smooth frame pacing on high refresh rate monitors
         // @ts-expect-error - EmulatorJS config option
         window.EJS_defaultOptions = {
-          'shader': 'crt-mattias.glslp',   // CRT shader for authentic retro look
+          'shader': toEjsShaderName(shader), // Per-console shader (see services/emulator/shaders)
+          // RetroArch video options for scaling
+          'video_scale_integer': display.integerScaling ? 'enabled' : 'disabled',
+          'video_aspect_ratio_auto': display.maintainAspectRatio ? 'enabled' : 'disabled',
           // RetroArch core options for frame pacing
           'video_vsync': 'enabled',        // VSync
           'video_frame_delay': '0',        // Minimize input latency
           'video_hard_sync': 'enabled',    // Hard GPU sync for better frame pacing
           'video_max_swapchain_images': '3', // Triple buffering
+          // Rewind has to be enabled before the core starts recording
+          'rewindEnabled': settings.rewindEnabled ? 'enabled' : 'disabled',
+          'rewind-granularity': String(settings.rewindGranularity),
+          'ff-ratio': settings.fastForwardRatio === 'unlimited' ? 'unlimited' : settings.fastForwardRatio.toFixed(1),
         };
 
         // Disable mouse/pointer lock - most retro games don't need it
@@ -450,59 +545,24 @@ export function useEmulator(
           } as typeof HTMLCanvasElement.prototype.getContext;
         }
 
-        // Configure default gamepad button mappings for PlayStation layout
-        // EmulatorJS uses RetroArch/SNES button naming internally:
-        //   Index 0 = B (PS Cross ✕)   |  Index 8 = A (PS Circle ○)
-        //   Index 1 = Y (PS Square □)  |  Index 9 = X (PS Triangle △)
-        // EmulatorJS gamepad button mapping (1-indexed):
-        //   BUTTON_1 = Cross  |  BUTTON_2 = Circle  |  BUTTON_3 = Square  |  BUTTON_4 = Triangle
-        window.EJS_defaultControls = {
-          0: { // Player 1
-            // Face buttons - map gamepad buttons to correct RetroArch indices
-            0: { value: 'z', value2: 'BUTTON_1' },  // B / Cross ✕
-            1: { value: 'a', value2: 'BUTTON_3' },  // Y / Square □
-            8: { value: 'x', value2: 'BUTTON_2' },  // A / Circle ○
-            9: { value: 's', value2: 'BUTTON_4' },  // X / Triangle △
-            // D-Pad
-            4: { value: 'up arrow', value2: 'DPAD_UP' },
-            5: { value: 'down arrow', value2: 'DPAD_DOWN' },
-            6: { value: 'left arrow', value2: 'DPAD_LEFT' },
-            7: { value: 'right arrow', value2: 'DPAD_RIGHT' },
-            // Start / Select
-            2: { value: 'shift', value2: 'SELECT' },
-            3: { value: 'enter', value2: 'START' },
-            // Shoulder buttons
-            10: { value: 'q', value2: 'LEFT_TOP_SHOULDER' },    // L1
-            11: { value: 'e', value2: 'RIGHT_TOP_SHOULDER' },   // R1
-            12: { value: 'tab', value2: 'LEFT_BOTTOM_SHOULDER' }, // L2
-            13: { value: 'r', value2: 'RIGHT_BOTTOM_SHOULDER' }, // R2
-            // Stick buttons
-            14: { value: '', value2: 'LEFT_STICK' },  // L3
-            15: { value: '', value2: 'RIGHT_STICK' }, // R3
-            // Left analog stick
-            16: { value: 'd', value2: 'LEFT_STICK_X:+1' },
-            17: { value: 'g', value2: 'LEFT_STICK_X:-1' },
-            18: { value: 'v', value2: 'LEFT_STICK_Y:+1' },
-            19: { value: 'b', value2: 'LEFT_STICK_Y:-1' },
-            // Right analog stick
-            20: { value: 'l', value2: 'RIGHT_STICK_X:+1' },
-            21: { value: 'j', value2: 'RIGHT_STICK_X:-1' },
-            22: { value: 'k', value2: 'RIGHT_STICK_Y:+1' },
-            23: { value: 'i', value2: 'RIGHT_STICK_Y:-1' },
-          },
-          1: {}, // Player 2 - use defaults
-          2: {}, // Player 3 - use defaults
-          3: {}, // Player 4 - use defaults
-        };
+        // Configure controls from the built-in layout and the user's
+        // per-console remapping (see services/emulator/controlMappings)
+        window.EJS_defaultControls = buildEmulatorControls(settings.controlMappings[game.console]);
 
-        // Set BIOS URL if required
-        if (consoleConfig.requiresBios && consoleConfig.biosFiles?.length) {
-          const primaryBios = consoleConfig.biosFiles.find((b) => b.required) || consoleConfig.biosFiles[0];
-          if (primaryBios && consoleConfig.biosPath) {
-            const biosUrl = `${consoleConfig.biosPath}/${primaryBios.name}`;
-            console.log('[EJS] Setting BIOS URL:', biosUrl);
-            window.EJS_biosUrl = biosUrl;
+        // Set BIOS URL: a user-supplied BIOS (picked by game region) is served
+        // from a blob URL, otherwise consoles that require one use the CDN copy
+        const bios = await biosService.resolveBiosForGame(game);
+        if (currentInitId !== initializationIdRef.current || !isMountedRef.current) {
+          if (bios?.isLocal) URL.revokeObjectURL(bios.url);
+          return;
+        }
+        if (bios) {
+          console.log('[EJS] Setting BIOS URL:', bios.fileName, bios.isLocal ? '(local)' : '(CDN)');
+          if (bios.isLocal) {
+            if (biosObjectUrlRef.current) URL.revokeObjectURL(biosObjectUrlRef.current);
+            biosObjectUrlRef.current = bios.url;
           }
+          window.EJS_biosUrl = bios.url;
         } else {
           console.log('[EJS] No BIOS required for this console');
         }
@@ -722,6 +782,73 @@ export function useEmulator(
     }
   }, []);
 
+  /**
+   * Capture a thumbnail of the game canvas
+   */
+  const captureScreenshot = useCallback(async (): Promise<Blob | null> => {
+    const canvas = containerRef.current ? findEmulatorCanvas(containerRef.current) : null;
+    return canvas ? captureCanvasScreenshot(canvas) : null;
+  }, [containerRef]);
+
+  /**
+   * Apply cheat codes, replacing the ones set before
+   */
+  const applyCheats = useCallback((codes: readonly string[]): boolean => {
+    const gameManager = typeof window !== 'undefined' ? window.EJS_emulator?.gameManager : undefined;
+    if (!gameManager?.setCheat || !gameManager.resetCheat) {
+      return false;
+    }
+
+    try {
+      gameManager.resetCheat();
+      codes.forEach((code, index) => gameManager.setCheat(index, true, code));
+      return true;
+    } catch (err) {
+      console.warn('applyCheats failed:', err);
+      return false;
+    }
+  }, []);
+
+  /**
+   * Playback speed controls
+   */
+  const setFastForward = useCallback((active: boolean) => toggleSpeed('toggleFastForward', active), []);
+  const setSlowMotion = useCallback((active: boolean) => toggleSpeed('toggleSlowMotion', active), []);
+  const setRewinding = useCallback((active: boolean) => toggleSpeed('toggleRewind', active), []);
+
+  /**
+   * Switch the shader of the running game
+   */
+  const setShader = useCallback((shader: EmulatorShader) => {
+    const emulator = typeof window !== 'undefined' ? window.EJS_emulator : undefined;
+    const name = toEjsShaderName(shader);
+
+    try {
+      if (emulator?.changeSettingOption) {
+        emulator.changeSettingOption('shader', name);
+      } else {
+        emulator?.enableShader?.(name);
+      }
+    } catch (err) {
+      console.warn('setShader failed:', err);
+    }
+  }, []);
+
+  /**
+   * Set the gamepad of each player
+   */
+  const setGamepadSelection = useCallback((selection: string[]) => {
+    const emulator = typeof window !== 'undefined' ? window.EJS_emulator : undefined;
+    if (!emulator) return;
+
+    try {
+      emulator.gamepadSelection = [...selection];
+      emulator.updateGamepadLabels?.();
+    } catch (err) {
+      console.warn('setGamepadSelection failed:', err);
+    }
+  }, []);
+
   // Clean up on unmount - use a separate effect that doesn't depend on cleanup
   useEffect(() => {
     return () => {
@@ -760,6 +887,13 @@ export function useEmulator(
     toggleMenu,
     saveState,
     loadState,
+    captureScreenshot,
+    applyCheats,
+    setFastForward,
+    setSlowMotion,
+    setRewinding,
+    setShader,
+    setGamepadSelection,
   };
 }
 
@@ -800,4 +934,4 @@ export function useEmulatorSupport(): boolean {
 }
 
 // Export CDN URL for external use
-export { CDN_BASE_URL, CORE_MAPPING };
+export { CDN_BASE_URL };
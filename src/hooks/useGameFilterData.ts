@@ -0,0 +1,50 @@
+/**
+ * Game Filter Data Hook
+ *
+ * Keeps the data that game filtering and sorting join against in the
+ * game store: favorite game IDs (for favoritesOnly) and the last play
+ * session per game (for sorting by lastPlayed). Both update live as
+ * favorites change and sessions are recorded.
+ */
+
+import { useEffect } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '@/services/database';
+import { useGameStore } from '@/stores/gameStore';
+
+/**
+ * Syncs favorites and last-played times from IndexedDB into the game store.
+ * Mount it wherever filtered games are shown.
+ *
+ * @example
+ * ```tsx
+ * function BrowsePage() {
+ *   useGameFilterData();
+ *   const getFilteredGames = useGameStore((state) => state.getFilteredGames);
+ *   const games = getFilteredGames();
+ *   // ...
+ * }
+ * ```
+ */
+export function useGameFilterData(): void {
+  const setFavoriteGameIds = useGameStore((state) => state.setFavoriteGameIds);
+  const setLastPlayedAt = useGameStore((state) => state.setLastPlayedAt);
+
+  const favoriteGameIds = useLiveQuery(
+    async () => (await db.getFavorites()).map((favorite) => favorite.gameId),
+    []
+  );
+  const lastPlayedAt = useLiveQuery(() => db.getLastPlayedTimes(), []);
+
+  useEffect(() => {
+    if (favoriteGameIds) {
+      setFavoriteGameIds(favoriteGameIds);
+    }
+  }, [favoriteGameIds, setFavoriteGameIds]);
+
+  useEffect(() => {
+    if (lastPlayedAt) {
+      setLastPlayedAt(lastPlayedAt);
+    }
+  }, [lastPlayedAt, setLastPlayedAt]);
+}
@@ -0,0 +1,58 @@
+/**
+ * Game Filter Params Hook
+ *
+ * Keeps the game store's filters and the page URL in sync, so a browse
+ * view can be shared, bookmarked and restored with back/forward.
+ */
+
+import { useEffect, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useGameStore } from '@/stores/gameStore';
+import { parseGameFilterParams, toGameFilterParams } from '@/utils/gameFilterParams';
+
+/**
+ * Two-way sync between the game store filters and the URL search params.
+ * The URL wins when it changes (page load, links, back/forward); filter
+ * changes made in the UI replace the current history entry.
+ *
+ * @example
+ * ```tsx
+ * function BrowsePage() {
+ *   useGameFilterParams();
+ *   // GameFilters, Sidebar and SearchInput update the store as usual
+ * }
+ * ```
+ */
+export function useGameFilterParams(): void {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const setFilter = useGameStore((state) => state.setFilter);
+
+  // Serialized store filter (a string, so unchanged filters do not re-render)
+  const storeParams = useGameStore((state) =>
+    toGameFilterParams(state.getActiveFilter()).toString()
+  );
+  const urlParams = searchParams.toString();
+
+  // Params the store currently reflects, and the store state last seen
+  const syncedParamsRef = useRef<string | null>(null);
+  const lastStoreParamsRef = useRef(storeParams);
+
+  // URL -> store
+  useEffect(() => {
+    if (urlParams !== syncedParamsRef.current) {
+      syncedParamsRef.current = urlParams;
+      setFilter(parseGameFilterParams(new URLSearchParams(urlParams)));
+    }
+  }, [urlParams, setFilter]);
+
+  // Store -> URL, only when the store itself changed
+  useEffect(() => {
+    if (storeParams === lastStoreParamsRef.current) return;
+    lastStoreParamsRef.current = storeParams;
+
+    if (storeParams !== syncedParamsRef.current) {
+      syncedParamsRef.current = storeParams;
+      setSearchParams(storeParams, { replace: true });
+    }
+  }, [storeParams, setSearchParams]);
+}
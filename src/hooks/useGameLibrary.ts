@@ -0,0 +1,87 @@
+/**
+ * Game Library Hook for Retro Gaming Platform
+ *
+ * Keeps the user's imported ROM library ("My Library") in sync with the
+ * game store using a Dexie live query, so imported games appear next to
+ * the catalog and survive reloads.
+ */
+
+import { useCallback, useEffect } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { libraryService } from '@/services/storage';
+import type { LibraryImportResult } from '@/services/storage';
+import { useGameStore } from '@/stores';
+import type { Game } from '@/types';
+
+/**
+ * Return type for useGameLibrary hook
+ */
+interface UseGameLibraryReturn {
+  /** Imported games, newest first */
+  games: Game[];
+  /** Whether the library is still loading */
+  isLoading: boolean;
+  /** Import ROM files (console is auto-detected) */
+  importFiles: (files: readonly File[]) => Promise<LibraryImportResult>;
+  /** Change the title of an imported game */
+  renameGame: (id: string, title: string) => Promise<void>;
+  /** Remove an imported game and its saves */
+  removeGame: (id: string) => Promise<void>;
+}
+
+/**
+ * Hook for the user's imported ROM library.
+ * Every caller pushes the live library into the game store; mount it once
+ * near the app root so library games are available on every page.
+ *
+ * @returns Library games and management functions
+ *
+ * @example
+ * ```tsx
+ * function ImportButton() {
+ *   const { importFiles } = useGameLibrary();
+ *
+ *   return (
+ *     <input
+ *       type="file"
+ *       multiple
+ *       onChange={(e) => importFiles(Array.from(e.target.files ?? []))}
+ *     />
+ *   );
+ * }
+ * ```
+ */
+export function useGameLibrary(): UseGameLibraryReturn {
+  const setLibraryGames = useGameStore((state) => state.setLibraryGames);
+
+  const games = useLiveQuery(() => libraryService.getGames(), []);
+
+  useEffect(() => {
+    if (games) {
+      setLibraryGames(games);
+    }
+  }, [games, setLibraryGames]);
+
+  const importFiles = useCallback(
+    (files: readonly File[]) => libraryService.importFiles(files),
+    []
+  );
+
+  const renameGame = useCallback(
+    (id: string, title: string) => libraryService.renameGame(id, title),
+    []
+  );
+
+  const removeGame = useCallback(
+    (id: string) => libraryService.removeGame(id),
+    []
+  );
+
+  return {
+    games: games ?? [],
+    isLoading: games === undefined,
+    importFiles,
+    renameGame,
+    removeGame,
+  };
+}
@@ -0,0 +1,80 @@
+/**
+ * Gamepad Assignment Hook for Retro Gaming Platform
+ *
+ * Tracks which gamepads are connected (from connection events, without
+ * polling their buttons) and which player each one plays as, following
+ * controllers that are plugged in or out mid-game.
+ */
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '@/services/database';
+import { settingsService } from '@/services/storage';
+import { resolveGamepadAssignments, type ConnectedGamepad, type ResolvedGamepads } from '@/services/emulator';
+import type { ControlPlayer, GamepadAssignments } from '@/types';
+
+/**
+ * Lists the connected gamepads.
+ *
+ * @param excludeIndex - Gamepad being disconnected, which some browsers still list
+ */
+function getConnectedGamepads(excludeIndex?: number): ConnectedGamepad[] {
+  if (typeof navigator === 'undefined' || typeof navigator.getGamepads !== 'function') {
+    return [];
+  }
+
+  return Array.from(navigator.getGamepads())
+    .filter((gamepad): gamepad is Gamepad => !!gamepad?.connected && gamepad.index !== excludeIndex)
+    .map(({ index, id }) => ({ index, id }));
+}
+
+/**
+ * Hook for the connected gamepads and the player each one is assigned to.
+ *
+ * @returns Connected gamepads, the saved assignments, the gamepad of each
+ * player and a function to bind a gamepad to a player
+ *
+ * @example
+ * ```tsx
+ * function PlayerTwo() {
+ *   const { resolved } = useGamepadAssignments();
+ *   return <span>P2: {resolved.player2?.id ?? 'no controller'}</span>;
+ * }
+ * ```
+ */
+export function useGamepadAssignments(): {
+  connected: ConnectedGamepad[];
+  assignments: GamepadAssignments;
+  resolved: ResolvedGamepads;
+  assign: (player: ControlPlayer, gamepadId: string | null) => Promise<void>;
+} {
+  const [connected, setConnected] = useState<ConnectedGamepad[]>(() => getConnectedGamepads());
+  const assignmentsData = useLiveQuery(async () => (await db.getSettings()).gamepadAssignments, []);
+
+  // Memoize to prevent new references on each render
+  const assignments = useMemo(() => assignmentsData ?? {}, [assignmentsData]);
+
+  useEffect(() => {
+    if (typeof window === 'undefined') return;
+
+    const handleConnected = () => setConnected(getConnectedGamepads());
+    const handleDisconnected = (event: GamepadEvent) => setConnected(getConnectedGamepads(event.gamepad.index));
+
+    window.addEventListener('gamepadconnected', handleConnected);
+    window.addEventListener('gamepaddisconnected', handleDisconnected);
+
+    return () => {
+      window.removeEventListener('gamepadconnected', handleConnected);
+      window.removeEventListener('gamepaddisconnected', handleDisconnected);
+    };
+  }, []);
+
+  const resolved = useMemo(() => resolveGamepadAssignments(assignments, connected), [assignments, connected]);
+
+  const assign = useCallback(
+    (player: ControlPlayer, gamepadId: string | null) => settingsService.setGamepadAssignment(player, gamepadId),
+    []
+  );
+
+  return { connected, assignments, resolved, assign };
+}
@@ -0,0 +1,148 @@
+/**
+ * Offline Games Hooks for Retro Gaming Platform
+ *
+ * Pinning games for offline play and inspecting the storage they use,
+ * backed by Dexie live queries over the pinned games table.
+ */
+
+import { useCallback, useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '@/services/database';
+import type { OfflineGame } from '@/services/database';
+import { offlineService } from '@/services/storage';
+import type { OfflineProgress, StorageUsage } from '@/services/storage';
+import type { Game } from '@/types';
+
+/**
+ * Return type for useOfflineGame hook
+ */
+interface UseOfflineGameReturn {
+  /** Whether the game can be pinned (catalog game, supported browser) */
+  isAvailable: boolean;
+  /** Whether the game is downloaded for offline play */
+  isPinned: boolean;
+  /** Whether a download is in progress */
+  isDownloading: boolean;
+  /** Download progress, while downloading */
+  progress: OfflineProgress | null;
+  /** Download the game, its core and BIOS */
+  pin: () => Promise<OfflineGame>;
+  /** Remove the offline copy */
+  unpin: () => Promise<void>;
+}
+
+/**
+ * Hook for a single game's offline copy.
+ *
+ * @param game - The game (library games are never pinnable)
+ * @returns Pin status and actions
+ *
+ * @example
+ * ```tsx
+ * function DownloadButton({ game }: { game: Game }) {
+ *   const { isAvailable, isPinned, pin, unpin } = useOfflineGame(game);
+ *
+ *   if (!isAvailable) return null;
+ *   return <button onClick={isPinned ? unpin : pin}>{isPinned ? 'Remove' : 'Download'}</button>;
+ * }
+ * ```
+ */
+export function useOfflineGame(game: Game | null): UseOfflineGameReturn {
+  const [progress, setProgress] = useState<OfflineProgress | null>(null);
+  const gameId = game?.id ?? '';
+
+  const isPinned = useLiveQuery(
+    async () => (gameId ? (await db.offlineGames.get(gameId)) !== undefined : false),
+    [gameId],
+    false
+  );
+
+  const pin = useCallback(async (): Promise<OfflineGame> => {
+    if (!game) {
+      throw new Error('No game selected');
+    }
+
+    setProgress({ loaded: 0, completed: 0, total: 0 });
+    try {
+      return await offlineService.pinGame(game, setProgress);
+    } finally {
+      setProgress(null);
+    }
+  }, [game]);
+
+  const unpin = useCallback(() => offlineService.unpinGame(gameId), [gameId]);
+
+  return {
+    isAvailable: game !== null && game.source !== 'library' && offlineService.isSupported(),
+    isPinned,
+    isDownloading: progress !== null,
+    progress,
+    pin,
+    unpin,
+  };
+}
+
+/**
+ * Return type for useOfflineStorage hook
+ */
+interface UseOfflineStorageReturn {
+  /** Pinned games, oldest first */
+  pinnedGames: OfflineGame[];
+  /** Browser storage usage (null while loading or unsupported) */
+  usage: StorageUsage | null;
+  /** Re-read the storage estimate */
+  refresh: () => void;
+  /** Ask the browser to make storage persistent */
+  requestPersistence: () => Promise<boolean>;
+  /** Remove a game's offline copy */
+  unpinGame: (gameId: string) => Promise<void>;
+  /** Clear EmulatorJS files cached while playing */
+  clearRuntimeCache: () => Promise<void>;
+}
+
+/**
+ * Hook for the storage view: pinned games, usage and persistence.
+ * The estimate is re-read whenever the pinned games change.
+ *
+ * @returns Pinned games, usage and management functions
+ */
+export function useOfflineStorage(): UseOfflineStorageReturn {
+  // Bumped to re-read the estimate after changes Dexie does not observe
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  const pinnedGames = useLiveQuery(() => offlineService.getPinnedGames(), []);
+
+  // Also re-runs when the pinned games table changes
+  const usage = useLiveQuery(async () => {
+    try {
+      return await offlineService.getStorageUsage();
+    } catch (error) {
+      console.error('Failed to read storage usage:', error);
+      return null;
+    }
+  }, [refreshKey]);
+
+  const refresh = useCallback(() => setRefreshKey((key) => key + 1), []);
+
+  const requestPersistence = useCallback(async () => {
+    const persisted = await offlineService.requestPersistence();
+    refresh();
+    return persisted;
+  }, [refresh]);
+
+  const unpinGame = useCallback((gameId: string) => offlineService.unpinGame(gameId), []);
+
+  const clearRuntimeCache = useCallback(async () => {
+    await offlineService.clearRuntimeCache();
+    refresh();
+  }, [refresh]);
+
+  return {
+    pinnedGames: pinnedGames ?? [],
+    usage: usage ?? null,
+    refresh,
+    requestPersistence,
+    unpinGame,
+    clearRuntimeCache,
+  };
+}
@@ -5,10 +5,13 @@
  * Handles play session recording and automatic duration tracking.
  */
 
-import { useCallback, useRef, useEffect } from 'react';
+import { useCallback, useRef, useEffect, useState } from 'react';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { db } from '@/services/database';
 import type { PlaySession } from '@/services/database';
+import { historyService, playStatsService, SESSION_HEARTBEAT_INTERVAL_MS } from '@/services/storage';
+import type { PlayAnalytics } from '@/services/storage';
+import type { Game } from '@/types';
 
 /**
  * Return type for useRecentlyPlayed hook
@@ -132,10 +135,49 @@ export function useRecentlyPlayed(limit: number = 10): UseRecentlyPlayedReturn {
   };
 }
 
+/** Interval between activity checks */
+const ACTIVITY_TICK_MS = 1000;
+
+/** Time without any input after which the player is considered idle */
+const IDLE_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Longest gap between two ticks that still counts as play time.
+ * Larger gaps mean the tab was frozen or the machine slept.
+ */
+const MAX_TICK_GAP_MS = ACTIVITY_TICK_MS * 5;
+
+/** DOM events that count as player input */
+const INPUT_EVENTS = ['keydown', 'pointerdown', 'pointermove', 'wheel', 'touchstart'] as const;
+
+/**
+ * Snapshot of connected gamepads, used to notice gamepad input
+ * (the Gamepad API has no input events).
+ */
+function readGamepadSignature(): string {
+  if (typeof navigator === 'undefined' || !navigator.getGamepads) return '';
+
+  return navigator
+    .getGamepads()
+    .map((pad) =>
+      pad
+        ? `${pad.buttons.map((button) => (button.pressed ? 1 : 0)).join('')}:${pad.axes.map((axis) => Math.round(axis * 4)).join(',')}`
+        : ''
+    )
+    .join('|');
+}
+
 /**
  * Hook for managing an active play session.
  * Automatically starts a session on mount and ends on unmount.
  *
+ * Only active play time is counted: time while the tab is hidden, the
+ * game is paused (see `isRunning`) or the player has been idle for
+ * five minutes is left out. The play time is saved as a heartbeat every
+ * few seconds, so a crash loses at most one interval; sessions orphaned
+ * that way are closed by historyService.recoverOrphanedSessions on the
+ * next startup.
+ *
  * @param gameId - The game being played
  * @param options - Configuration options
  * @returns Object with session state and controls
@@ -143,19 +185,13 @@ export function useRecentlyPlayed(limit: number = 10): UseRecentlyPlayedReturn {
  * @example
  * ```tsx
  * function GameSession({ gameId }: { gameId: string }) {
- *   const { isActive, duration, pause, resume } = usePlaySession(gameId, {
+ *   const { isActive, duration } = usePlaySession(gameId, {
  *     autoStart: true,
+ *     isRunning: () => !window.EJS_emulator?.paused,
  *     onEnd: (duration) => console.log(`Played for ${duration} seconds`),
  *   });
  *
- *   return (
- *     <div>
- *       <p>Playing for: {formatDuration(duration)}</p>
- *       <button onClick={isActive ? pause : resume}>
- *         {isActive ? 'Pause' : 'Resume'}
- *       </button>
- *     </div>
- *   );
+ *   return <p>{isActive ? `Playing for: ${formatPlayTime(duration)}` : 'Not playing'}</p>;
  * }
  * ```
  */
@@ -164,38 +200,77 @@ export function usePlaySession(
   options: {
     /** Automatically start session on mount (default: true) */
     autoStart?: boolean;
-    /** Callback when session ends */
+    /** Whether the game is currently running; time is not counted while it returns false */
+    isRunning?: () => boolean;
+    /** Callback when session ends, with the active play time */
     onEnd?: (durationSeconds: number) => void;
   } = {}
 ): {
   isActive: boolean;
   sessionId: number | null;
+  /** Active play time in seconds, as of the last heartbeat */
   duration: number;
   start: () => Promise<void>;
   end: () => Promise<void>;
 } {
-  const { autoStart = true, onEnd } = options;
+  const { autoStart = true, isRunning, onEnd } = options;
 
+  const [sessionId, setSessionId] = useState<number | null>(null);
+  const [duration, setDuration] = useState(0);
   const sessionIdRef = useRef<number | null>(null);
-  const startTimeRef = useRef<Date | null>(null);
-  const durationRef = useRef(0);
+  const activeMsRef = useRef(0);
+  const lastTickRef = useRef(0);
+  const lastHeartbeatRef = useRef(0);
+  const lastInputRef = useRef(0);
+  const gamepadSignatureRef = useRef('');
   const intervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const isRunningRef = useRef(isRunning);
   const onEndRef = useRef(onEnd);
 
-  // Keep callback ref updated
+  // Keep callback refs updated
   useEffect(() => {
+    isRunningRef.current = isRunning;
     onEndRef.current = onEnd;
-  }, [onEnd]);
+  }, [isRunning, onEnd]);
 
-  // Live query to get current duration (updates every second via interval)
-  const durationData = useLiveQuery(
-    async () => {
-      if (!startTimeRef.current) return 0;
-      return Math.floor((Date.now() - startTimeRef.current.getTime()) / 1000);
-    },
-    [gameId],
-    0
-  );
+  const getDurationSeconds = () => Math.floor(activeMsRef.current / 1000);
+
+  const heartbeat = useCallback(() => {
+    const sessionId = sessionIdRef.current;
+    if (!sessionId) return;
+
+    const durationSeconds = getDurationSeconds();
+    lastHeartbeatRef.current = Date.now();
+    setDuration(durationSeconds);
+    historyService.heartbeat(sessionId, durationSeconds).catch(() => {
+      // Logged by the service; the next heartbeat retries
+    });
+  }, []);
+
+  const tick = useCallback(() => {
+    const now = Date.now();
+    const elapsed = now - lastTickRef.current;
+    lastTickRef.current = now;
+
+    const gamepadSignature = readGamepadSignature();
+    if (gamepadSignature !== gamepadSignatureRef.current) {
+      gamepadSignatureRef.current = gamepadSignature;
+      lastInputRef.current = now;
+    }
+
+    const isCounting =
+      document.visibilityState === 'visible' &&
+      now - lastInputRef.current < IDLE_TIMEOUT_MS &&
+      (isRunningRef.current?.() ?? true);
+
+    if (isCounting && elapsed <= MAX_TICK_GAP_MS) {
+      activeMsRef.current += elapsed;
+    }
+
+    if (now - lastHeartbeatRef.current >= SESSION_HEARTBEAT_INTERVAL_MS) {
+      heartbeat();
+    }
+  }, [heartbeat]);
 
   const start = useCallback(async () => {
     if (sessionIdRef.current) {
@@ -203,51 +278,87 @@ export function usePlaySession(
       return;
     }
 
-    try {
-      const id = await db.startPlaySession(gameId);
-      sessionIdRef.current = id;
-      startTimeRef.current = new Date();
-
-      // Start duration update interval
-      intervalRef.current = setInterval(() => {
-        if (startTimeRef.current) {
-          durationRef.current = Math.floor(
-            (Date.now() - startTimeRef.current.getTime()) / 1000
-          );
-        }
-      }, 1000);
-    } catch (error) {
-      console.error('Failed to start session:', error);
-    }
-  }, [gameId]);
+    await historyService
+      .startSession(gameId)
+      .then((id) => {
+        const now = Date.now();
+        sessionIdRef.current = id;
+        activeMsRef.current = 0;
+        lastTickRef.current = now;
+        lastHeartbeatRef.current = now;
+        lastInputRef.current = now;
+        gamepadSignatureRef.current = readGamepadSignature();
+
+        intervalRef.current = setInterval(tick, ACTIVITY_TICK_MS);
+        setSessionId(id);
+      })
+      .catch((error) => {
+        console.error('Failed to start session:', error);
+      });
+  }, [gameId, tick]);
 
   const end = useCallback(async () => {
-    if (!sessionIdRef.current) {
+    const sessionId = sessionIdRef.current;
+    if (!sessionId) {
       return;
     }
 
-    try {
-      await db.endPlaySession(sessionIdRef.current);
+    if (intervalRef.current) {
+      clearInterval(intervalRef.current);
+      intervalRef.current = null;
+    }
 
-      const duration = startTimeRef.current
-        ? Math.floor((Date.now() - startTimeRef.current.getTime()) / 1000)
-        : 0;
+    // Count the time since the last tick
+    tick();
+    const durationSeconds = getDurationSeconds();
+    sessionIdRef.current = null;
+    activeMsRef.current = 0;
+    setSessionId(null);
+    setDuration(durationSeconds);
 
-      onEndRef.current?.(duration);
+    try {
+      await historyService.endSession(sessionId, durationSeconds);
+      onEndRef.current?.(durationSeconds);
     } catch (error) {
       console.error('Failed to end session:', error);
-    } finally {
-      sessionIdRef.current = null;
-      startTimeRef.current = null;
-      durationRef.current = 0;
+    }
+  }, [tick]);
 
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-        intervalRef.current = null;
-      }
+  // Track player input for idle detection
+  useEffect(() => {
+    const handleInput = () => {
+      lastInputRef.current = Date.now();
+    };
+
+    for (const type of INPUT_EVENTS) {
+      window.addEventListener(type, handleInput, { passive: true, capture: true });
     }
+
+    return () => {
+      for (const type of INPUT_EVENTS) {
+        window.removeEventListener(type, handleInput, { capture: true });
+      }
+    };
   }, []);
 
+  // Save play time when the tab is hidden or closed, as it may never come back
+  useEffect(() => {
+    const handleHide = (event: Event) => {
+      if (event.type === 'pagehide' || document.visibilityState === 'hidden') {
+        tick();
+        heartbeat();
+      }
+    };
+
+    document.addEventListener('visibilitychange', handleHide);
+    window.addEventListener('pagehide', handleHide);
+
+    return () => {
+      document.removeEventListener('visibilitychange', handleHide);
+      window.removeEventListener('pagehide', handleHide);
+    };
+  }, [tick, heartbeat]);
+
   // Auto start/end session
   useEffect(() => {
     if (autoStart) {
@@ -266,9 +377,9 @@ export function usePlaySession(
   }, [autoStart, start, end]);
 
   return {
-    isActive: sessionIdRef.current !== null,
-    sessionId: sessionIdRef.current,
-    duration: durationData ?? durationRef.current,
+    isActive: sessionId !== null,
+    sessionId,
+    duration,
     start,
     end,
   };
@@ -338,6 +449,35 @@ export function useGamePlayStats(gameId: string): {
   };
 }
 
+/**
+ * Hook for play statistics across all games (stats page).
+ * Recomputes whenever a session is recorded or the game list changes.
+ *
+ * @param games - Known games, for console and genre breakdowns
+ * @returns Aggregated statistics and loading state
+ *
+ * @example
+ * ```tsx
+ * function StreakBadge() {
+ *   const games = useGameStore((state) => state.games);
+ *   const { analytics } = usePlayAnalytics(games);
+ *
+ *   return <span>{analytics?.currentStreak ?? 0} day streak</span>;
+ * }
+ * ```
+ */
+export function usePlayAnalytics(games: readonly Game[]): {
+  analytics: PlayAnalytics | null;
+  isLoading: boolean;
+} {
+  const analytics = useLiveQuery(() => playStatsService.getAnalytics(games), [games]);
+
+  return {
+    analytics: analytics ?? null,
+    isLoading: analytics === undefined,
+  };
+}
+
 /**
  * Utility function to format duration in seconds to human-readable string.
  *
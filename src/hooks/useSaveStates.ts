@@ -8,6 +8,7 @@
 import { useCallback, useMemo } from 'react';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { db, type SaveState } from '@/services/database';
+import { saveStateService } from '@/services/storage';
 
 /**
  * Slot information for UI display
@@ -54,6 +55,9 @@ interface UseSaveStatesReturn {
  */
 const MAX_SLOTS = 10;
 
+/** Stable empty result while screenshots load */
+const EMPTY_SCREENSHOTS: ReadonlyMap<string, Blob> = new Map();
+
 /**
  * Hook for managing save states for a specific game.
  * Uses Dexie's useLiveQuery for automatic updates when saves change.
@@ -105,7 +109,7 @@ const MAX_SLOTS = 10;
  * }
  * ```
  */
-export function useSaveStates(gameId: string): UseSaveStatesReturn {
+export function useSaveStates(gameId: string, consoleType?: string): UseSaveStatesReturn {
   // Live query for save states
   const saveStatesData = useLiveQuery(
     async () => {
@@ -139,15 +143,14 @@ export function useSaveStates(gameId: string): UseSaveStatesReturn {
       }
 
       try {
-        // Convert ArrayBuffer to Blob for storage
-        const dataBlob = new Blob([data], { type: 'application/octet-stream' });
-        await db.upsertSaveState(gameId, slot, dataBlob, screenshot);
+        // Goes through the service for its storage-full handling
+        await saveStateService.saveState(gameId, slot, data, screenshot, consoleType);
       } catch (error) {
         console.error('Failed to save state:', error);
         throw error;
       }
     },
-    [gameId]
+    [gameId, consoleType]
   );
 
   /**
@@ -301,7 +304,8 @@ export function useSaveStates(gameId: string): UseSaveStatesReturn {
  */
 export function useSaveSlot(
   gameId: string,
-  slot: number
+  slot: number,
+  consoleType?: string
 ): {
   hasData: boolean;
   date: Date | null;
@@ -327,10 +331,9 @@ export function useSaveSlot(
 
   const save = useCallback(
     async (data: ArrayBuffer, screenshot?: Blob): Promise<void> => {
-      const dataBlob = new Blob([data], { type: 'application/octet-stream' });
-      await db.upsertSaveState(gameId, slot, dataBlob, screenshot);
+      await saveStateService.saveState(gameId, slot, data, screenshot, consoleType);
     },
-    [gameId, slot]
+    [gameId, slot, consoleType]
   );
 
   const load = useCallback(async (): Promise<ArrayBuffer | null> => {
@@ -388,6 +391,31 @@ export function useSaveStatesCount(gameId: string): {
   };
 }
 
+/**
+ * Hook for the "last seen" image of games: the screenshot of each game's
+ * most recent save.
+ *
+ * @param gameIds - The game IDs
+ * @returns Screenshot per game ID, for games that have one
+ *
+ * @example
+ * ```tsx
+ * const lastSeen = useLastSeenScreenshots(recentGames.map((game) => game.id));
+ * return <GameCarousel games={recentGames} lastSeen={lastSeen} />;
+ * ```
+ */
+export function useLastSeenScreenshots(gameIds: readonly string[]): ReadonlyMap<string, Blob> {
+  // Joined so a new array with the same IDs does not re-run the query
+  const idsKey = gameIds.join('\n');
+
+  const screenshots = useLiveQuery(
+    () => db.getLatestScreenshots(idsKey ? idsKey.split('\n') : []),
+    [idsKey]
+  );
+
+  return screenshots ?? EMPTY_SCREENSHOTS;
+}
+
 /**
  * Utility function to format save state size.
  *
@@ -0,0 +1,184 @@
+/**
+ * Speed Controls Hook for Retro Gaming Platform
+ *
+ * Keyboard and gamepad bindings for rewind, fast-forward and slow motion
+ * while a game is running. Inputs only update the emulator store;
+ * EmulatorContainer applies the store flags to EmulatorJS, so the
+ * EmulatorControls buttons and these bindings always agree.
+ */
+
+import { useEffect } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { settingsProfileService } from '@/services/storage';
+import { useEmulatorStore } from '@/stores/emulatorStore';
+import { GAMEPAD_BUTTONS } from './useGamepad';
+
+/**
+ * Keyboard bindings (KeyboardEvent.code), chosen to avoid the default
+ * game controls
+ */
+export const SPEED_KEYS = {
+  /** Hold to rewind */
+  rewind: 'Backspace',
+  /** Hold to fast-forward */
+  fastForwardHold: 'Backquote',
+  /** Press to turn fast-forward on or off */
+  fastForwardToggle: 'Equal',
+  /** Hold for slow motion */
+  slowMotionHold: 'Minus',
+} as const;
+
+/**
+ * Gamepad bindings, pressed together with the hotkey button (Select), as
+ * in RetroArch
+ */
+export const SPEED_GAMEPAD_BUTTONS = {
+  hotkey: GAMEPAD_BUTTONS.SELECT,
+  /** Hold to rewind */
+  rewind: GAMEPAD_BUTTONS.L2,
+  /** Hold to fast-forward */
+  fastForwardHold: GAMEPAD_BUTTONS.R2,
+  /** Press to turn fast-forward on or off */
+  fastForwardToggle: GAMEPAD_BUTTONS.R1,
+  /** Hold for slow motion */
+  slowMotionHold: GAMEPAD_BUTTONS.L1,
+} as const;
+
+/**
+ * Whether a key event comes from a text field.
+ */
+function isTyping(target: EventTarget | null): boolean {
+  return target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement;
+}
+
+/**
+ * Hook that drives rewind, fast-forward and slow motion from the keyboard
+ * and gamepads. Rewind inputs are ignored unless rewind is enabled for the
+ * running game (in the settings or its profile).
+ *
+ * @param isActive - Whether a game is running
+ *
+ * @example
+ * ```tsx
+ * function Player({ isReady }: { isReady: boolean }) {
+ *   useSpeedControls(isReady);
+ *   const isFastForward = useEmulatorStore((state) => state.isFastForward);
+ *   return isFastForward ? <span>▶▶</span> : null;
+ * }
+ * ```
+ */
+export function useSpeedControls(isActive: boolean): void {
+  const currentGame = useEmulatorStore((state) => state.currentGame);
+  const rewindEnabled = useLiveQuery(
+    async () => (currentGame ? (await settingsProfileService.getEffectiveSettings(currentGame)).rewindEnabled : false),
+    [currentGame],
+    false
+  );
+
+  const setFastForward = useEmulatorStore((state) => state.setFastForward);
+  const toggleFastForward = useEmulatorStore((state) => state.toggleFastForward);
+  const setSlowMotion = useEmulatorStore((state) => state.setSlowMotion);
+  const setRewinding = useEmulatorStore((state) => state.setRewinding);
+
+  // Keyboard
+  useEffect(() => {
+    if (!isActive) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isTyping(event.target)) return;
+
+      switch (event.code) {
+        case SPEED_KEYS.rewind:
+          if (!rewindEnabled) return;
+          event.preventDefault();
+          setRewinding(true);
+          break;
+        case SPEED_KEYS.fastForwardHold:
+          event.preventDefault();
+          setFastForward(true);
+          break;
+        case SPEED_KEYS.fastForwardToggle:
+          event.preventDefault();
+          if (!event.repeat) toggleFastForward();
+          break;
+        case SPEED_KEYS.slowMotionHold:
+          event.preventDefault();
+          setSlowMotion(true);
+          break;
+        default:
+          break;
+      }
+    };
+
+    const handleKeyUp = (event: KeyboardEvent) => {
+      switch (event.code) {
+        case SPEED_KEYS.rewind:
+          setRewinding(false);
+          break;
+        case SPEED_KEYS.fastForwardHold:
+          setFastForward(false);
+          break;
+        case SPEED_KEYS.slowMotionHold:
+          setSlowMotion(false);
+          break;
+        default:
+          break;
+      }
+    };
+
+    // Key-up events are lost when the window loses focus mid-hold
+    const handleBlur = () => {
+      setRewinding(false);
+      setSlowMotion(false);
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    document.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+      document.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+      setRewinding(false);
+    };
+  }, [isActive, rewindEnabled, setFastForward, toggleFastForward, setSlowMotion, setRewinding]);
+
+  // Gamepads - polled without React state so held buttons do not re-render
+  useEffect(() => {
+    if (!isActive || typeof navigator === 'undefined' || typeof navigator.getGamepads !== 'function') {
+      return;
+    }
+
+    let held = { rewind: false, fastForward: false, fastForwardToggle: false, slowMotion: false };
+    let frameId = 0;
+
+    const poll = () => {
+      const next = { rewind: false, fastForward: false, fastForwardToggle: false, slowMotion: false };
+
+      for (const gamepad of navigator.getGamepads()) {
+        if (!gamepad?.connected || !gamepad.buttons[SPEED_GAMEPAD_BUTTONS.hotkey]?.pressed) continue;
+
+        const isPressed = (button: number) => gamepad.buttons[button]?.pressed ?? false;
+        next.rewind ||= rewindEnabled && isPressed(SPEED_GAMEPAD_BUTTONS.rewind);
+        next.fastForward ||= isPressed(SPEED_GAMEPAD_BUTTONS.fastForwardHold);
+        next.fastForwardToggle ||= isPressed(SPEED_GAMEPAD_BUTTONS.fastForwardToggle);
+        next.slowMotion ||= isPressed(SPEED_GAMEPAD_BUTTONS.slowMotionHold);
+      }
+
+      if (next.rewind !== held.rewind) setRewinding(next.rewind);
+      if (next.fastForward !== held.fastForward) setFastForward(next.fastForward);
+      if (next.fastForwardToggle && !held.fastForwardToggle) toggleFastForward();
+      if (next.slowMotion !== held.slowMotion) setSlowMotion(next.slowMotion);
+
+      held = next;
+      frameId = requestAnimationFrame(poll);
+    };
+
+    frameId = requestAnimationFrame(poll);
+
+    return () => {
+      cancelAnimationFrame(frameId);
+    };
+  }, [isActive, rewindEnabled, setFastForward, toggleFastForward, setSlowMotion, setRewinding]);
+}
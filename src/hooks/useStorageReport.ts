@@ -0,0 +1,105 @@
+/**
+ * Storage Report Hook for Retro Gaming Platform
+ *
+ * Storage usage per category, game and console, refreshed when saves,
+ * imported ROMs, BIOS files or offline games change, plus the bulk
+ * cleanups that free space.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '@/services/database';
+import { storageService } from '@/services/storage';
+import type { StorageCleanupPlan, StorageCleanupRule, StorageReport } from '@/services/storage';
+
+/**
+ * Return type for useStorageReport hook
+ */
+interface UseStorageReportReturn {
+  /** Latest report (null while loading or when it could not be read) */
+  report: StorageReport | null;
+  /** Whether a report is being read */
+  isLoading: boolean;
+  /** Re-read the report after changes outside IndexedDB (e.g. Cache Storage) */
+  refresh: () => void;
+  /** Work out what a cleanup would remove */
+  planCleanup: (rule: StorageCleanupRule) => Promise<StorageCleanupPlan>;
+  /** Run a cleanup and refresh the report */
+  runCleanup: (rule: StorageCleanupRule) => Promise<StorageCleanupPlan>;
+}
+
+/**
+ * Hook for the storage usage report.
+ *
+ * @returns Report, loading state and cleanup actions
+ *
+ * @example
+ * ```tsx
+ * function StorageSummary() {
+ *   const { report } = useStorageReport();
+ *   if (!report) return null;
+ *   return <span>{formatSaveSize(report.usage)} used</span>;
+ * }
+ * ```
+ */
+export function useStorageReport(): UseStorageReportReturn {
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [report, setReport] = useState<StorageReport | null>(null);
+  const [loadedKey, setLoadedKey] = useState<string | null>(null);
+
+  // Changes whenever a table the report reads from changes
+  const dataVersion = useLiveQuery(
+    () =>
+      Promise.all([
+        db.saveStates.count(),
+        db.saveStates.orderBy('updatedAt').last(),
+        db.libraryGames.count(),
+        db.biosFiles.count(),
+        db.offlineGames.count(),
+      ]).then(([saves, newest, library, bios, offline]) =>
+        [saves, newest?.updatedAt.getTime(), library, bios, offline].join(':')
+      ),
+    []
+  );
+
+  const requestKey = dataVersion === undefined ? null : `${dataVersion}#${refreshKey}`;
+
+  useEffect(() => {
+    if (requestKey === null) return;
+
+    let cancelled = false;
+    storageService
+      .getReport()
+      .catch(() => null)
+      .then((next) => {
+        if (cancelled) return;
+        setReport(next);
+        setLoadedKey(requestKey);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [requestKey]);
+
+  const refresh = useCallback(() => setRefreshKey((key) => key + 1), []);
+
+  const planCleanup = useCallback((rule: StorageCleanupRule) => storageService.planCleanup(rule), []);
+
+  const runCleanup = useCallback(
+    async (rule: StorageCleanupRule) => {
+      const result = await storageService.runCleanup(rule);
+      refresh();
+      return result;
+    },
+    [refresh]
+  );
+
+  return {
+    report,
+    isLoading: loadedKey !== requestKey,
+    refresh,
+    planCleanup,
+    runCleanup,
+  };
+}
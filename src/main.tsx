@@ -1,6 +1,7 @@
 import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App';
+import { historyService, integrityService, offlineService } from './services/storage';
 import './styles/globals.css';
 import './styles/animations.css';
 import './styles/utilities.css';
@@ -15,3 +16,16 @@ if (rootElement) {
     </StrictMode>
   );
 }
+
+void offlineService.registerServiceWorker();
+
+// Repair malformed records, then close play sessions left open by a crash or a killed tab
+integrityService
+  .runStartupCheck()
+  .catch(() => {
+    // Logged by the service; retried on the next startup
+  })
+  .then(() => historyService.recoverOrphanedSessions())
+  .catch(() => {
+    // Logged by the service; retried on the next startup
+  });
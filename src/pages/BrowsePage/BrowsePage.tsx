@@ -3,21 +3,43 @@
  * Game browsing page with filters, search, and grid/list views
  */
 
-import { useEffect, useMemo, useState, useCallback, memo } from 'react';
-import { useSearchParams } from 'react-router-dom';
+import { useEffect, useMemo, useState, useCallback, memo, type FormEvent } from 'react';
+import { useNavigate } from 'react-router-dom';
 import clsx from 'clsx';
+import { useShallow } from 'zustand/react/shallow';
 import { GameFilters } from '@/components/games/GameFilters';
 import { GameGrid } from '@/components/games/GameGrid';
 import { GameList } from '@/components/games/GameList';
 import { GameDetailModal } from '@/components/games/GameDetailModal';
+import { MyLibrary } from '@/components/games/MyLibrary';
 import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import { Button } from '@/components/common/Button';
+import { Icon } from '@/components/common/Icon';
+import { Modal } from '@/components/common/Modal';
+import { SearchInput } from '@/components/common/SearchInput';
+import type { SearchInputChip } from '@/components/common/SearchInput';
 import { DevRomUploader } from '@/components/dev';
+import { useGameLibrary } from '@/hooks/useGameLibrary';
+import { useGameFilterData } from '@/hooks/useGameFilterData';
+import { useGameFilterParams } from '@/hooks/useGameFilterParams';
+import { useToast } from '@/hooks/useToast';
 import {
   useGameStore,
+  queryGames,
+  toGameFilter,
+  selectGames,
+  selectIsLoading,
+  selectError,
+  selectFilterFields,
   selectViewMode,
   selectTotalGameCount,
+  selectHasActiveFilters,
 } from '@/stores/gameStore';
-import type { ConsoleType, Game } from '@/types';
+import { parseSearchQuery, removeSearchClause } from '@/services/search';
+import { collectionService } from '@/services/storage';
+import { describeGameFilter } from '@/utils/gameFilterParams';
+import { CONSOLE_CONFIG } from '@/types';
+import type { Game } from '@/types';
 import styles from './BrowsePage.module.css';
 
 export interface BrowsePageProps {
@@ -40,16 +62,84 @@ function useDocumentTitle(title: string) {
 }
 
 /**
- * Valid console types for URL params
+ * Dialog for saving the current filters as a smart collection
  */
-const VALID_CONSOLES: ConsoleType[] = ['ps1', 'nes', 'snes', 'n64', 'gb', 'gba'];
+const SaveSmartCollectionModal = memo(function SaveSmartCollectionModal({
+  isOpen,
+  onClose,
+}: {
+  isOpen: boolean;
+  onClose: () => void;
+}) {
+  const navigate = useNavigate();
+  const getActiveFilter = useGameStore((state) => state.getActiveFilter);
+  const { error: showError } = useToast();
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+
+  const handleSubmit = useCallback(
+    async (event: FormEvent) => {
+      event.preventDefault();
+
+      try {
+        const id = await collectionService.createCollection({
+          name,
+          description,
+          filter: getActiveFilter(),
+        });
+        setName('');
+        setDescription('');
+        onClose();
+        navigate(`/collections/${id}`);
+      } catch (error) {
+        showError(error instanceof Error ? error.message : 'Failed to save collection');
+      }
+    },
+    [name, description, getActiveFilter, onClose, navigate, showError]
+  );
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Save as smart collection" size="sm">
+      <form className={styles.saveForm} onSubmit={handleSubmit}>
+        <p className={styles.saveHint}>
+          Games matching {isOpen ? describeGameFilter(getActiveFilter()).join(', ') : ''} will
+          appear in this collection automatically.
+        </p>
+        <input
+          type="text"
+          className={styles.saveInput}
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          placeholder="Collection name"
+          aria-label="Collection name"
+          maxLength={80}
+        />
+        <input
+          type="text"
+          className={styles.saveInput}
+          value={description}
+          onChange={(event) => setDescription(event.target.value)}
+          placeholder="Description (optional)"
+          aria-label="Collection description"
+        />
+        <div className={styles.saveActions}>
+          <Button type="button" variant="ghost" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="submit" variant="primary" disabled={!name.trim()}>
+            Save
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+});
 
 /**
  * BrowsePage component
  * Allows users to browse, filter, and search games
  */
 const BrowsePage = memo(function BrowsePage({ className }: BrowsePageProps) {
-  const [searchParams] = useSearchParams();
   const [selectedGame, setSelectedGame] = useState<Game | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
 
@@ -65,56 +155,141 @@ const BrowsePage = memo(function BrowsePage({ className }: BrowsePageProps) {
   }, []);
 
   // Get store state and actions
-  const {
-    games,
-    isLoading,
-    error,
-    selectedConsole,
-    fetchGames,
-    setSelectedConsole,
-    getFilteredGames,
-  } = useGameStore();
+  const games = useGameStore(selectGames);
+  const catalogGames = useGameStore((state) => state.catalogGames);
+  const isLoading = useGameStore(selectIsLoading);
+  const error = useGameStore(selectError);
+  const fetchGames = useGameStore((state) => state.fetchGames);
+  const setSearchQuery = useGameStore((state) => state.setSearchQuery);
+  const favoriteGameIds = useGameStore((state) => state.favoriteGameIds);
+  const lastPlayedAt = useGameStore((state) => state.lastPlayedAt);
+  const filterFields = useGameStore(useShallow(selectFilterFields));
+  const { selectedConsole, searchQuery } = filterFields;
 
   const viewMode = useGameStore(selectViewMode);
   const totalCount = useGameStore(selectTotalGameCount);
+  const hasActiveFilters = useGameStore(selectHasActiveFilters);
+  const [isSaveOpen, setIsSaveOpen] = useState(false);
 
-  // Get filtered games
-  const filteredGames = useMemo(() => getFilteredGames(), [getFilteredGames]);
+  // Get filtered games (ranked again only when the games, filters or play data change)
+  const searchResults = useMemo(
+    () => queryGames(games, toGameFilter(filterFields), { favoriteGameIds, lastPlayedAt }),
+    [games, filterFields, favoriteGameIds, lastPlayedAt]
+  );
+  const filteredGames = useMemo(() => searchResults.map((result) => result.game), [searchResults]);
   const filteredCount = filteredGames.length;
 
+  // Matches to mark on the cards
+  const highlights = useMemo(
+    () =>
+      new Map(
+        searchResults
+          .filter((result) => result.matchedFields.length > 0)
+          .map((result) => [result.game.id, result.highlights])
+      ),
+    [searchResults]
+  );
+
+  // Operators understood in the query, shown as removable chips
+  const parsedQuery = useMemo(() => parseSearchQuery(searchQuery), [searchQuery]);
+  const searchChips = useMemo<SearchInputChip[]>(
+    () =>
+      parsedQuery.clauses.map((clause, index) => ({
+        id: String(index),
+        label: clause.label,
+        error: clause.error,
+      })),
+    [parsedQuery]
+  );
+
+  const handleSearchChipRemove = useCallback(
+    (id: string) => {
+      const clause = parsedQuery.clauses[Number(id)];
+      if (clause) {
+        setSearchQuery(removeSearchClause(searchQuery, clause));
+      }
+    },
+    [parsedQuery, searchQuery, setSearchQuery]
+  );
+
   // Update document title based on selected console
   const pageTitle = useMemo(() => {
     if (selectedConsole) {
-      const consoleNames: Record<ConsoleType, string> = {
-        ps1: 'PlayStation',
-        nes: 'NES',
-        snes: 'SNES',
-        n64: 'Nintendo 64',
-        gb: 'Game Boy',
-        gba: 'Game Boy Advance',
-      };
-      return `${consoleNames[selectedConsole]} Games - Retro Gaming Hub`;
+      return `${CONSOLE_CONFIG[selectedConsole].name} Games - Retro Gaming Hub`;
     }
     return 'Browse Games - Retro Gaming Hub';
   }, [selectedConsole]);
 
   useDocumentTitle(pageTitle);
 
-  // Handle URL params for console filter on mount
-  useEffect(() => {
-    const consoleParam = searchParams.get('console');
+  // Keep all filters in the URL, so views can be shared and bookmarked
+  useGameFilterParams();
 
-    if (consoleParam && VALID_CONSOLES.includes(consoleParam as ConsoleType)) {
-      setSelectedConsole(consoleParam as ConsoleType);
-    }
-  }, [searchParams, setSelectedConsole]);
+  // Favorites and play history for favoritesOnly and lastPlayed sorting
+  useGameFilterData();
 
   // Fetch games on mount if not already loaded
   useEffect(() => {
-    if (games.length === 0 && !isLoading && !error) {
+    if (catalogGames.length === 0 && !isLoading && !error) {
       fetchGames();
     }
-  }, [games.length, isLoading, error, fetchGames]);
+  }, [catalogGames.length, isLoading, error, fetchGames]);
+
+  // Imported ROMs (My Library)
+  const {
+    games: libraryGames,
+    importFiles: importLibraryFiles,
+    renameGame: renameLibraryGame,
+    removeGame: removeLibraryGame,
+  } = useGameLibrary();
+  const { success, error: showError } = useToast();
+  const [isImporting, setIsImporting] = useState(false);
+
+  const handleImportRoms = useCallback(
+    async (files: File[]) => {
+      setIsImporting(true);
+      try {
+        const { imported, skipped } = await importLibraryFiles(files);
+        if (imported.length > 0) {
+          success(
+            `Imported ${imported.length} game${imported.length === 1 ? '' : 's'}` +
+              (skipped.length > 0 ? ` (${skipped.length} skipped)` : '')
+          );
+        }
+        if (imported.length === 0 && skipped.length > 0) {
+          showError(`${skipped[0].fileName}: ${skipped[0].reason}`);
+        }
+      } catch {
+        showError('Failed to import ROMs');
+      } finally {
+        setIsImporting(false);
+      }
+    },
+    [importLibraryFiles, success, showError]
+  );
+
+  const handleRenameRom = useCallback(
+    async (id: string, title: string) => {
+      try {
+        await renameLibraryGame(id, title);
+      } catch {
+        showError('Failed to rename game');
+      }
+    },
+    [renameLibraryGame, showError]
+  );
+
+  const handleRemoveRom = useCallback(
+    async (game: Game) => {
+      try {
+        await removeLibraryGame(game.id);
+        success(`Removed ${game.title}`);
+      } catch {
+        showError('Failed to remove game');
+      }
+    },
+    [removeLibraryGame, success, showError]
+  );
 
   // Show loading state
   if (isLoading && games.length === 0) {
@@ -180,11 +355,42 @@ const BrowsePage = memo(function BrowsePage({ className }: BrowsePageProps) {
             )}
           </p>
         </div>
+        {hasActiveFilters && (
+          <Button
+            variant="secondary"
+            size="sm"
+            leftIcon={<Icon name="save" size={16} />}
+            onClick={() => setIsSaveOpen(true)}
+            className={styles.saveButton}
+          >
+            Save as smart collection
+          </Button>
+        )}
       </header>
 
       {/* Dev ROM Uploader - only visible in development */}
       <DevRomUploader />
 
+      {/* User-imported ROMs */}
+      <MyLibrary
+        games={libraryGames}
+        onImport={handleImportRoms}
+        onRename={handleRenameRom}
+        onRemove={handleRemoveRom}
+        isImporting={isImporting}
+      />
+
+      {/* Search */}
+      <SearchInput
+        value={searchQuery}
+        onChange={setSearchQuery}
+        placeholder="Search games... try console:snes year:1991..1995 players:2"
+        aria-label="Search games"
+        chips={searchChips}
+        onChipRemove={handleSearchChipRemove}
+        className={styles.search}
+      />
+
       {/* Filters Bar */}
       <GameFilters
         totalCount={totalCount}
@@ -202,12 +408,14 @@ const BrowsePage = memo(function BrowsePage({ className }: BrowsePageProps) {
             columns={4}
             showConsole
             onGameInfoClick={handleGameInfoClick}
+            highlights={highlights}
           />
         ) : (
           <GameList
             games={filteredGames}
             isLoading={isLoading}
             emptyMessage="No games match your filters. Try adjusting your search."
+            highlights={highlights}
           />
         )}
       </main>
@@ -215,6 +423,8 @@ const BrowsePage = memo(function BrowsePage({ className }: BrowsePageProps) {
       {/* Decorative elements */}
       <div className={styles.gridLines} aria-hidden="true" />
 
+      <SaveSmartCollectionModal isOpen={isSaveOpen} onClose={() => setIsSaveOpen(false)} />
+
       {/* Game Detail Modal */}
       <GameDetailModal
         game={selectedGame}
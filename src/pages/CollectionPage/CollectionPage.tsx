@@ -0,0 +1,355 @@
+/**
+ * CollectionPage Component
+ * Shows one collection: ordered games for manual collections, the
+ * matching games for smart collections
+ */
+
+import { useEffect, useState, useCallback, memo, type FormEvent } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import clsx from 'clsx';
+import { Icon } from '@/components/common/Icon';
+import { Button } from '@/components/common/Button';
+import { Modal } from '@/components/common/Modal';
+import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import { CollectionCover } from '@/components/games/CollectionCover';
+import { GameGrid } from '@/components/games/GameGrid';
+import { GameDetailModal } from '@/components/games/GameDetailModal';
+import { useCollection, useCollectionGames } from '@/hooks/useCollections';
+import { useGameFilterData } from '@/hooks/useGameFilterData';
+import { useToastActions } from '@/hooks/useToast';
+import { collectionService, isSmartCollection } from '@/services/storage';
+import type { GameCollection } from '@/services/database';
+import { CONSOLE_CONFIG } from '@/types';
+import type { ConsoleType, Game } from '@/types';
+import { describeGameFilter, toGameFilterParams } from '@/utils/gameFilterParams';
+import styles from './CollectionPage.module.css';
+
+export interface CollectionPageProps {
+  /** Additional CSS class name */
+  className?: string;
+}
+
+/**
+ * Hook for updating document title
+ */
+function useDocumentTitle(title: string) {
+  useEffect(() => {
+    const previousTitle = document.title;
+    document.title = title;
+
+    return () => {
+      document.title = previousTitle;
+    };
+  }, [title]);
+}
+
+/**
+ * Inline form for renaming a collection and editing its description
+ */
+const EditDetailsForm = memo(function EditDetailsForm({
+  collection,
+  onDone,
+}: {
+  collection: GameCollection;
+  onDone: () => void;
+}) {
+  const [name, setName] = useState(collection.name);
+  const [description, setDescription] = useState(collection.description ?? '');
+  const toast = useToastActions();
+
+  const handleSubmit = useCallback(
+    async (event: FormEvent) => {
+      event.preventDefault();
+
+      try {
+        await collectionService.updateDetails(collection.id!, name, description);
+        onDone();
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : 'Failed to update collection');
+      }
+    },
+    [collection.id, name, description, onDone, toast]
+  );
+
+  return (
+    <form className={styles.editForm} onSubmit={handleSubmit}>
+      <input
+        type="text"
+        className={styles.input}
+        value={name}
+        onChange={(event) => setName(event.target.value)}
+        aria-label="Collection name"
+        maxLength={80}
+        autoFocus
+      />
+      <textarea
+        className={styles.input}
+        value={description}
+        onChange={(event) => setDescription(event.target.value)}
+        placeholder="Description (optional)"
+        aria-label="Collection description"
+        rows={2}
+      />
+      <div className={styles.editActions}>
+        <Button type="button" variant="ghost" size="sm" onClick={onDone}>
+          Cancel
+        </Button>
+        <Button type="submit" variant="primary" size="sm" disabled={!name.trim()}>
+          Save
+        </Button>
+      </div>
+    </form>
+  );
+});
+
+/**
+ * Ordered game list of a manual collection with move and remove actions
+ */
+const OrderedGameList = memo(function OrderedGameList({
+  collection,
+  games,
+}: {
+  collection: GameCollection;
+  games: Game[];
+}) {
+  const toast = useToastActions();
+
+  const handleMove = useCallback(
+    async (game: Game, toIndex: number) => {
+      try {
+        await collectionService.moveGame(collection.id!, game.id, toIndex);
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : 'Failed to reorder collection');
+      }
+    },
+    [collection.id, toast]
+  );
+
+  const handleRemove = useCallback(
+    async (game: Game) => {
+      try {
+        await collectionService.removeGame(collection.id!, game.id);
+        toast.info(`Removed ${game.title} from ${collection.name}`);
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : 'Failed to update collection');
+      }
+    },
+    [collection.id, collection.name, toast]
+  );
+
+  if (games.length === 0) {
+    return (
+      <div className={styles.emptyState}>
+        <Icon name="grid" size={48} />
+        <p>This collection is empty. Right-click any game card to add it here.</p>
+        <Link to="/browse" className={styles.browseLink}>
+          Browse games
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <ol className={styles.gameList}>
+      {games.map((game, index) => {
+        // Positions in the stored list, which may include games no longer available
+        const previous = index > 0 ? collection.gameIds.indexOf(games[index - 1].id) : -1;
+        const next = index < games.length - 1 ? collection.gameIds.indexOf(games[index + 1].id) : -1;
+
+        return (
+          <li key={game.id} className={styles.gameRow}>
+            <span className={styles.position}>{index + 1}</span>
+            {game.coverPath ? (
+              <img src={game.coverPath} alt="" className={styles.thumbnail} loading="lazy" crossOrigin="anonymous" />
+            ) : (
+              <span className={styles.thumbnail} aria-hidden="true" />
+            )}
+            <div className={styles.gameInfo}>
+              <Link to={`/play/${game.id}`} className={styles.gameTitle}>
+                {game.title}
+              </Link>
+              <span className={styles.gameMeta}>
+                {CONSOLE_CONFIG[game.console as ConsoleType]?.shortName ?? game.console.toUpperCase()}
+                {game.releaseYear && ` · ${game.releaseYear}`}
+              </span>
+            </div>
+            <div className={styles.rowActions}>
+              <button
+                type="button"
+                className={styles.iconButton}
+                onClick={() => handleMove(game, previous)}
+                disabled={previous < 0}
+                aria-label={`Move ${game.title} up`}
+              >
+                <Icon name="chevron-left" size={16} className={styles.rotated} />
+              </button>
+              <button
+                type="button"
+                className={styles.iconButton}
+                onClick={() => handleMove(game, next)}
+                disabled={next < 0}
+                aria-label={`Move ${game.title} down`}
+              >
+                <Icon name="chevron-right" size={16} className={styles.rotated} />
+              </button>
+              <button
+                type="button"
+                className={styles.iconButton}
+                onClick={() => handleRemove(game)}
+                aria-label={`Remove ${game.title} from ${collection.name}`}
+              >
+                <Icon name="close" size={16} />
+              </button>
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+});
+
+/**
+ * CollectionPage component
+ */
+const CollectionPage = memo(function CollectionPage({ className }: CollectionPageProps) {
+  const { collectionId } = useParams<{ collectionId: string }>();
+  const navigate = useNavigate();
+  const toast = useToastActions();
+  const [isEditing, setIsEditing] = useState(false);
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+  const [selectedGame, setSelectedGame] = useState<Game | null>(null);
+
+  // Smart collections may filter on favorites and sort by last played
+  useGameFilterData();
+
+  const id = Number(collectionId);
+  const { collection, isLoading } = useCollection(Number.isInteger(id) ? id : undefined);
+  const games = useCollectionGames(collection);
+
+  useDocumentTitle(`${collection?.name ?? 'Collection'} - Retro Gaming Hub`);
+
+  const handleEditDone = useCallback(() => setIsEditing(false), []);
+
+  const handleDelete = useCallback(async () => {
+    if (!collection) return;
+
+    try {
+      await collectionService.deleteCollection(collection.id!);
+      toast.info(`Deleted ${collection.name}`);
+      navigate('/collections');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete collection');
+    }
+  }, [collection, navigate, toast]);
+
+  if (isLoading) {
+    return (
+      <div className={clsx(styles.collection, styles.loading, className)}>
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (!collection) {
+    return (
+      <div className={clsx(styles.collection, className)}>
+        <div className={styles.emptyState}>
+          <h1 className={styles.title}>Collection not found</h1>
+          <p>It may have been deleted.</p>
+          <Link to="/collections" className={styles.browseLink}>
+            All collections
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const isSmart = isSmartCollection(collection);
+
+  return (
+    <div className={clsx(styles.collection, className)}>
+      <Link to="/collections" className={styles.backLink}>
+        <Icon name="chevron-left" size={16} />
+        Collections
+      </Link>
+
+      {/* Page Header */}
+      <header className={styles.header}>
+        <CollectionCover games={games} isSmart={isSmart} className={styles.cover} />
+        <div className={styles.headerContent}>
+          {isEditing ? (
+            <EditDetailsForm collection={collection} onDone={handleEditDone} />
+          ) : (
+            <>
+              <h1 className={styles.title}>{collection.name}</h1>
+              {collection.description && <p className={styles.description}>{collection.description}</p>}
+              <span className={styles.count}>
+                {games.length} {games.length === 1 ? 'game' : 'games'}
+              </span>
+              {isSmart && (
+                <div className={styles.filterChips} aria-label="Collection filter">
+                  {describeGameFilter(collection.filter).map((label) => (
+                    <span key={label} className={styles.filterChip}>
+                      {label}
+                    </span>
+                  ))}
+                </div>
+              )}
+              <div className={styles.headerActions}>
+                {isSmart && (
+                  <Link to={`/browse?${toGameFilterParams(collection.filter)}`}>
+                    <Button variant="secondary" size="sm" leftIcon={<Icon name="search" size={16} />}>
+                      Open in Browse
+                    </Button>
+                  </Link>
+                )}
+                <Button variant="ghost" size="sm" onClick={() => setIsEditing(true)}>
+                  Edit
+                </Button>
+                <Button variant="danger" size="sm" onClick={() => setIsDeleteOpen(true)}>
+                  Delete
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className={styles.content}>
+        {isSmart ? (
+          <GameGrid
+            games={games}
+            isLoading={false}
+            emptyMessage="No games match this collection's filters"
+            columns={4}
+            showConsole
+            onGameInfoClick={setSelectedGame}
+          />
+        ) : (
+          <OrderedGameList collection={collection} games={games} />
+        )}
+      </main>
+
+      {/* Delete confirmation */}
+      <Modal isOpen={isDeleteOpen} onClose={() => setIsDeleteOpen(false)} title="Delete collection?" size="sm">
+        <p className={styles.confirmMessage}>
+          Delete {collection.name}? The games themselves stay in your library.
+        </p>
+        <div className={styles.confirmActions}>
+          <Button variant="ghost" onClick={() => setIsDeleteOpen(false)}>
+            Cancel
+          </Button>
+          <Button variant="danger" onClick={handleDelete}>
+            Delete
+          </Button>
+        </div>
+      </Modal>
+
+      {/* Game Detail Modal */}
+      <GameDetailModal game={selectedGame} isOpen={selectedGame !== null} onClose={() => setSelectedGame(null)} />
+    </div>
+  );
+});
+
+export default CollectionPage;
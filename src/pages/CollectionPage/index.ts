@@ -0,0 +1,7 @@
+/**
+ * CollectionPage - A single game collection
+ * @module pages/CollectionPage
+ */
+
+export { default } from './CollectionPage';
+export type { CollectionPageProps } from './CollectionPage';
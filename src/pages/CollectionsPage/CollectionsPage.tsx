@@ -0,0 +1,172 @@
+/**
+ * CollectionsPage Component
+ * Lists the user's collections and creates new ones
+ */
+
+import { useEffect, useState, useCallback, memo, type FormEvent } from 'react';
+import { Link } from 'react-router-dom';
+import clsx from 'clsx';
+import { Icon } from '@/components/common/Icon';
+import { Button } from '@/components/common/Button';
+import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import { CollectionCover } from '@/components/games/CollectionCover';
+import { useCollections, useCollectionGames } from '@/hooks/useCollections';
+import { useGameFilterData } from '@/hooks/useGameFilterData';
+import { useToastActions } from '@/hooks/useToast';
+import { collectionService, isSmartCollection } from '@/services/storage';
+import type { GameCollection } from '@/services/database';
+import { describeGameFilter } from '@/utils/gameFilterParams';
+import styles from './CollectionsPage.module.css';
+
+export interface CollectionsPageProps {
+  /** Additional CSS class name */
+  className?: string;
+}
+
+/**
+ * Hook for updating document title
+ */
+function useDocumentTitle(title: string) {
+  useEffect(() => {
+    const previousTitle = document.title;
+    document.title = title;
+
+    return () => {
+      document.title = previousTitle;
+    };
+  }, [title]);
+}
+
+/**
+ * Collection tile with its cover mosaic
+ */
+const CollectionTile = memo(function CollectionTile({ collection }: { collection: GameCollection }) {
+  const games = useCollectionGames(collection);
+  const isSmart = isSmartCollection(collection);
+
+  return (
+    <Link to={`/collections/${collection.id}`} className={styles.tile}>
+      <CollectionCover games={games} isSmart={isSmart} />
+      <div className={styles.tileBody}>
+        <h2 className={styles.tileTitle}>{collection.name}</h2>
+        <span className={styles.tileMeta}>
+          {games.length} {games.length === 1 ? 'game' : 'games'}
+          {isSmart && ` · ${describeGameFilter(collection.filter).join(', ') || 'All games'}`}
+        </span>
+        {collection.description && <p className={styles.tileDescription}>{collection.description}</p>}
+      </div>
+    </Link>
+  );
+});
+
+/**
+ * Form for creating a manual collection
+ */
+const CreateCollectionForm = memo(function CreateCollectionForm() {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const toast = useToastActions();
+
+  const handleSubmit = useCallback(
+    async (event: FormEvent) => {
+      event.preventDefault();
+
+      try {
+        await collectionService.createCollection({ name, description });
+        toast.success(`Created ${name.trim()}`);
+        setName('');
+        setDescription('');
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : 'Failed to create collection');
+      }
+    },
+    [name, description, toast]
+  );
+
+  return (
+    <form className={styles.createForm} onSubmit={handleSubmit}>
+      <input
+        type="text"
+        className={styles.input}
+        value={name}
+        onChange={(event) => setName(event.target.value)}
+        placeholder="New collection name"
+        aria-label="Collection name"
+        maxLength={80}
+      />
+      <input
+        type="text"
+        className={clsx(styles.input, styles.descriptionInput)}
+        value={description}
+        onChange={(event) => setDescription(event.target.value)}
+        placeholder="Description (optional)"
+        aria-label="Collection description"
+      />
+      <Button type="submit" variant="primary" disabled={!name.trim()} leftIcon={<Icon name="check" size={18} />}>
+        Create
+      </Button>
+    </form>
+  );
+});
+
+/**
+ * CollectionsPage component
+ * Manual collections are filled from the game card menu (right-click);
+ * smart collections are saved from the Browse page filters
+ */
+const CollectionsPage = memo(function CollectionsPage({ className }: CollectionsPageProps) {
+  useDocumentTitle('Collections - Retro Gaming Hub');
+
+  // Smart collections may filter on favorites and sort by last played
+  useGameFilterData();
+
+  const { collections, isLoading } = useCollections();
+
+  if (isLoading) {
+    return (
+      <div className={clsx(styles.collections, styles.loading, className)}>
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  return (
+    <div className={clsx(styles.collections, className)}>
+      {/* Page Header */}
+      <header className={styles.header}>
+        <div className={styles.headerIcon}>
+          <Icon name="grid" size={32} />
+        </div>
+        <div className={styles.headerContent}>
+          <h1 className={styles.title}>Collections</h1>
+          <span className={styles.subtitle}>
+            Right-click a game to add it to a collection, or save a Browse view as a smart collection
+          </span>
+        </div>
+      </header>
+
+      <CreateCollectionForm />
+
+      {/* Main Content */}
+      <main className={styles.content}>
+        {collections.length === 0 ? (
+          <div className={styles.emptyState}>
+            <Icon name="grid" size={48} />
+            <p>No collections yet. Create one above to start grouping your games.</p>
+            <Link to="/browse" className={styles.browseLink}>
+              Browse games
+            </Link>
+          </div>
+        ) : (
+          <div className={styles.grid}>
+            {collections.map((collection) => (
+              <CollectionTile key={collection.id} collection={collection} />
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+});
+
+export default CollectionsPage;
@@ -0,0 +1,7 @@
+/**
+ * CollectionsPage - User-defined game collections
+ * @module pages/CollectionsPage
+ */
+
+export { default } from './CollectionsPage';
+export type { CollectionsPageProps } from './CollectionsPage';
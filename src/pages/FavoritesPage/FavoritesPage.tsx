@@ -84,14 +84,14 @@ const FavoritesPage = memo(function FavoritesPage({ className }: FavoritesPagePr
   const { favorites, isLoading: favoritesLoading, count } = useFavorites();
 
   // Get games from store
-  const { games, isLoading: gamesLoading, fetchGames } = useGameStore();
+  const { games, catalogGames, isLoading: gamesLoading, fetchGames } = useGameStore();
 
   // Fetch games if not loaded
   useEffect(() => {
-    if (games.length === 0 && !gamesLoading) {
+    if (catalogGames.length === 0 && !gamesLoading) {
       fetchGames();
     }
-  }, [games.length, gamesLoading, fetchGames]);
+  }, [catalogGames.length, gamesLoading, fetchGames]);
 
   // Cross-reference favorite IDs with game objects
   const favoriteGames = useMemo(() => {
@@ -43,7 +43,7 @@ const HomePage = memo(function HomePage({ className }: HomePageProps) {
   useDocumentTitle('Retro Gaming Hub - Play Classic Games');
 
   // Load games on mount
-  const { games, isLoading, fetchGames } = useGameStore();
+  const { catalogGames, isLoading, fetchGames } = useGameStore();
 
   // Get recent and favorites data to determine which sections to show
   const { recentGameIds, isLoading: recentLoading } = useRecentlyPlayed(6);
@@ -51,10 +51,10 @@ const HomePage = memo(function HomePage({ className }: HomePageProps) {
 
   useEffect(() => {
     // Fetch games if not already loaded
-    if (games.length === 0 && !isLoading) {
+    if (catalogGames.length === 0 && !isLoading) {
       fetchGames();
     }
-  }, [games.length, isLoading, fetchGames]);
+  }, [catalogGames.length, isLoading, fetchGames]);
 
   // Determine which sections to show
   const hasRecentlyPlayed = recentGameIds.length > 0 || recentLoading;
@@ -8,7 +8,9 @@ import { useCallback, useEffect, useState, useLayoutEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useGameStore } from '@/stores';
 import { usePlaySession } from '@/hooks/useRecentlyPlayed';
-import { EmulatorContainer, EmulatorBezel, BrowserWarning } from '@/components/emulator';
+import { saveStateService } from '@/services/storage';
+import type { SaveState } from '@/services/database';
+import { EmulatorContainer, EmulatorBezel, BrowserWarning, ResumePrompt } from '@/components/emulator';
 import styles from './PlayPage.module.css';
 
 /**
@@ -29,6 +31,14 @@ function checkEmulatorJsPreviouslyLoaded(): boolean {
   );
 }
 
+/**
+ * Whether the game is running, i.e. EmulatorJS has started and is not paused.
+ * Play time is only counted while this is true.
+ */
+function isEmulatorRunning(): boolean {
+  return !!window.EJS_emulator && !window.EJS_emulator.paused;
+}
+
 // Track if we've already checked for reload to avoid infinite loops
 let hasCheckedForReload = false;
 
@@ -47,12 +57,16 @@ export function PlayPage() {
   // Track play session (starts automatically when game loads)
   usePlaySession(gameId ?? '', {
     autoStart: !!game,
+    isRunning: isEmulatorRunning,
   });
 
   // Local state
   const [, setIsEmulatorReady] = useState(false);
   const [browserWarningDismissed, setBrowserWarningDismissed] = useState(false);
   const [shouldShowEmulator, setShouldShowEmulator] = useState(false);
+  // Auto-save for this game (undefined while checking), and the player's resume choice
+  const [autoSave, setAutoSave] = useState<SaveState | null | undefined>(undefined);
+  const [resumeChoice, setResumeChoice] = useState<'resume' | 'fresh' | null>(null);
 
   // Force page reload if EmulatorJS was previously loaded in this JS context
   // This is necessary because EmulatorJS uses `let` declarations that can't be redeclared
@@ -68,6 +82,23 @@ export function PlayPage() {
     }
   }, []);
 
+  // Look up the auto-save once per game so we can offer to resume
+  useEffect(() => {
+    if (!gameId) return;
+
+    let cancelled = false;
+    saveStateService.getAutoSave(gameId).then((save) => {
+      if (!cancelled) {
+        setAutoSave(save);
+        setResumeChoice(null);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [gameId]);
+
   // Update document title
   useEffect(() => {
     if (game) {
@@ -126,8 +157,17 @@ export function PlayPage() {
     setShouldShowEmulator(true);
   }, []);
 
-  // Show loading state if game not yet loaded
-  if (!game) {
+  // Handle resume prompt choices
+  const handleResume = useCallback(() => {
+    setResumeChoice('resume');
+  }, []);
+
+  const handleStartFresh = useCallback(() => {
+    setResumeChoice('fresh');
+  }, []);
+
+  // Show loading state if game not yet loaded (or still checking for an auto-save)
+  if (!game || autoSave === undefined) {
     return (
       <div className={styles.loading} role="status" aria-live="polite" aria-busy="true">
         <div className={styles.loadingSpinner} aria-hidden="true" />
@@ -149,6 +189,21 @@ export function PlayPage() {
     );
   }
 
+  // Offer to resume from the auto-save before starting the emulator
+  if (autoSave && resumeChoice === null) {
+    return (
+      <div className={styles.playSimple}>
+        <ResumePrompt
+          gameTitle={game.title}
+          savedAt={autoSave.updatedAt}
+          screenshot={autoSave.screenshot}
+          onResume={handleResume}
+          onStartFresh={handleStartFresh}
+        />
+      </div>
+    );
+  }
+
   return (
     <div className={styles.playSimple}>
       <EmulatorBezel
@@ -160,6 +215,7 @@ export function PlayPage() {
           onReady={handleEmulatorReady}
           onError={handleEmulatorError}
           onBack={handleBack}
+          resumeFromAutoSave={resumeChoice === 'resume'}
         />
       </EmulatorBezel>
     </div>
@@ -1,24 +1,93 @@
 /**
  * SettingsPage Component
  *
- * Settings page with sections for audio, display, controls, and data management.
+ * Settings page with sections for audio, display, controls, rewind and fast-forward, BIOS files, storage usage, offline storage, save states, and data management.
  * Provides user preferences configuration with persistence via IndexedDB.
  */
 
 import { useState, useCallback, useEffect, useRef } from 'react';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { db } from '@/services/database';
-import { settingsService } from '@/services/storage';
+import { settingsService, saveStateArchiveService, biosService, SAVE_ARCHIVE_EXTENSION } from '@/services/storage';
+import { syncService, type SyncConfig } from '@/services/api';
 import { useGameStore } from '@/stores';
 import { useToast } from '@/hooks/useToast';
+import { useOfflineStorage } from '@/hooks/useOfflineGames';
+import { useStorageReport } from '@/hooks/useStorageReport';
+import { formatSaveSize } from '@/hooks/useSaveStates';
 import { Button, Modal } from '@/components/common';
+import { BiosManager, ControlRemapper, PlayerAssignment, ShaderPicker } from '@/components/emulator';
+import { OfflineStorageManager, StorageUsageManager } from '@/components/games';
+import {
+  SHADER_OPTIONS,
+  getAllConsoleTypes,
+  getConsoleName,
+  getPresetShader,
+  resolveShader,
+} from '@/services/emulator';
+import type { StorageCleanupPlan, StorageCleanupRule } from '@/services/storage';
+import { DEFAULT_DISPLAY_SETTINGS, FAST_FORWARD_RATIOS, REWIND_GRANULARITIES, isEmulatorShader } from '@/types';
+import type {
+  ConsoleControlMappings,
+  ConsoleType,
+  EmulatorShader,
+  FastForwardRatio,
+  RewindGranularity,
+} from '@/types';
 import styles from './SettingsPage.module.css';
 
+/** Auto-save interval choices in seconds (0 = only when leaving a game) */
+const AUTO_SAVE_INTERVALS = [
+  { value: 30, label: '30s' },
+  { value: 60, label: '1m' },
+  { value: 300, label: '5m' },
+  { value: 0, label: 'On Exit' },
+];
+
+/**
+ * Formats a fast-forward ratio for its button.
+ */
+function formatFastForwardRatio(ratio: FastForwardRatio): string {
+  return ratio === 'unlimited' ? 'Max' : `${ratio}×`;
+}
+
+/**
+ * Describes what a storage cleanup removes, for its confirmation dialog.
+ */
+function describeCleanup(plan: StorageCleanupPlan): { title: string; message: string } {
+  const size = formatSaveSize(plan.bytes);
+  const games = plan.gameIds.length === 1 ? '1 game' : `${plan.gameIds.length} games`;
+
+  switch (plan.rule.type) {
+    case 'stale-saves':
+      return {
+        title: 'Delete Old Saves',
+        message: `This will permanently delete ${plan.itemCount} save state(s) of ${games} not played in ${plan.rule.days} days, freeing ${size}. This cannot be undone.`,
+      };
+    case 'stale-offline-games':
+      return {
+        title: 'Remove Old Offline Games',
+        message: `This will remove the offline copies of ${games} not played in ${plan.rule.days} days, freeing ${size}. They can be downloaded again.`,
+      };
+    case 'screenshots':
+      return {
+        title: 'Delete Save Screenshots',
+        message: `This will delete ${plan.itemCount} screenshot(s) from save states, freeing ${size}. The saves themselves are kept.`,
+      };
+    case 'emulator-cache':
+      return {
+        title: 'Clear Emulator Cache',
+        message: `This will clear ${plan.itemCount} cached emulator file(s), freeing ${size}. They are downloaded again when needed.`,
+      };
+  }
+}
+
 /**
  * SettingsPage - User preferences and data management
  */
 export function SettingsPage() {
   const { success, error: showError } = useToast();
+  const games = useGameStore((state) => state.games);
   const viewMode = useGameStore((state) => state.viewMode);
   const setViewMode = useGameStore((state) => state.setViewMode);
 
@@ -37,11 +106,54 @@ export function SettingsPage() {
 
   // Settings from IndexedDB
   const settings = useLiveQuery(() => db.getSettings(), [], null);
+  const biosFiles = useLiveQuery(() => biosService.getStoredFiles(), [], []);
+  const {
+    pinnedGames,
+    usage: storageUsage,
+    requestPersistence,
+    unpinGame,
+    clearRuntimeCache,
+  } = useOfflineStorage();
+  const {
+    report: storageReport,
+    refresh: refreshStorageReport,
+    planCleanup,
+    runCleanup,
+  } = useStorageReport();
+  const [isImportingBios, setIsImportingBios] = useState(false);
 
   // Local state for immediate UI updates - initialize from settings if available
   const [volume, setVolume] = useState(() => settings?.volume ?? 0.7);
   const [isMuted, setIsMuted] = useState(false);
   const [showVirtualGamepad, setShowVirtualGamepad] = useState(() => settings?.showVirtualGamepad ?? true);
+  const [autoSaveEnabled, setAutoSaveEnabled] = useState(() => settings?.autoSaveEnabled ?? true);
+  const [autoSaveInterval, setAutoSaveInterval] = useState(() => settings?.autoSaveIntervalSeconds ?? 60);
+  const [rewindEnabled, setRewindEnabled] = useState(() => settings?.rewindEnabled ?? false);
+  const [rewindGranularity, setRewindGranularity] = useState<RewindGranularity>(
+    () => settings?.rewindGranularity ?? 6
+  );
+  const [fastForwardRatio, setFastForwardRatio] = useState<FastForwardRatio>(
+    () => settings?.fastForwardRatio ?? 3
+  );
+  const [integerScaling, setIntegerScaling] = useState(
+    () => settings?.display.integerScaling ?? DEFAULT_DISPLAY_SETTINGS.integerScaling
+  );
+  const [maintainAspectRatio, setMaintainAspectRatio] = useState(
+    () => settings?.display.maintainAspectRatio ?? DEFAULT_DISPLAY_SETTINGS.maintainAspectRatio
+  );
+  const [shaderConsole, setShaderConsole] = useState<ConsoleType>('nes');
+
+  // Cloud sync configuration (stored in localStorage)
+  const [syncConfig, setSyncConfig] = useState<SyncConfig>(
+    () =>
+      syncService.getConfig() ?? {
+        endpoint: syncService.getDefaultEndpoint(),
+        userId: '',
+        secret: '',
+      }
+  );
+  const [isSyncConfigured, setIsSyncConfigured] = useState(() => syncService.isConfigured());
+  const [isSyncing, setIsSyncing] = useState(false);
 
   // Track previous settings to detect changes from database
   const prevSettingsRef = useRef(settings);
@@ -54,6 +166,13 @@ export function SettingsPage() {
       setTimeout(() => {
         setVolume(settings.volume);
         setShowVirtualGamepad(settings.showVirtualGamepad);
+        setAutoSaveEnabled(settings.autoSaveEnabled);
+        setAutoSaveInterval(settings.autoSaveIntervalSeconds);
+        setRewindEnabled(settings.rewindEnabled);
+        setRewindGranularity(settings.rewindGranularity);
+        setFastForwardRatio(settings.fastForwardRatio);
+        setIntegerScaling(settings.display.integerScaling);
+        setMaintainAspectRatio(settings.display.maintainAspectRatio);
       }, 0);
     }
   }, [settings]);
@@ -106,6 +225,224 @@ export function SettingsPage() {
     }
   }, [showVirtualGamepad, success, showError]);
 
+  // Handle auto-save toggle
+  const handleAutoSaveToggle = useCallback(async () => {
+    const newValue = !autoSaveEnabled;
+    setAutoSaveEnabled(newValue);
+    try {
+      await settingsService.setAutoSave(newValue);
+      success(newValue ? 'Auto-save enabled' : 'Auto-save disabled');
+    } catch {
+      showError('Failed to save auto-save setting');
+      setAutoSaveEnabled(!newValue);
+    }
+  }, [autoSaveEnabled, success, showError]);
+
+  // Handle auto-save interval change
+  const handleAutoSaveIntervalChange = useCallback(
+    async (seconds: number) => {
+      const previous = autoSaveInterval;
+      setAutoSaveInterval(seconds);
+      try {
+        await settingsService.setAutoSave(autoSaveEnabled, seconds);
+      } catch {
+        showError('Failed to save auto-save interval');
+        setAutoSaveInterval(previous);
+      }
+    },
+    [autoSaveEnabled, autoSaveInterval, showError]
+  );
+
+  // Handle rewind toggle
+  const handleRewindToggle = useCallback(async () => {
+    const newValue = !rewindEnabled;
+    setRewindEnabled(newValue);
+    try {
+      await settingsService.setRewind(newValue);
+      success(newValue ? 'Rewind enabled for the next game you start' : 'Rewind disabled');
+    } catch {
+      showError('Failed to save rewind setting');
+      setRewindEnabled(!newValue);
+    }
+  }, [rewindEnabled, success, showError]);
+
+  // Handle rewind granularity change
+  const handleRewindGranularityChange = useCallback(
+    async (granularity: RewindGranularity) => {
+      const previous = rewindGranularity;
+      setRewindGranularity(granularity);
+      try {
+        await settingsService.setRewind(rewindEnabled, granularity);
+      } catch {
+        showError('Failed to save rewind granularity');
+        setRewindGranularity(previous);
+      }
+    },
+    [rewindEnabled, rewindGranularity, showError]
+  );
+
+  // Handle fast-forward speed change
+  const handleFastForwardRatioChange = useCallback(
+    async (ratio: FastForwardRatio) => {
+      const previous = fastForwardRatio;
+      setFastForwardRatio(ratio);
+      try {
+        await settingsService.setFastForwardRatio(ratio);
+      } catch {
+        showError('Failed to save fast-forward speed');
+        setFastForwardRatio(previous);
+      }
+    },
+    [fastForwardRatio, showError]
+  );
+
+  // Shaders are saved as soon as they are picked
+  const defaultShader = settings?.display.shader ?? DEFAULT_DISPLAY_SETTINGS.shader;
+  const shaderPreset = getPresetShader(shaderConsole, defaultShader);
+  const consoleShader = settings ? resolveShader(shaderConsole, settings) : shaderPreset;
+
+  // Handle shader change for the selected console
+  const handleConsoleShaderChange = useCallback(
+    async (shader: EmulatorShader) => {
+      try {
+        // Picking the preset again follows the preset rather than pinning it
+        await settingsService.setConsoleShader(shaderConsole, shader === shaderPreset ? null : shader);
+      } catch {
+        showError('Failed to save shader');
+      }
+    },
+    [shaderConsole, shaderPreset, showError]
+  );
+
+  // Handle shader change for consoles without a preset
+  const handleDefaultShaderChange = useCallback(
+    async (shader: EmulatorShader) => {
+      try {
+        await settingsService.updateDisplaySettings({ shader });
+      } catch {
+        showError('Failed to save default shader');
+      }
+    },
+    [showError]
+  );
+
+  // Handle integer scaling toggle
+  const handleIntegerScalingToggle = useCallback(async () => {
+    const newValue = !integerScaling;
+    setIntegerScaling(newValue);
+    try {
+      await settingsService.updateDisplaySettings({ integerScaling: newValue });
+    } catch {
+      showError('Failed to save integer scaling setting');
+      setIntegerScaling(!newValue);
+    }
+  }, [integerScaling, showError]);
+
+  // Handle aspect ratio toggle
+  const handleAspectRatioToggle = useCallback(async () => {
+    const newValue = !maintainAspectRatio;
+    setMaintainAspectRatio(newValue);
+    try {
+      await settingsService.updateDisplaySettings({ maintainAspectRatio: newValue });
+    } catch {
+      showError('Failed to save aspect ratio setting');
+      setMaintainAspectRatio(!newValue);
+    }
+  }, [maintainAspectRatio, showError]);
+
+  // Handle control remapping for a console
+  const handleControlMappingChange = useCallback(
+    async (console: ConsoleType, mappings: ConsoleControlMappings) => {
+      try {
+        await settingsService.setConsoleControlMappings(console, mappings);
+      } catch {
+        showError('Failed to save control mapping');
+      }
+    },
+    [showError]
+  );
+
+  // Handle per-console control reset
+  const handleResetConsoleControls = useCallback(
+    async (console: ConsoleType) => {
+      try {
+        await settingsService.resetConsoleControlMappings(console);
+        success(`${getConsoleName(console)} controls reset to defaults`);
+      } catch {
+        showError('Failed to reset controls');
+      }
+    },
+    [success, showError]
+  );
+
+  // Verify and store user-supplied BIOS files
+  const handleImportBios = useCallback(
+    async (files: File[]) => {
+      setIsImportingBios(true);
+      try {
+        const { imported, rejected } = await biosService.importFiles(files);
+        if (imported.length > 0) {
+          success(
+            `Added ${imported.map((file) => file.fileName).join(', ')}` +
+              (rejected.length > 0 ? ` (${rejected.length} rejected)` : '')
+          );
+        }
+        if (imported.length === 0 && rejected.length > 0) {
+          showError(`${rejected[0].fileName}: ${rejected[0].reason}`);
+        }
+      } finally {
+        setIsImportingBios(false);
+      }
+    },
+    [success, showError]
+  );
+
+  // Remove a user-supplied BIOS file
+  const handleRemoveBios = useCallback(
+    async (console: ConsoleType, fileName: string) => {
+      try {
+        await biosService.removeFile(console, fileName);
+        success(`Removed ${fileName}`);
+      } catch {
+        showError('Failed to remove BIOS file');
+      }
+    },
+    [success, showError]
+  );
+
+  // Ask the browser to exempt downloads from eviction
+  const handleRequestPersistence = useCallback(async () => {
+    if (await requestPersistence()) {
+      success('Storage is now persistent');
+    } else {
+      showError('The browser declined persistent storage. Installing the app or bookmarking it can help');
+    }
+  }, [requestPersistence, success, showError]);
+
+  // Remove a game's offline copy
+  const handleRemoveOfflineGame = useCallback(
+    async (gameId: string) => {
+      try {
+        await unpinGame(gameId);
+        success('Removed offline copy');
+      } catch {
+        showError('Failed to remove offline copy');
+      }
+    },
+    [unpinGame, success, showError]
+  );
+
+  // Clear emulator files cached while playing
+  const handleClearOfflineCache = useCallback(async () => {
+    try {
+      await clearRuntimeCache();
+      refreshStorageReport();
+      success('Cache cleared');
+    } catch {
+      showError('Failed to clear cache');
+    }
+  }, [clearRuntimeCache, refreshStorageReport, success, showError]);
+
   // Handle reset controls
   const handleResetControls = useCallback(async () => {
     try {
@@ -144,6 +481,28 @@ export function SettingsPage() {
     }
   }, [confirmDialog, closeConfirmDialog, showError]);
 
+  // Plan a storage cleanup and confirm it before running
+  const handleStorageCleanup = useCallback(
+    async (rule: StorageCleanupRule) => {
+      try {
+        const plan = await planCleanup(rule);
+        if (plan.itemCount === 0) {
+          success('Nothing to clean up');
+          return;
+        }
+
+        const { title, message } = describeCleanup(plan);
+        openConfirmDialog(title, message, async () => {
+          const result = await runCleanup(rule);
+          success(`Freed ${formatSaveSize(result.bytes)}`);
+        });
+      } catch {
+        showError('Failed to read storage usage');
+      }
+    },
+    [planCleanup, runCleanup, openConfirmDialog, success, showError]
+  );
+
   // Clear play history
   const handleClearHistory = useCallback(() => {
     openConfirmDialog(
@@ -219,6 +578,101 @@ export function SettingsPage() {
     input.click();
   }, [success, showError]);
 
+  // Back up all save states as a single archive
+  const handleExportSaveLibrary = useCallback(async () => {
+    try {
+      const { blob, count } = await saveStateArchiveService.exportLibrary(games);
+      if (count === 0) {
+        showError('No save states to back up');
+        return;
+      }
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = saveStateArchiveService.getFileName();
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+      success(`Backed up ${count} save state${count === 1 ? '' : 's'}`);
+    } catch {
+      showError('Failed to back up save states');
+    }
+  }, [games, success, showError]);
+
+  // Restore save states from a backup archive
+  const handleImportSaveLibrary = useCallback(async () => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = SAVE_ARCHIVE_EXTENSION;
+    input.onchange = async (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (!file) return;
+
+      try {
+        const { imported, skipped } = await saveStateArchiveService.importArchive(file, { games });
+        success(
+          skipped.length > 0
+            ? `Restored ${imported} save states (${skipped.length} skipped)`
+            : `Restored ${imported} save states`
+        );
+      } catch (err) {
+        showError(err instanceof Error ? err.message : 'Failed to restore save states');
+      }
+    };
+    input.click();
+  }, [games, success, showError]);
+
+  // Update a cloud sync field
+  const handleSyncConfigChange = useCallback((field: keyof SyncConfig, value: string) => {
+    setSyncConfig((prev) => ({ ...prev, [field]: value }));
+  }, []);
+
+  // Save cloud sync configuration after checking the connection
+  const handleSaveSyncConfig = useCallback(async () => {
+    const config = {
+      endpoint: syncConfig.endpoint.trim(),
+      userId: syncConfig.userId.trim(),
+      secret: syncConfig.secret,
+    };
+
+    if (!config.endpoint || !config.userId || !config.secret) {
+      syncService.setConfig(null);
+      setIsSyncConfigured(false);
+      success('Cloud sync disabled');
+      return;
+    }
+
+    if (!(await syncService.testConnection(config))) {
+      showError('Could not connect to the sync server');
+      return;
+    }
+
+    syncService.setConfig(config);
+    setIsSyncConfigured(true);
+    success('Cloud sync connected');
+  }, [syncConfig, success, showError]);
+
+  // Sync every save state now
+  const handleSyncNow = useCallback(async () => {
+    try {
+      setIsSyncing(true);
+      const { pushed, pulled, deleted, conflicts, failed } = await syncService.syncAll();
+      let summary = `Synced: ${pushed} uploaded, ${pulled} downloaded`;
+      if (deleted > 0) summary += `, ${deleted} deleted`;
+      if (conflicts.length > 0) summary += `, ${conflicts.length} conflicts resolved`;
+      if (failed.length > 0) {
+        showError(`${summary}, ${failed.length} failed`);
+      } else {
+        success(summary);
+      }
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to sync save states');
+    } finally {
+      setIsSyncing(false);
+    }
+  }, [success, showError]);
+
   return (
     <div className={styles.settings}>
       <header className={styles.header}>
@@ -340,56 +794,425 @@ export function SettingsPage() {
           <div className={styles.sectionContent}>
             <div className={styles.settingRow}>
               <div className={styles.settingInfo}>
-                <span className={styles.settingLabel}>Keyboard Mapping</span>
+                <span className={styles.settingLabel}>Control Mapping</span>
                 <span className={styles.settingDescription}>
-                  Default keyboard controls are configured per console
+                  Remap keyboard and gamepad controls per console and player
+                </span>
+              </div>
+            </div>
+
+            <ControlRemapper
+              controlMappings={settings?.controlMappings ?? {}}
+              onChange={handleControlMappingChange}
+              onReset={handleResetConsoleControls}
+            />
+
+            <div className={styles.settingRow}>
+              <div className={styles.settingInfo}>
+                <span className={styles.settingLabel}>Player Controllers</span>
+                <span className={styles.settingDescription}>
+                  Choose which gamepad each player uses in local multiplayer games
+                </span>
+              </div>
+            </div>
+
+            <PlayerAssignment />
+
+            <div className={styles.settingRow}>
+              <div className={styles.settingInfo}>
+                <span className={styles.settingLabel}>Reset Controls</span>
+                <span className={styles.settingDescription}>
+                  Reset control mappings of every console to defaults
                 </span>
               </div>
               <div className={styles.settingControl}>
-                <span className={styles.readOnlyBadge}>Read Only</span>
+                <Button variant="secondary" size="sm" onClick={handleResetControls}>
+                  Reset
+                </Button>
               </div>
             </div>
+          </div>
+        </section>
 
-            <div className={styles.keyboardInfo}>
-              <h3 className={styles.keyboardTitle}>Default Controls</h3>
-              <div className={styles.keyboardGrid}>
-                <div className={styles.keyItem}>
-                  <kbd>Arrow Keys</kbd>
-                  <span>D-Pad</span>
-                </div>
-                <div className={styles.keyItem}>
-                  <kbd>Z / X</kbd>
-                  <span>A / B Buttons</span>
-                </div>
-                <div className={styles.keyItem}>
-                  <kbd>A / S</kbd>
-                  <span>L / R Triggers</span>
-                </div>
-                <div className={styles.keyItem}>
-                  <kbd>Enter</kbd>
-                  <span>Start</span>
+        {/* Video */}
+        <section className={styles.section}>
+          <h2 className={styles.sectionTitle}>Video</h2>
+          <div className={styles.sectionContent}>
+            <div className={styles.settingRow}>
+              <div className={styles.settingInfo}>
+                <span className={styles.settingLabel}>Shader</span>
+                <span className={styles.settingDescription}>
+                  Video filter per console. Can also be changed in-game; applies the next time a game
+                  starts
+                </span>
+              </div>
+              <div className={styles.settingControl}>
+                <select
+                  className={styles.textInput}
+                  value={shaderConsole}
+                  onChange={(e) => setShaderConsole(e.target.value as ConsoleType)}
+                  aria-label="Console"
+                >
+                  {getAllConsoleTypes().map((type) => (
+                    <option key={type} value={type}>
+                      {getConsoleName(type)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <ShaderPicker
+              value={consoleShader}
+              preset={shaderPreset}
+              onChange={handleConsoleShaderChange}
+              label={`Shader for ${getConsoleName(shaderConsole)}`}
+            />
+
+            <div className={styles.settingRow}>
+              <div className={styles.settingInfo}>
+                <span className={styles.settingLabel}>Default Shader</span>
+                <span className={styles.settingDescription}>
+                  Used by consoles without a shader of their own
+                </span>
+              </div>
+              <div className={styles.settingControl}>
+                <select
+                  className={styles.textInput}
+                  value={defaultShader}
+                  onChange={(e) => {
+                    if (isEmulatorShader(e.target.value)) handleDefaultShaderChange(e.target.value);
+                  }}
+                  aria-label="Default shader"
+                >
+                  {SHADER_OPTIONS.map((option) => (
+                    <option key={option.id} value={option.id}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div className={styles.settingRow}>
+              <div className={styles.settingInfo}>
+                <span className={styles.settingLabel}>Integer Scaling</span>
+                <span className={styles.settingDescription}>
+                  Scale by whole multiples so every pixel is the same size
+                </span>
+              </div>
+              <div className={styles.settingControl}>
+                <button
+                  type="button"
+                  role="switch"
+                  aria-checked={integerScaling}
+                  className={`${styles.toggle} ${integerScaling ? styles.toggleActive : ''}`}
+                  onClick={handleIntegerScalingToggle}
+                >
+                  <span className={styles.toggleThumb} />
+                </button>
+              </div>
+            </div>
+
+            <div className={styles.settingRow}>
+              <div className={styles.settingInfo}>
+                <span className={styles.settingLabel}>Keep Aspect Ratio</span>
+                <span className={styles.settingDescription}>
+                  Use the original aspect ratio instead of stretching to fill the screen
+                </span>
+              </div>
+              <div className={styles.settingControl}>
+                <button
+                  type="button"
+                  role="switch"
+                  aria-checked={maintainAspectRatio}
+                  className={`${styles.toggle} ${maintainAspectRatio ? styles.toggleActive : ''}`}
+                  onClick={handleAspectRatioToggle}
+                >
+                  <span className={styles.toggleThumb} />
+                </button>
+              </div>
+            </div>
+          </div>
+        </section>
+
+        {/* Rewind & Fast-Forward */}
+        <section className={styles.section}>
+          <h2 className={styles.sectionTitle}>Rewind &amp; Fast-Forward</h2>
+          <div className={styles.sectionContent}>
+            <div className={styles.settingRow}>
+              <div className={styles.settingInfo}>
+                <span className={styles.settingLabel}>Rewind</span>
+                <span className={styles.settingDescription}>
+                  Hold Backspace (or Select + L2) to rewind. Uses more memory; applies the next time
+                  a game starts
+                </span>
+              </div>
+              <div className={styles.settingControl}>
+                <button
+                  type="button"
+                  role="switch"
+                  aria-checked={rewindEnabled}
+                  className={`${styles.toggle} ${rewindEnabled ? styles.toggleActive : ''}`}
+                  onClick={handleRewindToggle}
+                >
+                  <span className={styles.toggleThumb} />
+                </button>
+              </div>
+            </div>
+
+            <div className={styles.settingRow}>
+              <div className={styles.settingInfo}>
+                <span className={styles.settingLabel}>Rewind Granularity</span>
+                <span className={styles.settingDescription}>
+                  Frames between rewind snapshots; higher values rewind further but less smoothly
+                </span>
+              </div>
+              <div className={styles.settingControl}>
+                <div className={styles.buttonGroup}>
+                  {REWIND_GRANULARITIES.map((granularity) => (
+                    <button
+                      key={granularity}
+                      type="button"
+                      className={`${styles.groupButton} ${
+                        rewindGranularity === granularity ? styles.groupButtonActive : ''
+                      }`}
+                      onClick={() => handleRewindGranularityChange(granularity)}
+                      disabled={!rewindEnabled}
+                    >
+                      {granularity}
+                    </button>
+                  ))}
                 </div>
-                <div className={styles.keyItem}>
-                  <kbd>Shift</kbd>
-                  <span>Select</span>
+              </div>
+            </div>
+
+            <div className={styles.settingRow}>
+              <div className={styles.settingInfo}>
+                <span className={styles.settingLabel}>Fast-Forward Speed</span>
+                <span className={styles.settingDescription}>
+                  Press = or hold ` (Select + R1 / R2 on a gamepad) to fast-forward; hold - for slow
+                  motion. Applies the next time a game starts
+                </span>
+              </div>
+              <div className={styles.settingControl}>
+                <div className={styles.buttonGroup}>
+                  {FAST_FORWARD_RATIOS.map((ratio) => (
+                    <button
+                      key={ratio}
+                      type="button"
+                      className={`${styles.groupButton} ${
+                        fastForwardRatio === ratio ? styles.groupButtonActive : ''
+                      }`}
+                      onClick={() => handleFastForwardRatioChange(ratio)}
+                    >
+                      {formatFastForwardRatio(ratio)}
+                    </button>
+                  ))}
                 </div>
-                <div className={styles.keyItem}>
-                  <kbd>F5 / F8</kbd>
-                  <span>Quick Save / Load</span>
+              </div>
+            </div>
+          </div>
+        </section>
+
+        {/* BIOS Files */}
+        <section className={styles.section}>
+          <h2 className={styles.sectionTitle}>BIOS Files</h2>
+          <div className={styles.sectionContent}>
+            <div className={styles.settingRow}>
+              <div className={styles.settingInfo}>
+                <span className={styles.settingLabel}>Your BIOS Files</span>
+                <span className={styles.settingDescription}>
+                  Add your own BIOS dumps. Files are verified by MD5 and stored in this browser only
+                </span>
+              </div>
+            </div>
+
+            <BiosManager
+              storedFiles={biosFiles}
+              onImport={handleImportBios}
+              onRemove={handleRemoveBios}
+              isImporting={isImportingBios}
+            />
+          </div>
+        </section>
+
+        {/* Storage Usage */}
+        <section className={styles.section}>
+          <h2 className={styles.sectionTitle}>Storage</h2>
+          <div className={styles.sectionContent}>
+            <div className={styles.settingRow}>
+              <div className={styles.settingInfo}>
+                <span className={styles.settingLabel}>Storage Usage</span>
+                <span className={styles.settingDescription}>
+                  Space used by saves, ROMs and cached files; free some up when saving fails for lack of space
+                </span>
+              </div>
+            </div>
+
+            <StorageUsageManager
+              report={storageReport}
+              games={games}
+              onCleanup={handleStorageCleanup}
+            />
+          </div>
+        </section>
+
+        {/* Offline Storage */}
+        <section className={styles.section}>
+          <h2 className={styles.sectionTitle}>Offline Storage</h2>
+          <div className={styles.sectionContent}>
+            <div className={styles.settingRow}>
+              <div className={styles.settingInfo}>
+                <span className={styles.settingLabel}>Offline Games</span>
+                <span className={styles.settingDescription}>
+                  Downloaded games, their emulator cores and BIOS files play without a connection
+                </span>
+              </div>
+            </div>
+
+            <OfflineStorageManager
+              pinnedGames={pinnedGames}
+              usage={storageUsage}
+              onRequestPersistence={handleRequestPersistence}
+              onRemove={handleRemoveOfflineGame}
+              onClearCache={handleClearOfflineCache}
+            />
+          </div>
+        </section>
+
+        {/* Save State Settings */}
+        <section className={styles.section}>
+          <h2 className={styles.sectionTitle}>Save States</h2>
+          <div className={styles.sectionContent}>
+            <div className={styles.settingRow}>
+              <div className={styles.settingInfo}>
+                <span className={styles.settingLabel}>Auto-Save</span>
+                <span className={styles.settingDescription}>
+                  Save progress automatically and offer to resume where you left off
+                </span>
+              </div>
+              <div className={styles.settingControl}>
+                <button
+                  type="button"
+                  role="switch"
+                  aria-checked={autoSaveEnabled}
+                  className={`${styles.toggle} ${autoSaveEnabled ? styles.toggleActive : ''}`}
+                  onClick={handleAutoSaveToggle}
+                >
+                  <span className={styles.toggleThumb} />
+                </button>
+              </div>
+            </div>
+
+            <div className={styles.settingRow}>
+              <div className={styles.settingInfo}>
+                <span className={styles.settingLabel}>Auto-Save Interval</span>
+                <span className={styles.settingDescription}>
+                  How often to auto-save while playing
+                </span>
+              </div>
+              <div className={styles.settingControl}>
+                <div className={styles.buttonGroup}>
+                  {AUTO_SAVE_INTERVALS.map(({ value, label }) => (
+                    <button
+                      key={value}
+                      type="button"
+                      className={`${styles.groupButton} ${
+                        autoSaveInterval === value ? styles.groupButtonActive : ''
+                      }`}
+                      onClick={() => handleAutoSaveIntervalChange(value)}
+                      disabled={!autoSaveEnabled}
+                    >
+                      {label}
+                    </button>
+                  ))}
                 </div>
               </div>
             </div>
+          </div>
+        </section>
 
+        {/* Cloud Sync */}
+        <section className={styles.section}>
+          <h2 className={styles.sectionTitle}>Cloud Sync</h2>
+          <div className={styles.sectionContent}>
             <div className={styles.settingRow}>
               <div className={styles.settingInfo}>
-                <span className={styles.settingLabel}>Reset Controls</span>
+                <label className={styles.settingLabel} htmlFor="sync-endpoint">Sync Server</label>
                 <span className={styles.settingDescription}>
-                  Reset all control mappings to defaults
+                  URL of the save sync worker
                 </span>
               </div>
               <div className={styles.settingControl}>
-                <Button variant="secondary" size="sm" onClick={handleResetControls}>
-                  Reset
+                <input
+                  id="sync-endpoint"
+                  type="url"
+                  className={styles.textInput}
+                  value={syncConfig.endpoint}
+                  onChange={(e) => handleSyncConfigChange('endpoint', e.target.value)}
+                  placeholder="https://sync.example.com"
+                />
+              </div>
+            </div>
+
+            <div className={styles.settingRow}>
+              <div className={styles.settingInfo}>
+                <label className={styles.settingLabel} htmlFor="sync-user">User ID</label>
+                <span className={styles.settingDescription}>
+                  Use the same ID on every machine to share saves
+                </span>
+              </div>
+              <div className={styles.settingControl}>
+                <input
+                  id="sync-user"
+                  type="text"
+                  className={styles.textInput}
+                  value={syncConfig.userId}
+                  onChange={(e) => handleSyncConfigChange('userId', e.target.value)}
+                  placeholder="player-one"
+                  autoComplete="username"
+                />
+              </div>
+            </div>
+
+            <div className={styles.settingRow}>
+              <div className={styles.settingInfo}>
+                <label className={styles.settingLabel} htmlFor="sync-secret">Sync Token</label>
+                <span className={styles.settingDescription}>
+                  Personal token issued for your user ID by the sync server admin
+                </span>
+              </div>
+              <div className={styles.settingControl}>
+                <input
+                  id="sync-secret"
+                  type="password"
+                  className={styles.textInput}
+                  value={syncConfig.secret}
+                  onChange={(e) => handleSyncConfigChange('secret', e.target.value)}
+                  autoComplete="current-password"
+                />
+              </div>
+            </div>
+
+            <div className={styles.settingRow}>
+              <div className={styles.settingInfo}>
+                <span className={styles.settingLabel}>Sync Save States</span>
+                <span className={styles.settingDescription}>
+                  Newest copy of each slot wins; conflicts are shown in the save panel
+                </span>
+              </div>
+              <div className={styles.settingControl}>
+                <Button variant="secondary" size="sm" onClick={handleSaveSyncConfig}>
+                  Save
+                </Button>
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={handleSyncNow}
+                  disabled={isSyncing || !isSyncConfigured}
+                >
+                  {isSyncing ? 'Syncing...' : 'Sync Now'}
                 </Button>
               </div>
             </div>
@@ -444,6 +1267,36 @@ export function SettingsPage() {
 
             <div className={styles.divider} />
 
+            <div className={styles.settingRow}>
+              <div className={styles.settingInfo}>
+                <span className={styles.settingLabel}>Back Up Save States</span>
+                <span className={styles.settingDescription}>
+                  Download every save state, screenshot and label as one archive
+                </span>
+              </div>
+              <div className={styles.settingControl}>
+                <Button variant="secondary" size="sm" onClick={handleExportSaveLibrary}>
+                  Back Up
+                </Button>
+              </div>
+            </div>
+
+            <div className={styles.settingRow}>
+              <div className={styles.settingInfo}>
+                <span className={styles.settingLabel}>Restore Save States</span>
+                <span className={styles.settingDescription}>
+                  Import saves from a backup archive, replacing matching slots
+                </span>
+              </div>
+              <div className={styles.settingControl}>
+                <Button variant="secondary" size="sm" onClick={handleImportSaveLibrary}>
+                  Restore
+                </Button>
+              </div>
+            </div>
+
+            <div className={styles.divider} />
+
             <div className={styles.settingRow}>
               <div className={styles.settingInfo}>
                 <span className={styles.settingLabel}>Export Settings</span>
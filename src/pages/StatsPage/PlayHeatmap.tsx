@@ -0,0 +1,97 @@
+/**
+ * PlayHeatmap Component
+ * Calendar heatmap of daily play time over the past year
+ */
+
+import { memo, useMemo } from 'react';
+import clsx from 'clsx';
+import { formatPlayTime } from '@/hooks/useRecentlyPlayed';
+import { toDayKey } from '@/services/storage';
+import styles from './PlayHeatmap.module.css';
+
+export interface PlayHeatmapProps {
+  /** Play time in seconds per local day, keyed 'YYYY-MM-DD' */
+  daily: Record<string, number>;
+  /** Number of weeks to show, ending with the current week */
+  weeks?: number;
+}
+
+interface HeatmapCell {
+  key: string;
+  date: Date;
+  seconds: number;
+  level: number;
+  isFuture: boolean;
+}
+
+/** Weekday labels for the rows (Sunday first) */
+const WEEKDAY_LABELS = ['', 'Mon', '', 'Wed', '', 'Fri', ''];
+
+/**
+ * Maps play time to an intensity level 0-4, relative to the busiest day.
+ */
+function getLevel(seconds: number, max: number): number {
+  if (seconds <= 0 || max <= 0) return 0;
+  return Math.min(4, Math.ceil((seconds / max) * 4));
+}
+
+/**
+ * Builds week columns of day cells, Sunday to Saturday.
+ */
+function buildWeeks(daily: Record<string, number>, weeks: number, today: Date): HeatmapCell[][] {
+  const max = Math.max(0, ...Object.values(daily));
+  const start = new Date(today.getFullYear(), today.getMonth(), today.getDate() - today.getDay() - (weeks - 1) * 7);
+
+  return Array.from({ length: weeks }, (_, week) =>
+    Array.from({ length: 7 }, (_, weekday) => {
+      const date = new Date(start.getFullYear(), start.getMonth(), start.getDate() + week * 7 + weekday);
+      const key = toDayKey(date);
+      const seconds = daily[key] ?? 0;
+      return { key, date, seconds, level: getLevel(seconds, max), isFuture: date > today };
+    })
+  );
+}
+
+function PlayHeatmapComponent({ daily, weeks = 53 }: PlayHeatmapProps) {
+  const columns = useMemo(() => buildWeeks(daily, weeks, new Date()), [daily, weeks]);
+
+  return (
+    <div className={styles.heatmap}>
+      <div className={styles.grid} role="img" aria-label="Daily play time over the past year">
+        <div className={styles.weekdays} aria-hidden="true">
+          {WEEKDAY_LABELS.map((label, index) => (
+            <span key={index} className={styles.weekday}>{label}</span>
+          ))}
+        </div>
+        {columns.map((days) => (
+          <div key={days[0].key} className={styles.week}>
+            {/* Month label on the first week of each month */}
+            <span className={styles.month} aria-hidden="true">
+              {days[0].date.getDate() <= 7 ? days[0].date.toLocaleDateString(undefined, { month: 'short' }) : ''}
+            </span>
+            {days.map((day) => (
+              <span
+                key={day.key}
+                className={clsx(styles.day, styles[`level${day.level}`], day.isFuture && styles.future)}
+                title={day.isFuture ? undefined : `${day.date.toLocaleDateString()}: ${day.seconds > 0 ? formatPlayTime(day.seconds) : 'not played'}`}
+              />
+            ))}
+          </div>
+        ))}
+      </div>
+
+      <div className={styles.legend} aria-hidden="true">
+        <span>Less</span>
+        {[0, 1, 2, 3, 4].map((level) => (
+          <span key={level} className={clsx(styles.day, styles[`level${level}`])} />
+        ))}
+        <span>More</span>
+      </div>
+    </div>
+  );
+}
+
+export const PlayHeatmap = memo(PlayHeatmapComponent);
+PlayHeatmap.displayName = 'PlayHeatmap';
+
+export default PlayHeatmap;
@@ -0,0 +1,261 @@
+/**
+ * StatsPage Component
+ * Play-time dashboard: heatmap calendar, time per console and genre,
+ * streaks, longest sessions and per-game totals
+ */
+
+import { useEffect, useMemo, memo } from 'react';
+import { Link } from 'react-router-dom';
+import clsx from 'clsx';
+import { Icon } from '@/components/common/Icon';
+import { Button } from '@/components/common/Button';
+import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import { usePlayAnalytics, formatPlayTime } from '@/hooks/useRecentlyPlayed';
+import { useGameStore } from '@/stores/gameStore';
+import type { PlayTimeShare } from '@/services/storage';
+import { getConsoleConfig } from '@/types';
+import type { ConsoleType, Game } from '@/types';
+import { PlayHeatmap } from './PlayHeatmap';
+import styles from './StatsPage.module.css';
+
+export interface StatsPageProps {
+  /** Additional CSS class name */
+  className?: string;
+}
+
+/** Number of games shown in the per-game chart */
+const TOP_GAMES_LIMIT = 15;
+
+/**
+ * Hook for updating document title
+ */
+function useDocumentTitle(title: string) {
+  useEffect(() => {
+    const previousTitle = document.title;
+    document.title = title;
+
+    return () => {
+      document.title = previousTitle;
+    };
+  }, [title]);
+}
+
+/**
+ * Summary figure
+ */
+const StatCard = memo(function StatCard({ label, value, hint }: { label: string; value: string; hint?: string }) {
+  return (
+    <div className={styles.statCard}>
+      <span className={styles.statValue}>{value}</span>
+      <span className={styles.statLabel}>{label}</span>
+      {hint && <span className={styles.statHint}>{hint}</span>}
+    </div>
+  );
+});
+
+/**
+ * Horizontal bar chart of play time shares
+ */
+const ShareChart = memo(function ShareChart({
+  shares,
+  colorFor,
+}: {
+  shares: readonly PlayTimeShare[];
+  colorFor?: (key: string) => string | undefined;
+}) {
+  const max = shares[0]?.seconds ?? 0;
+
+  return (
+    <ul className={styles.bars}>
+      {shares.map((share) => (
+        <li key={share.key} className={styles.barRow}>
+          <span className={styles.barLabel}>{share.label}</span>
+          <span className={styles.barTrack}>
+            <span
+              className={styles.barFill}
+              style={{
+                width: `${max > 0 ? (share.seconds / max) * 100 : 0}%`,
+                background: colorFor?.(share.key),
+              }}
+            />
+          </span>
+          <span className={styles.barValue}>{formatPlayTime(share.seconds)}</span>
+        </li>
+      ))}
+    </ul>
+  );
+});
+
+/**
+ * Empty state for when nothing has been played yet
+ */
+const EmptyState = memo(function EmptyState() {
+  return (
+    <div className={styles.emptyState}>
+      <div className={styles.emptyIcon}>
+        <Icon name="clock" size={64} />
+      </div>
+      <h2 className={styles.emptyTitle}>No Play Time Yet</h2>
+      <p className={styles.emptyDescription}>
+        Statistics appear here once you have played a game.
+      </p>
+      <Link to="/browse" className={styles.ctaLink}>
+        <Button variant="primary" size="lg" rightIcon={<Icon name="chevron-right" size={20} />}>
+          Browse Games
+        </Button>
+      </Link>
+    </div>
+  );
+});
+
+/**
+ * Bar color for a console
+ */
+function consoleColor(key: string): string | undefined {
+  return key === 'unknown' ? undefined : getConsoleConfig(key as ConsoleType).color;
+}
+
+/**
+ * StatsPage component
+ */
+const StatsPage = memo(function StatsPage({ className }: StatsPageProps) {
+  useDocumentTitle('Play Stats - Retro Gaming Hub');
+
+  const { games, catalogGames, isLoading: gamesLoading, fetchGames } = useGameStore();
+
+  // Fetch games if not loaded (for titles, consoles and genres)
+  useEffect(() => {
+    if (catalogGames.length === 0 && !gamesLoading) {
+      fetchGames();
+    }
+  }, [catalogGames.length, gamesLoading, fetchGames]);
+
+  const { analytics, isLoading } = usePlayAnalytics(games);
+
+  const gamesById = useMemo(() => new Map<string, Game>(games.map((game) => [game.id, game])), [games]);
+  const titleOf = (gameId: string) => gamesById.get(gameId)?.title ?? 'Removed game';
+
+  if (isLoading || !analytics) {
+    return (
+      <div className={clsx(styles.stats, styles.loading, className)}>
+        <div className={styles.loadingContent}>
+          <LoadingSpinner size="lg" />
+          <p className={styles.loadingText}>Crunching play time...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const topGames = analytics.games.slice(0, TOP_GAMES_LIMIT);
+  const topGameSeconds = topGames[0]?.totalPlayTimeSeconds ?? 0;
+
+  return (
+    <div className={clsx(styles.stats, className)}>
+      {/* Page Header */}
+      <header className={styles.header}>
+        <div className={styles.headerIcon}>
+          <Icon name="clock" size={32} />
+        </div>
+        <div className={styles.headerContent}>
+          <h1 className={styles.title}>Play Stats</h1>
+          {analytics.firstPlayedAt && (
+            <span className={styles.subtitle}>
+              Since {analytics.firstPlayedAt.toLocaleDateString()}
+            </span>
+          )}
+        </div>
+      </header>
+
+      {analytics.totalSessions === 0 ? (
+        <EmptyState />
+      ) : (
+        <main className={styles.content}>
+          {/* Summary */}
+          <div className={styles.summary}>
+            <StatCard label="Total play time" value={formatPlayTime(analytics.totalSeconds)} />
+            <StatCard label="Sessions" value={String(analytics.totalSessions)} />
+            <StatCard label="Games played" value={String(analytics.totalGames)} />
+            <StatCard
+              label="Current streak"
+              value={`${analytics.currentStreak} ${analytics.currentStreak === 1 ? 'day' : 'days'}`}
+              hint={`Best: ${analytics.longestStreak} ${analytics.longestStreak === 1 ? 'day' : 'days'}`}
+            />
+          </div>
+
+          {/* Heatmap */}
+          <section className={styles.panel}>
+            <h2 className={styles.panelTitle}>Activity</h2>
+            <PlayHeatmap daily={analytics.daily} />
+          </section>
+
+          <div className={styles.columns}>
+            <section className={styles.panel}>
+              <h2 className={styles.panelTitle}>By Console</h2>
+              <ShareChart shares={analytics.byConsole} colorFor={consoleColor} />
+            </section>
+
+            <section className={styles.panel}>
+              <h2 className={styles.panelTitle}>By Genre</h2>
+              <ShareChart shares={analytics.byGenre} />
+            </section>
+          </div>
+
+          {/* Per-game chart */}
+          <section className={styles.panel}>
+            <h2 className={styles.panelTitle}>Most Played</h2>
+            <ul className={styles.gameList}>
+              {topGames.map((stats) => {
+                const game = gamesById.get(stats.gameId);
+                return (
+                  <li key={stats.gameId} className={styles.gameRow}>
+                    <div className={styles.gameHeader}>
+                      {game ? (
+                        <Link to={`/play/${game.id}`} className={styles.gameTitle}>
+                          {game.title}
+                        </Link>
+                      ) : (
+                        <span className={styles.gameTitle}>{titleOf(stats.gameId)}</span>
+                      )}
+                      <span className={styles.gameTotal}>{formatPlayTime(stats.totalPlayTimeSeconds)}</span>
+                    </div>
+                    <span className={styles.barTrack}>
+                      <span
+                        className={styles.barFill}
+                        style={{
+                          width: `${topGameSeconds > 0 ? (stats.totalPlayTimeSeconds / topGameSeconds) * 100 : 0}%`,
+                          background: game ? consoleColor(game.console) : undefined,
+                        }}
+                      />
+                    </span>
+                    <span className={styles.gameMeta}>
+                      {stats.totalSessions} {stats.totalSessions === 1 ? 'session' : 'sessions'}
+                      {' · '}avg {formatPlayTime(Math.round(stats.averageSessionSeconds))}
+                      {' · '}longest {formatPlayTime(stats.longestSessionSeconds)}
+                      {stats.lastPlayedAt && ` · last ${stats.lastPlayedAt.toLocaleDateString()}`}
+                    </span>
+                  </li>
+                );
+              })}
+            </ul>
+          </section>
+
+          {/* Longest sessions */}
+          <section className={styles.panel}>
+            <h2 className={styles.panelTitle}>Longest Sessions</h2>
+            <ol className={styles.sessionList}>
+              {analytics.longestSessions.map((session) => (
+                <li key={`${session.gameId}-${session.startedAt.getTime()}`} className={styles.sessionRow}>
+                  <span className={styles.sessionTitle}>{titleOf(session.gameId)}</span>
+                  <span className={styles.sessionDate}>{session.startedAt.toLocaleString()}</span>
+                  <span className={styles.sessionDuration}>{formatPlayTime(session.durationSeconds)}</span>
+                </li>
+              ))}
+            </ol>
+          </section>
+        </main>
+      )}
+    </div>
+  );
+});
+
+export default StatsPage;
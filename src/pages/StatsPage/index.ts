@@ -0,0 +1,7 @@
+/**
+ * StatsPage - Play-time dashboard
+ * @module pages/StatsPage
+ */
+
+export { default } from './StatsPage';
+export type { StatsPageProps } from './StatsPage';
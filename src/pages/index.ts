@@ -36,6 +36,24 @@ export const PlayPage = lazy(() => import('./PlayPage'));
  */
 export const FavoritesPage = lazy(() => import('./FavoritesPage'));
 
+/**
+ * CollectionsPage - User-defined game collections
+ * @see src/pages/CollectionsPage/CollectionsPage.tsx
+ */
+export const CollectionsPage = lazy(() => import('./CollectionsPage'));
+
+/**
+ * CollectionPage - A single collection with its games
+ * @see src/pages/CollectionPage/CollectionPage.tsx
+ */
+export const CollectionPage = lazy(() => import('./CollectionPage'));
+
+/**
+ * StatsPage - Play-time dashboard built on play sessions
+ * @see src/pages/StatsPage/StatsPage.tsx
+ */
+export const StatsPage = lazy(() => import('./StatsPage'));
+
 /**
  * SettingsPage - Application settings and preferences
  * @see src/pages/SettingsPage/SettingsPage.tsx
@@ -55,4 +73,7 @@ export const NotFoundPage = lazy(() => import('./NotFoundPage'));
 export type { HomePageProps } from './HomePage';
 export type { BrowsePageProps } from './BrowsePage';
 export type { FavoritesPageProps } from './FavoritesPage';
+export type { CollectionsPageProps } from './CollectionsPage';
+export type { CollectionPageProps } from './CollectionPage';
+export type { StatsPageProps } from './StatsPage';
 export type { NotFoundPageProps } from './NotFoundPage';
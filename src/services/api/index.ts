@@ -6,3 +6,5 @@
  */
 
 export { gamesApi } from './gamesApi';
+export { syncService } from './syncService';
+export type { SyncConfig, SyncConflict, SyncFailure, SyncResult } from './syncService';
@@ -0,0 +1,420 @@
+/**
+ * Save Sync Service
+ * Pushes and pulls save states to the save-sync Cloudflare Worker (R2).
+ *
+ * Conflicts are resolved last-write-wins on `updatedAt`. A slot counts as a
+ * conflict when both the local and the cloud copy changed since the last sync;
+ * the newer copy still wins, but the conflict is reported to the caller.
+ * Deleting a synced save leaves a tombstone (db.deletedSaves); the next sync
+ * deletes the cloud copy unless it changed after the last sync, in which case
+ * the newer cloud copy is pulled back. A slot that fails to sync is reported
+ * and skipped, so the other slots still sync.
+ *
+ * @module services/api/syncService
+ */
+
+import { db } from '../database/db';
+import type { SaveState } from '../database/models';
+
+/** LocalStorage key for the sync configuration */
+const CONFIG_KEY = 'save_sync_config';
+
+/** Default worker endpoint (e.g. http://localhost:8787 for `npm run sync:dev`) */
+const DEFAULT_ENDPOINT = import.meta.env.VITE_SYNC_URL ?? '';
+
+/**
+ * Connection settings for the sync worker
+ */
+export interface SyncConfig {
+  /** Worker base URL */
+  endpoint: string;
+  /** User identifier, saves are stored per user */
+  userId: string;
+  /** Token issued for this user by the worker admin (see workers/save-sync/README.md) */
+  secret: string;
+}
+
+/**
+ * Save metadata as returned by the worker
+ */
+interface RemoteSaveMeta {
+  gameId: string;
+  slot: number;
+  createdAt: string;
+  updatedAt: string;
+  size: number;
+  hasScreenshot: boolean;
+  consoleType?: string;
+  label?: string;
+  emulatorVersion?: string;
+}
+
+/**
+ * Slot that was changed on both sides since the last sync
+ */
+export interface SyncConflict {
+  gameId: string;
+  slot: number;
+  localUpdatedAt: Date;
+  remoteUpdatedAt: Date;
+  /** Which copy was kept */
+  winner: 'local' | 'remote';
+}
+
+/**
+ * Slot that could not be synced
+ */
+export interface SyncFailure {
+  gameId: string;
+  slot: number;
+  error: string;
+}
+
+/**
+ * Result of a sync run
+ */
+export interface SyncResult {
+  /** Saves uploaded to the cloud */
+  pushed: number;
+  /** Saves downloaded from the cloud */
+  pulled: number;
+  /** Cloud saves deleted because they were deleted locally */
+  deleted: number;
+  /** Slots changed on both sides since the last sync */
+  conflicts: SyncConflict[];
+  /** Slots that could not be synced */
+  failed: SyncFailure[];
+}
+
+const slotKey = (gameId: string, slot: number) => `${gameId}:${slot}`;
+
+/**
+ * Sends an authenticated request to the sync worker.
+ */
+async function request(
+  config: SyncConfig,
+  path: string,
+  init: RequestInit = {}
+): Promise<Response> {
+  const headers = new Headers(init.headers);
+  headers.set('Authorization', `Bearer ${config.secret}`);
+  headers.set('X-Sync-User', config.userId);
+
+  return fetch(`${config.endpoint.replace(/\/+$/, '')}${path}`, { ...init, headers });
+}
+
+/**
+ * Throws if the response is not OK.
+ */
+async function ensureOk(response: Response): Promise<Response> {
+  if (!response.ok) {
+    const text = await response.text().catch(() => '');
+    throw new Error(`${response.status} ${text || response.statusText}`);
+  }
+  return response;
+}
+
+/**
+ * Downloads a save (and its screenshot) and stores it locally.
+ */
+async function pullState(config: SyncConfig, meta: RemoteSaveMeta): Promise<void> {
+  const base = `/saves/${encodeURIComponent(meta.gameId)}/${meta.slot}`;
+  const dataResponse = await ensureOk(await request(config, base));
+  const data = await dataResponse.blob();
+
+  let screenshot: Blob | undefined;
+  if (meta.hasScreenshot) {
+    const screenshotResponse = await request(config, `${base}/screenshot`);
+    if (screenshotResponse.ok) {
+      screenshot = await screenshotResponse.blob();
+    }
+  }
+
+  await db.restoreSaveState({
+    gameId: meta.gameId,
+    slot: meta.slot,
+    data,
+    screenshot,
+    consoleType: meta.consoleType,
+    label: meta.label,
+    emulatorVersion: meta.emulatorVersion,
+    createdAt: new Date(meta.createdAt),
+    updatedAt: new Date(meta.updatedAt),
+    syncedAt: new Date(meta.updatedAt),
+  });
+}
+
+/**
+ * Uploads a local save. Returns the remote metadata if the worker rejected
+ * the write because its copy is newer.
+ */
+async function pushState(config: SyncConfig, state: SaveState): Promise<RemoteSaveMeta | null> {
+  const base = `/saves/${encodeURIComponent(state.gameId)}/${state.slot}`;
+
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/octet-stream',
+    'X-Save-Created-At': state.createdAt.toISOString(),
+    'X-Save-Updated-At': state.updatedAt.toISOString(),
+    'X-Save-Has-Screenshot': state.screenshot ? '1' : '0',
+  };
+  if (state.consoleType) headers['X-Save-Console-Type'] = state.consoleType;
+  if (state.label) headers['X-Save-Label'] = encodeURIComponent(state.label);
+  if (state.emulatorVersion) headers['X-Save-Emulator-Version'] = state.emulatorVersion;
+
+  const response = await request(config, base, { method: 'PUT', headers, body: state.data });
+
+  if (response.status === 409) {
+    const { remote } = (await response.json()) as { remote: RemoteSaveMeta };
+    return remote;
+  }
+
+  await ensureOk(response);
+
+  // Only after the data was accepted, so a rejected write leaves the remote screenshot alone
+  if (state.screenshot) {
+    await ensureOk(
+      await request(config, `${base}/screenshot`, {
+        method: 'PUT',
+        headers: { 'Content-Type': state.screenshot.type || 'image/png' },
+        body: state.screenshot,
+      })
+    );
+  }
+
+  if (state.id !== undefined) {
+    await db.saveStates.update(state.id, { syncedAt: state.updatedAt });
+  }
+  return null;
+}
+
+/**
+ * Syncs local saves with the worker, optionally limited to one game.
+ */
+async function sync(config: SyncConfig, gameId?: string): Promise<SyncResult> {
+  const query = gameId ? `?gameId=${encodeURIComponent(gameId)}` : '';
+  const indexResponse = await ensureOk(await request(config, `/saves${query}`));
+  const remoteSaves = (await indexResponse.json()) as RemoteSaveMeta[];
+
+  const localSaves = gameId
+    ? await db.getSaveStatesForGame(gameId)
+    : await db.saveStates.toArray();
+
+  const tombstones = gameId
+    ? await db.deletedSaves.where('gameId').equals(gameId).toArray()
+    : await db.deletedSaves.toArray();
+
+  const remoteByKey = new Map(remoteSaves.map((meta) => [slotKey(meta.gameId, meta.slot), meta]));
+  const localKeys = new Set(localSaves.map((save) => slotKey(save.gameId, save.slot)));
+  const result: SyncResult = { pushed: 0, pulled: 0, deleted: 0, conflicts: [], failed: [] };
+
+  // One slot failing must not stop the others from syncing
+  const trySlot = async (gameId: string, slot: number, run: () => Promise<void>) => {
+    try {
+      await run();
+    } catch (error) {
+      console.error(`Error syncing save ${gameId} slot ${slot}:`, error);
+      result.failed.push({ gameId, slot, error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  };
+
+  // Saves deleted locally since they were last synced
+  for (const tombstone of tombstones) {
+    const key = slotKey(tombstone.gameId, tombstone.slot);
+    const remote = remoteByKey.get(key);
+
+    await trySlot(tombstone.gameId, tombstone.slot, async () => {
+      // A new local save in the slot, a cloud copy that is already gone or one
+      // changed elsewhere after the last sync all win over the deletion
+      if (!localKeys.has(key) && remote && Date.parse(remote.updatedAt) <= tombstone.syncedAt.getTime()) {
+        // Not pulled back even if the delete fails; the tombstone is retried next sync
+        remoteByKey.delete(key);
+        await ensureOk(
+          await request(config, `/saves/${encodeURIComponent(tombstone.gameId)}/${tombstone.slot}`, {
+            method: 'DELETE',
+          })
+        );
+        result.deleted++;
+      }
+      await db.deletedSaves.delete([tombstone.gameId, tombstone.slot]);
+    });
+  }
+
+  for (const local of localSaves) {
+    const key = slotKey(local.gameId, local.slot);
+    const remote = remoteByKey.get(key);
+    remoteByKey.delete(key);
+
+    await trySlot(local.gameId, local.slot, async () => {
+      if (!remote) {
+        const rejected = await pushState(config, local);
+        if (rejected) {
+          await pullState(config, rejected);
+          result.pulled++;
+        } else {
+          result.pushed++;
+        }
+        return;
+      }
+
+      const localTime = local.updatedAt.getTime();
+      const remoteTime = Date.parse(remote.updatedAt);
+
+      if (localTime === remoteTime) {
+        if (!local.syncedAt && local.id !== undefined) {
+          await db.saveStates.update(local.id, { syncedAt: local.updatedAt });
+        }
+        return;
+      }
+
+      // Both sides changed since the last successful sync of this slot
+      const lastSynced = local.syncedAt?.getTime() ?? 0;
+      const isConflict = localTime > lastSynced && remoteTime > lastSynced;
+      let winner: SyncConflict['winner'] = 'remote';
+
+      if (localTime > remoteTime) {
+        const rejected = await pushState(config, local);
+        if (rejected) {
+          await pullState(config, rejected);
+          result.pulled++;
+        } else {
+          winner = 'local';
+          result.pushed++;
+        }
+      } else {
+        await pullState(config, remote);
+        result.pulled++;
+      }
+
+      if (isConflict) {
+        result.conflicts.push({
+          gameId: local.gameId,
+          slot: local.slot,
+          localUpdatedAt: local.updatedAt,
+          remoteUpdatedAt: new Date(remote.updatedAt),
+          winner,
+        });
+      }
+    });
+  }
+
+  // Saves that only exist in the cloud
+  for (const remote of remoteByKey.values()) {
+    await trySlot(remote.gameId, remote.slot, async () => {
+      await pullState(config, remote);
+      result.pulled++;
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Cloud save sync service
+ */
+export const syncService = {
+  /**
+   * Gets the stored sync configuration.
+   *
+   * @returns The configuration, or null if sync has not been set up
+   */
+  getConfig(): SyncConfig | null {
+    try {
+      const stored = localStorage.getItem(CONFIG_KEY);
+      if (!stored) return null;
+
+      const config = JSON.parse(stored) as Partial<SyncConfig>;
+      return {
+        endpoint: config.endpoint || DEFAULT_ENDPOINT,
+        userId: config.userId ?? '',
+        secret: config.secret ?? '',
+      };
+    } catch {
+      return null;
+    }
+  },
+
+  /**
+   * Stores the sync configuration. Pass null to disable sync.
+   *
+   * @param config - The configuration to store
+   */
+  setConfig(config: SyncConfig | null): void {
+    if (config) {
+      localStorage.setItem(CONFIG_KEY, JSON.stringify(config));
+    } else {
+      localStorage.removeItem(CONFIG_KEY);
+    }
+  },
+
+  /**
+   * Gets the default worker endpoint from the environment.
+   */
+  getDefaultEndpoint(): string {
+    return DEFAULT_ENDPOINT;
+  },
+
+  /**
+   * Checks whether sync is fully configured.
+   */
+  isConfigured(): boolean {
+    const config = this.getConfig();
+    return !!(config?.endpoint && config.userId && config.secret);
+  },
+
+  /**
+   * Verifies that the worker is reachable and accepts the credentials.
+   *
+   * @param config - The configuration to test
+   * @returns True if the worker accepted the request
+   */
+  async testConnection(config: SyncConfig): Promise<boolean> {
+    try {
+      const response = await request(config, '/saves?gameId=connection-test');
+      return response.ok;
+    } catch (error) {
+      console.error('Error testing sync connection:', error);
+      return false;
+    }
+  },
+
+  /**
+   * Syncs the save states of a single game.
+   *
+   * @param gameId - The ID of the game
+   * @returns Counts of pushed/pulled saves, any conflicts and the slots that failed
+   * @throws Error if sync is not configured or the save index cannot be fetched
+   */
+  async syncGame(gameId: string): Promise<SyncResult> {
+    const config = this.getConfig();
+    if (!config || !this.isConfigured()) {
+      throw new Error('Cloud sync is not configured');
+    }
+
+    try {
+      return await sync(config, gameId);
+    } catch (error) {
+      console.error('Error syncing save states:', error);
+      throw new Error(`Failed to sync save states: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  },
+
+  /**
+   * Syncs every save state in the library.
+   *
+   * @returns Counts of pushed/pulled saves, any conflicts and the slots that failed
+   * @throws Error if sync is not configured or the save index cannot be fetched
+   */
+  async syncAll(): Promise<SyncResult> {
+    const config = this.getConfig();
+    if (!config || !this.isConfigured()) {
+      throw new Error('Cloud sync is not configured');
+    }
+
+    try {
+      return await sync(config);
+    } catch (error) {
+      console.error('Error syncing save library:', error);
+      throw new Error(`Failed to sync save library: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  },
+};
@@ -2,7 +2,10 @@
  * Dexie Database Instance for RetroGaming
  *
  * IndexedDB wrapper using Dexie v4 for offline-first game data storage.
- * Handles save states, favorites, play sessions, and user settings.
+ * Handles save states, favorites, play sessions, user settings, BIOS files,
+ * the user's imported ROM library, games pinned for offline play, and
+ * user-defined game collections, per-game cheat codes, per-game or
+ * per-console settings profiles and tombstones of deleted synced saves.
  */
 
 import Dexie, { type Table } from 'dexie';
@@ -11,8 +14,19 @@ import type {
   FavoriteGame,
   PlaySession,
   UserSettings,
+  NewSaveState,
+  StoredBiosFile,
+  LibraryGame,
+  OfflineGame,
+  GameCollection,
+  GameCheat,
+  SettingsProfile,
+  SettingsProfileScope,
+  DeletedSave,
 } from './models';
 import { DEFAULT_USER_SETTINGS } from './models';
+import { registerMigrations } from './migrations';
+import { EMULATORJS_VERSION } from '@/utils/constants';
 
 /**
  * RetroGaming Database Schema
@@ -69,23 +83,78 @@ export class RetroGamingDB extends Dexie {
    */
   settings!: Table<UserSettings, string>;
 
-  constructor() {
-    super('RetroGamingDB');
+  /**
+   * BIOS files table - user-supplied, MD5-verified BIOS dumps
+   *
+   * Indexes:
+   * - ++id: Auto-increment primary key
+   * - console: Query BIOS files for a console
+   * - &[console+fileName]: One stored copy per registry BIOS file
+   */
+  biosFiles!: Table<StoredBiosFile, number>;
 
-    // Version 1: Initial schema
-    this.version(1).stores({
-      // Save states with compound index for game+slot queries
-      saveStates: '++id, gameId, slot, [gameId+slot], createdAt, updatedAt',
+  /**
+   * Library games table - ROMs imported by the user
+   *
+   * Indexes:
+   * - &id: String primary key ("local-<uuid>")
+   * - console: Query imported games for a console
+   * - addedAt: Sort by import date
+   */
+  libraryGames!: Table<LibraryGame, string>;
 
-      // Favorites with unique constraint on gameId
-      favorites: '++id, &gameId, addedAt',
+  /**
+   * Offline games table - games pinned for offline play
+   *
+   * Indexes:
+   * - &gameId: String primary key
+   * - pinnedAt: Sort by pin date (oldest are evicted first)
+   */
+  offlineGames!: Table<OfflineGame, string>;
 
-      // Play sessions with compound index for game history
-      playSessions: '++id, gameId, startedAt, [gameId+startedAt]',
+  /**
+   * Collections table - user-defined manual and smart game collections
+   *
+   * Indexes:
+   * - ++id: Auto-increment primary key
+   * - name: Sort by name
+   * - updatedAt: Sort by last change
+   * - *gameIds: Multi-entry index to find the collections containing a game
+   */
+  collections!: Table<GameCollection, number>;
 
-      // Settings uses string key for singleton pattern
-      settings: 'id',
-    });
+  /**
+   * Cheats table - cheat codes saved per game
+   *
+   * Indexes:
+   * - ++id: Auto-increment primary key
+   * - gameId: Query cheats for a game
+   */
+  cheats!: Table<GameCheat, number>;
+
+  /**
+   * Settings profiles table - setting overrides per game or console
+   *
+   * Indexes:
+   * - id: String primary key (`${scope}:${targetId}`)
+   * - scope: Query the profiles of games or of consoles
+   */
+  settingsProfiles!: Table<SettingsProfile, string>;
+
+  /**
+   * Deleted saves table - tombstones of synced saves, sent on the next cloud sync
+   *
+   * Indexes:
+   * - [gameId+slot]: Compound primary key, one tombstone per slot
+   * - gameId: Query the tombstones of a game
+   */
+  deletedSaves!: Table<DeletedSave, [string, number]>;
+
+  constructor() {
+    super('RetroGamingDB');
+
+    // Schema versions and upgrades (see migrations.ts)
+    registerMigrations(this);
 
     // Hook to initialize default settings on database creation
     this.on('populate', () => {
@@ -119,17 +188,20 @@ export class RetroGamingDB extends Dexie {
   /**
    * Create or update a save state
    * Uses compound index to find existing save for game+slot
+   * Records the running EmulatorJS version, since states are not portable between releases
    * @param gameId - The game identifier
    * @param slot - The slot number (0-9)
    * @param data - The save state binary data
    * @param screenshot - Optional screenshot blob
+   * @param consoleType - Console the game runs on (kept from the existing save when omitted)
    * @returns Promise<number> - The save state id
    */
   async upsertSaveState(
     gameId: string,
     slot: number,
     data: Blob,
-    screenshot?: Blob
+    screenshot?: Blob,
+    consoleType?: string
   ): Promise<number> {
     const existing = await this.getSaveState(gameId, slot);
     const now = new Date();
@@ -137,7 +209,10 @@ export class RetroGamingDB extends Dexie {
     if (existing?.id) {
       await this.saveStates.update(existing.id, {
         data,
+        sizeBytes: data.size,
         screenshot,
+        consoleType: consoleType ?? existing.consoleType,
+        emulatorVersion: EMULATORJS_VERSION,
         updatedAt: now,
       });
       return existing.id;
@@ -147,7 +222,10 @@ export class RetroGamingDB extends Dexie {
       gameId,
       slot,
       data,
+      sizeBytes: data.size,
       screenshot,
+      consoleType,
+      emulatorVersion: EMULATORJS_VERSION,
       createdAt: now,
       updatedAt: now,
     });
@@ -155,12 +233,50 @@ export class RetroGamingDB extends Dexie {
 
   /**
    * Delete a save state by game and slot
+   * A save that was synced leaves a tombstone, so the next sync deletes the cloud copy too
    * @param gameId - The game identifier
    * @param slot - The slot number
    * @returns Promise<number> - Number of deleted records
    */
   async deleteSaveState(gameId: string, slot: number): Promise<number> {
-    return this.saveStates.where('[gameId+slot]').equals([gameId, slot]).delete();
+    return this.transaction('rw', this.saveStates, this.deletedSaves, async () => {
+      const existing = await this.getSaveState(gameId, slot);
+      if (existing?.syncedAt) {
+        await this.deletedSaves.put({ gameId, slot, syncedAt: existing.syncedAt, deletedAt: new Date() });
+      }
+      return this.saveStates.where('[gameId+slot]').equals([gameId, slot]).delete();
+    });
+  }
+
+  /**
+   * Restore a complete save state record (e.g. from an imported archive)
+   * Replaces any existing save in the same game+slot, keeping original timestamps
+   * @param state - The save state to restore (its size is taken from the data)
+   * @returns Promise<number> - The save state id
+   */
+  async restoreSaveState(state: Omit<NewSaveState, 'sizeBytes'>): Promise<number> {
+    return this.transaction('rw', this.saveStates, async () => {
+      await this.saveStates.where('[gameId+slot]').equals([state.gameId, state.slot]).delete();
+      return this.saveStates.add({ ...state, sizeBytes: state.data.size });
+    });
+  }
+
+  /**
+   * Get the most recent save screenshot of each game ("last seen" image)
+   * @param gameIds - The game identifiers
+   * @returns Promise<Map<string, Blob>> - Screenshot per game id, for games that have one
+   */
+  async getLatestScreenshots(gameIds: readonly string[]): Promise<Map<string, Blob>> {
+    const latest = new Map<string, SaveState>();
+    if (gameIds.length === 0) return new Map();
+
+    await this.saveStates.where('gameId').anyOf([...gameIds]).each((save) => {
+      if (!save.screenshot) return;
+      const current = latest.get(save.gameId);
+      if (!current || save.updatedAt > current.updatedAt) latest.set(save.gameId, save);
+    });
+
+    return new Map([...latest].map(([gameId, save]) => [gameId, save.screenshot!]));
   }
 
   // ============================================================================
@@ -247,24 +363,79 @@ export class RetroGamingDB extends Dexie {
     });
   }
 
+  /**
+   * Record the active play time of a running session
+   * Called periodically so a crashed tab loses at most one interval of play time
+   * @param sessionId - The session id
+   * @param durationSeconds - Active play time so far
+   * @returns Promise<void>
+   */
+  async heartbeatPlaySession(sessionId: number, durationSeconds: number): Promise<void> {
+    await this.playSessions.update(sessionId, {
+      durationSeconds,
+      lastHeartbeatAt: new Date(),
+    });
+  }
+
   /**
    * End an active play session
    * @param sessionId - The session id
+   * @param durationSeconds - Active play time (defaults to wall-clock time since start)
    * @returns Promise<void>
    */
-  async endPlaySession(sessionId: number): Promise<void> {
+  async endPlaySession(sessionId: number, durationSeconds?: number): Promise<void> {
     const session = await this.playSessions.get(sessionId);
     if (!session) return;
 
     const endedAt = new Date();
-    const durationSeconds = Math.floor(
-      (endedAt.getTime() - session.startedAt.getTime()) / 1000
-    );
 
     await this.playSessions.update(sessionId, {
       endedAt,
-      durationSeconds,
+      durationSeconds:
+        durationSeconds ?? Math.floor((endedAt.getTime() - session.startedAt.getTime()) / 1000),
+      lastHeartbeatAt: endedAt,
+      cleanExit: true,
+    });
+  }
+
+  /**
+   * Close sessions left open by a crashed or killed tab
+   * Each is ended at its last heartbeat, keeping the play time recorded by then
+   * @param staleAfterMs - Sessions with a heartbeat newer than this are still running (e.g. in another tab)
+   * @returns Promise<number> - Number of recovered sessions
+   */
+  async recoverOrphanedSessions(staleAfterMs: number): Promise<number> {
+    const cutoff = Date.now() - staleAfterMs;
+
+    return this.transaction('rw', this.playSessions, async () => {
+      const orphans = await this.playSessions
+        .filter((session) => !session.endedAt && (session.lastHeartbeatAt ?? session.startedAt).getTime() < cutoff)
+        .toArray();
+
+      for (const session of orphans) {
+        await this.playSessions.update(session.id!, {
+          endedAt: session.lastHeartbeatAt ?? session.startedAt,
+          cleanExit: false,
+        });
+      }
+
+      return orphans.length;
+    });
+  }
+
+  /**
+   * Get the start of the most recent session for every played game
+   * @returns Promise<Record<string, number>> - Timestamp (ms) per game id
+   */
+  async getLastPlayedTimes(): Promise<Record<string, number>> {
+    const lastPlayed: Record<string, number> = {};
+
+    // Ascending order, so later sessions overwrite earlier ones
+    await this.playSessions.orderBy('startedAt').each((session) => {
+      lastPlayed[session.gameId] = session.startedAt.getTime();
     });
+
+    return lastPlayed;
   }
 
   /**
@@ -320,6 +491,203 @@ export class RetroGamingDB extends Dexie {
       .toArray();
   }
 
+  // ============================================================================
+  // COLLECTION OPERATIONS
+  // ============================================================================
+
+  /**
+   * Get all collections ordered by most recently changed
+   * @returns Promise<GameCollection[]>
+   */
+  async getCollections(): Promise<GameCollection[]> {
+    return this.collections.orderBy('updatedAt').reverse().toArray();
+  }
+
+  /**
+   * Get the manual collections that contain a game
+   * @param gameId - The game identifier
+   * @returns Promise<GameCollection[]>
+   */
+  async getCollectionsForGame(gameId: string): Promise<GameCollection[]> {
+    return this.collections.where('gameIds').equals(gameId).toArray();
+  }
+
+  /**
+   * Create a collection
+   * @param collection - Name, description and either game IDs or a smart filter
+   * @returns Promise<number> - The collection id
+   */
+  async createCollection(
+    collection: Pick<GameCollection, 'name' | 'description' | 'gameIds' | 'filter'>
+  ): Promise<number> {
+    const now = new Date();
+
+    return this.collections.add({
+      ...collection,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  /**
+   * Update a collection's details
+   * @param id - The collection id
+   * @param updates - Fields to change
+   * @returns Promise<void>
+   */
+  async updateCollection(
+    id: number,
+    updates: Partial<Pick<GameCollection, 'name' | 'description' | 'filter'>>
+  ): Promise<void> {
+    await this.collections.update(id, {
+      ...updates,
+      updatedAt: new Date(),
+    });
+  }
+
+  /**
+   * Delete a collection (the games themselves are untouched)
+   * @param id - The collection id
+   * @returns Promise<void>
+   */
+  async deleteCollection(id: number): Promise<void> {
+    await this.collections.delete(id);
+  }
+
+  /**
+   * Replace the ordered game list of a collection
+   * Runs the change in a transaction so concurrent edits are not lost
+   * @param id - The collection id
+   * @param change - Returns the new game list from the current one
+   * @returns Promise<void>
+   */
+  async changeCollectionGames(id: number, change: (gameIds: string[]) => string[]): Promise<void> {
+    await this.transaction('rw', this.collections, async () => {
+      const collection = await this.collections.get(id);
+      if (!collection) {
+        throw new Error(`Collection ${id} not found`);
+      }
+
+      await this.collections.update(id, {
+        gameIds: change(collection.gameIds),
+        updatedAt: new Date(),
+      });
+    });
+  }
+
+  // ============================================================================
+  // CHEAT OPERATIONS
+  // ============================================================================
+
+  /**
+   * Get the cheats saved for a game, in the order they were added
+   * @param gameId - The game identifier
+   * @returns Promise<GameCheat[]>
+   */
+  async getCheatsForGame(gameId: string): Promise<GameCheat[]> {
+    return this.cheats.where('gameId').equals(gameId).sortBy('id');
+  }
+
+  /**
+   * Add cheats to a game
+   * @param cheats - Cheats without ids or timestamps
+   * @returns Promise<number[]> - The new cheat ids
+   */
+  async addCheats(cheats: Omit<GameCheat, 'id' | 'createdAt' | 'updatedAt'>[]): Promise<number[]> {
+    const now = new Date();
+
+    return this.cheats.bulkAdd(
+      cheats.map((cheat) => ({ ...cheat, createdAt: now, updatedAt: now })),
+      { allKeys: true }
+    );
+  }
+
+  /**
+   * Update a cheat
+   * @param id - The cheat id
+   * @param updates - Fields to change
+   * @returns Promise<void>
+   */
+  async updateCheat(
+    id: number,
+    updates: Partial<Pick<GameCheat, 'description' | 'code' | 'format' | 'enabled'>>
+  ): Promise<void> {
+    await this.cheats.update(id, {
+      ...updates,
+      updatedAt: new Date(),
+    });
+  }
+
+  /**
+   * Delete a cheat
+   * @param id - The cheat id
+   * @returns Promise<void>
+   */
+  async deleteCheat(id: number): Promise<void> {
+    await this.cheats.delete(id);
+  }
+
+  // ============================================================================
+  // SETTINGS PROFILE OPERATIONS
+  // ============================================================================
+
+  /**
+   * Get the settings profile of a game or console
+   * @param scope - Whether the target is a game or a console
+   * @param targetId - The game ID or console type
+   * @returns Promise<SettingsProfile | undefined>
+   */
+  async getSettingsProfile(scope: SettingsProfileScope, targetId: string): Promise<SettingsProfile | undefined> {
+    return this.settingsProfiles.get(`${scope}:${targetId}`);
+  }
+
+  /**
+   * Get every settings profile of a scope
+   * @param scope - Whether to list game or console profiles
+   * @returns Promise<SettingsProfile[]>
+   */
+  async getSettingsProfiles(scope: SettingsProfileScope): Promise<SettingsProfile[]> {
+    return this.settingsProfiles.where('scope').equals(scope).toArray();
+  }
+
+  /**
+   * Create or replace the settings profile of a game or console
+   * @param scope - Whether the target is a game or a console
+   * @param targetId - The game ID or console type
+   * @param overrides - The settings to override
+   * @returns Promise<void>
+   */
+  async putSettingsProfile(
+    scope: SettingsProfileScope,
+    targetId: string,
+    overrides: SettingsProfile['overrides']
+  ): Promise<void> {
+    const id = `${scope}:${targetId}`;
+    const now = new Date();
+
+    await this.transaction('rw', this.settingsProfiles, async () => {
+      const existing = await this.settingsProfiles.get(id);
+      await this.settingsProfiles.put({
+        id,
+        scope,
+        targetId,
+        overrides,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+      });
+    });
+  }
+
+  /**
+   * Delete the settings profile of a game or console
+   * @param scope - Whether the target is a game or a console
+   * @param targetId - The game ID or console type
+   * @returns Promise<void>
+   */
+  async deleteSettingsProfile(scope: SettingsProfileScope, targetId: string): Promise<void> {
+    await this.settingsProfiles.delete(`${scope}:${targetId}`);
+  }
+
   // ============================================================================
   // SETTINGS OPERATIONS
   // ============================================================================
@@ -334,7 +702,8 @@ export class RetroGamingDB extends Dexie {
       await this.settings.add(DEFAULT_USER_SETTINGS);
       return DEFAULT_USER_SETTINGS;
     }
-    return settings;
+    // Fill in fields added after the record was first stored
+    return { ...DEFAULT_USER_SETTINGS, ...settings };
   }
 
   /**
@@ -374,6 +743,13 @@ export class RetroGamingDB extends Dexie {
       this.favorites.clear(),
       this.playSessions.clear(),
       this.settings.clear(),
+      this.biosFiles.clear(),
+      this.libraryGames.clear(),
+      this.offlineGames.clear(),
+      this.collections.clear(),
+      this.cheats.clear(),
+      this.settingsProfiles.clear(),
+      this.deletedSaves.clear(),
     ]);
     // Re-initialize default settings
     await this.settings.add(DEFAULT_USER_SETTINGS);
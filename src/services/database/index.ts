@@ -32,6 +32,12 @@
 // Database instance and class
 export { db, RetroGamingDB } from './db';
 
+// Schema history and integrity checks
+export { MIGRATIONS, LATEST_SCHEMA_VERSION, registerMigrations } from './migrations';
+export type { DatabaseMigration } from './migrations';
+export { checkDatabaseIntegrity } from './integrity';
+export type { IntegrityIssue, IntegrityReport, IntegrityTable, IntegrityCheckOptions } from './integrity';
+
 // Type exports
 export type {
   SaveState,
@@ -41,6 +47,19 @@ export type {
   NewSaveState,
   NewFavoriteGame,
   NewPlaySession,
+  StoredBiosFile,
+  NewStoredBiosFile,
+  LibraryGame,
+  OfflineGame,
+  OfflineResource,
+  GameCollection,
+  NewGameCollection,
+  GameCheat,
+  NewGameCheat,
+  SettingsOverrides,
+  SettingsProfile,
+  SettingsProfileScope,
+  DeletedSave,
 } from './models';
 
 // Default settings export
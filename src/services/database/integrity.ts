@@ -0,0 +1,233 @@
+/**
+ * Database Integrity Checks for RetroGaming IndexedDB
+ *
+ * Scans the stored records for shapes the app cannot use (left by older
+ * releases, interrupted writes or hand-edited exports) and either repairs
+ * them in place or reports them. Records are only deleted when they carry
+ * nothing worth keeping (e.g. a favorite without a game ID); anything
+ * holding user data, such as a save without a readable console, is
+ * reported instead.
+ */
+
+import type { RetroGamingDB } from './db';
+import type { GameCollection, UserSettings } from './models';
+import { DEFAULT_USER_SETTINGS } from './models';
+import { isFastForwardRatio, isRewindGranularity } from '@/types';
+
+/**
+ * Tables covered by the integrity check
+ */
+export type IntegrityTable = 'saveStates' | 'favorites' | 'playSessions' | 'settings' | 'collections';
+
+/**
+ * A malformed record found by the check
+ */
+export interface IntegrityIssue {
+  table: IntegrityTable;
+  /** Primary key of the record */
+  key: string | number | undefined;
+  /** What is wrong with the record */
+  problem: string;
+  /** Whether the record was fixed (or removed) */
+  repaired: boolean;
+}
+
+/**
+ * Result of an integrity check
+ */
+export interface IntegrityReport {
+  /** Number of records inspected */
+  checked: number;
+  /** Problems found, repaired or not */
+  issues: IntegrityIssue[];
+}
+
+/**
+ * Options for an integrity check
+ */
+export interface IntegrityCheckOptions {
+  /** Fix what can be fixed (default); false only reports */
+  repair?: boolean;
+  /** Looks up the console of a catalog game, for saves missing one */
+  resolveConsole?: (gameId: string) => string | undefined;
+}
+
+/**
+ * Whether a value is a usable date.
+ */
+function isValidDate(value: unknown): value is Date {
+  return value instanceof Date && !Number.isNaN(value.getTime());
+}
+
+/**
+ * Whether a value is a non-empty string.
+ */
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 0;
+}
+
+/**
+ * Settings fields whose stored value does not match the type of the default.
+ */
+function findInvalidSettings(settings: UserSettings): (keyof UserSettings)[] {
+  return (Object.keys(DEFAULT_USER_SETTINGS) as (keyof UserSettings)[]).filter((key) => {
+    const expected = DEFAULT_USER_SETTINGS[key];
+    const actual = settings[key];
+
+    if (key === 'fastForwardRatio') return !isFastForwardRatio(actual);
+    if (key === 'rewindGranularity') return !isRewindGranularity(actual);
+    if (expected instanceof Date) return !isValidDate(actual);
+    if (typeof expected === 'object') return typeof actual !== 'object' || actual === null || Array.isArray(actual);
+    return typeof actual !== typeof expected;
+  });
+}
+
+/**
+ * Checks every table for malformed records, repairing them unless
+ * `repair` is false. Runs in one transaction, so a check either applies
+ * all of its repairs or none.
+ *
+ * @param db - The database to check
+ * @param options - Repair mode and console lookup
+ * @returns Report of the records checked and the issues found
+ */
+export async function checkDatabaseIntegrity(
+  db: RetroGamingDB,
+  options: IntegrityCheckOptions = {}
+): Promise<IntegrityReport> {
+  const { repair = true, resolveConsole } = options;
+  const report: IntegrityReport = { checked: 0, issues: [] };
+
+  const tables = [db.saveStates, db.favorites, db.playSessions, db.settings, db.collections, db.libraryGames];
+
+  await db.transaction(repair ? 'rw' : 'r', tables, async () => {
+    const issue = (table: IntegrityTable, key: string | number | undefined, problem: string, repaired: boolean) => {
+      report.issues.push({ table, key, problem, repaired: repair && repaired });
+    };
+
+    // Consoles of imported ROMs are always known
+    const libraryConsoles = new Map<string, string>();
+    await db.libraryGames.each((game) => libraryConsoles.set(game.id, game.console));
+
+    // Save states
+    for (const state of await db.saveStates.toArray()) {
+      report.checked++;
+
+      if (!isNonEmptyString(state.gameId) || !Number.isInteger(state.slot) || !(state.data instanceof Blob)) {
+        issue('saveStates', state.id, 'Missing game ID, slot or save data', false);
+        continue;
+      }
+
+      const updates: Partial<typeof state> = {};
+
+      if (state.sizeBytes !== state.data.size) {
+        updates.sizeBytes = state.data.size;
+        issue('saveStates', state.id, 'Missing or wrong size', true);
+      }
+
+      if (!isNonEmptyString(state.consoleType)) {
+        const consoleType = libraryConsoles.get(state.gameId) ?? resolveConsole?.(state.gameId);
+        if (consoleType) updates.consoleType = consoleType;
+        issue('saveStates', state.id, 'Missing console', consoleType !== undefined);
+      }
+
+      if (!isValidDate(state.createdAt) || !isValidDate(state.updatedAt)) {
+        const fallback = [state.updatedAt, state.createdAt].find(isValidDate) ?? new Date();
+        if (!isValidDate(state.createdAt)) updates.createdAt = fallback;
+        if (!isValidDate(state.updatedAt)) updates.updatedAt = fallback;
+        issue('saveStates', state.id, 'Invalid timestamps', true);
+      }
+
+      if (repair && Object.keys(updates).length > 0) {
+        await db.saveStates.update(state.id!, updates);
+      }
+    }
+
+    // Favorites
+    for (const favorite of await db.favorites.toArray()) {
+      report.checked++;
+
+      if (!isNonEmptyString(favorite.gameId)) {
+        issue('favorites', favorite.id, 'Missing game ID (removed)', true);
+        if (repair) await db.favorites.delete(favorite.id!);
+      } else if (!isValidDate(favorite.addedAt)) {
+        issue('favorites', favorite.id, 'Invalid date added', true);
+        if (repair) await db.favorites.update(favorite.id!, { addedAt: new Date() });
+      }
+    }
+
+    // Play sessions
+    for (const session of await db.playSessions.toArray()) {
+      report.checked++;
+
+      if (!isNonEmptyString(session.gameId)) {
+        issue('playSessions', session.id, 'Missing game ID (removed)', true);
+        if (repair) await db.playSessions.delete(session.id!);
+        continue;
+      }
+
+      if (!isValidDate(session.startedAt)) {
+        issue('playSessions', session.id, 'Invalid start time', false);
+        continue;
+      }
+
+      if (!Number.isFinite(session.durationSeconds) || session.durationSeconds < 0) {
+        const durationSeconds = isValidDate(session.endedAt)
+          ? Math.max(0, Math.floor((session.endedAt.getTime() - session.startedAt.getTime()) / 1000))
+          : 0;
+        issue('playSessions', session.id, 'Invalid duration', true);
+        if (repair) await db.playSessions.update(session.id!, { durationSeconds });
+      }
+    }
+
+    // Settings (a single record under the 'default' key)
+    const settingsRecords = await db.settings.toArray();
+    report.checked += settingsRecords.length;
+
+    for (const record of settingsRecords) {
+      if (record.id !== 'default') {
+        issue('settings', record.id, 'Unexpected settings record (removed)', true);
+        if (repair) await db.settings.delete(record.id);
+      }
+    }
+
+    const settings = settingsRecords.find((record) => record.id === 'default');
+    if (!settings) {
+      issue('settings', 'default', 'Missing settings (defaults restored)', true);
+      if (repair) await db.settings.put({ ...DEFAULT_USER_SETTINGS, lastUpdated: new Date() });
+    } else {
+      const invalid = findInvalidSettings(settings);
+      if (invalid.length > 0) {
+        issue('settings', 'default', `Invalid ${invalid.join(', ')} (defaults restored)`, true);
+        if (repair) {
+          const defaults = Object.fromEntries(invalid.map((key) => [key, DEFAULT_USER_SETTINGS[key]]));
+          await db.settings.update('default', defaults);
+        }
+      }
+    }
+
+    // Collections
+    for (const collection of await db.collections.toArray()) {
+      report.checked++;
+      const updates: Partial<GameCollection> = {};
+
+      if (!isNonEmptyString(collection.name?.trim())) {
+        updates.name = 'Untitled collection';
+        issue('collections', collection.id, 'Missing name', true);
+      }
+
+      const gameIds = Array.isArray(collection.gameIds) ? collection.gameIds : [];
+      const validGameIds = [...new Set(gameIds.filter(isNonEmptyString))];
+      if (!Array.isArray(collection.gameIds) || validGameIds.length !== gameIds.length) {
+        updates.gameIds = validGameIds;
+        issue('collections', collection.id, 'Invalid or duplicate game IDs', true);
+      }
+
+      if (repair && Object.keys(updates).length > 0) {
+        await db.collections.update(collection.id!, updates);
+      }
+    }
+  });
+
+  return report;
+}
@@ -0,0 +1,171 @@
+import Dexie from 'dexie';
+import { IDBFactory, IDBKeyRange } from 'fake-indexeddb';
+import { afterEach, describe, expect, it } from 'vitest';
+import { LATEST_SCHEMA_VERSION, MIGRATIONS, registerMigrations } from './migrations';
+import { DEFAULT_USER_SETTINGS } from './models';
+import type { LibraryGame, SaveState, UserSettings } from './models';
+
+const DB_NAME = 'RetroGamingDB';
+
+/** Versions a browser can still have stored, oldest first */
+const OLDER_VERSIONS = MIGRATIONS.map((migration) => migration.version).filter(
+  (version) => version < LATEST_SCHEMA_VERSION
+);
+
+/** Versions from before the v6 backfill */
+const PRE_BACKFILL_VERSIONS = OLDER_VERSIONS.filter((version) => version < 6);
+
+let idb = new IDBFactory();
+const opened: Dexie[] = [];
+
+afterEach(() => {
+  opened.splice(0).forEach((db) => db.close());
+  idb = new IDBFactory();
+});
+
+/**
+ * Opens the database with the migration chain cut off at `version`, the
+ * way an older build of the app would have opened it.
+ */
+async function openAt(version: number): Promise<Dexie> {
+  const db = new Dexie(DB_NAME, { indexedDB: idb, IDBKeyRange });
+  registerMigrations(db, MIGRATIONS.filter((migration) => migration.version <= version));
+  opened.push(db);
+  await db.open();
+  return db;
+}
+
+function legacySave(gameId: string, slot: number): Omit<SaveState, 'sizeBytes' | 'id'> {
+  const now = new Date();
+  return { gameId, slot, data: new Blob([new Uint8Array(128)]), createdAt: now, updatedAt: now };
+}
+
+function libraryGame(id: string, console: string): LibraryGame {
+  const now = new Date();
+  return { id, title: id, console, fileName: `${id}.bin`, size: 4, data: new Blob([]), addedAt: now, updatedAt: now };
+}
+
+describe('MIGRATIONS', () => {
+  it('declares strictly increasing versions ending at the latest schema', () => {
+    const versions = MIGRATIONS.map((migration) => migration.version);
+    expect(versions).toEqual([...versions].sort((a, b) => a - b));
+    expect(new Set(versions).size).toBe(versions.length);
+    expect(versions[versions.length - 1]).toBe(LATEST_SCHEMA_VERSION);
+  });
+
+  it('rejects a chain whose versions do not increase', () => {
+    const db = new Dexie('InvalidChain', { indexedDB: idb, IDBKeyRange });
+    expect(() => registerMigrations(db, [MIGRATIONS[1], MIGRATIONS[0]])).toThrow(/must come after/);
+  });
+
+  it('creates every table on a fresh database', async () => {
+    const db = await openAt(LATEST_SCHEMA_VERSION);
+    const expected = MIGRATIONS.flatMap((migration) => Object.keys(migration.stores));
+
+    expect(db.verno).toBe(LATEST_SCHEMA_VERSION);
+    expect(db.tables.map((table) => table.name).sort()).toEqual([...new Set(expected)].sort());
+  });
+
+  it.each(OLDER_VERSIONS)('upgrades a v%i database to the latest schema and keeps its saves', async (version) => {
+    const old = await openAt(version);
+    await old.table('saveStates').add({ ...legacySave('snes-mario', 3), sizeBytes: 128 });
+    old.close();
+
+    const db = await openAt(LATEST_SCHEMA_VERSION);
+    expect(db.verno).toBe(LATEST_SCHEMA_VERSION);
+    expect(db.tables.map((table) => table.name)).toEqual(
+      expect.arrayContaining(['saveStates', 'cheats', 'settingsProfiles'])
+    );
+
+    const saves = await db.table<SaveState, number>('saveStates').toArray();
+    expect(saves).toHaveLength(1);
+    expect(saves[0]).toMatchObject({ gameId: 'snes-mario', slot: 3, sizeBytes: 128 });
+  });
+});
+
+describe('v6 save metadata backfill', () => {
+  it.each(PRE_BACKFILL_VERSIONS)('fills in the size of saves from a v%i database', async (version) => {
+    const old = await openAt(version);
+    await old.table('saveStates').bulkAdd([legacySave('nes-zelda', 0), legacySave('nes-zelda', -1)]);
+    old.close();
+
+    const db = await openAt(LATEST_SCHEMA_VERSION);
+    const saves = await db.table<SaveState, number>('saveStates').toArray();
+
+    expect(saves.map((save) => save.sizeBytes)).toEqual([128, 128]);
+  });
+
+  it.each(PRE_BACKFILL_VERSIONS.filter((version) => version >= 3))(
+    'takes the console of imported games from the v%i library',
+    async (version) => {
+      const old = await openAt(version);
+      await old.table('libraryGames').add(libraryGame('local-abc', 'gba'));
+      await old.table('saveStates').bulkAdd([legacySave('local-abc', 0), legacySave('snes-mario', 0)]);
+      old.close();
+
+      const db = await openAt(LATEST_SCHEMA_VERSION);
+      const saves = await db.table<SaveState, number>('saveStates').toArray();
+
+      expect(saves.find((save) => save.gameId === 'local-abc')?.consoleType).toBe('gba');
+      // Catalog games are left for the integrity check
+      expect(saves.find((save) => save.gameId === 'snes-mario')?.consoleType).toBeUndefined();
+    }
+  );
+
+  it('keeps a console that is already recorded', async () => {
+    const old = await openAt(5);
+    await old.table('libraryGames').add(libraryGame('local-abc', 'gba'));
+    await old.table('saveStates').add({ ...legacySave('local-abc', 0), consoleType: 'gb' });
+    old.close();
+
+    const db = await openAt(LATEST_SCHEMA_VERSION);
+    const [save] = await db.table<SaveState, number>('saveStates').toArray();
+
+    expect(save.consoleType).toBe('gb');
+  });
+});
+
+describe('v6 settings key normalisation', () => {
+  it.each(PRE_BACKFILL_VERSIONS)('moves settings stored under key 1 in a v%i database', async (version) => {
+    const old = await openAt(version);
+    await old.table('settings').add({ id: 1, volume: 0.3, showVirtualGamepad: false });
+    old.close();
+
+    const db = await openAt(LATEST_SCHEMA_VERSION);
+    const settings = db.table<UserSettings, string | number>('settings');
+
+    expect(await settings.get(1)).toBeUndefined();
+    expect(await settings.get('default')).toMatchObject({
+      ...DEFAULT_USER_SETTINGS,
+      id: 'default',
+      volume: 0.3,
+      showVirtualGamepad: false,
+      lastUpdated: expect.any(Date),
+    });
+  });
+
+  it('lets the default record win over the legacy one', async () => {
+    const old = await openAt(5);
+    await old.table('settings').bulkAdd([
+      { id: 1, volume: 0.3, showVirtualGamepad: false },
+      { id: 'default', volume: 0.9 },
+    ]);
+    old.close();
+
+    const db = await openAt(LATEST_SCHEMA_VERSION);
+    const settings = db.table<UserSettings, string | number>('settings');
+
+    expect(await settings.count()).toBe(1);
+    expect(await settings.get('default')).toMatchObject({ volume: 0.9, showVirtualGamepad: false });
+  });
+
+  it('leaves settings already under the default key alone', async () => {
+    const old = await openAt(5);
+    await old.table('settings').add({ id: 'default', volume: 0.5 });
+    old.close();
+
+    const db = await openAt(LATEST_SCHEMA_VERSION);
+
+    expect(await db.table('settings').toArray()).toEqual([{ id: 'default', volume: 0.5 }]);
+  });
+});
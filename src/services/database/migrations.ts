@@ -0,0 +1,168 @@
+/**
+ * Database Migrations for RetroGaming IndexedDB
+ *
+ * The schema history of RetroGamingDB as an ordered chain of migrations.
+ * Each entry declares the tables it adds or re-indexes (Dexie keeps the
+ * tables of earlier versions) and optionally an upgrade function that
+ * rewrites existing records. Dexie runs the upgrade functions of every
+ * version newer than the one stored in the browser, in order, inside the
+ * version-change transaction.
+ *
+ * To change the schema, append a migration; never edit a released one.
+ */
+
+import type Dexie from 'dexie';
+import type { Transaction } from 'dexie';
+import type { LibraryGame, SaveState, UserSettings } from './models';
+import { DEFAULT_USER_SETTINGS } from './models';
+
+/**
+ * One step in the schema history
+ */
+export interface DatabaseMigration {
+  /** Schema version this migration produces */
+  version: number;
+  /** What changed, for logs and reviewers */
+  description: string;
+  /** Tables added or re-indexed in this version (null deletes a table) */
+  stores: Record<string, string | null>;
+  /** Rewrites existing records when upgrading from an older version */
+  upgrade?: (tx: Transaction) => Promise<void>;
+}
+
+/**
+ * Version 6: backfill save metadata and move legacy settings.
+ * Saves get their size and, where the game is an imported ROM, their
+ * console; catalog games are resolved later by the integrity check.
+ * Settings stored under the numeric key 1 (the key the old defaults used)
+ * are merged into the 'default' record.
+ */
+async function backfillSaveMetadata(tx: Transaction): Promise<void> {
+  const libraryConsoles = new Map<string, string>();
+  await tx.table<LibraryGame, string>('libraryGames').each((game) => {
+    libraryConsoles.set(game.id, game.console);
+  });
+
+  await tx
+    .table<SaveState, number>('saveStates')
+    .toCollection()
+    .modify((state) => {
+      if (typeof state.sizeBytes !== 'number' && state.data instanceof Blob) {
+        state.sizeBytes = state.data.size;
+      }
+      if (!state.consoleType) {
+        const consoleType = libraryConsoles.get(state.gameId);
+        if (consoleType) state.consoleType = consoleType;
+      }
+    });
+
+  const settings = tx.table<UserSettings, string | number>('settings');
+  const legacy = await settings.get(1);
+  if (legacy) {
+    const current = await settings.get('default');
+    await settings.put({ ...DEFAULT_USER_SETTINGS, ...legacy, ...current, id: 'default' });
+    await settings.delete(1);
+  }
+}
+
+/**
+ * Schema history, oldest first
+ */
+export const MIGRATIONS: readonly DatabaseMigration[] = [
+  {
+    version: 1,
+    description: 'Initial schema',
+    stores: {
+      // Save states with compound index for game+slot queries
+      saveStates: '++id, gameId, slot, [gameId+slot], createdAt, updatedAt',
+      // Favorites with unique constraint on gameId
+      favorites: '++id, &gameId, addedAt',
+      // Play sessions with compound index for game history
+      playSessions: '++id, gameId, startedAt, [gameId+startedAt]',
+      // Settings uses string key for singleton pattern
+      settings: 'id',
+    },
+  },
+  {
+    version: 2,
+    description: 'User-supplied BIOS files',
+    stores: {
+      biosFiles: '++id, console, &[console+fileName]',
+    },
+  },
+  {
+    version: 3,
+    description: 'User-imported ROM library',
+    stores: {
+      libraryGames: '&id, console, addedAt',
+    },
+  },
+  {
+    version: 4,
+    description: 'Games pinned for offline play',
+    stores: {
+      offlineGames: '&gameId, pinnedAt',
+    },
+  },
+  {
+    version: 5,
+    description: 'User-defined collections',
+    stores: {
+      collections: '++id, name, updatedAt, *gameIds',
+    },
+  },
+  {
+    version: 6,
+    description: 'Backfill save sizes and consoles; move legacy settings to the default key',
+    stores: {},
+    upgrade: backfillSaveMetadata,
+  },
+  {
+    version: 7,
+    description: 'Per-game cheat codes',
+    stores: {
+      cheats: '++id, gameId',
+    },
+  },
+  {
+    version: 8,
+    description: 'Per-game and per-console settings profiles',
+    stores: {
+      settingsProfiles: 'id, scope',
+    },
+  },
+  {
+    version: 9,
+    description: 'Tombstones of deleted synced saves',
+    stores: {
+      deletedSaves: '[gameId+slot], gameId',
+    },
+  },
+];
+
+/** Newest schema version */
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Declares the migration chain on a database instance.
+ * Must be called from the constructor, before the database is opened.
+ *
+ * @param db - The database to declare the versions on
+ * @param migrations - The chain to declare (defaults to MIGRATIONS)
+ * @throws Error if the versions are not strictly increasing
+ */
+export function registerMigrations(db: Dexie, migrations: readonly DatabaseMigration[] = MIGRATIONS): void {
+  let previous = 0;
+
+  for (const migration of migrations) {
+    if (migration.version <= previous) {
+      throw new Error(`Migration ${migration.version} must come after version ${previous}`);
+    }
+    previous = migration.version;
+
+    const version = db.version(migration.version).stores(migration.stores);
+    if (migration.upgrade) {
+      version.upgrade(migration.upgrade);
+    }
+  }
+}
@@ -1,11 +1,26 @@
 /**
  * Database Models for RetroGaming IndexedDB
  *
- * These interfaces define the structure of data stored in IndexedDB via Dexie.
- * All tables use auto-incrementing primary keys (id) except UserSettings which
- * uses a string key for singleton pattern.
+ * These interfaces define the structure of data stored in IndexedDB via Dexie,
+ * and are the source of truth for stored records (including UserSettings, kept
+ * as a singleton under the string key 'default').
+ * Schema versions and upgrades live in migrations.ts.
  */
 
+import type {
+  CheatFormat,
+  ConsoleControlMappings,
+  ConsoleType,
+  ControlMappingsByConsole,
+  DisplaySettings,
+  EmulatorShader,
+  FastForwardRatio,
+  GameFilter,
+  GamepadAssignments,
+  RewindGranularity,
+} from '@/types';
+import { DEFAULT_DISPLAY_SETTINGS } from '@/types';
+
 /**
  * Save state for emulator games.
  * Stores binary save data and optional screenshot per game slot.
@@ -20,12 +35,22 @@ export interface SaveState {
   id?: number;
   /** Reference to the game identifier */
   gameId: string;
-  /** Save slot number (0-9 slots per game) */
+  /** Save slot number (0-9 manual slots, negative for SAVE_SLOT.AUTO / QUICK) */
   slot: number;
   /** Binary save state data from emulator */
   data: Blob;
-  /** Optional screenshot captured at save time */
+  /** Size of the save data in bytes */
+  sizeBytes: number;
+  /** Optional screenshot captured at save time (a downscaled WebP thumbnail) */
   screenshot?: Blob;
+  /** Console the save was made on (used to validate imported saves) */
+  consoleType?: string;
+  /** Optional user-defined label for the slot */
+  label?: string;
+  /** EmulatorJS version that produced the save data */
+  emulatorVersion?: string;
+  /** updatedAt value of the last copy exchanged with cloud sync */
+  syncedAt?: Date;
   /** Timestamp when save was first created */
   createdAt: Date;
   /** Timestamp when save was last updated */
@@ -68,8 +93,12 @@ export interface PlaySession {
   startedAt: Date;
   /** Timestamp when session ended (undefined if still playing) */
   endedAt?: Date;
-  /** Total duration of session in seconds */
+  /** Active play time in seconds (paused, hidden and idle time excluded) */
   durationSeconds: number;
+  /** Last time the running session saved its duration */
+  lastHeartbeatAt?: Date;
+  /** Whether the session was ended normally (false when recovered after a crash) */
+  cleanExit?: boolean;
 }
 
 /**
@@ -89,12 +118,232 @@ export interface UserSettings {
   defaultSaveSlot: number;
   /** Whether to show virtual gamepad on touch devices */
   showVirtualGamepad: boolean;
-  /** Custom control mappings keyed by action name */
-  controlMappings: Record<string, unknown>;
+  /** Custom control mappings per console, device and player */
+  controlMappings: ControlMappingsByConsole;
+  /** Gamepad bound to each player slot */
+  gamepadAssignments: GamepadAssignments;
+  /** Whether to auto-save periodically and when leaving a game */
+  autoSaveEnabled: boolean;
+  /** Seconds between periodic auto-saves (0 = only save on exit) */
+  autoSaveIntervalSeconds: number;
+  /** Whether the emulator records frames so the game can be rewound */
+  rewindEnabled: boolean;
+  /** Frames between rewind snapshots (higher rewinds further, less smoothly) */
+  rewindGranularity: RewindGranularity;
+  /** Speed multiplier while fast-forwarding */
+  fastForwardRatio: FastForwardRatio;
+  /** Video output; `shader` is used for consoles without a shader preset */
+  display: DisplaySettings;
+  /** Shader picked per console, overriding the console preset */
+  consoleShaders: Partial<Record<ConsoleType, EmulatorShader>>;
   /** Timestamp of last settings update */
   lastUpdated: Date;
 }
 
+/**
+ * User-supplied BIOS file, verified against the console registry.
+ * Stored under the registry file name regardless of the uploaded name.
+ *
+ * Query patterns:
+ * - BIOS files for a console: db.biosFiles.where('console').equals(console)
+ * - Specific file: db.biosFiles.where('[console+fileName]').equals([console, fileName])
+ */
+export interface StoredBiosFile {
+  /** Auto-incremented primary key */
+  id?: number;
+  /** Console the BIOS belongs to */
+  console: string;
+  /** Registry file name (e.g. scph5501.bin) */
+  fileName: string;
+  /** MD5 hash of the data, matching the registry entry */
+  md5: string;
+  /** Size in bytes */
+  size: number;
+  /** BIOS binary data */
+  data: Blob;
+  /** Timestamp when the file was added */
+  addedAt: Date;
+}
+
+/**
+ * ROM imported by the user into their personal library ("My Library").
+ * The ROM data lives alongside its metadata so the game survives reloads.
+ *
+ * Query patterns:
+ * - All imported games: db.libraryGames.orderBy('addedAt').reverse()
+ * - Games for a console: db.libraryGames.where('console').equals(console)
+ */
+export interface LibraryGame {
+  /** Game identifier ("local-" prefix keeps it apart from catalog IDs) */
+  id: string;
+  /** Display title (editable by the user) */
+  title: string;
+  /** Console the ROM runs on */
+  console: string;
+  /** Original file name, kept for its extension */
+  fileName: string;
+  /** Size in bytes */
+  size: number;
+  /** Region read from the ROM header */
+  region?: string;
+  /** CRC32 of the headerless ROM data */
+  crc32?: string;
+  /** SHA-1 of the headerless ROM data */
+  sha1?: string;
+  /** ROM binary data */
+  data: Blob;
+  /** Timestamp when the ROM was imported */
+  addedAt: Date;
+  /** Timestamp when the entry was last edited */
+  updatedAt: Date;
+}
+
+/**
+ * Resource downloaded into the offline cache for a pinned game
+ */
+export interface OfflineResource {
+  /** Absolute URL (the Cache Storage key) */
+  url: string;
+  /** Size in bytes */
+  size: number;
+}
+
+/**
+ * Game pinned for offline play. The files themselves live in Cache Storage
+ * and are served by the service worker (public/sw.js).
+ *
+ * Query patterns:
+ * - All pinned games: db.offlineGames.orderBy('pinnedAt')
+ */
+export interface OfflineGame {
+  /** Game identifier (primary key) */
+  gameId: string;
+  /** Game title at pin time, for the storage view */
+  title: string;
+  /** Console the game runs on */
+  console: string;
+  /** ROM, cover, core and BIOS files cached for the game */
+  resources: OfflineResource[];
+  /** Total size of the resources in bytes */
+  size: number;
+  /** Timestamp when the game was pinned */
+  pinnedAt: Date;
+}
+
+/**
+ * User-defined collection of games.
+ * A manual collection keeps its own ordered list of games; a smart collection
+ * stores a GameFilter and always contains the games currently matching it.
+ *
+ * Query patterns:
+ * - All collections: db.collections.orderBy('updatedAt').reverse()
+ * - Collections containing a game: db.collections.where('gameIds').equals(gameId)
+ */
+export interface GameCollection {
+  /** Auto-incremented primary key */
+  id?: number;
+  /** Display name */
+  name: string;
+  /** Optional user-written description */
+  description?: string;
+  /** Game IDs in display order (empty for smart collections) */
+  gameIds: string[];
+  /** Saved filter that defines a smart collection */
+  filter?: GameFilter;
+  /** Timestamp when the collection was created */
+  createdAt: Date;
+  /** Timestamp when the collection or its games last changed */
+  updatedAt: Date;
+}
+
+/**
+ * Cheat code saved for a game. The code is stored normalized (see
+ * services/emulator/cheatCodes) and applied through the EmulatorJS cheat
+ * API while it is enabled.
+ *
+ * Query patterns:
+ * - Cheats for a game: db.cheats.where('gameId').equals(gameId)
+ */
+export interface GameCheat {
+  /** Auto-incremented primary key */
+  id?: number;
+  /** Game identifier */
+  gameId: string;
+  /** Console the code was validated for */
+  console: string;
+  /** User-visible name, e.g. "Infinite lives" */
+  description: string;
+  /** Normalized code; several codes are joined with '+' */
+  code: string;
+  /** Format the code was detected as */
+  format: CheatFormat;
+  /** Whether the cheat is applied when the game runs */
+  enabled: boolean;
+  /** Timestamp when the cheat was added */
+  createdAt: Date;
+  /** Timestamp when the cheat last changed */
+  updatedAt: Date;
+}
+
+/**
+ * Settings a profile can override. Unset fields fall through to the
+ * console profile, then to the global UserSettings.
+ */
+export interface SettingsOverrides {
+  /** Shader ('' = none) */
+  shader?: EmulatorShader;
+  integerScaling?: boolean;
+  maintainAspectRatio?: boolean;
+  rewindEnabled?: boolean;
+  rewindGranularity?: RewindGranularity;
+  fastForwardRatio?: FastForwardRatio;
+  /** Control overrides used instead of the console's global ones */
+  controls?: ConsoleControlMappings;
+}
+
+/**
+ * What a settings profile applies to
+ */
+export type SettingsProfileScope = 'game' | 'console';
+
+/**
+ * Settings overrides for one game or for every game of a console, merged
+ * over UserSettings when a game starts (game over console over global).
+ *
+ * Query patterns:
+ * - Profile of a game: db.settingsProfiles.get(`game:${gameId}`)
+ * - Profile of a console: db.settingsProfiles.get(`console:${console}`)
+ * - Profiles of a scope: db.settingsProfiles.where('scope').equals('game')
+ */
+export interface SettingsProfile {
+  /** `${scope}:${targetId}` */
+  id: string;
+  scope: SettingsProfileScope;
+  /** Game ID or console type */
+  targetId: string;
+  overrides: SettingsOverrides;
+  /** Timestamp when the profile was created */
+  createdAt: Date;
+  /** Timestamp when the profile last changed */
+  updatedAt: Date;
+}
+
+/**
+ * Tombstone for a synced save the user deleted, kept until the next cloud
+ * sync removes the cloud copy too.
+ *
+ * Query patterns:
+ * - Tombstones of a game: db.deletedSaves.where('gameId').equals(gameId)
+ */
+export interface DeletedSave {
+  gameId: string;
+  slot: number;
+  /** syncedAt of the deleted save; a newer cloud copy is kept */
+  syncedAt: Date;
+  /** Timestamp when the save was deleted */
+  deletedAt: Date;
+}
+
 /**
  * Type helper for creating new SaveState (without id)
  */
@@ -110,6 +359,21 @@ export type NewFavoriteGame = Omit<FavoriteGame, 'id'>;
  */
 export type NewPlaySession = Omit<PlaySession, 'id'>;
 
+/**
+ * Type helper for creating new StoredBiosFile (without id)
+ */
+export type NewStoredBiosFile = Omit<StoredBiosFile, 'id'>;
+
+/**
+ * Type helper for creating new GameCollection (without id)
+ */
+export type NewGameCollection = Omit<GameCollection, 'id'>;
+
+/**
+ * Type helper for creating new GameCheat (without id)
+ */
+export type NewGameCheat = Omit<GameCheat, 'id'>;
+
 /**
  * Default user settings configuration
  */
@@ -119,5 +383,13 @@ export const DEFAULT_USER_SETTINGS: UserSettings = {
   defaultSaveSlot: 0,
   showVirtualGamepad: true,
   controlMappings: {},
+  gamepadAssignments: {},
+  autoSaveEnabled: true,
+  autoSaveIntervalSeconds: 60,
+  rewindEnabled: false,
+  rewindGranularity: 6,
+  fastForwardRatio: 3,
+  display: DEFAULT_DISPLAY_SETTINGS,
+  consoleShaders: {},
   lastUpdated: new Date(),
 };
@@ -0,0 +1,383 @@
+/**
+ * Cheat Codes
+ * Parses and validates cheat codes for the consoles whose cores support
+ * them, and reads RetroArch `.cht` cheat files.
+ *
+ * Supported formats:
+ * - Game Genie: NES (`SXIOPO`, `YEUZUGAA`), SNES (`DD32-6DAD`), Game Boy (`00A-17B`, `00A-17B-C49`)
+ * - Pro Action Replay: SNES (`7E0DBF09`), Game Boy (`01FFA0C6`), Genesis (`FF0F2A:0009`)
+ * - GameShark: N64 (`8033B1AC 0003`), PS1 (`800C3F1C 0063`), GBA (`XXXXXXXX YYYYYYYY`)
+ * - Raw memory writes for every console: `address:value` or `address?compare:value`
+ *
+ * A cheat may have several codes, one per line or joined with `+` as in
+ * RetroArch. Codes are normalized (uppercase, canonical separators) so the
+ * cores receive them in the form they expect.
+ *
+ * @module services/emulator/cheatCodes
+ */
+
+import type { CheatFormat, ConsoleType } from '@/types';
+
+/**
+ * One code of a cheat, with the memory write it decodes to where the
+ * format is not encrypted
+ */
+export interface CheatCodeLine {
+  /** Normalized code */
+  code: string;
+  /** Address written to */
+  address?: number;
+  /** Value written */
+  value?: number;
+  /** Value the address must hold for the write to apply */
+  compare?: number;
+}
+
+/**
+ * A validated cheat code
+ */
+export interface ParsedCheatCode {
+  format: CheatFormat;
+  lines: CheatCodeLine[];
+  /** Normalized codes joined with '+', as passed to the core */
+  code: string;
+}
+
+/**
+ * Result of parsing a cheat code
+ */
+export interface CheatCodeResult {
+  /** Parsed cheat, or null when the code is not valid */
+  cheat: ParsedCheatCode | null;
+  /** Why the code is not valid */
+  error?: string;
+}
+
+/**
+ * A cheat read from a RetroArch `.cht` file
+ */
+export interface ChtFileEntry {
+  description: string;
+  /** Code as written in the file */
+  code: string;
+  enabled: boolean;
+}
+
+/** Display names of the formats */
+export const CHEAT_FORMAT_LABELS: Record<CheatFormat, string> = {
+  'game-genie': 'Game Genie',
+  'pro-action-replay': 'Pro Action Replay',
+  gameshark: 'GameShark',
+  raw: 'Raw address:value',
+};
+
+/** Formats each console's cores accept, most specific first */
+const CONSOLE_FORMATS: Partial<Record<ConsoleType, readonly CheatFormat[]>> = {
+  nes: ['game-genie', 'raw'],
+  snes: ['game-genie', 'pro-action-replay', 'raw'],
+  gb: ['game-genie', 'pro-action-replay', 'raw'],
+  genesis: ['pro-action-replay', 'raw'],
+  n64: ['gameshark', 'raw'],
+  ps1: ['gameshark', 'raw'],
+  gba: ['gameshark', 'raw'],
+  sms: ['raw'],
+  gg: ['raw'],
+  pce: ['raw'],
+};
+
+/** NES Game Genie letters, by value */
+const NES_GENIE_LETTERS = 'APZLGITYEOXUKSVN';
+
+/** SNES Game Genie characters, by the hex digit they stand for */
+const SNES_GENIE_DIGITS = 'DF4709156BC8A23E';
+
+/** N64 GameShark code types (first byte) */
+const N64_GAMESHARK_TYPES = new Set([
+  '80', '81', '88', '89', 'A0', 'A1', 'D0', 'D1', 'D2', 'D3', 'DE', 'EE', 'F0', 'F1', 'FF', '50', '2A', '3C', 'CC', '04',
+]);
+
+/** PS1 GameShark code types (first byte) */
+const PS1_GAMESHARK_TYPES = new Set([
+  '30', '80', '10', '11', '20', '21', '50', 'C0', 'C1', 'C2', 'D0', 'D1', 'D2', 'D3', 'D4', 'D5', 'D6', 'E0', 'E1', 'E2', 'E3', '1F',
+]);
+
+/** Separators between the codes of one cheat */
+const LINE_SEPARATOR = /[\r\n+]+/;
+
+/**
+ * Parses hex digits.
+ */
+function hex(digits: string): number {
+  return parseInt(digits, 16);
+}
+
+/**
+ * Decodes an NES Game Genie code (6 or 8 letters).
+ */
+function parseNesGameGenie(code: string): CheatCodeLine | null {
+  if (!/^[APZLGITYEOXUKSVN]{6}([APZLGITYEOXUKSVN]{2})?$/.test(code)) return null;
+
+  const n = [...code].map((letter) => NES_GENIE_LETTERS.indexOf(letter));
+  const address =
+    0x8000 |
+    ((n[3] & 7) << 12) |
+    ((n[5] & 7) << 8) |
+    ((n[4] & 8) << 8) |
+    ((n[2] & 7) << 4) |
+    ((n[1] & 8) << 4) |
+    (n[4] & 7) |
+    (n[3] & 8);
+
+  if (code.length === 6) {
+    const value = ((n[1] & 7) << 4) | ((n[0] & 8) << 4) | (n[0] & 7) | (n[5] & 8);
+    return { code, address, value };
+  }
+
+  const value = ((n[1] & 7) << 4) | ((n[0] & 8) << 4) | (n[0] & 7) | (n[7] & 8);
+  const compare = ((n[7] & 7) << 4) | ((n[6] & 8) << 4) | (n[6] & 7) | (n[5] & 8);
+  return { code, address, value, compare };
+}
+
+/**
+ * Decodes an SNES Game Genie code (XXXX-XXXX; the dash tells it apart
+ * from a Pro Action Replay code).
+ */
+function parseSnesGameGenie(code: string): CheatCodeLine | null {
+  const match = /^([0-9A-F]{4})-([0-9A-F]{4})$/.exec(code);
+  if (!match) return null;
+
+  const digits = [...match[1] + match[2]].map((char) => SNES_GENIE_DIGITS.indexOf(char).toString(16)).join('');
+  const scrambled = hex(digits.slice(2));
+  const address =
+    ((scrambled & 0x003c00) << 10) |
+    ((scrambled & 0x00003c) << 14) |
+    ((scrambled & 0xf00000) >> 8) |
+    ((scrambled & 0x000003) << 10) |
+    ((scrambled & 0x00c000) >> 6) |
+    ((scrambled & 0x0f0000) >> 12) |
+    ((scrambled & 0x0003c0) >> 6);
+
+  return { code, address, value: hex(digits.slice(0, 2)) };
+}
+
+/**
+ * Decodes a Game Boy Game Genie code (XXX-XXX or XXX-XXX-XXX).
+ */
+function parseGbGameGenie(code: string): CheatCodeLine | null {
+  const match = /^([0-9A-F]{3})-?([0-9A-F]{3})(?:-?([0-9A-F]{3}))?$/.exec(code);
+  if (!match) return null;
+
+  const [, first, second, third] = match;
+  const normalized = [first, second, third].filter(Boolean).join('-');
+  const value = hex(first.slice(0, 2));
+  const address = ((hex(second[2]) ^ 0xf) << 12) | (hex(first[2]) << 8) | hex(second.slice(0, 2));
+
+  if (!third) return { code: normalized, address, value };
+
+  // Compare byte: first and last digit, rotated right by two bits, xor 0xBA
+  const rotated = hex(third[0] + third[2]);
+  const compare = (((rotated >> 2) | (rotated << 6)) & 0xff) ^ 0xba;
+  return { code: normalized, address, value, compare };
+}
+
+/**
+ * Parses a Game Genie code for a console.
+ */
+function parseGameGenie(code: string, console: ConsoleType): CheatCodeLine | null {
+  switch (console) {
+    case 'nes':
+      return parseNesGameGenie(code);
+    case 'snes':
+      return parseSnesGameGenie(code);
+    case 'gb':
+      return parseGbGameGenie(code);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Parses a Pro Action Replay code for a console.
+ */
+function parseProActionReplay(code: string, console: ConsoleType): CheatCodeLine | null {
+  switch (console) {
+    case 'snes': {
+      // AAAAAAVV
+      const match = /^([0-9A-F]{6}):?([0-9A-F]{2})$/.exec(code);
+      return match ? { code: match[1] + match[2], address: hex(match[1]), value: hex(match[2]) } : null;
+    }
+    case 'gb': {
+      // TTVVLLHH: type, value, then the address little-endian
+      const match = /^([0-9A-F]{2})([0-9A-F]{2})([0-9A-F]{2})([0-9A-F]{2})$/.exec(code);
+      return match ? { code, address: hex(match[4] + match[3]), value: hex(match[2]) } : null;
+    }
+    case 'genesis': {
+      // AAAAAA:VVVV
+      const match = /^([0-9A-F]{6}):([0-9A-F]{4})$/.exec(code);
+      return match ? { code, address: hex(match[1]), value: hex(match[2]) } : null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Parses a GameShark code for a console. GBA codes are encrypted, so only
+ * their shape is checked.
+ */
+function parseGameShark(code: string, console: ConsoleType): CheatCodeLine | null {
+  const normalized = code.replace(/\s+/, ' ');
+
+  if (console === 'gba') {
+    return /^[0-9A-F]{8} [0-9A-F]{8}$/.test(normalized) ? { code: normalized } : null;
+  }
+
+  const match = /^([0-9A-F]{2})([0-9A-F]{6}) ([0-9A-F]{4})$/.exec(normalized);
+  if (!match) return null;
+
+  const types = console === 'n64' ? N64_GAMESHARK_TYPES : console === 'ps1' ? PS1_GAMESHARK_TYPES : null;
+  if (!types?.has(match[1])) return null;
+
+  // N64 addresses are in the cached KSEG0 segment
+  const address = console === 'n64' ? (0x80000000 | hex(match[2])) >>> 0 : hex(match[2]);
+  return { code: normalized, address, value: hex(match[3]) };
+}
+
+/**
+ * Parses a raw memory write: address:value or address?compare:value.
+ */
+function parseRaw(code: string): CheatCodeLine | null {
+  const match = /^([0-9A-F]{1,8})(?:\?([0-9A-F]{1,8}))?:([0-9A-F]{1,8})$/.exec(code.replace(/\s+/g, ''));
+  if (!match) return null;
+
+  const [, address, compare, value] = match;
+  return {
+    code: compare ? `${address}?${compare}:${value}` : `${address}:${value}`,
+    address: hex(address),
+    value: hex(value),
+    compare: compare ? hex(compare) : undefined,
+  };
+}
+
+/**
+ * Parses one code in a given format.
+ */
+function parseLine(code: string, format: CheatFormat, console: ConsoleType): CheatCodeLine | null {
+  switch (format) {
+    case 'game-genie':
+      return parseGameGenie(code, console);
+    case 'pro-action-replay':
+      return parseProActionReplay(code, console);
+    case 'gameshark':
+      return parseGameShark(code, console);
+    case 'raw':
+      return parseRaw(code);
+  }
+}
+
+/**
+ * Lists the cheat formats a console supports.
+ *
+ * @param console - Console type
+ * @returns Formats, empty when the console's cores do not support cheats
+ */
+export function getCheatFormats(console: ConsoleType): readonly CheatFormat[] {
+  return CONSOLE_FORMATS[console] ?? [];
+}
+
+/**
+ * Parses and validates a cheat code. Every code of the cheat must be in
+ * the same format.
+ *
+ * @param input - Code as typed, one code per line or joined with '+'
+ * @param console - Console the cheat is for
+ * @returns Parsed cheat, or the reason it is not valid
+ *
+ * @example
+ * parseCheatCode('SXIOPO', 'nes').cheat?.lines[0]
+ * // { code: 'SXIOPO', address: 0x91D9, value: 0xAD }
+ */
+export function parseCheatCode(input: string, console: ConsoleType): CheatCodeResult {
+  const formats = getCheatFormats(console);
+  if (formats.length === 0) {
+    return { cheat: null, error: 'Cheats are not supported for this console' };
+  }
+
+  const codes = input
+    .split(LINE_SEPARATOR)
+    .map((code) => code.trim().toUpperCase())
+    .filter(Boolean);
+  if (codes.length === 0) {
+    return { cheat: null, error: 'Enter a code' };
+  }
+
+  // The first code decides the format
+  const format = formats.find((candidate) => parseLine(codes[0], candidate, console));
+  if (!format) {
+    return { cheat: null, error: `"${codes[0]}" is not a valid code for this console` };
+  }
+
+  const lines: CheatCodeLine[] = [];
+  for (const code of codes) {
+    const line = parseLine(code, format, console);
+    if (!line) {
+      return { cheat: null, error: `"${code}" is not a valid ${CHEAT_FORMAT_LABELS[format]} code` };
+    }
+    lines.push(line);
+  }
+
+  return { cheat: { format, lines, code: lines.map((line) => line.code).join('+') } };
+}
+
+/**
+ * Describes the memory write a code decodes to, e.g. '7E0DBF = 09' or
+ * '91D9 = AD if 05'.
+ *
+ * @param line - Parsed code
+ * @returns Description, or null for encrypted codes
+ */
+export function describeCheatLine(line: CheatCodeLine): string | null {
+  if (line.address === undefined || line.value === undefined) return null;
+
+  const toHex = (value: number, digits: number) => value.toString(16).toUpperCase().padStart(digits, '0');
+  const write = `${toHex(line.address, 4)} = ${toHex(line.value, 2)}`;
+  return line.compare === undefined ? write : `${write} if ${toHex(line.compare, 2)}`;
+}
+
+/**
+ * Reads the cheats of a RetroArch `.cht` file:
+ *
+ *   cheats = 2
+ *   cheat0_desc = "Infinite Lives"
+ *   cheat0_code = "SXIOPO"
+ *   cheat0_enable = false
+ *
+ * Cheats without a code are skipped; codes are not validated here.
+ *
+ * @param text - File contents
+ * @returns Cheats in file order
+ */
+export function parseChtFile(text: string): ChtFileEntry[] {
+  const values = new Map<string, string>();
+
+  for (const line of text.split(/\r?\n/)) {
+    const match = /^\s*(cheat\d+_[a-z_]+)\s*=\s*(?:"([^"]*)"|(\S*))/i.exec(line);
+    if (match) values.set(match[1].toLowerCase(), match[2] ?? match[3]);
+  }
+
+  const count = Number(/^\s*cheats\s*=\s*"?(\d+)/im.exec(text)?.[1] ?? 0);
+  const entries: ChtFileEntry[] = [];
+
+  for (let index = 0; index < count; index++) {
+    const code = values.get(`cheat${index}_code`)?.trim();
+    if (!code) continue;
+
+    entries.push({
+      description: values.get(`cheat${index}_desc`)?.trim() || `Cheat ${index + 1}`,
+      code,
+      enabled: values.get(`cheat${index}_enable`) === 'true',
+    });
+  }
+
+  return entries;
+}
@@ -0,0 +1,467 @@
+/**
+ * Control Mappings
+ * Built-in keyboard/gamepad layouts, user overrides and their conversion
+ * into EmulatorJS `EJS_defaultControls`.
+ *
+ * Overrides are stored per console, device and player in
+ * `UserSettings.controlMappings`. Keyboard mappings store
+ * `KeyboardEvent.code` values; gamepad mappings store standard-layout
+ * button indices, or an axis and direction (with `button: -1`).
+ *
+ * @module services/emulator/controlMappings
+ */
+
+import { CONSOLE_CONFIG } from '@/types';
+import type {
+  ConsoleType,
+  ConsoleControlMappings,
+  ControlDevice,
+  ControlMapping,
+  ControlPlayer,
+  GamepadMapping,
+  InputButton,
+  KeyboardMapping,
+} from '@/types';
+
+/** EmulatorJS control table: player index -> RetroArch button index -> binding */
+export type EmulatorControls = Record<number, Record<number, { value: string; value2: string }>>;
+
+/**
+ * Mapping that is bound to the same input as another button
+ */
+export interface ControlConflict {
+  device: ControlDevice;
+  player: ControlPlayer;
+  button: InputButton;
+  /** Human-readable description of what else uses the input */
+  reason: string;
+}
+
+/** All players, in EmulatorJS order */
+export const CONTROL_PLAYERS: readonly ControlPlayer[] = ['player1', 'player2', 'player3', 'player4'];
+
+/**
+ * RetroArch RetroPad index for each input button
+ */
+const RETROPAD_INDEX: Record<InputButton, number> = {
+  b: 0,
+  y: 1,
+  select: 2,
+  start: 3,
+  up: 4,
+  down: 5,
+  left: 6,
+  right: 7,
+  a: 8,
+  x: 9,
+  l: 10,
+  r: 11,
+  l2: 12,
+  r2: 13,
+  l3: 14,
+  r3: 15,
+};
+
+/** D-pad buttons shared by every console */
+const DPAD_CONTROLS: readonly { button: InputButton; label: string }[] = [
+  { button: 'up', label: 'Up' },
+  { button: 'down', label: 'Down' },
+  { button: 'left', label: 'Left' },
+  { button: 'right', label: 'Right' },
+];
+
+/**
+ * Default player 1 keyboard layout
+ */
+const DEFAULT_KEYBOARD: ControlMapping = {
+  b: { key: 'KeyZ', label: 'Z' },
+  y: { key: 'KeyA', label: 'A' },
+  a: { key: 'KeyX', label: 'X' },
+  x: { key: 'KeyS', label: 'S' },
+  up: { key: 'ArrowUp', label: '↑' },
+  down: { key: 'ArrowDown', label: '↓' },
+  left: { key: 'ArrowLeft', label: '←' },
+  right: { key: 'ArrowRight', label: '→' },
+  select: { key: 'ShiftLeft', label: 'Shift' },
+  start: { key: 'Enter', label: 'Enter' },
+  l: { key: 'KeyQ', label: 'Q' },
+  r: { key: 'KeyE', label: 'E' },
+  l2: { key: 'Tab', label: 'Tab' },
+  r2: { key: 'KeyR', label: 'R' },
+};
+
+/**
+ * Default gamepad layout (standard mapping, PlayStation face buttons):
+ * BUTTON_1 = Cross, BUTTON_2 = Circle, BUTTON_3 = Square, BUTTON_4 = Triangle
+ */
+const DEFAULT_GAMEPAD: ControlMapping = {
+  b: { button: 0 },
+  a: { button: 1 },
+  y: { button: 2 },
+  x: { button: 3 },
+  l: { button: 4 },
+  r: { button: 5 },
+  l2: { button: 6 },
+  r2: { button: 7 },
+  select: { button: 8 },
+  start: { button: 9 },
+  l3: { button: 10 },
+  r3: { button: 11 },
+  up: { button: 12 },
+  down: { button: 13 },
+  left: { button: 14 },
+  right: { button: 15 },
+};
+
+/**
+ * Analog stick bindings that are not remappable (RetroArch indices 16-23).
+ * Keyboard keys only apply to player 1.
+ */
+const ANALOG_STICK_CONTROLS: Record<number, { key: string; value2: string; label: string }> = {
+  16: { key: 'KeyD', value2: 'LEFT_STICK_X:+1', label: 'Left stick right' },
+  17: { key: 'KeyG', value2: 'LEFT_STICK_X:-1', label: 'Left stick left' },
+  18: { key: 'KeyV', value2: 'LEFT_STICK_Y:+1', label: 'Left stick down' },
+  19: { key: 'KeyB', value2: 'LEFT_STICK_Y:-1', label: 'Left stick up' },
+  20: { key: 'KeyL', value2: 'RIGHT_STICK_X:+1', label: 'Right stick right' },
+  21: { key: 'KeyJ', value2: 'RIGHT_STICK_X:-1', label: 'Right stick left' },
+  22: { key: 'KeyK', value2: 'RIGHT_STICK_Y:+1', label: 'Right stick down' },
+  23: { key: 'KeyI', value2: 'RIGHT_STICK_Y:-1', label: 'Right stick up' },
+};
+
+/** Keys handled by the player itself (see EmulatorContainer) */
+const RESERVED_KEYS: Record<string, string> = {
+  Escape: 'Reserved for the emulator menu',
+  KeyF: 'Reserved for fullscreen',
+};
+
+/** EmulatorJS gamepad button names, indexed by standard-mapping button */
+const GAMEPAD_BUTTON_NAMES = [
+  'BUTTON_1',
+  'BUTTON_2',
+  'BUTTON_3',
+  'BUTTON_4',
+  'LEFT_TOP_SHOULDER',
+  'RIGHT_TOP_SHOULDER',
+  'LEFT_BOTTOM_SHOULDER',
+  'RIGHT_BOTTOM_SHOULDER',
+  'SELECT',
+  'START',
+  'LEFT_STICK',
+  'RIGHT_STICK',
+  'DPAD_UP',
+  'DPAD_DOWN',
+  'DPAD_LEFT',
+  'DPAD_RIGHT',
+];
+
+/** Display labels for standard-mapping buttons */
+const GAMEPAD_BUTTON_LABELS = [
+  'Cross',
+  'Circle',
+  'Square',
+  'Triangle',
+  'L1',
+  'R1',
+  'L2',
+  'R2',
+  'Select',
+  'Start',
+  'L3',
+  'R3',
+  'D-Pad Up',
+  'D-Pad Down',
+  'D-Pad Left',
+  'D-Pad Right',
+];
+
+/** EmulatorJS axis names, indexed by standard-mapping axis */
+const GAMEPAD_AXIS_NAMES = ['LEFT_STICK_X', 'LEFT_STICK_Y', 'RIGHT_STICK_X', 'RIGHT_STICK_Y'];
+
+/** Display labels for standard-mapping axes */
+const GAMEPAD_AXIS_LABELS = ['Left Stick X', 'Left Stick Y', 'Right Stick X', 'Right Stick Y'];
+
+/** EmulatorJS key names for non-alphanumeric KeyboardEvent codes */
+const EJS_KEY_NAMES: Record<string, string> = {
+  Backspace: 'backspace',
+  Tab: 'tab',
+  Enter: 'enter',
+  ShiftLeft: 'shift',
+  ShiftRight: 'shift',
+  ControlLeft: 'ctrl',
+  ControlRight: 'ctrl',
+  AltLeft: 'alt',
+  AltRight: 'alt',
+  CapsLock: 'caps lock',
+  Space: 'space',
+  PageUp: 'page up',
+  PageDown: 'page down',
+  End: 'end',
+  Home: 'home',
+  ArrowLeft: 'left arrow',
+  ArrowUp: 'up arrow',
+  ArrowRight: 'right arrow',
+  ArrowDown: 'down arrow',
+  Insert: 'insert',
+  Delete: 'delete',
+  NumpadMultiply: 'multiply',
+  NumpadAdd: 'add',
+  NumpadSubtract: 'subtract',
+  NumpadDecimal: 'decimal point',
+  NumpadDivide: 'divide',
+  Semicolon: 'semi-colon',
+  Equal: 'equal sign',
+  Comma: 'comma',
+  Minus: 'dash',
+  Period: 'period',
+  Slash: 'forward slash',
+  Backquote: 'grave accent',
+  BracketLeft: 'open bracket',
+  Backslash: 'back slash',
+  BracketRight: 'close braket',
+  Quote: 'single quote',
+};
+
+/**
+ * Converts a KeyboardEvent code to the key name EmulatorJS expects.
+ * Returns null for keys EmulatorJS cannot bind.
+ */
+function toEjsKeyName(code: string): string | null {
+  if (/^Key[A-Z]$/.test(code)) return code.slice(3).toLowerCase();
+  if (/^Digit[0-9]$/.test(code)) return code.slice(5);
+  if (/^Numpad[0-9]$/.test(code)) return `numpad ${code.slice(6)}`;
+  if (/^F([1-9]|1[0-2])$/.test(code)) return code.toLowerCase();
+  return EJS_KEY_NAMES[code] ?? null;
+}
+
+/**
+ * Converts a gamepad mapping to the EmulatorJS binding string.
+ */
+function toEjsGamepadName(mapping: GamepadMapping): string {
+  if (mapping.axis !== undefined) {
+    const axis = GAMEPAD_AXIS_NAMES[mapping.axis];
+    return axis ? `${axis}:${mapping.axisDirection === -1 ? '-1' : '+1'}` : '';
+  }
+  return GAMEPAD_BUTTON_NAMES[mapping.button] ?? '';
+}
+
+/**
+ * Identity of a mapping, used for conflict detection.
+ */
+function mappingId(mapping: KeyboardMapping | GamepadMapping): string {
+  if (isGamepadMapping(mapping)) {
+    return mapping.axis !== undefined ? `axis:${mapping.axis}:${mapping.axisDirection}` : `button:${mapping.button}`;
+  }
+  // Left/right modifier variants are the same key to EmulatorJS
+  return `key:${toEjsKeyName(mapping.key) ?? mapping.key}`;
+}
+
+/**
+ * Checks whether a mapping is a gamepad mapping.
+ *
+ * @param mapping - Keyboard or gamepad mapping
+ * @returns True for gamepad mappings
+ */
+export function isGamepadMapping(mapping: KeyboardMapping | GamepadMapping): mapping is GamepadMapping {
+  return 'button' in mapping;
+}
+
+/**
+ * Gets the remappable buttons of a console.
+ *
+ * @param console - Console type
+ * @returns D-pad and registry buttons with their console-specific labels
+ */
+export function getConsoleControls(console: ConsoleType): readonly { button: InputButton; label: string }[] {
+  return [...DPAD_CONTROLS, ...CONSOLE_CONFIG[console].buttons];
+}
+
+/**
+ * Gets the built-in mapping of a device for a player.
+ * Only player 1 has default keyboard bindings.
+ *
+ * @param device - Input device
+ * @param player - Player slot
+ * @returns The default control mapping
+ */
+export function getDefaultMapping(device: ControlDevice, player: ControlPlayer): ControlMapping {
+  if (device === 'gamepad') return DEFAULT_GAMEPAD;
+  return player === 'player1' ? DEFAULT_KEYBOARD : {};
+}
+
+/**
+ * Gets the effective mapping of a device for a player: defaults with the
+ * user's overrides applied.
+ *
+ * @param overrides - The console's stored overrides
+ * @param device - Input device
+ * @param player - Player slot
+ * @returns The effective control mapping
+ */
+export function getEffectiveMapping(
+  overrides: ConsoleControlMappings | undefined,
+  device: ControlDevice,
+  player: ControlPlayer
+): ControlMapping {
+  return { ...getDefaultMapping(device, player), ...overrides?.[device]?.[player] };
+}
+
+/**
+ * Returns a copy of the overrides with one button rebound.
+ *
+ * @param overrides - The console's stored overrides
+ * @param device - Input device
+ * @param player - Player slot
+ * @param button - Button to rebind
+ * @param mapping - New binding
+ * @returns Updated overrides
+ */
+export function setButtonMapping(
+  overrides: ConsoleControlMappings | undefined,
+  device: ControlDevice,
+  player: ControlPlayer,
+  button: InputButton,
+  mapping: KeyboardMapping | GamepadMapping
+): ConsoleControlMappings {
+  const players = overrides?.[device] ?? { player1: {} };
+  return {
+    ...overrides,
+    [device]: {
+      ...players,
+      [player]: { ...players[player], [button]: mapping },
+    },
+  };
+}
+
+/**
+ * Finds buttons of a console that share an input with another button.
+ * Keyboard bindings are shared by all players; each player has their own
+ * gamepad, so gamepad bindings only conflict within a player.
+ *
+ * @param console - Console type
+ * @param overrides - The console's stored overrides
+ * @returns Every conflicting button
+ */
+export function findControlConflicts(
+  console: ConsoleType,
+  overrides: ConsoleControlMappings | undefined
+): ControlConflict[] {
+  const buttons = getConsoleControls(console);
+  const labelOf = (button: InputButton) => buttons.find((b) => b.button === button)?.label ?? button;
+  const playerName = (player: ControlPlayer) => `Player ${player.slice(-1)}`;
+  const conflicts: ControlConflict[] = [];
+
+  for (const device of ['keyboard', 'gamepad'] as const) {
+    const scopes = device === 'keyboard' ? [CONTROL_PLAYERS] : CONTROL_PLAYERS.map((player) => [player]);
+
+    for (const players of scopes) {
+      const used = new Map<string, { player: ControlPlayer; button: InputButton }[]>();
+
+      for (const player of players) {
+        const mapping = getEffectiveMapping(overrides, device, player);
+        for (const { button } of buttons) {
+          const binding = mapping[button];
+          if (!binding) continue;
+
+          if (!isGamepadMapping(binding) && RESERVED_KEYS[binding.key]) {
+            conflicts.push({ device, player, button, reason: RESERVED_KEYS[binding.key] });
+          }
+
+          const id = mappingId(binding);
+          used.set(id, [...(used.get(id) ?? []), { player, button }]);
+        }
+      }
+
+      // Player 1 keyboard keys are also used by the analog sticks
+      if (device === 'keyboard') {
+        for (const stick of Object.values(ANALOG_STICK_CONTROLS)) {
+          for (const entry of used.get(mappingId({ key: stick.key })) ?? []) {
+            conflicts.push({ device, ...entry, reason: `Also bound to ${stick.label}` });
+          }
+        }
+      }
+
+      for (const entries of used.values()) {
+        if (entries.length < 2) continue;
+        for (const entry of entries) {
+          const others = entries
+            .filter((other) => other !== entry)
+            .map((other) =>
+              other.player === entry.player
+                ? labelOf(other.button)
+                : `${playerName(other.player)} ${labelOf(other.button)}`
+            );
+          conflicts.push({ device, ...entry, reason: `Also bound to ${others.join(', ')}` });
+        }
+      }
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * Builds the EmulatorJS control table from the defaults and a console's
+ * overrides. Buttons the console does not have keep their defaults.
+ *
+ * @param overrides - The console's stored overrides
+ * @returns Value for `window.EJS_defaultControls`
+ */
+export function buildEmulatorControls(overrides: ConsoleControlMappings | undefined): EmulatorControls {
+  const controls: EmulatorControls = {};
+
+  CONTROL_PLAYERS.forEach((player, playerIndex) => {
+    const keyboard = getEffectiveMapping(overrides, 'keyboard', player);
+    const gamepad = getEffectiveMapping(overrides, 'gamepad', player);
+    const table: Record<number, { value: string; value2: string }> = {};
+
+    for (const [button, index] of Object.entries(RETROPAD_INDEX) as [InputButton, number][]) {
+      const key = keyboard[button];
+      const pad = gamepad[button];
+      table[index] = {
+        value: key && !isGamepadMapping(key) ? (toEjsKeyName(key.key) ?? '') : '',
+        value2: pad && isGamepadMapping(pad) ? toEjsGamepadName(pad) : '',
+      };
+    }
+
+    for (const [index, stick] of Object.entries(ANALOG_STICK_CONTROLS)) {
+      table[Number(index)] = {
+        value: playerIndex === 0 ? (toEjsKeyName(stick.key) ?? '') : '',
+        value2: stick.value2,
+      };
+    }
+
+    controls[playerIndex] = table;
+  });
+
+  return controls;
+}
+
+/**
+ * Converts a key press into a keyboard mapping.
+ *
+ * @param event - The captured keyboard event
+ * @returns The mapping, or null if the key cannot be bound
+ */
+export function keyboardEventToMapping(event: KeyboardEvent): KeyboardMapping | null {
+  if (!toEjsKeyName(event.code)) return null;
+
+  const label = event.key.length === 1 ? event.key.toUpperCase() : event.key.replace(/^Arrow/, '');
+  return { key: event.code, label: event.code === 'Space' ? 'Space' : label };
+}
+
+/**
+ * Formats a mapping for display.
+ *
+ * @param mapping - Keyboard or gamepad mapping
+ * @returns Display label, or an empty string if unbound
+ */
+export function formatControlMapping(mapping: KeyboardMapping | GamepadMapping | undefined): string {
+  if (!mapping) return '';
+  if (!isGamepadMapping(mapping)) return mapping.label ?? mapping.key;
+
+  if (mapping.axis !== undefined) {
+    const axis = GAMEPAD_AXIS_LABELS[mapping.axis] ?? `Axis ${mapping.axis}`;
+    return `${axis} ${mapping.axisDirection === -1 ? '−' : '+'}`;
+  }
+  return GAMEPAD_BUTTON_LABELS[mapping.button] ?? `Button ${mapping.button + 1}`;
+}
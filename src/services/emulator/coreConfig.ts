@@ -1,120 +1,30 @@
 /**
  * Emulator Core Configuration
- * Defines EmulatorJS core configurations and helper functions.
+ * Helper functions over the console registry and CDN asset URLs.
  *
  * @module services/emulator/coreConfig
  */
 
-import type { ConsoleType, ConsoleConfiguration, BiosFile } from '@/types';
+import { CONSOLE_CONFIG, SUPPORTED_CONSOLES, isConsoleType } from '@/types';
+import type { ConsoleType, ConsoleConfiguration, BiosFile, EmulatorCore } from '@/types';
+import { EMULATORJS_DATA_PATH, EMULATORJS_VERSION } from '@/utils/constants';
 
 /** Base URL for CDN assets */
 export const CDN_BASE_URL = 'https://cdn.komplexaci.cz';
 
-/** Path to EmulatorJS data files */
-export const EMULATORJS_DATA_PATH = '/data/';
+/**
+ * Pinned EmulatorJS release and its data path, re-exported for emulator
+ * consumers. They live in utils/constants so the database can stamp saves
+ * with the version without importing the emulator layer.
+ */
+export { EMULATORJS_VERSION, EMULATORJS_DATA_PATH };
 
 /**
- * Console configuration with EmulatorJS core mappings
- * Each console has specific core and BIOS requirements
+ * Console registry, re-exported for emulator consumers.
+ * The table itself lives in types/console.types so that every consumer
+ * reads cores, BIOS sets and button layouts from the same place.
  */
-export const CONSOLE_CONFIG: Record<ConsoleType, ConsoleConfiguration> = {
-  ps1: {
-    name: 'PlayStation 1',
-    core: 'pcsx_rearmed',
-    extensions: ['.bin', '.cue', '.iso', '.pbp', '.chd'],
-    requiresBios: true,
-    biosFiles: [
-      {
-        name: 'scph5501.bin',
-        md5: '490f666e1afb15b7362b406ed1cea246',
-        description: 'PlayStation BIOS (US)',
-        required: true,
-      },
-      {
-        name: 'scph5500.bin',
-        md5: '8dd7d5296a650fac7319bce665a6a53c',
-        description: 'PlayStation BIOS (JP)',
-        required: false,
-      },
-      {
-        name: 'scph5502.bin',
-        md5: '32736f17079d0b2b7024407c39bd3050',
-        description: 'PlayStation BIOS (EU)',
-        required: false,
-      },
-    ],
-    biosPath: 'bios/ps1/',
-    icon: 'ps1.svg',
-    color: '#003087',
-    description: 'Sony PlayStation (1994)',
-    releaseYear: 1994,
-    manufacturer: 'Sony',
-  },
-  nes: {
-    name: 'NES / Famicom',
-    core: 'fceumm',
-    extensions: ['.nes', '.fds'],
-    requiresBios: false,
-    icon: 'nes.svg',
-    color: '#E60012',
-    description: 'Nintendo Entertainment System (1983)',
-    releaseYear: 1983,
-    manufacturer: 'Nintendo',
-  },
-  snes: {
-    name: 'Super Nintendo',
-    core: 'snes9x',
-    extensions: ['.sfc', '.smc'],
-    requiresBios: false,
-    icon: 'snes.svg',
-    color: '#7B5AA6',
-    description: 'Super Nintendo Entertainment System (1990)',
-    releaseYear: 1990,
-    manufacturer: 'Nintendo',
-  },
-  n64: {
-    name: 'Nintendo 64',
-    core: 'mupen64plus_next',
-    extensions: ['.z64', '.n64', '.v64'],
-    requiresBios: false,
-    icon: 'n64.svg',
-    color: '#009E60',
-    description: 'Nintendo 64 (1996)',
-    releaseYear: 1996,
-    manufacturer: 'Nintendo',
-  },
-  gb: {
-    name: 'Game Boy / Color',
-    core: 'gambatte',
-    extensions: ['.gb', '.gbc'],
-    requiresBios: false,
-    icon: 'gb.svg',
-    color: '#8B956D',
-    description: 'Nintendo Game Boy / Game Boy Color (1989)',
-    releaseYear: 1989,
-    manufacturer: 'Nintendo',
-  },
-  gba: {
-    name: 'Game Boy Advance',
-    core: 'mgba',
-    extensions: ['.gba'],
-    requiresBios: false,
-    biosFiles: [
-      {
-        name: 'gba_bios.bin',
-        md5: 'a860e8c0b6d573d191e4ec7db1b1e4f6',
-        description: 'GBA BIOS (optional but recommended)',
-        required: false,
-      },
-    ],
-    biosPath: 'bios/gba/',
-    icon: 'gba.svg',
-    color: '#5A2D82',
-    description: 'Nintendo Game Boy Advance (2001)',
-    releaseYear: 2001,
-    manufacturer: 'Nintendo',
-  },
-};
+export { CONSOLE_CONFIG };
 
 /**
  * Gets the console configuration for a specific console type.
@@ -152,18 +62,25 @@ export function getRomUrl(romPath: string): string {
  */
 export function getBiosUrl(console: ConsoleType, biosFile: string): string {
   const config = getConsoleConfig(console);
-  const biosPath = config.biosPath ?? `bios/${console}/`;
-  // Remove leading slash if present
-  const cleanPath = biosPath.startsWith('/') ? biosPath.slice(1) : biosPath;
-  return `${CDN_BASE_URL}/${cleanPath}${biosFile}`;
+  const biosPath = config.biosPath ?? `roms/bios/${console}`;
+  // Remove leading and trailing slashes if present
+  const cleanPath = biosPath.replace(/^\/+|\/+$/g, '');
+  return `${CDN_BASE_URL}/${cleanPath}/${biosFile}`;
 }
 
 /**
- * Gets the EmulatorJS data path.
+ * Gets the EmulatorJS data URL.
+ * Defaults to the copy of the pinned release mirrored to our CDN;
+ * VITE_EMULATORJS_DATA_URL overrides it (e.g. with
+ * https://cdn.emulatorjs.org/<version>/data/ before a release is mirrored).
  *
- * @returns The path to EmulatorJS data files
+ * @returns The URL of the EmulatorJS data directory, with a trailing slash
  */
 export function getEmulatorDataPath(): string {
+  const override = import.meta.env.VITE_EMULATORJS_DATA_URL;
+  if (override) {
+    return override.endsWith('/') ? override : `${override}/`;
+  }
   return `${CDN_BASE_URL}${EMULATORJS_DATA_PATH}`;
 }
 
@@ -173,10 +90,21 @@ export function getEmulatorDataPath(): string {
  * @param console - The console type
  * @returns The EmulatorJS core name
  */
-export function getCoreName(console: ConsoleType): string {
+export function getCoreName(console: ConsoleType): EmulatorCore {
   return getConsoleConfig(console).core;
 }
 
+/**
+ * Gets the cores to try for a console, primary core first.
+ *
+ * @param console - The console type
+ * @returns The primary core followed by its fallbacks
+ */
+export function getConsoleCores(console: ConsoleType): readonly EmulatorCore[] {
+  const config = getConsoleConfig(console);
+  return [config.core, ...config.fallbackCores];
+}
+
 /**
  * Checks if a console requires BIOS files.
  *
@@ -270,7 +198,7 @@ export function getConsoleName(console: ConsoleType): string {
  * @returns Array of all console types
  */
 export function getAllConsoleTypes(): ConsoleType[] {
-  return Object.keys(CONSOLE_CONFIG) as ConsoleType[];
+  return [...SUPPORTED_CONSOLES];
 }
 
 /**
@@ -280,5 +208,5 @@ export function getAllConsoleTypes(): ConsoleType[] {
  * @returns True if the value is a valid console type
  */
 export function isValidConsoleType(value: string): value is ConsoleType {
-  return Object.keys(CONSOLE_CONFIG).includes(value);
+  return isConsoleType(value);
 }
@@ -0,0 +1,95 @@
+/**
+ * Gamepad Assignment
+ * Matches the connected gamepads to player slots. Players bound to a
+ * controller (by Gamepad.id) get that controller while it is connected;
+ * the others take the remaining controllers in connection order, like a
+ * console assigning pads to ports.
+ *
+ * @module services/emulator/gamepadAssignment
+ */
+
+import type { ControlPlayer, GamepadAssignments } from '@/types';
+import { CONTROL_PLAYERS } from './controlMappings';
+
+/**
+ * A connected gamepad
+ */
+export interface ConnectedGamepad {
+  /** Index in navigator.getGamepads() */
+  index: number;
+  /** Gamepad.id, which names the controller model */
+  id: string;
+}
+
+/**
+ * The gamepad each player uses (null = none)
+ */
+export type ResolvedGamepads = Record<ControlPlayer, ConnectedGamepad | null>;
+
+/** EmulatorJS value for a player slot without a gamepad */
+const EJS_NOT_CONNECTED = 'notconnected';
+
+/**
+ * Assigns the connected gamepads to the player slots.
+ * Several controllers of the same model share an ID, so bound players
+ * take them in index order.
+ *
+ * @param assignments - Gamepad ID bound to each player
+ * @param connected - Connected gamepads
+ * @returns The gamepad of each player
+ */
+export function resolveGamepadAssignments(
+  assignments: GamepadAssignments,
+  connected: readonly ConnectedGamepad[]
+): ResolvedGamepads {
+  const available = [...connected].sort((a, b) => a.index - b.index);
+  const resolved = Object.fromEntries(CONTROL_PLAYERS.map((player) => [player, null])) as ResolvedGamepads;
+
+  const take = (match: (gamepad: ConnectedGamepad) => boolean) => {
+    const position = available.findIndex(match);
+    return position === -1 ? null : available.splice(position, 1)[0];
+  };
+
+  // Bound players first; their slot stays empty while the controller is unplugged
+  for (const player of CONTROL_PLAYERS) {
+    const id = assignments[player];
+    if (id !== undefined) {
+      resolved[player] = take((gamepad) => gamepad.id === id);
+    }
+  }
+
+  for (const player of CONTROL_PLAYERS) {
+    if (assignments[player] === undefined) {
+      resolved[player] = take(() => true);
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Converts resolved gamepads to EmulatorJS's per-player gamepad selection.
+ *
+ * @param resolved - The gamepad of each player
+ * @returns Value for `EJS_emulator.gamepadSelection`
+ */
+export function toEjsGamepadSelection(resolved: ResolvedGamepads): string[] {
+  return CONTROL_PLAYERS.map((player) => {
+    const gamepad = resolved[player];
+    return gamepad ? `${gamepad.id}_${gamepad.index}` : EJS_NOT_CONNECTED;
+  });
+}
+
+/**
+ * Shortens a Gamepad.id for display, dropping vendor and product IDs.
+ *
+ * @param id - The Gamepad.id
+ * @returns Readable controller name
+ */
+export function formatGamepadName(id: string): string {
+  const name = id.replace(/\s*\(.*?\)\s*/g, ' ').trim();
+  if (name.length > 30) {
+    return `${name.substring(0, 27)}...`;
+  }
+  return name || 'Controller';
+}
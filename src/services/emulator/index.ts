@@ -8,12 +8,14 @@
 export {
   CDN_BASE_URL,
   EMULATORJS_DATA_PATH,
+  EMULATORJS_VERSION,
   CONSOLE_CONFIG,
   getConsoleConfig,
   getRomUrl,
   getBiosUrl,
   getEmulatorDataPath,
   getCoreName,
+  getConsoleCores,
   requiresBios,
   getRequiredBiosFiles,
   getAllBiosFiles,
@@ -25,3 +27,85 @@ export {
   getAllConsoleTypes,
   isValidConsoleType,
 } from './coreConfig';
+
+export {
+  CONTROL_PLAYERS,
+  isGamepadMapping,
+  getConsoleControls,
+  getDefaultMapping,
+  getEffectiveMapping,
+  setButtonMapping,
+  findControlConflicts,
+  buildEmulatorControls,
+  keyboardEventToMapping,
+  formatControlMapping,
+  type ControlConflict,
+  type EmulatorControls,
+} from './controlMappings';
+
+export {
+  ROM_SNIFF_BYTES,
+  getFileExtension,
+  detectConsoleFromFileName,
+  detectConsoleFromHeader,
+  detectConsole,
+} from './romDetection';
+
+export {
+  MAX_HASHED_ROM_SIZE,
+  parseRomHeader,
+  normalizeN64ByteOrder,
+  inspectRom,
+  type RomInspection,
+  type RomHeader,
+  type RomChecksum,
+  type NesRomHeader,
+  type FdsRomHeader,
+  type SnesRomHeader,
+  type N64RomHeader,
+  type GbRomHeader,
+  type GbaRomHeader,
+  type N64ByteOrder,
+  type NesTvSystem,
+  type SnesMapMode,
+} from './romInspection';
+
+export {
+  SCREENSHOT_MAX_SIZE,
+  findEmulatorCanvas,
+  captureScreenshot,
+} from './screenshot';
+
+export {
+  CHEAT_FORMAT_LABELS,
+  getCheatFormats,
+  parseCheatCode,
+  describeCheatLine,
+  parseChtFile,
+  type CheatCodeLine,
+  type ParsedCheatCode,
+  type CheatCodeResult,
+  type ChtFileEntry,
+} from './cheatCodes';
+
+export {
+  SHADER_OPTIONS,
+  CONSOLE_SHADER_PRESETS,
+  CUSTOM_SHADERS,
+  getShaderOption,
+  getPresetShader,
+  resolveShader,
+  toEjsShaderName,
+  type ShaderLook,
+  type ShaderOption,
+  type ShaderSettings,
+  type EjsShaderDefinition,
+} from './shaders';
+
+export {
+  resolveGamepadAssignments,
+  toEjsGamepadSelection,
+  formatGamepadName,
+  type ConnectedGamepad,
+  type ResolvedGamepads,
+} from './gamepadAssignment';
@@ -0,0 +1,154 @@
+/**
+ * ROM Console Detection
+ * Works out which console a ROM file belongs to from its extension and,
+ * for ambiguous extensions or unknown files, from magic bytes in its header.
+ *
+ * @module services/emulator/romDetection
+ */
+
+import type { ConsoleType } from '@/types';
+
+/** Number of leading bytes needed by detectConsoleFromHeader */
+export const ROM_SNIFF_BYTES = 0x9400;
+
+/**
+ * Console for each unambiguous ROM extension
+ */
+const EXTENSION_TO_CONSOLE: Record<string, ConsoleType> = {
+  '.nes': 'nes',
+  '.unf': 'nes',
+  '.fds': 'nes',
+  '.sfc': 'snes',
+  '.smc': 'snes',
+  '.z64': 'n64',
+  '.n64': 'n64',
+  '.v64': 'n64',
+  '.gb': 'gb',
+  '.gbc': 'gb',
+  '.gba': 'gba',
+  '.nds': 'nds',
+  '.md': 'genesis',
+  '.gen': 'genesis',
+  '.smd': 'genesis',
+  '.sms': 'sms',
+  '.gg': 'gg',
+  '.a26': 'atari2600',
+  '.a78': 'atari7800',
+  '.pce': 'pce',
+  '.zip': 'arcade',
+};
+
+/**
+ * Fallback console for extensions shared by several consoles, used when
+ * the header does not identify the file. Disc images default to PS1.
+ */
+const AMBIGUOUS_EXTENSION_DEFAULTS: Record<string, ConsoleType> = {
+  '.bin': 'ps1',
+  '.cue': 'ps1',
+  '.iso': 'ps1',
+  '.img': 'ps1',
+  '.pbp': 'ps1',
+  '.chd': 'ps1',
+};
+
+/** Nintendo logo bytes at the start of the GB (0x104) logo block */
+const GB_LOGO = [0xce, 0xed, 0x66, 0x66, 0xcc, 0x0d];
+
+/** Nintendo logo bytes at the start of the GBA (0x04) and NDS (0xC0) logo block */
+const GBA_LOGO = [0x24, 0xff, 0xae, 0x51, 0x69, 0x9a];
+
+/** N64 first word in big-endian, byte-swapped and little-endian order */
+const N64_MAGICS = [
+  [0x80, 0x37, 0x12, 0x40],
+  [0x37, 0x80, 0x40, 0x12],
+  [0x40, 0x12, 0x37, 0x80],
+];
+
+/** Locations of the SMS/GG "TMR SEGA" header */
+const SEGA_8BIT_HEADER_OFFSETS = [0x7ff0, 0x3ff0, 0x1ff0];
+
+/**
+ * Checks whether bytes at an offset equal the expected bytes.
+ */
+function bytesAt(data: Uint8Array, offset: number, expected: readonly number[]): boolean {
+  if (offset + expected.length > data.length) return false;
+  return expected.every((byte, i) => data[offset + i] === byte);
+}
+
+/**
+ * Checks whether an ASCII string appears at an offset.
+ */
+function asciiAt(data: Uint8Array, offset: number, text: string): boolean {
+  return bytesAt(data, offset, Array.from(text, (char) => char.charCodeAt(0)));
+}
+
+/**
+ * Gets the lowercase extension (with dot) of a file name.
+ */
+export function getFileExtension(fileName: string): string {
+  return fileName.toLowerCase().match(/\.[^.]+$/)?.[0] ?? '';
+}
+
+/**
+ * Detects the console from a file extension alone.
+ *
+ * @param fileName - ROM file name
+ * @returns The console, or null if the extension is not a known ROM extension
+ */
+export function detectConsoleFromFileName(fileName: string): ConsoleType | null {
+  const ext = getFileExtension(fileName);
+  return EXTENSION_TO_CONSOLE[ext] ?? AMBIGUOUS_EXTENSION_DEFAULTS[ext] ?? null;
+}
+
+/**
+ * Detects the console from magic bytes in a ROM header.
+ * Only consoles with a recognisable header are detected; SNES, PC Engine
+ * and Atari 2600 ROMs have none and rely on their extension.
+ *
+ * @param header - The first ROM_SNIFF_BYTES bytes of the file (or fewer)
+ * @returns The console, or null if the header is not recognised
+ */
+export function detectConsoleFromHeader(header: Uint8Array): ConsoleType | null {
+  if (asciiAt(header, 0, 'NES\x1a')) return 'nes';
+  if (asciiAt(header, 0, 'FDS\x1a') || asciiAt(header, 1, '*NINTENDO-HVC*')) return 'nes';
+  if (N64_MAGICS.some((magic) => bytesAt(header, 0, magic))) return 'n64';
+  if (bytesAt(header, 0xc0, GBA_LOGO)) return 'nds';
+  if (bytesAt(header, 0x04, GBA_LOGO)) return 'gba';
+  if (bytesAt(header, 0x104, GB_LOGO)) return 'gb';
+  if (asciiAt(header, 1, 'ATARI7800')) return 'atari7800';
+
+  // Sega CD discs (ISO or raw BIN with a 16-byte sync header)
+  if (asciiAt(header, 0, 'SEGADISCSYSTEM') || asciiAt(header, 0x10, 'SEGADISCSYSTEM')) return 'segacd';
+  if (asciiAt(header, 0x100, 'SEGA')) return 'genesis';
+
+  // PlayStation discs: system identifier in the primary volume descriptor
+  if (asciiAt(header, 0x8008, 'PLAYSTATION') || asciiAt(header, 0x9320, 'PLAYSTATION')) return 'ps1';
+
+  // Master System / Game Gear: region code in the high nibble of the last header byte
+  for (const offset of SEGA_8BIT_HEADER_OFFSETS) {
+    if (asciiAt(header, offset, 'TMR SEGA') && offset + 0x0f < header.length) {
+      const region = header[offset + 0x0f] >> 4;
+      return region >= 5 && region <= 7 ? 'gg' : 'sms';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Detects the console of a ROM file.
+ * Unambiguous extensions win; otherwise the header is sniffed and the
+ * extension default is used as a last resort.
+ *
+ * @param file - The ROM file
+ * @returns The console, or null if the file is not recognised as a ROM
+ */
+export async function detectConsole(file: Blob & { name: string }): Promise<ConsoleType | null> {
+  const ext = getFileExtension(file.name);
+  if (EXTENSION_TO_CONSOLE[ext]) {
+    return EXTENSION_TO_CONSOLE[ext];
+  }
+
+  const header = new Uint8Array(await file.slice(0, ROM_SNIFF_BYTES).arrayBuffer());
+  return detectConsoleFromHeader(header) ?? AMBIGUOUS_EXTENSION_DEFAULTS[ext] ?? null;
+}
@@ -0,0 +1,543 @@
+/**
+ * ROM Inspection
+ * Parses cartridge headers (iNES/NES 2.0, SNES, N64, GB/GBC, GBA) to
+ * identify a ROM: internal title, region, mapper and header checksums,
+ * plus CRC32/SHA-1 of the headerless ROM data as listed in No-Intro DATs.
+ *
+ * @module services/emulator/romInspection
+ */
+
+import { detectConsole } from './romDetection';
+import { crc32 } from '@/utils/crc32';
+import { sha1 } from '@/utils/sha1';
+import type { ConsoleType } from '@/types';
+
+/** Largest ROM that is read whole for hashing (N64 cartridges top out at 64 MB) */
+export const MAX_HASHED_ROM_SIZE = 128 * 1024 * 1024;
+
+/** N64 ROM byte order, named after the usual file extension */
+export type N64ByteOrder = 'z64' | 'v64' | 'n64';
+
+/** NES video timing declared in the header */
+export type NesTvSystem = 'NTSC' | 'PAL' | 'Multi' | 'Dendy';
+
+/** SNES memory map mode */
+export type SnesMapMode = 'LoROM' | 'HiROM' | 'ExHiROM';
+
+/**
+ * Checksum stored in a ROM header, compared with the computed value
+ */
+export interface RomChecksum {
+  /** Checksum name as used by the console's documentation */
+  name: string;
+  /** Value stored in the header */
+  expected: number;
+  /** Value computed from the ROM data (absent when it cannot be computed) */
+  actual?: number;
+  /** Whether the stored and computed values agree */
+  valid?: boolean;
+}
+
+/**
+ * Fields shared by all parsed headers
+ */
+interface RomHeaderBase {
+  console: ConsoleType;
+  /** Internal title, trimmed (absent for formats without one) */
+  title?: string;
+  /** Region code in the catalog's spelling ('US', 'EU', 'JP', ...) */
+  region?: string;
+  /** ROM revision */
+  version?: number;
+  /** Header checksums */
+  checksums: RomChecksum[];
+  /** Bytes of file header that are not part of the ROM (iNES, copier headers) */
+  headerSize: number;
+}
+
+export interface NesRomHeader extends RomHeaderBase {
+  format: 'ines' | 'nes2';
+  mapper: number;
+  subMapper?: number;
+  /** PRG ROM size in bytes */
+  prgRomSize: number;
+  /** CHR ROM size in bytes */
+  chrRomSize: number;
+  hasBattery: boolean;
+  hasTrainer: boolean;
+  tvSystem: NesTvSystem;
+}
+
+export interface FdsRomHeader extends RomHeaderBase {
+  format: 'fds';
+  /** Number of disk sides */
+  sides: number;
+}
+
+export interface SnesRomHeader extends RomHeaderBase {
+  format: 'snes';
+  mapMode: SnesMapMode;
+  /** Whether the map mode byte declares FastROM */
+  fastRom: boolean;
+  /** Raw cartridge type byte (coprocessor, RAM, battery) */
+  cartridgeType: number;
+  /** Declared ROM size in bytes */
+  romSize: number;
+  /** Declared SRAM size in bytes */
+  ramSize: number;
+  /** Whether a 512-byte copier header precedes the ROM */
+  hasCopierHeader: boolean;
+}
+
+export interface N64RomHeader extends RomHeaderBase {
+  format: 'n64';
+  /** Byte order of the file (the ROM data is normalized to z64 for hashing) */
+  byteOrder: N64ByteOrder;
+  /** Four-character game code, e.g. "NSME" */
+  gameCode: string;
+}
+
+export interface GbRomHeader extends RomHeaderBase {
+  format: 'gb' | 'gbc';
+  /** Cartridge hardware, e.g. "MBC5+RAM+BATTERY" */
+  mapper: string;
+  /** Whether the game only runs on a Game Boy Color */
+  cgbOnly: boolean;
+  /** Whether the game has Super Game Boy enhancements */
+  supportsSgb: boolean;
+  /** Licensee code (new two-character code when the old one is 0x33) */
+  licensee: string;
+}
+
+export interface GbaRomHeader extends RomHeaderBase {
+  format: 'gba';
+  /** Four-character game code, e.g. "AXVE" */
+  gameCode: string;
+  /** Two-character maker code */
+  makerCode: string;
+}
+
+/**
+ * Parsed cartridge header, discriminated by format
+ */
+export type RomHeader =
+  | NesRomHeader
+  | FdsRomHeader
+  | SnesRomHeader
+  | N64RomHeader
+  | GbRomHeader
+  | GbaRomHeader;
+
+/**
+ * Everything known about a ROM file
+ */
+export interface RomInspection {
+  /** Detected console (from the header, else from the extension) */
+  console: ConsoleType | null;
+  /** Parsed header, or null for formats without a recognised header */
+  header: RomHeader | null;
+  /** File size in bytes */
+  size: number;
+  /** CRC32 of the headerless ROM data (absent above MAX_HASHED_ROM_SIZE) */
+  crc32?: string;
+  /** SHA-1 of the headerless ROM data (absent above MAX_HASHED_ROM_SIZE) */
+  sha1?: string;
+}
+
+/**
+ * Region letter of Nintendo game codes (N64, GBA, NDS)
+ */
+const GAME_CODE_REGIONS: Record<string, string> = {
+  A: 'World',
+  B: 'BR',
+  C: 'CN',
+  D: 'EU',
+  E: 'US',
+  F: 'EU',
+  H: 'EU',
+  I: 'EU',
+  J: 'JP',
+  K: 'KR',
+  N: 'CA',
+  P: 'EU',
+  S: 'EU',
+  U: 'AU',
+  X: 'EU',
+  Y: 'EU',
+};
+
+/**
+ * SNES destination codes (0x0E and up are uncommon and left unmapped)
+ */
+const SNES_REGIONS: Record<number, string> = {
+  0x00: 'JP',
+  0x01: 'US',
+  0x02: 'EU',
+  0x03: 'EU',
+  0x04: 'EU',
+  0x05: 'EU',
+  0x06: 'EU',
+  0x07: 'EU',
+  0x08: 'EU',
+  0x09: 'EU',
+  0x0a: 'EU',
+  0x0b: 'CN',
+  0x0d: 'KR',
+};
+
+/** SNES map mode low nibble per header location */
+const SNES_MAP_MODES: Record<SnesMapMode, number> = { LoROM: 0x0, HiROM: 0x1, ExHiROM: 0x5 };
+
+/** SNES internal header offsets (without copier header) */
+const SNES_HEADER_OFFSETS: Record<SnesMapMode, number> = { LoROM: 0x7fc0, HiROM: 0xffc0, ExHiROM: 0x40ffc0 };
+
+/**
+ * Game Boy cartridge types by header byte 0x147
+ */
+const GB_CARTRIDGE_TYPES: Record<number, string> = {
+  0x00: 'ROM',
+  0x01: 'MBC1',
+  0x02: 'MBC1+RAM',
+  0x03: 'MBC1+RAM+BATTERY',
+  0x05: 'MBC2',
+  0x06: 'MBC2+BATTERY',
+  0x08: 'ROM+RAM',
+  0x09: 'ROM+RAM+BATTERY',
+  0x0b: 'MMM01',
+  0x0c: 'MMM01+RAM',
+  0x0d: 'MMM01+RAM+BATTERY',
+  0x0f: 'MBC3+TIMER+BATTERY',
+  0x10: 'MBC3+TIMER+RAM+BATTERY',
+  0x11: 'MBC3',
+  0x12: 'MBC3+RAM',
+  0x13: 'MBC3+RAM+BATTERY',
+  0x19: 'MBC5',
+  0x1a: 'MBC5+RAM',
+  0x1b: 'MBC5+RAM+BATTERY',
+  0x1c: 'MBC5+RUMBLE',
+  0x1d: 'MBC5+RUMBLE+RAM',
+  0x1e: 'MBC5+RUMBLE+RAM+BATTERY',
+  0x20: 'MBC6',
+  0x22: 'MBC7+SENSOR+RUMBLE+RAM+BATTERY',
+  0xfc: 'POCKET CAMERA',
+  0xfd: 'BANDAI TAMA5',
+  0xfe: 'HuC3',
+  0xff: 'HuC1+RAM+BATTERY',
+};
+
+/** NES 2.0 CPU/PPU timing values */
+const NES2_TV_SYSTEMS: readonly NesTvSystem[] = ['NTSC', 'PAL', 'Multi', 'Dendy'];
+
+/**
+ * Reads printable ASCII from a byte range, stopping at the first NUL.
+ */
+function readAscii(data: Uint8Array, offset: number, length: number): string {
+  let text = '';
+  for (let i = offset; i < Math.min(offset + length, data.length); i++) {
+    const byte = data[i];
+    if (byte === 0) break;
+    text += byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : ' ';
+  }
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Sums bytes in a range, modulo 2^32.
+ */
+function sumBytes(data: Uint8Array, start: number, end: number): number {
+  let sum = 0;
+  for (let i = start; i < end; i++) {
+    sum = (sum + data[i]) >>> 0;
+  }
+  return sum;
+}
+
+/**
+ * Builds a checksum entry from stored and computed values.
+ */
+function checksum(name: string, expected: number, actual?: number): RomChecksum {
+  return actual === undefined ? { name, expected } : { name, expected, actual, valid: expected === actual };
+}
+
+/**
+ * Parses an iNES / NES 2.0 header.
+ */
+function parseNes(data: Uint8Array): NesRomHeader {
+  const flags6 = data[6];
+  const flags7 = data[7];
+  const isNes2 = (flags7 & 0x0c) === 0x08;
+  const mapper = (flags6 >> 4) | (flags7 & 0xf0) | (isNes2 ? (data[8] & 0x0f) << 8 : 0);
+
+  return {
+    console: 'nes',
+    format: isNes2 ? 'nes2' : 'ines',
+    mapper,
+    subMapper: isNes2 ? data[8] >> 4 : undefined,
+    prgRomSize: (data[4] | (isNes2 ? (data[9] & 0x0f) << 8 : 0)) * 16 * 1024,
+    chrRomSize: (data[5] | (isNes2 ? (data[9] & 0xf0) << 4 : 0)) * 8 * 1024,
+    hasBattery: (flags6 & 0x02) !== 0,
+    hasTrainer: (flags6 & 0x04) !== 0,
+    tvSystem: isNes2 ? NES2_TV_SYSTEMS[data[12] & 0x03] : data[9] & 0x01 ? 'PAL' : 'NTSC',
+    region: (isNes2 ? (data[12] & 0x03) === 1 : (data[9] & 0x01) === 1) ? 'EU' : undefined,
+    checksums: [],
+    headerSize: 16,
+  };
+}
+
+/**
+ * Computes the SNES checksum, mirroring the tail of non-power-of-two ROMs
+ * the way the console's address decoding does.
+ */
+function snesChecksum(rom: Uint8Array): number {
+  let base = 1;
+  while (base * 2 <= rom.length) base *= 2;
+
+  let sum = sumBytes(rom, 0, base);
+  const rest = rom.length - base;
+  if (rest > 0) {
+    sum += sumBytes(rom, base, rom.length) * Math.floor(base / rest);
+  }
+  return sum & 0xffff;
+}
+
+/**
+ * Scores a candidate SNES header location; higher is more plausible.
+ */
+function scoreSnesHeader(rom: Uint8Array, offset: number, mode: SnesMapMode): number {
+  if (offset + 0x20 > rom.length) return -1;
+
+  let score = 0;
+  const complement = rom[offset + 0x1c] | (rom[offset + 0x1d] << 8);
+  const stored = rom[offset + 0x1e] | (rom[offset + 0x1f] << 8);
+  if ((complement ^ stored) === 0xffff) score += 4;
+  if ((rom[offset + 0x15] & 0x0f) === SNES_MAP_MODES[mode]) score += 2;
+  if ((rom[offset + 0x15] & 0xe0) === 0x20) score += 1;
+  if (rom[offset + 0x17] >= 0x08 && rom[offset + 0x17] <= 0x0d) score += 1;
+
+  const title = rom.subarray(offset, offset + 21);
+  if (title.every((byte) => byte >= 0x20 && byte < 0x7f)) score += 2;
+
+  return score;
+}
+
+/**
+ * Parses the SNES internal header, picking the most plausible map mode.
+ */
+function parseSnes(data: Uint8Array): SnesRomHeader | null {
+  const hasCopierHeader = data.length % 1024 === 512;
+  const rom = hasCopierHeader ? data.subarray(512) : data;
+
+  let best: { mode: SnesMapMode; offset: number; score: number } | null = null;
+  for (const mode of Object.keys(SNES_HEADER_OFFSETS) as SnesMapMode[]) {
+    const offset = SNES_HEADER_OFFSETS[mode];
+    const score = scoreSnesHeader(rom, offset, mode);
+    if (score > (best?.score ?? 0)) best = { mode, offset, score };
+  }
+  if (!best || best.score < 4) return null;
+
+  const { mode, offset } = best;
+  const complement = rom[offset + 0x1c] | (rom[offset + 0x1d] << 8);
+  const stored = rom[offset + 0x1e] | (rom[offset + 0x1f] << 8);
+  const romSizeExp = rom[offset + 0x17];
+  const ramSizeExp = rom[offset + 0x18];
+
+  return {
+    console: 'snes',
+    format: 'snes',
+    title: readAscii(rom, offset, 21) || undefined,
+    region: SNES_REGIONS[rom[offset + 0x19]],
+    version: rom[offset + 0x1b],
+    mapMode: mode,
+    fastRom: (rom[offset + 0x15] & 0x10) !== 0,
+    cartridgeType: rom[offset + 0x16],
+    romSize: romSizeExp > 0 && romSizeExp < 0x10 ? 1024 << romSizeExp : 0,
+    ramSize: ramSizeExp > 0 && ramSizeExp < 0x10 ? 1024 << ramSizeExp : 0,
+    hasCopierHeader,
+    checksums: [
+      checksum('checksum', stored, snesChecksum(rom)),
+      checksum('complement', complement, stored ^ 0xffff),
+    ],
+    headerSize: hasCopierHeader ? 512 : 0,
+  };
+}
+
+/**
+ * Detects the byte order of an N64 ROM from its first word.
+ */
+function detectN64ByteOrder(data: Uint8Array): N64ByteOrder | null {
+  if (data[0] === 0x80 && data[1] === 0x37) return 'z64';
+  if (data[0] === 0x37 && data[1] === 0x80) return 'v64';
+  if (data[0] === 0x40 && data[1] === 0x12) return 'n64';
+  return null;
+}
+
+/**
+ * Converts N64 ROM data to big-endian (z64) byte order.
+ */
+export function normalizeN64ByteOrder(
+  data: Uint8Array<ArrayBuffer>,
+  byteOrder: N64ByteOrder
+): Uint8Array<ArrayBuffer> {
+  if (byteOrder === 'z64') return data;
+
+  const out = new Uint8Array(data.length);
+  const wordSize = byteOrder === 'v64' ? 2 : 4;
+  for (let i = 0; i + wordSize <= data.length; i += wordSize) {
+    for (let j = 0; j < wordSize; j++) {
+      out[i + j] = data[i + wordSize - 1 - j];
+    }
+  }
+  return out;
+}
+
+/**
+ * Parses the N64 header of big-endian ROM data.
+ */
+function parseN64(rom: Uint8Array, byteOrder: N64ByteOrder): N64RomHeader {
+  const view = new DataView(rom.buffer, rom.byteOffset, rom.byteLength);
+  const gameCode = readAscii(rom, 0x3b, 4);
+
+  return {
+    console: 'n64',
+    format: 'n64',
+    byteOrder,
+    gameCode,
+    title: readAscii(rom, 0x20, 20) || undefined,
+    region: GAME_CODE_REGIONS[gameCode.charAt(3)],
+    version: rom[0x3f],
+    // CRC1/CRC2 depend on the boot chip (CIC) and are reported unverified
+    checksums: [checksum('crc1', view.getUint32(0x10)), checksum('crc2', view.getUint32(0x14))],
+    headerSize: 0,
+  };
+}
+
+/**
+ * Parses the Game Boy / Game Boy Color cartridge header.
+ */
+function parseGb(data: Uint8Array): GbRomHeader {
+  const cgbFlag = data[0x143];
+  const isCgb = (cgbFlag & 0x80) !== 0;
+  // CGB titles are 15 bytes (11 when a manufacturer code follows)
+  const title = readAscii(data, 0x134, isCgb ? 15 : 16);
+
+  let headerSum = 0;
+  for (let i = 0x134; i <= 0x14c; i++) {
+    headerSum = (headerSum - data[i] - 1) & 0xff;
+  }
+  const globalSum = (sumBytes(data, 0, data.length) - data[0x14e] - data[0x14f]) & 0xffff;
+
+  return {
+    console: 'gb',
+    format: isCgb ? 'gbc' : 'gb',
+    title: title || undefined,
+    region: data[0x14a] === 0 ? 'JP' : undefined,
+    version: data[0x14c],
+    mapper: GB_CARTRIDGE_TYPES[data[0x147]] ?? `0x${data[0x147].toString(16).padStart(2, '0')}`,
+    cgbOnly: cgbFlag === 0xc0,
+    supportsSgb: data[0x146] === 0x03,
+    licensee:
+      data[0x14b] === 0x33
+        ? readAscii(data, 0x144, 2)
+        : data[0x14b].toString(16).padStart(2, '0'),
+    checksums: [
+      checksum('header', data[0x14d], headerSum),
+      checksum('global', (data[0x14e] << 8) | data[0x14f], globalSum),
+    ],
+    headerSize: 0,
+  };
+}
+
+/**
+ * Parses the Game Boy Advance cartridge header.
+ */
+function parseGba(data: Uint8Array): GbaRomHeader {
+  let complement = 0;
+  for (let i = 0xa0; i <= 0xbc; i++) {
+    complement = (complement - data[i]) & 0xff;
+  }
+  const gameCode = readAscii(data, 0xac, 4);
+
+  return {
+    console: 'gba',
+    format: 'gba',
+    title: readAscii(data, 0xa0, 12) || undefined,
+    gameCode,
+    makerCode: readAscii(data, 0xb0, 2),
+    region: GAME_CODE_REGIONS[gameCode.charAt(3)],
+    version: data[0xbc],
+    checksums: [checksum('complement', data[0xbd], (complement - 0x19) & 0xff)],
+    headerSize: 0,
+  };
+}
+
+/**
+ * Parses the cartridge header of ROM data.
+ * Checksums covering the whole ROM are only correct when `data` holds the
+ * complete file.
+ *
+ * @param data - ROM file contents
+ * @param consoleHint - Console detected from the extension, used for
+ *   formats without a magic number (SNES)
+ * @returns The parsed header, or null if no known header is found
+ */
+export function parseRomHeader(data: Uint8Array, consoleHint?: ConsoleType | null): RomHeader | null {
+  if (data[0] === 0x4e && data[1] === 0x45 && data[2] === 0x53 && data[3] === 0x1a) {
+    return parseNes(data);
+  }
+
+  if (data[0] === 0x46 && data[1] === 0x44 && data[2] === 0x53 && data[3] === 0x1a) {
+    return { console: 'nes', format: 'fds', sides: data[4], checksums: [], headerSize: 16 };
+  }
+
+  const byteOrder = detectN64ByteOrder(data);
+  if (byteOrder && data.length >= 0x40) {
+    return parseN64(normalizeN64ByteOrder(data.slice(0, 0x40), byteOrder), byteOrder);
+  }
+
+  // Nintendo logo checks (same bytes the boot ROMs verify)
+  if (data.length >= 0xc0 && data[0x04] === 0x24 && data[0x05] === 0xff && data[0xb2] === 0x96) {
+    return parseGba(data);
+  }
+  if (data.length >= 0x150 && data[0x104] === 0xce && data[0x105] === 0xed) {
+    return parseGb(data);
+  }
+
+  if (consoleHint === 'snes' || (!consoleHint && data.length >= 0x8000)) {
+    return parseSnes(data);
+  }
+
+  return null;
+}
+
+/**
+ * Inspects a ROM file: detects its console, parses its header and hashes
+ * the headerless ROM data. Files above MAX_HASHED_ROM_SIZE (disc images)
+ * are only sniffed, without hashes.
+ *
+ * @param file - The ROM file
+ * @returns Inspection result
+ */
+export async function inspectRom(file: Blob & { name: string }): Promise<RomInspection> {
+  const detected = await detectConsole(file);
+
+  if (file.size > MAX_HASHED_ROM_SIZE) {
+    return { console: detected, header: null, size: file.size };
+  }
+
+  const data = new Uint8Array(await file.arrayBuffer());
+  const header = parseRomHeader(data, detected);
+
+  // No-Intro hashes exclude file headers and use big-endian N64 dumps
+  const rom =
+    header?.format === 'n64'
+      ? normalizeN64ByteOrder(data, header.byteOrder)
+      : data.subarray(header?.headerSize ?? 0);
+
+  return {
+    console: header?.console ?? detected,
+    header,
+    size: file.size,
+    crc32: crc32(rom),
+    sha1: await sha1(rom),
+  };
+}
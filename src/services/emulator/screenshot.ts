@@ -0,0 +1,77 @@
+/**
+ * Screenshot Capture
+ * Grabs a downscaled thumbnail of the emulator canvas for save states
+ * and the "last seen" image of recently played games.
+ *
+ * The canvas can be read back because useEmulator creates WebGL contexts
+ * with preserveDrawingBuffer.
+ *
+ * @module services/emulator/screenshot
+ */
+
+/** Longest side of a thumbnail in pixels */
+export const SCREENSHOT_MAX_SIZE = 320;
+
+/** WebP quality (0-1) */
+const SCREENSHOT_QUALITY = 0.8;
+
+/** Formats to try, most compact first; browsers fall back to PNG for unsupported types */
+const SCREENSHOT_TYPES = ['image/webp', 'image/jpeg'];
+
+/**
+ * Encodes a canvas, resolving null when the browser cannot.
+ */
+function toBlob(canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob | null> {
+  return new Promise((resolve) => canvas.toBlob(resolve, type, quality));
+}
+
+/**
+ * Finds the canvas EmulatorJS renders the game into.
+ *
+ * @param container - Element the player was injected into
+ * @returns The game canvas, or null before the game has started
+ */
+export function findEmulatorCanvas(container: ParentNode = document): HTMLCanvasElement | null {
+  const player = container.querySelector('#emulator-player') ?? container;
+  return player.querySelector<HTMLCanvasElement>('#game canvas') ?? player.querySelector('canvas');
+}
+
+/**
+ * Captures a canvas as a WebP thumbnail (JPEG where WebP encoding is not
+ * supported), scaled down so its longest side is at most `maxSize`.
+ *
+ * @param source - Canvas to capture
+ * @param maxSize - Longest side of the thumbnail in pixels
+ * @returns Encoded thumbnail, or null when the canvas is empty or cannot be read
+ */
+export async function captureScreenshot(
+  source: HTMLCanvasElement,
+  maxSize = SCREENSHOT_MAX_SIZE
+): Promise<Blob | null> {
+  if (source.width === 0 || source.height === 0) return null;
+
+  const scale = Math.min(1, maxSize / Math.max(source.width, source.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(source.width * scale));
+  canvas.height = Math.max(1, Math.round(source.height * scale));
+
+  const context = canvas.getContext('2d');
+  if (!context) return null;
+
+  context.imageSmoothingEnabled = true;
+  context.imageSmoothingQuality = 'high';
+
+  try {
+    context.drawImage(source, 0, 0, canvas.width, canvas.height);
+
+    for (const type of SCREENSHOT_TYPES) {
+      const blob = await toBlob(canvas, type, SCREENSHOT_QUALITY);
+      if (blob?.type === type) return blob;
+    }
+  } catch (error) {
+    // A tainted or lost canvas cannot be read back
+    console.warn('Failed to capture screenshot:', error);
+  }
+
+  return null;
+}
@@ -0,0 +1,214 @@
+/**
+ * Shaders
+ * Catalog of the video filters offered in the shader pickers, the preset
+ * each console uses until the user picks another one, and the LCD grid
+ * shader the app supplies on top of the EmulatorJS built-ins.
+ *
+ * @module services/emulator/shaders
+ */
+
+import type { ConsoleType, DisplaySettings, EmulatorShader } from '@/types';
+
+/**
+ * Rough look of a shader, used for the preview in the pickers
+ */
+export type ShaderLook = 'sharp' | 'crt' | 'lcd' | 'blend' | 'smooth';
+
+/**
+ * A shader as listed in the pickers
+ */
+export interface ShaderOption {
+  id: EmulatorShader;
+  label: string;
+  description: string;
+  look: ShaderLook;
+}
+
+/**
+ * Shader files in the format EmulatorJS reads from `EJS_shaders`
+ */
+export interface EjsShaderDefinition {
+  shader: { type: 'text'; value: string };
+  resources: { name: string; type: 'text'; value: string }[];
+}
+
+/**
+ * The user's shader choices
+ */
+export interface ShaderSettings {
+  display: Pick<DisplaySettings, 'shader'>;
+  /** Shader picked per console, overriding the preset */
+  consoleShaders: Partial<Record<ConsoleType, EmulatorShader>>;
+}
+
+/** Shaders in picker order */
+export const SHADER_OPTIONS: readonly ShaderOption[] = [
+  { id: '', label: 'None', description: 'Sharp, unfiltered pixels', look: 'sharp' },
+  { id: 'crt-mattias', label: 'CRT', description: 'Scanlines with a soft glow', look: 'crt' },
+  { id: 'crt-easymode', label: 'CRT Easymode', description: 'Light scanlines and shadow mask', look: 'crt' },
+  { id: 'crt-aperture', label: 'CRT Aperture', description: 'Aperture grille with bright highlights', look: 'crt' },
+  { id: 'crt-geom', label: 'CRT Geom', description: 'Curved tube with scanlines', look: 'crt' },
+  { id: 'lcd-grid', label: 'LCD Grid', description: 'Visible pixel grid of a handheld screen', look: 'lcd' },
+  { id: 'mix-frames', label: 'Frame Blending', description: 'Blends frames like a slow LCD; hides flicker', look: 'blend' },
+  { id: 'sabr', label: 'SABR', description: 'Smooths the edges of pixel art', look: 'smooth' },
+  { id: 'bicubic', label: 'Bicubic', description: 'Soft, blurred scaling', look: 'smooth' },
+];
+
+/**
+ * Shader each console uses until the user picks one: a CRT for TV
+ * consoles, an LCD grid for handhelds and none for 3D systems. Consoles
+ * without a preset use DisplaySettings.shader.
+ */
+export const CONSOLE_SHADER_PRESETS: Partial<Record<ConsoleType, EmulatorShader>> = {
+  nes: 'crt-mattias',
+  snes: 'crt-mattias',
+  genesis: 'crt-mattias',
+  sms: 'crt-mattias',
+  segacd: 'crt-mattias',
+  pce: 'crt-mattias',
+  gb: 'lcd-grid',
+  gba: 'lcd-grid',
+  gg: 'lcd-grid',
+  n64: '',
+  ps1: '',
+  nds: '',
+};
+
+/** EmulatorJS names of the shaders */
+const EJS_SHADER_NAMES: Record<EmulatorShader, string> = {
+  '': 'disabled',
+  'crt-aperture': 'crt-aperture.glslp',
+  'crt-easymode': 'crt-easymode.glslp',
+  'crt-geom': 'crt-geom.glslp',
+  'crt-mattias': 'crt-mattias.glslp',
+  sabr: 'sabr',
+  bicubic: 'bicubic',
+  'mix-frames': 'mix-frames',
+  'lcd-grid': 'lcd-grid.glslp',
+};
+
+/**
+ * LCD grid: nearest-neighbour pixels with darkened gaps between them.
+ * RetroArch GLSL, single pass at viewport scale.
+ */
+const LCD_GRID_GLSL = `
+#pragma parameter GRID_STRENGTH "Grid Strength" 0.35 0.0 1.0 0.05
+#pragma parameter GRID_WIDTH "Grid Width" 0.12 0.0 0.5 0.01
+
+#if defined(VERTEX)
+#if __VERSION__ >= 130
+#define COMPAT_VARYING out
+#define COMPAT_ATTRIBUTE in
+#else
+#define COMPAT_VARYING varying
+#define COMPAT_ATTRIBUTE attribute
+#endif
+
+COMPAT_ATTRIBUTE vec4 VertexCoord;
+COMPAT_ATTRIBUTE vec4 TexCoord;
+COMPAT_VARYING vec4 TEX0;
+uniform mat4 MVPMatrix;
+
+void main() {
+  gl_Position = MVPMatrix * VertexCoord;
+  TEX0.xy = TexCoord.xy;
+}
+
+#elif defined(FRAGMENT)
+#if __VERSION__ >= 130
+#define COMPAT_VARYING in
+#define COMPAT_TEXTURE texture
+out vec4 FragColor;
+#else
+#define COMPAT_VARYING varying
+#define COMPAT_TEXTURE texture2D
+#define FragColor gl_FragColor
+#endif
+
+#ifdef GL_ES
+#ifdef GL_FRAGMENT_PRECISION_HIGH
+precision highp float;
+#else
+precision mediump float;
+#endif
+#define COMPAT_PRECISION mediump
+#else
+#define COMPAT_PRECISION
+#endif
+
+uniform COMPAT_PRECISION vec2 TextureSize;
+uniform sampler2D Texture;
+COMPAT_VARYING vec4 TEX0;
+
+#ifdef PARAMETER_UNIFORM
+uniform COMPAT_PRECISION float GRID_STRENGTH;
+uniform COMPAT_PRECISION float GRID_WIDTH;
+#else
+#define GRID_STRENGTH 0.35
+#define GRID_WIDTH 0.12
+#endif
+
+void main() {
+  vec2 texel = TEX0.xy * TextureSize;
+  vec2 cell = fract(texel);
+  vec3 color = COMPAT_TEXTURE(Texture, (floor(texel) + 0.5) / TextureSize).rgb;
+
+  vec2 edge = smoothstep(0.0, GRID_WIDTH, cell) * smoothstep(0.0, GRID_WIDTH, 1.0 - cell);
+  float grid = mix(1.0 - GRID_STRENGTH, 1.0, edge.x * edge.y);
+
+  FragColor = vec4(color * grid, 1.0);
+}
+#endif
+`;
+
+/** Shaders the app adds to the EmulatorJS built-ins (passed as `EJS_shaders`) */
+export const CUSTOM_SHADERS: Record<string, EjsShaderDefinition> = {
+  [EJS_SHADER_NAMES['lcd-grid']]: {
+    shader: {
+      type: 'text',
+      value: 'shaders = 1\n\nshader0 = lcd-grid.glsl\nfilter_linear0 = false\nscale_type0 = viewport\n',
+    },
+    resources: [{ name: 'lcd-grid.glsl', type: 'text', value: LCD_GRID_GLSL }],
+  },
+};
+
+/**
+ * Gets a shader's picker entry.
+ *
+ * @param shader - Shader ID
+ * @returns The entry (None for unknown IDs)
+ */
+export function getShaderOption(shader: EmulatorShader): ShaderOption {
+  return SHADER_OPTIONS.find((option) => option.id === shader) ?? SHADER_OPTIONS[0];
+}
+
+/**
+ * Gets the shader a console uses when the user has not picked one.
+ *
+ * @param console - Console type
+ * @param fallback - Shader for consoles without a preset
+ */
+export function getPresetShader(console: ConsoleType, fallback: EmulatorShader): EmulatorShader {
+  return CONSOLE_SHADER_PRESETS[console] ?? fallback;
+}
+
+/**
+ * Resolves the shader for a console: the user's pick for the console,
+ * else the console preset, else the default shader.
+ *
+ * @param console - Console type
+ * @param settings - The user's shader settings
+ */
+export function resolveShader(console: ConsoleType, settings: ShaderSettings): EmulatorShader {
+  return settings.consoleShaders[console] ?? getPresetShader(console, settings.display.shader);
+}
+
+/**
+ * Converts a shader to the name EmulatorJS uses for its `shader` option.
+ *
+ * @param shader - Shader ID
+ * @returns EmulatorJS shader name ('disabled' for none)
+ */
+export function toEjsShaderName(shader: EmulatorShader): string {
+  return EJS_SHADER_NAMES[shader] ?? EJS_SHADER_NAMES[''];
+}
@@ -0,0 +1,18 @@
+/**
+ * Search Services Index
+ * Central export point for game search.
+ *
+ * @module services/search
+ */
+
+export { searchGames, matchesSearchFilters, hasSearchText } from './searchEngine';
+export { parseSearchQuery, removeSearchClause } from './queryParser';
+export type {
+  SearchOperator,
+  NumberRange,
+  SearchTerm,
+  SearchFilters,
+  SearchClause,
+  ParsedSearchQuery,
+} from './queryParser';
+export { foldText } from './textMatching';
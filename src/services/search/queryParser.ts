@@ -0,0 +1,358 @@
+/**
+ * Search Query Parser
+ * Splits a search query into free-text terms and operator clauses:
+ *
+ *   zelda "link to the past" console:snes,nes year:1991..1995 players:2 genre:rpg
+ *
+ * Operators: console (system, platform), year, players, genre, region,
+ * developer (dev), publisher (pub) and tag. Values may be quoted, and
+ * console, genre and region accept comma-separated alternatives. Years
+ * and players take ranges: `1991`, `1991..1995`, `1991..`, `..1995`,
+ * `>1990`, `<=1995`; `players:2` means two or more.
+ *
+ * @module services/search/queryParser
+ */
+
+import { CONSOLE_CONFIG, GAME_GENRES, SUPPORTED_CONSOLES } from '@/types';
+import type { ConsoleType, GameGenre, SearchField } from '@/types';
+import { foldText } from './textMatching';
+
+/**
+ * Operators understood in queries
+ */
+export type SearchOperator = 'console' | 'year' | 'players' | 'genre' | 'region' | 'developer' | 'publisher' | 'tag';
+
+/**
+ * Inclusive numeric range, open where a bound is missing
+ */
+export interface NumberRange {
+  min?: number;
+  max?: number;
+}
+
+/**
+ * A free-text term, folded for matching
+ */
+export interface SearchTerm {
+  /** Folded text */
+  text: string;
+  /** Quoted phrase, matched literally rather than fuzzily */
+  phrase: boolean;
+  /** Field the term is restricted to (developer:, publisher:, tag:) */
+  field?: SearchField;
+}
+
+/**
+ * Structured filters from operator clauses
+ */
+export interface SearchFilters {
+  consoles?: ConsoleType[];
+  genres?: GameGenre[];
+  /** Region codes, lowercase */
+  regions?: string[];
+  year?: NumberRange;
+  players?: NumberRange;
+}
+
+/**
+ * An operator clause as written in the query
+ */
+export interface SearchClause {
+  operator: SearchOperator;
+  /** Value as written, without quotes */
+  value: string;
+  /** Position of the clause in the query (end exclusive) */
+  start: number;
+  end: number;
+  /** Readable description, e.g. 'Year: 1991–1995' */
+  label: string;
+  /** Why the value was not understood; the clause is then ignored */
+  error?: string;
+}
+
+/**
+ * Parsed search query
+ */
+export interface ParsedSearchQuery {
+  terms: SearchTerm[];
+  filters: SearchFilters;
+  clauses: SearchClause[];
+}
+
+/** Operator names and aliases */
+const OPERATOR_ALIASES: Record<string, SearchOperator> = {
+  console: 'console',
+  system: 'console',
+  platform: 'console',
+  year: 'year',
+  players: 'players',
+  player: 'players',
+  genre: 'genre',
+  region: 'region',
+  developer: 'developer',
+  dev: 'developer',
+  publisher: 'publisher',
+  pub: 'publisher',
+  tag: 'tag',
+  tags: 'tag',
+};
+
+/** Fields searched by the text operators */
+const OPERATOR_FIELDS: Partial<Record<SearchOperator, SearchField>> = {
+  developer: 'developer',
+  publisher: 'publisher',
+  tag: 'tags',
+};
+
+/** Display names of the operators */
+const OPERATOR_LABELS: Record<SearchOperator, string> = {
+  console: 'Console',
+  year: 'Year',
+  players: 'Players',
+  genre: 'Genre',
+  region: 'Region',
+  developer: 'Developer',
+  publisher: 'Publisher',
+  tag: 'Tag',
+};
+
+/** Console names not covered by the console config */
+const CONSOLE_ALIASES: Record<string, ConsoleType> = {
+  psx: 'ps1',
+  famicom: 'nes',
+  superfamicom: 'snes',
+  sfc: 'snes',
+  megadrive: 'genesis',
+  megacd: 'segacd',
+  turbografx: 'pce',
+  turbografx16: 'pce',
+  tg16: 'pce',
+  mame: 'arcade',
+};
+
+/**
+ * A clause (`key:value` or `key:"quoted value"`), a quoted phrase or a
+ * bare word. Quotes may be left open while typing.
+ */
+const TOKEN_PATTERN = /([\p{L}]+):(?:"([^"]*)"?|(\S*))|"([^"]*)"?|(\S+)/gu;
+
+/** A run of letters or digits */
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+/**
+ * Folds a name and drops everything but letters and digits.
+ */
+function compact(text: string): string {
+  return foldText(text).replace(/[^\p{L}\p{N}]/gu, '');
+}
+
+/** Console lookup by id, short name, name and common aliases */
+const CONSOLE_LOOKUP = new Map<string, ConsoleType>([
+  ...Object.entries(CONSOLE_ALIASES),
+  ...SUPPORTED_CONSOLES.flatMap((console): [string, ConsoleType][] => [
+    [compact(console), console],
+    [compact(CONSOLE_CONFIG[console].shortName), console],
+    [compact(CONSOLE_CONFIG[console].name), console],
+  ]),
+]);
+
+/**
+ * Splits free text into folded word terms.
+ */
+function toWordTerms(text: string, field?: SearchField): SearchTerm[] {
+  return [...foldText(text).matchAll(WORD_PATTERN)].map((match) => ({ text: match[0], phrase: false, field }));
+}
+
+/**
+ * Parses a year or player count range.
+ *
+ * @param value - Range as written
+ * @param atLeast - Treat a single number as a minimum (player counts)
+ * @returns Range, or null when not understood
+ */
+function parseRange(value: string, atLeast: boolean): NumberRange | null {
+  let match = /^(\d+)(\+?)$/.exec(value);
+  if (match) {
+    const number = Number(match[1]);
+    return atLeast || match[2] ? { min: number } : { min: number, max: number };
+  }
+
+  match = /^(\d*)\.\.(\d*)$/.exec(value);
+  if (match && (match[1] || match[2])) {
+    return {
+      min: match[1] ? Number(match[1]) : undefined,
+      max: match[2] ? Number(match[2]) : undefined,
+    };
+  }
+
+  match = /^(>=|<=|>|<)(\d+)$/.exec(value);
+  if (match) {
+    const number = Number(match[2]);
+    switch (match[1]) {
+      case '>':
+        return { min: number + 1 };
+      case '>=':
+        return { min: number };
+      case '<':
+        return { max: number - 1 };
+      default:
+        return { max: number };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Formats a range for display.
+ */
+function formatRange(range: NumberRange): string {
+  if (range.min !== undefined && range.max !== undefined) {
+    return range.min === range.max ? String(range.min) : `${range.min}–${range.max}`;
+  }
+  return range.min !== undefined ? `${range.min}+` : `up to ${range.max}`;
+}
+
+/**
+ * Splits a comma-separated value and resolves each part.
+ * Returns the resolved values, or the first part that could not be resolved.
+ */
+function resolveList<T>(value: string, resolve: (part: string) => T | undefined): { values: T[]; unknown?: string } {
+  const values: T[] = [];
+
+  for (const part of value.split(',').map((item) => item.trim()).filter(Boolean)) {
+    const resolved = resolve(part);
+    if (resolved === undefined) return { values, unknown: part };
+    if (!values.includes(resolved)) values.push(resolved);
+  }
+
+  return { values };
+}
+
+/**
+ * Resolves a genre by name or unambiguous prefix ("platform" for platformer).
+ */
+function resolveGenre(value: string): GameGenre | undefined {
+  const folded = compact(value);
+  const matches = GAME_GENRES.filter((genre) => genre.startsWith(folded));
+  return GAME_GENRES.find((genre) => genre === folded) ?? (matches.length === 1 ? matches[0] : undefined);
+}
+
+/**
+ * Adds values to a list filter, keeping earlier clauses of the same operator.
+ */
+function addValues<T>(existing: T[] | undefined, values: T[]): T[] {
+  return [...new Set([...(existing ?? []), ...values])];
+}
+
+/**
+ * Applies one clause to the parsed query, filling in its label and error.
+ */
+function applyClause(clause: SearchClause, parsed: ParsedSearchQuery): void {
+  const { operator, value } = clause;
+  const label = OPERATOR_LABELS[operator];
+
+  switch (operator) {
+    case 'console': {
+      const { values, unknown } = resolveList(value, (part) => CONSOLE_LOOKUP.get(compact(part)));
+      if (unknown) {
+        clause.error = `Unknown console "${unknown}"`;
+      } else {
+        parsed.filters.consoles = addValues(parsed.filters.consoles, values);
+      }
+      clause.label = `${label}: ${unknown ? value : values.map((console) => CONSOLE_CONFIG[console].shortName).join(', ')}`;
+      break;
+    }
+
+    case 'genre': {
+      const { values, unknown } = resolveList(value, resolveGenre);
+      if (unknown) {
+        clause.error = `Unknown genre "${unknown}"`;
+      } else {
+        parsed.filters.genres = addValues(parsed.filters.genres, values);
+      }
+      clause.label = `${label}: ${unknown ? value : values.join(', ')}`;
+      break;
+    }
+
+    case 'region': {
+      const { values } = resolveList(value, (part) => part.toLowerCase());
+      parsed.filters.regions = addValues(parsed.filters.regions, values);
+      clause.label = `${label}: ${values.map((region) => region.toUpperCase()).join(', ')}`;
+      break;
+    }
+
+    case 'year':
+    case 'players': {
+      const range = parseRange(value, operator === 'players');
+      if (range) {
+        parsed.filters[operator] = range;
+        clause.label = `${label}: ${formatRange(range)}`;
+      } else {
+        clause.error = `Expected a number or range like 1991..1995`;
+        clause.label = `${label}: ${value}`;
+      }
+      break;
+    }
+
+    default: {
+      // Quoted names with spaces are matched as phrases
+      const field = OPERATOR_FIELDS[operator];
+      if (/\s/.test(value)) {
+        parsed.terms.push({ text: foldText(value).replace(/\s+/g, ' '), phrase: true, field });
+      } else {
+        parsed.terms.push(...toWordTerms(value, field));
+      }
+      clause.label = `${label}: ${value}`;
+    }
+  }
+}
+
+/**
+ * Parses a search query.
+ *
+ * @param query - Query as typed
+ * @returns Terms, filters and the recognized clauses
+ */
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+  const parsed: ParsedSearchQuery = { terms: [], filters: {}, clauses: [] };
+
+  for (const match of query.matchAll(TOKEN_PATTERN)) {
+    const [token, key, quotedValue, plainValue, phrase, word] = match;
+    const operator = key ? OPERATOR_ALIASES[key.toLowerCase()] : undefined;
+
+    if (key && operator) {
+      const value = (quotedValue ?? plainValue ?? '').trim();
+      // Ignore clauses still being typed ("console:")
+      if (!value) continue;
+
+      const clause: SearchClause = {
+        operator,
+        value,
+        start: match.index,
+        end: match.index + token.length,
+        label: '',
+      };
+      applyClause(clause, parsed);
+      parsed.clauses.push(clause);
+    } else if (phrase !== undefined) {
+      const text = foldText(phrase.trim()).replace(/\s+/g, ' ');
+      if (text) parsed.terms.push({ text, phrase: true });
+    } else {
+      parsed.terms.push(...toWordTerms(word ?? token));
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Removes a clause from a query, e.g. when its filter chip is dismissed.
+ *
+ * @param query - Query the clause was parsed from
+ * @param clause - Clause to remove
+ * @returns Query without the clause
+ */
+export function removeSearchClause(query: string, clause: SearchClause): string {
+  return `${query.slice(0, clause.start)} ${query.slice(clause.end)}`.replace(/\s+/g, ' ').trim();
+}
@@ -0,0 +1,172 @@
+/**
+ * Search Engine
+ * Ranked, typo-tolerant game search. Free-text terms must all match
+ * somewhere in the game; each term scores by match quality (exact word,
+ * prefix, substring, typo) times the weight of the field it matched in.
+ * Operator clauses filter without affecting the ranking.
+ *
+ * @module services/search/searchEngine
+ */
+
+import type { Game, GameSearchResult, HighlightRange, SearchField } from '@/types';
+import { parseSearchQuery } from './queryParser';
+import type { NumberRange, ParsedSearchQuery, SearchFilters, SearchTerm } from './queryParser';
+import { indexText, matchTerm, mergeRanges } from './textMatching';
+import type { IndexedText } from './textMatching';
+
+/** Weight of a match in each field */
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 1,
+  tags: 0.7,
+  developer: 0.6,
+  publisher: 0.5,
+  description: 0.35,
+};
+
+/** Searched fields, most important first */
+const SEARCH_FIELDS = Object.keys(FIELD_WEIGHTS) as SearchField[];
+
+/** Bonus for titles starting with the searched text */
+const TITLE_PREFIX_BONUS = 0.1;
+
+/** Text of each searched field */
+const FIELD_TEXT: Record<SearchField, (game: Game) => string | undefined> = {
+  title: (game) => game.title,
+  tags: (game) => game.tags?.join(', '),
+  developer: (game) => game.developer,
+  publisher: (game) => game.publisher,
+  description: (game) => game.description,
+};
+
+type GameIndex = Partial<Record<SearchField, IndexedText>>;
+
+/** Folded fields per game, built on first search (games are immutable) */
+const indexCache = new WeakMap<Game, GameIndex>();
+
+/**
+ * Gets the indexed fields of a game.
+ */
+function getIndex(game: Game): GameIndex {
+  let index = indexCache.get(game);
+
+  if (!index) {
+    index = {};
+    for (const field of SEARCH_FIELDS) {
+      const text = FIELD_TEXT[field](game);
+      if (text) index[field] = indexText(text);
+    }
+    indexCache.set(game, index);
+  }
+
+  return index;
+}
+
+/**
+ * Checks a value against an inclusive range. Games without the value
+ * never match a range.
+ */
+function inRange(value: number | undefined, range: NumberRange | undefined): boolean {
+  if (!range) return true;
+  if (value === undefined) return false;
+  return (range.min === undefined || value >= range.min) && (range.max === undefined || value <= range.max);
+}
+
+/**
+ * Checks a game against the operator filters.
+ *
+ * @param game - Game to check
+ * @param filters - Filters from the parsed query
+ * @returns Whether the game passes every filter
+ */
+export function matchesSearchFilters(game: Game, filters: SearchFilters): boolean {
+  if (filters.consoles && !filters.consoles.includes(game.console)) return false;
+  if (filters.genres && (!game.genre || !filters.genres.includes(game.genre))) return false;
+  if (filters.regions && (!game.region || !filters.regions.includes(game.region.toLowerCase()))) return false;
+  return inRange(game.releaseYear, filters.year) && inRange(game.players, filters.players);
+}
+
+/**
+ * Scores a game against the free-text terms.
+ *
+ * @returns Search result, or null when a term matches nowhere
+ */
+function scoreGame(game: Game, terms: readonly SearchTerm[], queryText: string): GameSearchResult | null {
+  const index = getIndex(game);
+  const ranges: Partial<Record<SearchField, HighlightRange[]>> = {};
+  let total = 0;
+
+  for (const term of terms) {
+    let best = 0;
+
+    for (const field of term.field ? [term.field] : SEARCH_FIELDS) {
+      const text = index[field];
+      const match = text && matchTerm(term.text, text, term.phrase);
+      if (!match) continue;
+
+      best = Math.max(best, match.quality * FIELD_WEIGHTS[field]);
+      (ranges[field] ??= []).push(match.range);
+    }
+
+    if (best === 0) return null;
+    total += best;
+  }
+
+  let relevance = total / terms.length;
+  const title = index.title?.text ?? '';
+  if (queryText && title === queryText) {
+    relevance = 1;
+  } else if (queryText && title.startsWith(queryText)) {
+    relevance = Math.min(1, relevance + TITLE_PREFIX_BONUS);
+  }
+
+  const matchedFields = SEARCH_FIELDS.filter((field) => ranges[field]);
+  const highlights: Partial<Record<SearchField, readonly HighlightRange[]>> = {};
+  for (const field of matchedFields) {
+    highlights[field] = mergeRanges(ranges[field]!);
+  }
+
+  return { game, relevance, matchedFields, highlights };
+}
+
+/**
+ * Whether a query contains free text (and so produces a ranking).
+ *
+ * @param query - Parsed query
+ * @returns True when results are ordered by relevance
+ */
+export function hasSearchText(query: ParsedSearchQuery): boolean {
+  return query.terms.length > 0;
+}
+
+/**
+ * Searches games.
+ * With free text, results are ordered by relevance (ties keep the input
+ * order); with only operators or an empty query, every game passing the
+ * filters is returned in input order with relevance 1.
+ *
+ * @param games - Games to search
+ * @param query - Query as typed, or already parsed
+ * @returns Matching games with relevance and highlights
+ */
+export function searchGames(games: readonly Game[], query: string | ParsedSearchQuery): GameSearchResult[] {
+  const parsed = typeof query === 'string' ? parseSearchQuery(query) : query;
+  const filtered = games.filter((game) => matchesSearchFilters(game, parsed.filters));
+
+  if (!hasSearchText(parsed)) {
+    return filtered.map((game) => ({ game, relevance: 1, matchedFields: [], highlights: {} }));
+  }
+
+  // Title bonus applies to the plain text typed, not to operator terms
+  const queryText = parsed.terms
+    .filter((term) => !term.field)
+    .map((term) => term.text)
+    .join(' ');
+
+  const results: GameSearchResult[] = [];
+  for (const game of filtered) {
+    const result = scoreGame(game, parsed.terms, queryText);
+    if (result) results.push(result);
+  }
+
+  return results.sort((a, b) => b.relevance - a.relevance);
+}
@@ -0,0 +1,281 @@
+/**
+ * Text Matching
+ * Diacritic folding and typo-tolerant word matching for game search.
+ * Folding keeps a map back to the original string so matches can be
+ * highlighted in the text as displayed ("Příběh" matches "pribeh").
+ *
+ * @module services/search/textMatching
+ */
+
+import type { HighlightRange } from '@/types';
+
+/**
+ * Text folded for matching, with offsets into the original string
+ */
+export interface FoldedText {
+  /** Lowercase text without diacritics */
+  text: string;
+  /** Original index of each folded character, plus the original length */
+  offsets: number[];
+}
+
+/**
+ * Folded text with only letters and digits, for matching words written
+ * together ("megaman" against "Mega Man")
+ */
+export interface IndexedText extends FoldedText {
+  /** Words in the folded text */
+  words: { text: string; start: number }[];
+  /** Letters and digits only */
+  compact: FoldedText;
+}
+
+/**
+ * How well a term matched, best first
+ */
+export type MatchKind = 'exact' | 'prefix' | 'substring' | 'fuzzy' | 'compact';
+
+/**
+ * A term found in a text
+ */
+export interface TextMatch {
+  kind: MatchKind;
+  /** Match quality (0-1) */
+  quality: number;
+  /** Matched range in the original text */
+  range: HighlightRange;
+}
+
+/** Quality of each match kind */
+const MATCH_QUALITY: Record<MatchKind, number> = {
+  exact: 1,
+  prefix: 0.85,
+  substring: 0.6,
+  fuzzy: 0.55,
+  compact: 0.5,
+};
+
+/** Quality lost per typo beyond the first */
+const TYPO_PENALTY = 0.15;
+
+/** Combining marks left over after NFD decomposition */
+const COMBINING_MARKS = /[\u0300-\u036f]/g;
+
+/** A run of letters or digits */
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+/** A single letter or digit */
+const WORD_CHAR = /[\p{L}\p{N}]/u;
+
+/**
+ * Lowercases text and strips diacritics ("Čeština" becomes "cestina").
+ *
+ * @param text - Text to fold
+ * @returns Folded text
+ */
+export function foldText(text: string): string {
+  return text.normalize('NFD').replace(COMBINING_MARKS, '').toLowerCase();
+}
+
+/**
+ * Folds text one character at a time, recording where each folded
+ * character came from.
+ *
+ * @param text - Text to fold
+ * @returns Folded text with offsets
+ */
+export function foldTextWithOffsets(text: string): FoldedText {
+  let folded = '';
+  const offsets: number[] = [];
+
+  for (let index = 0; index < text.length; index++) {
+    const char = foldText(text[index]);
+    folded += char;
+    for (let i = 0; i < char.length; i++) offsets.push(index);
+  }
+  offsets.push(text.length);
+
+  return { text: folded, offsets };
+}
+
+/**
+ * Prepares a field for repeated matching.
+ *
+ * @param text - Field text as displayed
+ * @returns Indexed text
+ */
+export function indexText(text: string): IndexedText {
+  const folded = foldTextWithOffsets(text);
+  const words = [...folded.text.matchAll(WORD_PATTERN)].map((match) => ({
+    text: match[0],
+    start: match.index,
+  }));
+
+  let compactText = '';
+  const compactOffsets: number[] = [];
+  for (let i = 0; i < folded.text.length; i++) {
+    if (WORD_CHAR.test(folded.text[i])) {
+      compactText += folded.text[i];
+      compactOffsets.push(folded.offsets[i]);
+    }
+  }
+  compactOffsets.push(text.length);
+
+  return { ...folded, words, compact: { text: compactText, offsets: compactOffsets } };
+}
+
+/**
+ * Number of typos tolerated for a term of the given length.
+ */
+function maxTypos(length: number): number {
+  if (length <= 3) return 0;
+  if (length <= 6) return 1;
+  return 2;
+}
+
+/**
+ * Damerau-Levenshtein distance (optimal string alignment), giving up
+ * once it exceeds the limit.
+ *
+ * @param a - First string
+ * @param b - Second string
+ * @param limit - Largest distance of interest
+ * @returns Distance, or limit + 1 when further apart
+ */
+export function editDistance(a: string, b: string, limit: number): number {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1;
+
+  let previousPrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previousPrevious[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+
+    if (rowMin > limit) return limit + 1;
+    previousPrevious = previous;
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Maps a range in folded text back to the original text.
+ */
+function toOriginalRange(folded: FoldedText, start: number, end: number): HighlightRange {
+  return { start: folded.offsets[start], end: folded.offsets[end - 1] + 1 };
+}
+
+/**
+ * Finds the best match of a folded term in a field. Multi-word terms
+ * and phrases are matched as substrings; single words are matched
+ * against each word of the field, tolerating typos.
+ *
+ * @param term - Folded search term
+ * @param field - Indexed field text
+ * @param exact - Match the term literally (quoted phrases)
+ * @returns Best match, or null
+ */
+export function matchTerm(term: string, field: IndexedText, exact = false): TextMatch | null {
+  if (!term) return null;
+
+  if (exact || !WORD_CHAR.test(term) || /[^\p{L}\p{N}]/u.test(term)) {
+    const index = field.text.indexOf(term);
+    return index === -1
+      ? null
+      : { kind: 'exact', quality: MATCH_QUALITY.exact, range: toOriginalRange(field, index, index + term.length) };
+  }
+
+  const typos = maxTypos(term.length);
+  let best: TextMatch | null = null;
+
+  for (const word of field.words) {
+    const candidate = matchWord(term, word.text, typos);
+    if (candidate && (!best || candidate.quality > best.quality)) {
+      best = {
+        ...candidate,
+        range: toOriginalRange(field, word.start + candidate.range.start, word.start + candidate.range.end),
+      };
+      if (candidate.kind === 'exact') break;
+    }
+  }
+
+  if (!best && term.length >= 4) {
+    const index = field.compact.text.indexOf(term);
+    if (index !== -1) {
+      best = {
+        kind: 'compact',
+        quality: MATCH_QUALITY.compact,
+        range: toOriginalRange(field.compact, index, index + term.length),
+      };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Matches a term against a single folded word.
+ * The returned range is relative to the word.
+ */
+function matchWord(term: string, word: string, typos: number): TextMatch | null {
+  if (word === term) {
+    return { kind: 'exact', quality: MATCH_QUALITY.exact, range: { start: 0, end: word.length } };
+  }
+
+  if (word.startsWith(term)) {
+    return { kind: 'prefix', quality: MATCH_QUALITY.prefix, range: { start: 0, end: term.length } };
+  }
+
+  const index = term.length >= 3 ? word.indexOf(term) : -1;
+  if (index !== -1) {
+    return { kind: 'substring', quality: MATCH_QUALITY.substring, range: { start: index, end: index + term.length } };
+  }
+
+  if (typos === 0) return null;
+
+  // Whole word with typos, or the start of a longer word being typed
+  const distance = editDistance(term, word, typos);
+  const prefixDistance = word.length > term.length ? editDistance(term, word.slice(0, term.length), typos) : typos + 1;
+  const bestDistance = Math.min(distance, prefixDistance);
+  if (bestDistance > typos) return null;
+
+  return {
+    kind: 'fuzzy',
+    quality: MATCH_QUALITY.fuzzy - TYPO_PENALTY * (bestDistance - 1),
+    range: { start: 0, end: distance <= prefixDistance ? word.length : term.length },
+  };
+}
+
+/**
+ * Sorts ranges and merges overlapping or touching ones.
+ *
+ * @param ranges - Ranges in any order
+ * @returns Merged ranges
+ */
+export function mergeRanges(ranges: readonly HighlightRange[]): HighlightRange[] {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start);
+  const merged: HighlightRange[] = [];
+
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      merged[merged.length - 1] = { start: last.start, end: Math.max(last.end, range.end) };
+    } else {
+      merged.push(range);
+    }
+  }
+
+  return merged;
+}
@@ -0,0 +1,265 @@
+/**
+ * BIOS Service
+ * Verifies user-supplied BIOS files against the console registry, stores
+ * them in IndexedDB and resolves the BIOS URL handed to EmulatorJS.
+ *
+ * @module services/storage/biosService
+ */
+
+import { db } from '../database/db';
+import type { StoredBiosFile } from '../database/models';
+import { getBiosUrl } from '@/services/emulator';
+import { md5 } from '@/utils/md5';
+import { SUPPORTED_CONSOLES, getConsoleConfig } from '@/types';
+import type { BiosFile, BiosRegion, ConsoleType, Game } from '@/types';
+
+/** Largest file accepted as a BIOS (NDS firmware and PS1 BIOS are far smaller) */
+const MAX_BIOS_SIZE = 16 * 1024 * 1024;
+
+/**
+ * Game region spellings mapped to BIOS regions
+ */
+const REGION_ALIASES: Record<string, BiosRegion> = {
+  us: 'us',
+  usa: 'us',
+  ntsc: 'us',
+  'ntsc-u': 'us',
+  'north america': 'us',
+  eu: 'eu',
+  eur: 'eu',
+  europe: 'eu',
+  pal: 'eu',
+  jp: 'jp',
+  jpn: 'jp',
+  japan: 'jp',
+  'ntsc-j': 'jp',
+};
+
+/**
+ * Registry BIOS file matched by an MD5 hash
+ */
+export interface BiosMatch {
+  console: ConsoleType;
+  bios: BiosFile;
+}
+
+/**
+ * File rejected during a BIOS import
+ */
+export interface RejectedBiosFile {
+  fileName: string;
+  reason: string;
+}
+
+/**
+ * Result of importing BIOS files
+ */
+export interface BiosImportResult {
+  /** Files that matched a registry BIOS and were stored */
+  imported: StoredBiosFile[];
+  /** Files that were not stored */
+  rejected: RejectedBiosFile[];
+}
+
+/**
+ * Installation status of a registry BIOS file
+ */
+export interface BiosFileStatus {
+  bios: BiosFile;
+  /** Stored copy, if the user supplied one */
+  stored?: StoredBiosFile;
+}
+
+/**
+ * BIOS URL resolved for a game
+ */
+export interface ResolvedBios {
+  /** URL for EJS_biosUrl */
+  url: string;
+  /** Registry file the URL points to */
+  fileName: string;
+  /** Whether the URL is a blob URL of a stored file (revoke when done) */
+  isLocal: boolean;
+}
+
+/**
+ * Finds the registry BIOS file with the given MD5 hash.
+ */
+function findBiosByMd5(hash: string): BiosMatch | undefined {
+  for (const consoleType of SUPPORTED_CONSOLES) {
+    const bios = getConsoleConfig(consoleType).biosFiles?.find((file) => file.md5 === hash);
+    if (bios) return { console: consoleType, bios };
+  }
+  return undefined;
+}
+
+/**
+ * Normalizes a game's region string to a BIOS region.
+ */
+function toBiosRegion(region: string | undefined): BiosRegion | undefined {
+  return region ? REGION_ALIASES[region.trim().toLowerCase()] : undefined;
+}
+
+/**
+ * BIOS management service
+ */
+export const biosService = {
+  /**
+   * Hashes and verifies BIOS files, storing every file whose MD5 matches
+   * a registry BIOS. A file replaces any stored copy of the same BIOS.
+   *
+   * @param files - Files chosen or dropped by the user
+   * @returns Stored files and the files that were rejected
+   */
+  async importFiles(files: readonly File[]): Promise<BiosImportResult> {
+    const result: BiosImportResult = { imported: [], rejected: [] };
+
+    for (const file of files) {
+      if (file.size === 0 || file.size > MAX_BIOS_SIZE) {
+        result.rejected.push({ fileName: file.name, reason: 'File size does not match any known BIOS' });
+        continue;
+      }
+
+      try {
+        const data = await file.arrayBuffer();
+        const hash = md5(data);
+        const match = findBiosByMd5(hash);
+        if (!match) {
+          result.rejected.push({ fileName: file.name, reason: `Unknown BIOS (MD5 ${hash})` });
+          continue;
+        }
+
+        const stored: StoredBiosFile = {
+          console: match.console,
+          fileName: match.bios.name,
+          md5: hash,
+          size: data.byteLength,
+          data: new Blob([data], { type: 'application/octet-stream' }),
+          addedAt: new Date(),
+        };
+
+        await db.transaction('rw', db.biosFiles, async () => {
+          await db.biosFiles.where('[console+fileName]').equals([stored.console, stored.fileName]).delete();
+          stored.id = await db.biosFiles.add(stored);
+        });
+        result.imported.push(stored);
+      } catch (error) {
+        console.error('Error importing BIOS file:', error);
+        result.rejected.push({
+          fileName: file.name,
+          reason: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    return result;
+  },
+
+  /**
+   * Gets all stored BIOS files.
+   *
+   * @returns Stored BIOS files, sorted by console and file name
+   */
+  async getStoredFiles(): Promise<StoredBiosFile[]> {
+    try {
+      const files = await db.biosFiles.toArray();
+      return files.sort((a, b) => a.console.localeCompare(b.console) || a.fileName.localeCompare(b.fileName));
+    } catch (error) {
+      console.error('Error getting BIOS files:', error);
+      throw new Error(`Failed to get BIOS files: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  },
+
+  /**
+   * Removes a stored BIOS file.
+   *
+   * @param consoleType - The console the BIOS belongs to
+   * @param fileName - Registry file name
+   */
+  async removeFile(consoleType: ConsoleType, fileName: string): Promise<void> {
+    try {
+      await db.biosFiles.where('[console+fileName]').equals([consoleType, fileName]).delete();
+    } catch (error) {
+      console.error('Error removing BIOS file:', error);
+      throw new Error(`Failed to remove BIOS file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  },
+
+  /**
+   * Pairs each registry BIOS file of a console with its stored copy.
+   *
+   * @param consoleType - The console type
+   * @param stored - Stored BIOS files (from getStoredFiles)
+   * @returns Status of every registry BIOS file of the console
+   */
+  getConsoleStatus(consoleType: ConsoleType, stored: readonly StoredBiosFile[]): BiosFileStatus[] {
+    return (getConsoleConfig(consoleType).biosFiles ?? []).map((bios) => ({
+      bios,
+      stored: stored.find((file) => file.console === consoleType && file.fileName === bios.name),
+    }));
+  },
+
+  /**
+   * Lists required BIOS files that the user has not supplied.
+   *
+   * @param stored - Stored BIOS files (from getStoredFiles)
+   * @returns Missing required BIOS files per console
+   */
+  getMissingRequired(stored: readonly StoredBiosFile[]): BiosMatch[] {
+    return SUPPORTED_CONSOLES.flatMap((consoleType) =>
+      biosService
+        .getConsoleStatus(consoleType, stored)
+        .filter((status) => status.bios.required && !status.stored)
+        .map(({ bios }) => ({ console: consoleType, bios }))
+    );
+  },
+
+  /**
+   * Picks the BIOS file for a game among the available files.
+   * Prefers a BIOS matching the game's region, then the required BIOS,
+   * then any available file.
+   *
+   * @param game - The game to run
+   * @param available - Registry BIOS files to choose from
+   * @returns The chosen BIOS file, or undefined if none is available
+   */
+  selectBiosForGame(game: Game, available: readonly BiosFile[]): BiosFile | undefined {
+    const region = toBiosRegion(game.region);
+    return (
+      (region && available.find((bios) => bios.region === region)) ||
+      available.find((bios) => bios.required) ||
+      available[0]
+    );
+  },
+
+  /**
+   * Resolves the BIOS URL for a game.
+   * A stored BIOS is served from a blob URL; otherwise consoles that
+   * require a BIOS fall back to the CDN copy.
+   *
+   * @param game - The game to run
+   * @returns The BIOS to load, or null if the game runs without one
+   */
+  async resolveBiosForGame(game: Game): Promise<ResolvedBios | null> {
+    const config = getConsoleConfig(game.console);
+    const biosFiles: readonly BiosFile[] = config.biosFiles ?? [];
+    if (biosFiles.length === 0) return null;
+
+    const stored = await db.biosFiles.where('console').equals(game.console).toArray();
+    const local = biosService.selectBiosForGame(
+      game,
+      biosFiles.filter((bios) => stored.some((file) => file.fileName === bios.name))
+    );
+    if (local) {
+      const file = stored.find((entry) => entry.fileName === local.name);
+      if (file) {
+        return { url: URL.createObjectURL(file.data), fileName: file.fileName, isLocal: true };
+      }
+    }
+
+    if (!config.requiresBios) return null;
+
+    const remote = biosFiles.find((bios) => bios.required) ?? biosFiles[0];
+    return { url: getBiosUrl(game.console, remote.name), fileName: remote.name, isLocal: false };
+  },
+};
@@ -0,0 +1,224 @@
+/**
+ * Cheat Service
+ * Manages the cheat codes saved per game in IndexedDB. Codes are validated
+ * and normalized for the game's console before they are stored, and
+ * RetroArch `.cht` files can be imported.
+ *
+ * @module services/storage/cheatService
+ */
+
+import { db } from '../database/db';
+import type { GameCheat } from '../database/models';
+import { parseCheatCode, parseChtFile } from '@/services/emulator/cheatCodes';
+import type { ConsoleType } from '@/types';
+
+/** Longest allowed cheat description */
+const MAX_DESCRIPTION_LENGTH = 80;
+
+/**
+ * A cheat as entered by the user
+ */
+export interface NewCheatInput {
+  description: string;
+  /** Code in any supported format, one code per line or joined with '+' */
+  code: string;
+  /** Whether to apply the cheat straight away (default true) */
+  enabled?: boolean;
+}
+
+/**
+ * A cheat from a `.cht` file that was not imported
+ */
+export interface SkippedCheat {
+  description: string;
+  code: string;
+  reason: string;
+}
+
+/**
+ * Result of a `.cht` import
+ */
+export interface CheatImportResult {
+  /** Number of cheats added */
+  imported: number;
+  /** Cheats that were invalid or already saved */
+  skipped: SkippedCheat[];
+}
+
+/**
+ * Trims and validates a description, falling back to the code.
+ */
+function normalizeDescription(description: string, code: string): string {
+  const trimmed = description.trim() || code;
+  return trimmed.length > MAX_DESCRIPTION_LENGTH ? `${trimmed.slice(0, MAX_DESCRIPTION_LENGTH - 1)}…` : trimmed;
+}
+
+/**
+ * Validates a code for a console.
+ *
+ * @throws Error with the reason the code is not valid
+ */
+function validateCode(code: string, consoleType: ConsoleType) {
+  const { cheat, error } = parseCheatCode(code, consoleType);
+  if (!cheat) {
+    throw new Error(error ?? 'Invalid cheat code');
+  }
+  return cheat;
+}
+
+/**
+ * Cheat management service
+ */
+export const cheatService = {
+  /**
+   * Gets the cheats saved for a game, in the order they were added.
+   *
+   * @param gameId - The game ID
+   */
+  async getCheats(gameId: string): Promise<GameCheat[]> {
+    try {
+      return await db.getCheatsForGame(gameId);
+    } catch (error) {
+      console.error('Error getting cheats:', error);
+      throw new Error(`Failed to get cheats: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  },
+
+  /**
+   * Validates and saves a cheat.
+   *
+   * @param gameId - The game ID
+   * @param consoleType - The game's console, which decides the accepted formats
+   * @param input - Description and code
+   * @returns The new cheat ID
+   * @throws Error if the code is not valid for the console
+   */
+  async addCheat(gameId: string, consoleType: ConsoleType, input: NewCheatInput): Promise<number> {
+    const parsed = validateCode(input.code, consoleType);
+
+    try {
+      const [id] = await db.addCheats([
+        {
+          gameId,
+          console: consoleType,
+          description: normalizeDescription(input.description, parsed.code),
+          code: parsed.code,
+          format: parsed.format,
+          enabled: input.enabled ?? true,
+        },
+      ]);
+      return id;
+    } catch (error) {
+      console.error('Error adding cheat:', error);
+      throw new Error(`Failed to add cheat: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  },
+
+  /**
+   * Changes a cheat's description and code.
+   *
+   * @param cheat - The saved cheat
+   * @param input - New description and code
+   * @throws Error if the code is not valid for the cheat's console
+   */
+  async updateCheat(cheat: GameCheat, input: Omit<NewCheatInput, 'enabled'>): Promise<void> {
+    const parsed = validateCode(input.code, cheat.console as ConsoleType);
+
+    try {
+      await db.updateCheat(cheat.id!, {
+        description: normalizeDescription(input.description, parsed.code),
+        code: parsed.code,
+        format: parsed.format,
+      });
+    } catch (error) {
+      console.error('Error updating cheat:', error);
+      throw new Error(`Failed to update cheat: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  },
+
+  /**
+   * Turns a cheat on or off.
+   *
+   * @param id - The cheat ID
+   * @param enabled - Whether the cheat is applied
+   */
+  async setEnabled(id: number, enabled: boolean): Promise<void> {
+    try {
+      await db.updateCheat(id, { enabled });
+    } catch (error) {
+      console.error('Error toggling cheat:', error);
+      throw new Error(`Failed to toggle cheat: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  },
+
+  /**
+   * Deletes a cheat.
+   *
+   * @param id - The cheat ID
+   */
+  async deleteCheat(id: number): Promise<void> {
+    try {
+      await db.deleteCheat(id);
+    } catch (error) {
+      console.error('Error deleting cheat:', error);
+      throw new Error(`Failed to delete cheat: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  },
+
+  /**
+   * Imports the cheats of a RetroArch `.cht` file. Codes that are not
+   * valid for the console, or that are already saved for the game, are
+   * skipped. Imported cheats keep the file's enabled flag.
+   *
+   * @param gameId - The game ID
+   * @param consoleType - The game's console
+   * @param file - The `.cht` file
+   * @returns Number of imported cheats and the ones that were skipped
+   * @throws Error if the file has no cheats or none could be imported
+   */
+  async importChtFile(gameId: string, consoleType: ConsoleType, file: File): Promise<CheatImportResult> {
+    const entries = parseChtFile(await file.text());
+    if (entries.length === 0) {
+      throw new Error(`${file.name} does not contain any cheats`);
+    }
+
+    try {
+      const result: CheatImportResult = { imported: 0, skipped: [] };
+      const existing = new Set((await db.getCheatsForGame(gameId)).map((cheat) => cheat.code));
+      const cheats: Omit<GameCheat, 'id' | 'createdAt' | 'updatedAt'>[] = [];
+
+      for (const entry of entries) {
+        const { cheat, error } = parseCheatCode(entry.code, consoleType);
+        if (!cheat) {
+          result.skipped.push({ ...entry, reason: error ?? 'Invalid cheat code' });
+          continue;
+        }
+        if (existing.has(cheat.code)) {
+          result.skipped.push({ ...entry, reason: 'Already saved' });
+          continue;
+        }
+
+        existing.add(cheat.code);
+        cheats.push({
+          gameId,
+          console: consoleType,
+          description: normalizeDescription(entry.description, cheat.code),
+          code: cheat.code,
+          format: cheat.format,
+          enabled: entry.enabled,
+        });
+      }
+
+      if (cheats.length === 0) {
+        throw new Error(result.skipped[0].reason);
+      }
+
+      await db.addCheats(cheats);
+      result.imported = cheats.length;
+      return result;
+    } catch (error) {
+      console.error('Error importing cheats:', error);
+      throw new Error(`Failed to import cheats: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  },
+};
@@ -0,0 +1,181 @@
+/**
+ * Collection Service
+ * Manages user-defined game collections in IndexedDB. Manual collections
+ * keep an ordered list of games; smart collections store a GameFilter
+ * (e.g. "2-player SNES platformers") and are resolved against the game
+ * list whenever they are shown.
+ *
+ * @module services/storage/collectionService
+ */
+
+import { db } from '../database/db';
+import type { GameCollection } from '../database/models';
+import type { GameFilter } from '@/types';
+
+/** Longest allowed collection name */
+const MAX_NAME_LENGTH = 80;
+
+/**
+ * Details of a new collection
+ */
+export interface NewCollectionInput {
+  name: string;
+  description?: string;
+  /** Initial games of a manual collection */
+  gameIds?: string[];
+  /** Filter that makes this a smart collection */
+  filter?: GameFilter;
+}
+
+/**
+ * Trims and validates a collection name.
+ */
+function normalizeName(name: string): string {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error('Collection name cannot be empty');
+  }
+  if (trimmed.length > MAX_NAME_LENGTH) {
+    throw new Error(`Collection name cannot be longer than ${MAX_NAME_LENGTH} characters`);
+  }
+  return trimmed;
+}
+
+/**
+ * Whether a collection is defined by a saved filter.
+ *
+ * @param collection - The collection to check
+ * @returns True for smart collections
+ */
+export function isSmartCollection(collection: GameCollection): collection is GameCollection & { filter: GameFilter } {
+  return collection.filter !== undefined;
+}
+
+/**
+ * Collection management service
+ */
+export const collectionService = {
+  /**
+   * Creates a collection.
+   *
+   * @param input - Name, description and either initial games or a smart filter
+   * @returns The new collection ID
+   */
+  async createCollection(input: NewCollectionInput): Promise<number> {
+    const name = normalizeName(input.name);
+
+    try {
+      return await db.createCollection({
+        name,
+        description: input.description?.trim() || undefined,
+        // Smart collections never hold games of their own
+        gameIds: input.filter ? [] : [...new Set(input.gameIds ?? [])],
+        filter: input.filter,
+      });
+    } catch (error) {
+      console.error('Error creating collection:', error);
+      throw new Error(`Failed to create collection: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  },
+
+  /**
+   * Changes the name and description of a collection.
+   *
+   * @param id - The collection ID
+   * @param name - The new name
+   * @param description - The new description (empty to remove it)
+   */
+  async updateDetails(id: number, name: string, description?: string): Promise<void> {
+    const normalized = normalizeName(name);
+
+    try {
+      await db.updateCollection(id, { name: normalized, description: description?.trim() || undefined });
+    } catch (error) {
+      console.error('Error updating collection:', error);
+      throw new Error(`Failed to update collection: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  },
+
+  /**
+   * Replaces the filter of a smart collection.
+   *
+   * @param id - The collection ID
+   * @param filter - The new filter
+   */
+  async updateFilter(id: number, filter: GameFilter): Promise<void> {
+    try {
+      await db.updateCollection(id, { filter });
+    } catch (error) {
+      console.error('Error updating collection filter:', error);
+      throw new Error(`Failed to update collection filter: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  },
+
+  /**
+   * Deletes a collection. The games in it are not affected.
+   *
+   * @param id - The collection ID
+   */
+  async deleteCollection(id: number): Promise<void> {
+    try {
+      await db.deleteCollection(id);
+    } catch (error) {
+      console.error('Error deleting collection:', error);
+      throw new Error(`Failed to delete collection: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  },
+
+  /**
+   * Adds a game to the end of a manual collection.
+   * Does nothing if the game is already in it.
+   *
+   * @param id - The collection ID
+   * @param gameId - The game to add
+   */
+  async addGame(id: number, gameId: string): Promise<void> {
+    try {
+      await db.changeCollectionGames(id, (gameIds) => (gameIds.includes(gameId) ? gameIds : [...gameIds, gameId]));
+    } catch (error) {
+      console.error('Error adding game to collection:', error);
+      throw new Error(`Failed to add game to collection: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  },
+
+  /**
+   * Removes a game from a manual collection.
+   *
+   * @param id - The collection ID
+   * @param gameId - The game to remove
+   */
+  async removeGame(id: number, gameId: string): Promise<void> {
+    try {
+      await db.changeCollectionGames(id, (gameIds) => gameIds.filter((existing) => existing !== gameId));
+    } catch (error) {
+      console.error('Error removing game from collection:', error);
+      throw new Error(`Failed to remove game from collection: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  },
+
+  /**
+   * Moves a game to another position in a manual collection.
+   *
+   * @param id - The collection ID
+   * @param gameId - The game to move
+   * @param toIndex - The new position (clamped to the list)
+   */
+  async moveGame(id: number, gameId: string, toIndex: number): Promise<void> {
+    try {
+      await db.changeCollectionGames(id, (gameIds) => {
+        if (!gameIds.includes(gameId)) return gameIds;
+
+        const reordered = gameIds.filter((existing) => existing !== gameId);
+        const index = Math.max(0, Math.min(toIndex, reordered.length));
+        reordered.splice(index, 0, gameId);
+        return reordered;
+      });
+    } catch (error) {
+      console.error('Error reordering collection:', error);
+      throw new Error(`Failed to reorder collection: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  },
+};
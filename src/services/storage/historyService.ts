@@ -7,6 +7,15 @@
 
 import { db } from '../database/db';
 
+/** How often a running session records its play time */
+export const SESSION_HEARTBEAT_INTERVAL_MS = 15_000;
+
+/**
+ * Sessions without a heartbeat for this long are treated as orphaned.
+ * Several intervals of slack so a throttled background tab is not mistaken for a crash.
+ */
+const ORPHANED_SESSION_THRESHOLD_MS = SESSION_HEARTBEAT_INTERVAL_MS * 8;
+
 /**
  * Play statistics summary
  */
@@ -39,21 +48,52 @@ export const historyService = {
     }
   },
 
+  /**
+   * Records the active play time of a running session.
+   *
+   * @param sessionId - The session ID returned from startSession
+   * @param durationSeconds - Active play time so far
+   */
+  async heartbeat(sessionId: number, durationSeconds: number): Promise<void> {
+    try {
+      await db.heartbeatPlaySession(sessionId, durationSeconds);
+    } catch (error) {
+      console.error('Error recording session heartbeat:', error);
+      throw new Error(`Failed to record session heartbeat: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  },
+
   /**
    * Ends an active play session.
    * Call this when a game is exited.
    *
    * @param sessionId - The session ID returned from startSession
+   * @param durationSeconds - Active play time (defaults to time since start)
    */
-  async endSession(sessionId: number): Promise<void> {
+  async endSession(sessionId: number, durationSeconds?: number): Promise<void> {
     try {
-      await db.endPlaySession(sessionId);
+      await db.endPlaySession(sessionId, durationSeconds);
     } catch (error) {
       console.error('Error ending session:', error);
       throw new Error(`Failed to end session: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   },
 
+  /**
+   * Closes sessions left open by a crash, a killed tab or a closed browser.
+   * Call this on startup; sessions still sending heartbeats are left alone.
+   *
+   * @returns Number of recovered sessions
+   */
+  async recoverOrphanedSessions(): Promise<number> {
+    try {
+      return await db.recoverOrphanedSessions(ORPHANED_SESSION_THRESHOLD_MS);
+    } catch (error) {
+      console.error('Error recovering orphaned sessions:', error);
+      throw new Error(`Failed to recover orphaned sessions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  },
+
   /**
    * Gets recently played game IDs.
    * Returns unique game IDs ordered by most recently played.
@@ -92,21 +132,14 @@ export const historyService = {
    */
   async getStats(): Promise<PlayStats> {
     try {
-      const stats = await db.getStats();
-
-      // Get unique games count by getting all sessions and counting unique gameIds
-      const recentGames = await db.getRecentlyPlayedGames(1000);
-
-      // Calculate total time by getting all sessions
-      let totalTime = 0;
-      for (const gameId of recentGames) {
-        totalTime += await db.getTotalPlayTime(gameId);
-      }
+      // One read of the sessions table instead of one query per game
+      const sessions = await db.playSessions.toArray();
+      const gameIds = new Set(sessions.map((session) => session.gameId));
 
       return {
-        totalGames: recentGames.length,
-        totalTime,
-        totalSessions: stats.playSessions,
+        totalGames: gameIds.size,
+        totalTime: sessions.reduce((sum, session) => sum + session.durationSeconds, 0),
+        totalSessions: sessions.length,
       };
     } catch (error) {
       console.error('Error getting stats:', error);
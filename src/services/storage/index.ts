@@ -7,5 +7,43 @@
 
 export { saveStateService } from './saveStateService';
 export { favoritesService } from './favoritesService';
-export { historyService } from './historyService';
+export { collectionService, isSmartCollection } from './collectionService';
+export type { NewCollectionInput } from './collectionService';
+export { cheatService } from './cheatService';
+export type { NewCheatInput, CheatImportResult, SkippedCheat } from './cheatService';
+export { historyService, SESSION_HEARTBEAT_INTERVAL_MS } from './historyService';
+export { playStatsService, aggregatePlaySessions, toDayKey } from './playStatsService';
+export type { PlayAnalytics, PlayTimeShare, SessionSummary } from './playStatsService';
 export { settingsService } from './settingsService';
+export { settingsProfileService, applySettingsOverrides } from './settingsProfileService';
+export { saveStateArchiveService, SAVE_ARCHIVE_EXTENSION } from './saveStateArchiveService';
+export type {
+  SaveArchiveManifest,
+  SaveArchiveEntry,
+  SaveArchiveImportResult,
+  SaveArchiveImportOptions,
+  SkippedArchiveEntry,
+} from './saveStateArchiveService';
+export { biosService } from './biosService';
+export type {
+  BiosImportResult,
+  BiosFileStatus,
+  BiosMatch,
+  RejectedBiosFile,
+  ResolvedBios,
+} from './biosService';
+export { libraryService, LIBRARY_ID_PREFIX } from './libraryService';
+export type { LibraryImportResult, SkippedRomFile } from './libraryService';
+export { integrityService } from './integrityService';
+export { offlineService } from './offlineService';
+export type { OfflineProgress, StorageUsage } from './offlineService';
+export { storageService, isQuotaExceededError } from './storageService';
+export type {
+  StorageCategory,
+  StorageBreakdown,
+  GameStorageUsage,
+  ConsoleStorageUsage,
+  StorageReport,
+  StorageCleanupRule,
+  StorageCleanupPlan,
+} from './storageService';
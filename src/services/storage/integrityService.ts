@@ -0,0 +1,50 @@
+/**
+ * Integrity Service
+ * Runs the database integrity check at startup, repairing malformed
+ * records and reporting the ones that need attention.
+ *
+ * @module services/storage/integrityService
+ */
+
+import { db } from '../database/db';
+import { checkDatabaseIntegrity } from '../database/integrity';
+import type { IntegrityReport } from '../database/integrity';
+import { gamesApi } from '@/services/api/gamesApi';
+
+/**
+ * Database integrity service
+ */
+export const integrityService = {
+  /**
+   * Checks and repairs the database. Saves missing their console are
+   * matched against the imported library and the cached game catalog;
+   * anything that cannot be repaired is logged and retried next startup.
+   *
+   * @returns Report of the records checked and the issues found
+   */
+  async runStartupCheck(): Promise<IntegrityReport> {
+    try {
+      // The cached catalog (even when expired) avoids a network request at startup
+      const catalog = gamesApi.getFromCache(true)?.games ?? [];
+      const catalogConsoles = new Map(catalog.map((game) => [game.id, game.console]));
+
+      const report = await checkDatabaseIntegrity(db, {
+        repair: true,
+        resolveConsole: (gameId) => catalogConsoles.get(gameId),
+      });
+
+      const unrepaired = report.issues.filter((issue) => !issue.repaired);
+      if (report.issues.length > unrepaired.length) {
+        console.info(`Database check repaired ${report.issues.length - unrepaired.length} record(s)`);
+      }
+      if (unrepaired.length > 0) {
+        console.warn('Database check found records it could not repair:', unrepaired);
+      }
+
+      return report;
+    } catch (error) {
+      console.error('Error checking database integrity:', error);
+      throw new Error(`Failed to check database integrity: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  },
+};
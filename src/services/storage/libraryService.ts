@@ -0,0 +1,241 @@
+/**
+ * Library Service
+ * Imports the user's own ROM files into IndexedDB ("My Library") and
+ * exposes them as games alongside the CDN catalog. Imported ROMs are
+ * identified from their headers (see services/emulator/romInspection).
+ *
+ * @module services/storage/libraryService
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '../database/db';
+import type { LibraryGame } from '../database/models';
+import { getFileExtension, inspectRom } from '@/services/emulator';
+import type { Game, ConsoleType } from '@/types';
+
+/** Prefix of library game IDs, keeping them apart from catalog IDs */
+export const LIBRARY_ID_PREFIX = 'local-';
+
+/** Largest ROM accepted into the library (PS1 discs are ~700 MB) */
+const MAX_ROM_SIZE = 1024 * 1024 * 1024;
+
+/**
+ * Extensions that are never ROMs themselves. Cue sheets reference
+ * separate track files, which a single stored blob cannot provide.
+ */
+const UNSUPPORTED_EXTENSIONS = new Set(['.cue', '.m3u', '.txt', '.nfo', '.jpg', '.png', '.sav', '.srm']);
+
+/**
+ * File skipped during a library import
+ */
+export interface SkippedRomFile {
+  fileName: string;
+  reason: string;
+}
+
+/**
+ * Result of importing ROM files into the library
+ */
+export interface LibraryImportResult {
+  /** Games added to the library */
+  imported: Game[];
+  /** Files that were not added */
+  skipped: SkippedRomFile[];
+}
+
+/**
+ * Derives a display title from a ROM file name.
+ * Strips the extension and turns separators into spaces; dump tags such as
+ * "(USA)" are kept so different versions stay distinguishable.
+ */
+function titleFromFileName(fileName: string): string {
+  const base = fileName.replace(/\.[^.]+$/, '').replace(/[_.]+/g, ' ').trim();
+  return base || fileName;
+}
+
+/**
+ * Converts a stored library entry to a game.
+ */
+function toGame(entry: LibraryGame): Game {
+  return {
+    id: entry.id,
+    title: entry.title,
+    console: entry.console as ConsoleType,
+    romPath: entry.fileName,
+    region: entry.region,
+    addedAt: entry.addedAt.toISOString(),
+    source: 'library',
+  };
+}
+
+/**
+ * Personal ROM library service
+ */
+export const libraryService = {
+  /**
+   * Imports ROM files into the library. Each file's header is parsed to
+   * detect its console and region; unrecognised files and files already
+   * in the library (same name and size) are skipped. Titles come from the
+   * file name, which is usually more readable than the internal title.
+   *
+   * @param files - Files chosen by the user (from a file or folder picker)
+   * @returns Imported games and the files that were skipped
+   */
+  async importFiles(files: readonly File[]): Promise<LibraryImportResult> {
+    const result: LibraryImportResult = { imported: [], skipped: [] };
+    const existing = await db.libraryGames.toArray();
+
+    for (const file of files) {
+      if (UNSUPPORTED_EXTENSIONS.has(getFileExtension(file.name))) {
+        result.skipped.push({ fileName: file.name, reason: 'Not a ROM file' });
+        continue;
+      }
+
+      if (file.size === 0 || file.size > MAX_ROM_SIZE) {
+        result.skipped.push({ fileName: file.name, reason: 'Unsupported file size' });
+        continue;
+      }
+
+      if (existing.some((entry) => entry.fileName === file.name && entry.size === file.size)) {
+        result.skipped.push({ fileName: file.name, reason: 'Already in library' });
+        continue;
+      }
+
+      try {
+        const inspection = await inspectRom(file);
+        const consoleType = inspection.console;
+        if (!consoleType) {
+          result.skipped.push({ fileName: file.name, reason: 'Unrecognised ROM format' });
+          continue;
+        }
+
+        const now = new Date();
+        const entry: LibraryGame = {
+          id: `${LIBRARY_ID_PREFIX}${uuidv4()}`,
+          title: titleFromFileName(file.name),
+          console: consoleType,
+          fileName: file.name,
+          size: file.size,
+          region: inspection.header?.region,
+          crc32: inspection.crc32,
+          sha1: inspection.sha1,
+          data: new Blob([file], { type: 'application/octet-stream' }),
+          addedAt: now,
+          updatedAt: now,
+        };
+
+        await db.libraryGames.add(entry);
+        existing.push(entry);
+        result.imported.push(toGame(entry));
+      } catch (error) {
+        console.error('Error importing ROM file:', error);
+        result.skipped.push({
+          fileName: file.name,
+          reason: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    return result;
+  },
+
+  /**
+   * Gets all games in the library.
+   *
+   * @returns Library games, newest first
+   */
+  async getGames(): Promise<Game[]> {
+    try {
+      const entries = await db.libraryGames.orderBy('addedAt').reverse().toArray();
+      return entries.map(toGame);
+    } catch (error) {
+      console.error('Error getting library games:', error);
+      throw new Error(`Failed to get library games: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  },
+
+  /**
+   * Changes the display title of a library game.
+   *
+   * @param id - The library game ID
+   * @param title - The new title
+   */
+  async renameGame(id: string, title: string): Promise<void> {
+    const trimmed = title.trim();
+    if (!trimmed) {
+      throw new Error('Title cannot be empty');
+    }
+
+    try {
+      const updated = await db.libraryGames.update(id, { title: trimmed, updatedAt: new Date() });
+      if (updated === 0) {
+        throw new Error(`Library game ${id} not found`);
+      }
+    } catch (error) {
+      console.error('Error renaming library game:', error);
+      throw new Error(`Failed to rename library game: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  },
+
+  /**
+   * Removes a game from the library together with its save states,
+   * favorite entry, play history, cheats, settings profile and collection
+   * entries.
+   *
+   * @param id - The library game ID
+   */
+  async removeGame(id: string): Promise<void> {
+    try {
+      const tables = [
+        db.libraryGames,
+        db.saveStates,
+        db.favorites,
+        db.playSessions,
+        db.collections,
+        db.cheats,
+        db.settingsProfiles,
+      ];
+      await db.transaction('rw', tables, async () => {
+        await db.libraryGames.delete(id);
+        await db.saveStates.where('gameId').equals(id).delete();
+        await db.favorites.where('gameId').equals(id).delete();
+        await db.playSessions.where('gameId').equals(id).delete();
+        await db.cheats.where('gameId').equals(id).delete();
+        await db.settingsProfiles.delete(`game:${id}`);
+        await db.collections
+          .where('gameIds')
+          .equals(id)
+          .modify((collection) => {
+            collection.gameIds = collection.gameIds.filter((gameId) => gameId !== id);
+          });
+      });
+    } catch (error) {
+      console.error('Error removing library game:', error);
+      throw new Error(`Failed to remove library game: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  },
+
+  /**
+   * Creates a blob URL for a library game's ROM.
+   * The caller owns the URL and must revoke it when the game is closed.
+   *
+   * @param id - The library game ID
+   * @returns Blob URL of the ROM data
+   */
+  async getRomUrl(id: string): Promise<string> {
+    const entry = await db.libraryGames.get(id);
+    if (!entry) {
+      throw new Error(`Library game ${id} not found`);
+    }
+    return URL.createObjectURL(entry.data);
+  },
+
+  /**
+   * Checks whether a game ID belongs to the library.
+   *
+   * @param id - The game ID
+   */
+  isLibraryId(id: string): boolean {
+    return id.startsWith(LIBRARY_ID_PREFIX);
+  },
+};
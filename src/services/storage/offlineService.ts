@@ -0,0 +1,370 @@
+/**
+ * Offline Service
+ * Pins games for offline play: downloads their ROM (with the tracks of a
+ * .cue disc image), cover, EmulatorJS core and BIOS into Cache Storage,
+ * where the service worker
+ * (public/sw.js) serves them without a network connection.
+ *
+ * @module services/storage/offlineService
+ */
+
+import { db } from '../database/db';
+import type { OfflineGame, OfflineResource } from '../database/models';
+import { biosService } from './biosService';
+import { getConsoleCores, getEmulatorDataPath } from '@/services/emulator';
+import { resolveCueSheetFiles } from '@/utils/cueSheet';
+import type { Game } from '@/types';
+
+/** Cache names, shared with public/sw.js */
+const CACHE_VERSION = 'v1';
+export const APP_SHELL_CACHE = `retro-app-shell-${CACHE_VERSION}`;
+export const EMULATORJS_CACHE = `retro-emulatorjs-${CACHE_VERSION}`;
+export const OFFLINE_GAMES_CACHE = `retro-offline-games-${CACHE_VERSION}`;
+
+/** EmulatorJS data path used by useEmulator */
+const EMULATORJS_DATA_URL = getEmulatorDataPath();
+
+/** Files EmulatorJS loads for every game */
+const EMULATORJS_RUNTIME_FILES = ['loader.js', 'emulator.min.js', 'emulator.min.css'];
+
+/**
+ * Share of the quota that unpersisted storage may use before the oldest
+ * pinned games are evicted
+ */
+const EVICTION_THRESHOLD = 0.8;
+
+/**
+ * Resource to download for a pinned game
+ */
+interface PinnableResource {
+  url: string;
+  /** Whether a failed download should abort pinning */
+  required: boolean;
+}
+
+/**
+ * Download progress while pinning a game
+ */
+export interface OfflineProgress {
+  /** Bytes downloaded so far */
+  loaded: number;
+  /** Files handled so far */
+  completed: number;
+  /** Files to download */
+  total: number;
+}
+
+/**
+ * Storage usage reported by the browser
+ */
+export interface StorageUsage {
+  /** Bytes used by this origin (all storage types) */
+  usage: number;
+  /** Bytes this origin may use */
+  quota: number;
+  /** Whether the browser will not evict this origin's storage */
+  persisted: boolean;
+  /** Bytes used by pinned games */
+  pinnedSize: number;
+}
+
+/**
+ * Checks whether the browser supports the offline features.
+ */
+function isSupported(): boolean {
+  return typeof caches !== 'undefined' && 'serviceWorker' in navigator;
+}
+
+/**
+ * Downloads a cue sheet and lists the track files it references.
+ */
+async function getCueSheetTracks(cueUrl: string): Promise<string[]> {
+  const response = await fetch(cueUrl, { mode: 'cors' });
+  if (!response.ok) {
+    throw new Error(`${cueUrl}: ${response.status} ${response.statusText}`);
+  }
+  return resolveCueSheetFiles(await response.text(), cueUrl);
+}
+
+/**
+ * Lists the files a game needs to run offline.
+ */
+async function getGameResources(game: Game): Promise<PinnableResource[]> {
+  const romUrl = new URL(game.romPath, location.href).href;
+  const resources: PinnableResource[] = [{ url: romUrl, required: true }];
+
+  // A cue sheet is only the track list; the game needs the tracks too
+  if (new URL(romUrl).pathname.toLowerCase().endsWith('.cue')) {
+    for (const url of await getCueSheetTracks(romUrl)) {
+      resources.push({ url, required: true });
+    }
+  }
+
+  if (game.coverPath) {
+    resources.push({ url: new URL(game.coverPath, location.href).href, required: false });
+  }
+
+  for (const file of EMULATORJS_RUNTIME_FILES) {
+    resources.push({ url: `${EMULATORJS_DATA_URL}${file}`, required: true });
+  }
+
+  // Primary core in both builds; threaded builds do not exist for every core
+  const [core] = getConsoleCores(game.console);
+  resources.push(
+    { url: `${EMULATORJS_DATA_URL}cores/${core}-wasm.data`, required: true },
+    { url: `${EMULATORJS_DATA_URL}cores/${core}-thread-wasm.data`, required: false },
+    { url: `${EMULATORJS_DATA_URL}cores/reports/${core}.json`, required: false }
+  );
+
+  // A user-supplied BIOS is already local; only the CDN copy needs caching
+  const bios = await biosService.resolveBiosForGame(game);
+  if (bios?.isLocal) {
+    URL.revokeObjectURL(bios.url);
+  } else if (bios) {
+    resources.push({ url: bios.url, required: true });
+  }
+
+  return resources;
+}
+
+/**
+ * Downloads a URL into a cache, reporting bytes as they arrive.
+ *
+ * @returns Size of the stored response in bytes
+ */
+async function downloadToCache(cache: Cache, url: string, onBytes: (bytes: number) => void): Promise<number> {
+  const response = await fetch(url, { mode: 'cors' });
+  if (!response.ok || !response.body) {
+    throw new Error(`${url}: ${response.status} ${response.statusText}`);
+  }
+
+  let size = 0;
+  const counted = response.body.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        size += chunk.byteLength;
+        onBytes(chunk.byteLength);
+        controller.enqueue(chunk);
+      },
+    })
+  );
+
+  // The body is already decoded, so encoding and length headers no longer apply
+  const headers = new Headers(response.headers);
+  headers.delete('content-encoding');
+  headers.delete('content-length');
+  await cache.put(url, new Response(counted, { status: response.status, statusText: response.statusText, headers }));
+
+  return size;
+}
+
+/**
+ * Removes cached URLs that no remaining pinned game uses.
+ */
+async function deleteUnusedResources(urls: readonly string[]): Promise<void> {
+  const remaining = await db.offlineGames.toArray();
+  const inUse = new Set(remaining.flatMap((entry) => entry.resources.map((resource) => resource.url)));
+  const cache = await caches.open(OFFLINE_GAMES_CACHE);
+  await Promise.all(urls.filter((url) => !inUse.has(url)).map((url) => cache.delete(url)));
+}
+
+/**
+ * Offline play service
+ */
+export const offlineService = {
+  isSupported,
+
+  /**
+   * Registers the service worker. Only done in production builds, where
+   * asset URLs are hashed and safe to cache.
+   */
+  async registerServiceWorker(): Promise<void> {
+    if (!isSupported() || !import.meta.env.PROD) return;
+
+    try {
+      await navigator.serviceWorker.register('/sw.js');
+    } catch (error) {
+      console.error('Error registering service worker:', error);
+    }
+  },
+
+  /**
+   * Downloads everything a game needs to run offline and records the pin.
+   * Also asks the browser to make storage persistent and caches the
+   * currently loaded app assets so the app itself opens offline.
+   *
+   * @param game - The catalog game to pin
+   * @param onProgress - Called as bytes arrive
+   * @returns The pin record
+   */
+  async pinGame(game: Game, onProgress?: (progress: OfflineProgress) => void): Promise<OfflineGame> {
+    if (!isSupported()) {
+      throw new Error('Offline play is not supported in this browser');
+    }
+    if (game.source === 'library') {
+      throw new Error('Library games are already stored on this device');
+    }
+
+    const stored: OfflineResource[] = [];
+
+    try {
+      await offlineService.requestPersistence();
+      await offlineService.cacheAppShell();
+
+      const cache = await caches.open(OFFLINE_GAMES_CACHE);
+      const resources = await getGameResources(game);
+      const progress: OfflineProgress = { loaded: 0, completed: 0, total: resources.length };
+      onProgress?.({ ...progress });
+
+      for (const resource of resources) {
+        // Cores and BIOS files are shared between games
+        const cached = await cache.match(resource.url);
+        if (cached) {
+          stored.push({ url: resource.url, size: (await cached.blob()).size });
+        } else {
+          try {
+            const size = await downloadToCache(cache, resource.url, (bytes) => {
+              progress.loaded += bytes;
+              onProgress?.({ ...progress });
+            });
+            stored.push({ url: resource.url, size });
+          } catch (error) {
+            if (resource.required) throw error;
+          }
+        }
+
+        progress.completed++;
+        onProgress?.({ ...progress });
+      }
+
+      const entry: OfflineGame = {
+        gameId: game.id,
+        title: game.title,
+        console: game.console,
+        resources: stored,
+        size: stored.reduce((total, resource) => total + resource.size, 0),
+        pinnedAt: new Date(),
+      };
+      await db.offlineGames.put(entry);
+      await offlineService.enforceStorageBudget(game.id);
+
+      return entry;
+    } catch (error) {
+      // Drop files downloaded for this attempt that no pinned game uses
+      await deleteUnusedResources(stored.map((resource) => resource.url)).catch(() => undefined);
+      console.error('Error pinning game for offline play:', error);
+      throw new Error(`Failed to download game for offline play: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  },
+
+  /**
+   * Removes a game's offline copy. Files shared with other pinned games
+   * (cores, BIOS) are kept.
+   *
+   * @param gameId - The game ID
+   */
+  async unpinGame(gameId: string): Promise<void> {
+    try {
+      const entry = await db.offlineGames.get(gameId);
+      if (!entry) return;
+
+      await db.offlineGames.delete(gameId);
+      await deleteUnusedResources(entry.resources.map((resource) => resource.url));
+    } catch (error) {
+      console.error('Error removing offline game:', error);
+      throw new Error(`Failed to remove offline game: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  },
+
+  /**
+   * Gets all pinned games.
+   *
+   * @returns Pinned games, oldest first
+   */
+  async getPinnedGames(): Promise<OfflineGame[]> {
+    return db.offlineGames.orderBy('pinnedAt').toArray();
+  },
+
+  /**
+   * Caches the app's HTML and the build assets loaded so far.
+   */
+  async cacheAppShell(): Promise<void> {
+    if (!import.meta.env.PROD) return;
+
+    const assets = performance
+      .getEntriesByType('resource')
+      .map((entry) => entry.name)
+      .filter((url) => url.startsWith(`${location.origin}/assets/`));
+
+    const cache = await caches.open(APP_SHELL_CACHE);
+    await cache.addAll(['/', ...new Set(assets)]);
+  },
+
+  /**
+   * Asks the browser to exempt this origin's storage from eviction.
+   *
+   * @returns Whether storage is persistent
+   */
+  async requestPersistence(): Promise<boolean> {
+    if (!navigator.storage?.persist) return false;
+    if (await navigator.storage.persisted()) return true;
+    return navigator.storage.persist();
+  },
+
+  /**
+   * Reports storage usage and whether it is persistent.
+   */
+  async getStorageUsage(): Promise<StorageUsage> {
+    const [estimate, persisted, pinned] = await Promise.all([
+      navigator.storage?.estimate?.() ?? Promise.resolve<StorageEstimate>({}),
+      navigator.storage?.persisted?.() ?? Promise.resolve(false),
+      db.offlineGames.toArray(),
+    ]);
+
+    return {
+      usage: estimate.usage ?? 0,
+      quota: estimate.quota ?? 0,
+      persisted,
+      pinnedSize: pinned.reduce((total, entry) => total + entry.size, 0),
+    };
+  },
+
+  /**
+   * Clears the runtime caches (EmulatorJS files cached while playing).
+   * Pinned games and the app shell are kept.
+   */
+  async clearRuntimeCache(): Promise<void> {
+    if (typeof caches === 'undefined') return;
+    await caches.delete(EMULATORJS_CACHE);
+  },
+
+  /**
+   * Frees space when storage is not persistent and usage is above the
+   * eviction threshold: first the runtime cache, then the oldest pinned
+   * games. Persistent storage is left alone, since the browser will not
+   * evict it and the user manages it from the storage view.
+   *
+   * @param keepGameId - Game that must not be evicted (the one just pinned)
+   * @returns IDs of the evicted games
+   */
+  async enforceStorageBudget(keepGameId?: string): Promise<string[]> {
+    const evicted: string[] = [];
+    let usage = await offlineService.getStorageUsage();
+    if (usage.persisted || usage.quota === 0 || usage.usage <= usage.quota * EVICTION_THRESHOLD) {
+      return evicted;
+    }
+
+    await offlineService.clearRuntimeCache();
+
+    for (const entry of await offlineService.getPinnedGames()) {
+      usage = await offlineService.getStorageUsage();
+      if (usage.usage <= usage.quota * EVICTION_THRESHOLD) break;
+      if (entry.gameId === keepGameId) continue;
+
+      await offlineService.unpinGame(entry.gameId);
+      evicted.push(entry.gameId);
+    }
+
+    return evicted;
+  },
+};
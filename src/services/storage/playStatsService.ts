@@ -0,0 +1,252 @@
+/**
+ * Play Stats Service
+ * Aggregates play sessions into the statistics shown on the stats page:
+ * daily play time, time per console and genre, streaks, longest sessions
+ * and per-game totals. Everything is computed in one pass over a single
+ * read of the startedAt index instead of one query per game.
+ *
+ * @module services/storage/playStatsService
+ */
+
+import { db } from '../database/db';
+import type { PlaySession } from '../database/models';
+import { getConsoleConfig } from '@/types';
+import type { Game, GamePlayStats } from '@/types';
+
+/** Number of entries kept in PlayAnalytics.longestSessions */
+const LONGEST_SESSIONS_LIMIT = 10;
+
+/** Milliseconds per day */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Play time of one console or genre
+ */
+export interface PlayTimeShare {
+  /** Console type or genre ('unknown' for games no longer in the catalog) */
+  key: string;
+  /** Display label */
+  label: string;
+  /** Total play time in seconds */
+  seconds: number;
+  /** Number of sessions */
+  sessions: number;
+}
+
+/**
+ * A single play session with its game
+ */
+export interface SessionSummary {
+  gameId: string;
+  startedAt: Date;
+  durationSeconds: number;
+}
+
+/**
+ * Aggregated play statistics
+ */
+export interface PlayAnalytics {
+  /** Total play time in seconds */
+  totalSeconds: number;
+  /** Total number of sessions */
+  totalSessions: number;
+  /** Number of distinct games played */
+  totalGames: number;
+  /** Play time in seconds per local day, keyed 'YYYY-MM-DD' */
+  daily: Record<string, number>;
+  /** Play time per console, most played first */
+  byConsole: PlayTimeShare[];
+  /** Play time per genre, most played first */
+  byGenre: PlayTimeShare[];
+  /** Per-game statistics, most played first */
+  games: GamePlayStats[];
+  /** Longest sessions, longest first */
+  longestSessions: SessionSummary[];
+  /** Consecutive days played up to today (or yesterday) */
+  currentStreak: number;
+  /** Longest run of consecutive days played */
+  longestStreak: number;
+  /** Start of the first recorded session */
+  firstPlayedAt?: Date;
+}
+
+/**
+ * Formats a date as a local 'YYYY-MM-DD' day key.
+ *
+ * @param date - The date
+ * @returns Day key
+ */
+export function toDayKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Converts a day key to a day number, so consecutive days differ by one
+ * regardless of daylight saving changes.
+ */
+function dayNumber(key: string): number {
+  const [year, month, day] = key.split('-').map(Number);
+  return Math.round(Date.UTC(year, month - 1, day) / DAY_MS);
+}
+
+/**
+ * Adds a session to a console or genre bucket.
+ */
+function addShare(shares: Map<string, PlayTimeShare>, key: string, label: string, seconds: number): void {
+  const share = shares.get(key) ?? { key, label, seconds: 0, sessions: 0 };
+  share.seconds += seconds;
+  share.sessions += 1;
+  shares.set(key, share);
+}
+
+/**
+ * Sorts shares by play time, most played first.
+ */
+function sortShares(shares: Map<string, PlayTimeShare>): PlayTimeShare[] {
+  return [...shares.values()].sort((a, b) => b.seconds - a.seconds || b.sessions - a.sessions);
+}
+
+/**
+ * Computes the current and longest streak of consecutive play days.
+ */
+function computeStreaks(dayKeys: Iterable<string>, today: Date): { current: number; longest: number } {
+  const days = [...new Set([...dayKeys].map(dayNumber))].sort((a, b) => a - b);
+  let longest = 0;
+  let run = 0;
+
+  for (let i = 0; i < days.length; i++) {
+    run = i > 0 && days[i] === days[i - 1] + 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  }
+
+  // The current streak survives until a full day passes without play
+  const todayNumber = dayNumber(toDayKey(today));
+  const last = days[days.length - 1];
+  const current = last !== undefined && todayNumber - last <= 1 ? run : 0;
+
+  return { current, longest };
+}
+
+/**
+ * Creates empty statistics for a game.
+ */
+function createGameStats(gameId: string): GamePlayStats {
+  return {
+    gameId,
+    totalSessions: 0,
+    totalPlayTimeSeconds: 0,
+    averageSessionSeconds: 0,
+    longestSessionSeconds: 0,
+  };
+}
+
+/**
+ * Aggregates play sessions. Sessions are attributed to the day they
+ * started on. Sessions still in progress count with the play time of
+ * their last heartbeat.
+ *
+ * @param sessions - Play sessions, in any order
+ * @param games - Known games, for console and genre breakdowns
+ * @param now - Reference time for the current streak
+ * @returns Aggregated statistics
+ */
+export function aggregatePlaySessions(
+  sessions: Iterable<PlaySession>,
+  games: readonly Game[],
+  now = new Date()
+): PlayAnalytics {
+  const gamesById = new Map(games.map((game) => [game.id, game]));
+  const daily: Record<string, number> = {};
+  const byConsole = new Map<string, PlayTimeShare>();
+  const byGenre = new Map<string, PlayTimeShare>();
+  const byGame = new Map<string, GamePlayStats>();
+  const longestSessions: SessionSummary[] = [];
+  let totalSeconds = 0;
+  let totalSessions = 0;
+  let firstPlayedAt: Date | undefined;
+
+  for (const session of sessions) {
+    const seconds = session.durationSeconds;
+    const game = gamesById.get(session.gameId);
+    totalSeconds += seconds;
+    totalSessions += 1;
+
+    if (!firstPlayedAt || session.startedAt < firstPlayedAt) {
+      firstPlayedAt = session.startedAt;
+    }
+
+    const dayKey = toDayKey(session.startedAt);
+    daily[dayKey] = (daily[dayKey] ?? 0) + seconds;
+
+    const consoleKey = game?.console ?? 'unknown';
+    addShare(byConsole, consoleKey, game ? getConsoleConfig(game.console).name : 'Unknown', seconds);
+
+    const genreKey = game?.genre ?? 'unknown';
+    addShare(byGenre, genreKey, genreKey.charAt(0).toUpperCase() + genreKey.slice(1), seconds);
+
+    const stats = byGame.get(session.gameId) ?? createGameStats(session.gameId);
+    stats.totalSessions += 1;
+    stats.totalPlayTimeSeconds += seconds;
+    stats.longestSessionSeconds = Math.max(stats.longestSessionSeconds, seconds);
+    if (!stats.lastPlayedAt || session.startedAt > stats.lastPlayedAt) {
+      stats.lastPlayedAt = session.startedAt;
+    }
+    byGame.set(session.gameId, stats);
+
+    // Keep the top sessions sorted while scanning
+    const shortest = longestSessions[longestSessions.length - 1];
+    if (seconds > 0 && (longestSessions.length < LONGEST_SESSIONS_LIMIT || seconds > shortest.durationSeconds)) {
+      const index = longestSessions.findIndex((entry) => seconds > entry.durationSeconds);
+      longestSessions.splice(index === -1 ? longestSessions.length : index, 0, {
+        gameId: session.gameId,
+        startedAt: session.startedAt,
+        durationSeconds: seconds,
+      });
+      longestSessions.length = Math.min(longestSessions.length, LONGEST_SESSIONS_LIMIT);
+    }
+  }
+
+  const gameStats = [...byGame.values()]
+    .map((stats) => ({ ...stats, averageSessionSeconds: stats.totalPlayTimeSeconds / stats.totalSessions }))
+    .sort((a, b) => b.totalPlayTimeSeconds - a.totalPlayTimeSeconds);
+
+  const playedDays = Object.keys(daily).filter((key) => daily[key] > 0);
+  const streaks = computeStreaks(playedDays, now);
+
+  return {
+    totalSeconds,
+    totalSessions,
+    totalGames: byGame.size,
+    daily,
+    byConsole: sortShares(byConsole),
+    byGenre: sortShares(byGenre),
+    games: gameStats,
+    longestSessions,
+    currentStreak: streaks.current,
+    longestStreak: streaks.longest,
+    firstPlayedAt,
+  };
+}
+
+/**
+ * Play statistics service
+ */
+export const playStatsService = {
+  /**
+   * Computes play statistics over all recorded sessions.
+   *
+   * @param games - Known games, for console and genre breakdowns
+   * @returns Aggregated statistics
+   */
+  async getAnalytics(games: readonly Game[]): Promise<PlayAnalytics> {
+    try {
+      const sessions = await db.playSessions.orderBy('startedAt').toArray();
+      return aggregatePlaySessions(sessions, games);
+    } catch (error) {
+      console.error('Error computing play statistics:', error);
+      throw new Error(`Failed to compute play statistics: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  },
+};
@@ -0,0 +1,371 @@
+/**
+ * Save State Archive Service
+ * Exports and imports save states as portable single-file archive bundles.
+ *
+ * Archive layout (all integers little-endian):
+ * - 4 bytes  : magic "RGSA"
+ * - 4 bytes  : archive format version (uint32)
+ * - 4 bytes  : manifest length in bytes (uint32)
+ * - N bytes  : UTF-8 JSON manifest
+ * - payload  : concatenated data/screenshot blobs, addressed by manifest offsets
+ *
+ * @module services/storage/saveStateArchiveService
+ */
+
+import { db } from '../database/db';
+import type { SaveState } from '../database/models';
+import { isConsoleType, SAVE_SLOT } from '@/types';
+import type { ConsoleType, Game } from '@/types';
+
+/** Magic bytes identifying a save archive */
+const ARCHIVE_MAGIC = 'RGSA';
+
+/** Current archive format version */
+const ARCHIVE_VERSION = 1;
+
+/** Size of the fixed binary header (magic + version + manifest length) */
+const HEADER_SIZE = 12;
+
+/** Maximum number of save slots per game */
+const MAX_SLOTS = 10;
+
+/** File extension used for exported archives */
+export const SAVE_ARCHIVE_EXTENSION = '.rgsave';
+
+/**
+ * Location of a blob inside the archive payload
+ */
+interface ArchiveBlobRef {
+  /** Byte offset from the start of the payload */
+  offset: number;
+  /** Size in bytes */
+  size: number;
+  /** MIME type of the original blob */
+  type: string;
+}
+
+/**
+ * Single save state entry described in the manifest
+ */
+export interface SaveArchiveEntry {
+  gameId: string;
+  consoleType: ConsoleType;
+  slot: number;
+  label?: string;
+  emulatorVersion?: string;
+  /** ISO timestamp */
+  createdAt: string;
+  /** ISO timestamp */
+  updatedAt: string;
+  data: ArchiveBlobRef;
+  screenshot?: ArchiveBlobRef;
+}
+
+/**
+ * JSON manifest stored at the start of every archive
+ */
+export interface SaveArchiveManifest {
+  version: number;
+  /** ISO timestamp of the export */
+  exportedAt: string;
+  /** Whether the archive holds a single game's saves or the whole library */
+  scope: 'game' | 'library';
+  /** Game ID for single-game archives */
+  gameId?: string;
+  entries: SaveArchiveEntry[];
+}
+
+/**
+ * Entry that was not restored during import
+ */
+export interface SkippedArchiveEntry {
+  gameId: string;
+  slot: number;
+  reason: string;
+}
+
+/**
+ * Result of an archive import
+ */
+export interface SaveArchiveImportResult {
+  /** Number of save states restored */
+  imported: number;
+  /** Entries rejected by validation */
+  skipped: SkippedArchiveEntry[];
+}
+
+/**
+ * Options for importing an archive
+ */
+export interface SaveArchiveImportOptions {
+  /** Known games, used to validate game IDs and console types */
+  games: readonly Game[];
+  /** Restrict the import to a single game (per-game import) */
+  gameId?: string;
+}
+
+/**
+ * Builds the archive blob from a list of save states.
+ */
+function buildArchive(
+  states: SaveState[],
+  resolveConsole: (state: SaveState) => ConsoleType | undefined,
+  scope: SaveArchiveManifest['scope'],
+  gameId?: string
+): { blob: Blob; count: number } {
+  const payload: Blob[] = [];
+  const entries: SaveArchiveEntry[] = [];
+  let offset = 0;
+
+  const addBlob = (blob: Blob): ArchiveBlobRef => {
+    const ref = { offset, size: blob.size, type: blob.type };
+    payload.push(blob);
+    offset += blob.size;
+    return ref;
+  };
+
+  for (const state of states) {
+    const consoleType = resolveConsole(state);
+    if (!consoleType) {
+      console.warn(`Skipping save for unknown game "${state.gameId}" (slot ${state.slot})`);
+      continue;
+    }
+
+    entries.push({
+      gameId: state.gameId,
+      consoleType,
+      slot: state.slot,
+      label: state.label,
+      emulatorVersion: state.emulatorVersion,
+      createdAt: state.createdAt.toISOString(),
+      updatedAt: state.updatedAt.toISOString(),
+      data: addBlob(state.data),
+      screenshot: state.screenshot ? addBlob(state.screenshot) : undefined,
+    });
+  }
+
+  const manifest: SaveArchiveManifest = {
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    scope,
+    gameId,
+    entries,
+  };
+
+  const manifestBytes = new TextEncoder().encode(JSON.stringify(manifest));
+  const header = new DataView(new ArrayBuffer(HEADER_SIZE));
+  for (let i = 0; i < ARCHIVE_MAGIC.length; i++) {
+    header.setUint8(i, ARCHIVE_MAGIC.charCodeAt(i));
+  }
+  header.setUint32(4, ARCHIVE_VERSION, true);
+  header.setUint32(8, manifestBytes.byteLength, true);
+
+  return {
+    blob: new Blob([header.buffer, manifestBytes, ...payload], { type: 'application/octet-stream' }),
+    count: entries.length,
+  };
+}
+
+/**
+ * Reads and validates the archive header and manifest.
+ */
+async function readManifest(file: Blob): Promise<{ manifest: SaveArchiveManifest; payloadStart: number }> {
+  if (file.size < HEADER_SIZE) {
+    throw new Error('File is too small to be a save archive');
+  }
+
+  const header = new DataView(await file.slice(0, HEADER_SIZE).arrayBuffer());
+  const magic = String.fromCharCode(
+    header.getUint8(0),
+    header.getUint8(1),
+    header.getUint8(2),
+    header.getUint8(3)
+  );
+  if (magic !== ARCHIVE_MAGIC) {
+    throw new Error('Not a save archive');
+  }
+
+  const version = header.getUint32(4, true);
+  if (version > ARCHIVE_VERSION) {
+    throw new Error(`Unsupported archive version: ${version}`);
+  }
+
+  const manifestLength = header.getUint32(8, true);
+  const payloadStart = HEADER_SIZE + manifestLength;
+  if (payloadStart > file.size) {
+    throw new Error('Archive manifest is truncated');
+  }
+
+  const manifest = JSON.parse(await file.slice(HEADER_SIZE, payloadStart).text()) as SaveArchiveManifest;
+  if (!manifest || !Array.isArray(manifest.entries)) {
+    throw new Error('Archive manifest is invalid');
+  }
+
+  return { manifest, payloadStart };
+}
+
+/**
+ * Returns a reason string if the entry cannot be restored, or null if it is valid.
+ */
+function validateEntry(
+  entry: SaveArchiveEntry,
+  gamesById: Map<string, Game>,
+  options: SaveArchiveImportOptions
+): string | null {
+  if (options.gameId && entry.gameId !== options.gameId) {
+    return `Save belongs to a different game (${entry.gameId})`;
+  }
+  if (!isConsoleType(entry.consoleType)) {
+    return `Unknown console type: ${entry.consoleType}`;
+  }
+
+  const game = gamesById.get(entry.gameId);
+  if (!game) {
+    return 'Game is not in the library';
+  }
+  if (game.console !== entry.consoleType) {
+    return `Console mismatch: archive has ${entry.consoleType}, game is ${game.console}`;
+  }
+  const isSpecialSlot = entry.slot === SAVE_SLOT.AUTO || entry.slot === SAVE_SLOT.QUICK;
+  if (!Number.isInteger(entry.slot) || (!isSpecialSlot && (entry.slot < 0 || entry.slot >= MAX_SLOTS))) {
+    return `Invalid slot number: ${entry.slot}`;
+  }
+  if (!entry.data || entry.data.size <= 0) {
+    return 'Save data is missing';
+  }
+
+  return null;
+}
+
+/**
+ * Save state archive export/import service
+ */
+export const saveStateArchiveService = {
+  /**
+   * Exports all save states of a single game as an archive.
+   *
+   * @param game - The game to export saves for
+   * @returns The archive blob and number of bundled saves
+   */
+  async exportGame(game: Game): Promise<{ blob: Blob; count: number }> {
+    try {
+      const states = await db.getSaveStatesForGame(game.id);
+      states.sort((a, b) => a.slot - b.slot);
+      return buildArchive(states, () => game.console, 'game', game.id);
+    } catch (error) {
+      console.error('Error exporting save states:', error);
+      throw new Error(`Failed to export save states: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  },
+
+  /**
+   * Exports every save state in the library as an archive.
+   * Saves for games that are no longer in the library are kept if they
+   * recorded their console type, otherwise they are skipped.
+   *
+   * @param games - Known games, used to resolve console types
+   * @returns The archive blob and number of bundled saves
+   */
+  async exportLibrary(games: readonly Game[]): Promise<{ blob: Blob; count: number }> {
+    try {
+      const gamesById = new Map(games.map((game) => [game.id, game]));
+      const states = await db.saveStates.toArray();
+      states.sort((a, b) => a.gameId.localeCompare(b.gameId) || a.slot - b.slot);
+
+      return buildArchive(
+        states,
+        (state) => {
+          const consoleType = gamesById.get(state.gameId)?.console ?? state.consoleType;
+          return consoleType && isConsoleType(consoleType) ? consoleType : undefined;
+        },
+        'library'
+      );
+    } catch (error) {
+      console.error('Error exporting save library:', error);
+      throw new Error(`Failed to export save library: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  },
+
+  /**
+   * Reads the manifest of an archive without importing anything.
+   *
+   * @param file - The archive file
+   * @returns The parsed manifest
+   */
+  async readManifest(file: Blob): Promise<SaveArchiveManifest> {
+    const { manifest } = await readManifest(file);
+    return manifest;
+  },
+
+  /**
+   * Imports save states from an archive.
+   * Every entry is checked against the known games: the game ID must exist
+   * and its console type must match. Valid entries replace existing saves
+   * in the same slot.
+   *
+   * @param file - The archive file
+   * @param options - Import validation options
+   * @returns Number of restored saves and the entries that were skipped
+   * @throws Error if the archive is unreadable or nothing could be imported
+   */
+  async importArchive(file: Blob, options: SaveArchiveImportOptions): Promise<SaveArchiveImportResult> {
+    try {
+      const { manifest, payloadStart } = await readManifest(file);
+      const gamesById = new Map(options.games.map((game) => [game.id, game]));
+      const result: SaveArchiveImportResult = { imported: 0, skipped: [] };
+
+      const readBlob = async (ref: ArchiveBlobRef): Promise<Blob> => {
+        const start = payloadStart + ref.offset;
+        if (start + ref.size > file.size) {
+          throw new Error('Archive payload is truncated');
+        }
+        // Copy out of the file so the stored blob does not reference it
+        const buffer = await file.slice(start, start + ref.size).arrayBuffer();
+        return new Blob([buffer], { type: ref.type || 'application/octet-stream' });
+      };
+
+      for (const entry of manifest.entries) {
+        const reason = validateEntry(entry, gamesById, options);
+        if (reason) {
+          result.skipped.push({ gameId: entry.gameId, slot: entry.slot, reason });
+          continue;
+        }
+
+        await db.restoreSaveState({
+          gameId: entry.gameId,
+          slot: entry.slot,
+          data: await readBlob(entry.data),
+          screenshot: entry.screenshot ? await readBlob(entry.screenshot) : undefined,
+          consoleType: entry.consoleType,
+          label: entry.label,
+          emulatorVersion: entry.emulatorVersion,
+          createdAt: new Date(entry.createdAt),
+          updatedAt: new Date(entry.updatedAt),
+        });
+        result.imported++;
+      }
+
+      if (result.imported === 0 && result.skipped.length > 0) {
+        throw new Error(result.skipped[0].reason);
+      }
+
+      return result;
+    } catch (error) {
+      console.error('Error importing save archive:', error);
+      throw new Error(`Failed to import save archive: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  },
+
+  /**
+   * Builds a download file name for an archive.
+   *
+   * @param gameId - Game ID for per-game archives; omit for library backups
+   * @returns The suggested file name
+   */
+  getFileName(gameId?: string): string {
+    const date = new Date().toISOString().slice(0, 10);
+    return gameId
+      ? `retrogaming-saves-${gameId}-${date}${SAVE_ARCHIVE_EXTENSION}`
+      : `retrogaming-saves-library-${date}${SAVE_ARCHIVE_EXTENSION}`;
+  },
+};
@@ -7,10 +7,20 @@
 
 import { db } from '../database/db';
 import type { SaveState } from '../database/models';
+import { SAVE_SLOT } from '@/types';
+import { offlineService } from './offlineService';
+import { isQuotaExceededError } from './storageService';
 
 /** Maximum number of save slots per game */
 const MAX_SLOTS = 10;
 
+/**
+ * Checks whether a slot is a manual slot or one of the reserved special slots.
+ */
+function isValidSlot(slot: number): boolean {
+  return (slot >= 0 && slot < MAX_SLOTS) || slot === SAVE_SLOT.AUTO || slot === SAVE_SLOT.QUICK;
+}
+
 /**
  * Slot information for UI display
  */
@@ -30,28 +40,49 @@ export const saveStateService = {
    * Creates a new save or updates an existing one.
    *
    * @param gameId - The ID of the game
-   * @param slot - The slot number (0 to MAX_SLOTS-1)
+   * @param slot - The slot number (0 to MAX_SLOTS-1, or SAVE_SLOT.AUTO / SAVE_SLOT.QUICK)
    * @param data - The save state binary data as ArrayBuffer
    * @param screenshot - Optional screenshot blob
+   * @param consoleType - Console the game runs on
    * @throws Error if slot number is invalid
+   * @throws DOMException named QuotaExceededError if storage is still full
+   *   after clearing the EmulatorJS runtime cache
    */
   async saveState(
     gameId: string,
     slot: number,
     data: ArrayBuffer,
-    screenshot?: Blob
+    screenshot?: Blob,
+    consoleType?: string
   ): Promise<void> {
-    if (slot < 0 || slot >= MAX_SLOTS) {
-      throw new Error(`Invalid slot number: ${slot}. Must be between 0 and ${MAX_SLOTS - 1}`);
+    if (!isValidSlot(slot)) {
+      throw new Error(
+        `Invalid slot number: ${slot}. Must be between 0 and ${MAX_SLOTS - 1}, ${SAVE_SLOT.AUTO} (auto-save) or ${SAVE_SLOT.QUICK} (quick save)`
+      );
     }
 
     try {
       // Convert ArrayBuffer to Blob for storage
       const dataBlob = new Blob([data], { type: 'application/octet-stream' });
 
-      await db.upsertSaveState(gameId, slot, dataBlob, screenshot);
+      try {
+        await db.upsertSaveState(gameId, slot, dataBlob, screenshot, consoleType);
+      } catch (error) {
+        if (!isQuotaExceededError(error)) throw error;
+
+        // The runtime cache is downloaded again when needed, so it goes first
+        console.warn('Storage full while saving state, clearing the runtime cache:', error);
+        await offlineService.clearRuntimeCache();
+        await db.upsertSaveState(gameId, slot, dataBlob, screenshot, consoleType);
+      }
     } catch (error) {
       console.error('Error saving state:', error);
+      if (isQuotaExceededError(error)) {
+        throw new DOMException(
+          'Not enough storage space to save. Free up space under Settings > Storage.',
+          'QuotaExceededError'
+        );
+      }
       throw new Error(`Failed to save state to slot ${slot}: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   },
@@ -209,6 +240,22 @@ export const saveStateService = {
     }
   },
 
+  /**
+   * Gets the auto-save for a game, if one exists.
+   * Used to offer "Resume" when a game is opened.
+   *
+   * @param gameId - The ID of the game
+   * @returns The auto-save state, or null if none exists
+   */
+  async getAutoSave(gameId: string): Promise<SaveState | null> {
+    try {
+      return (await db.getSaveState(gameId, SAVE_SLOT.AUTO)) ?? null;
+    } catch (error) {
+      console.error('Error getting auto-save:', error);
+      return null;
+    }
+  },
+
   /**
    * Gets the maximum number of allowed slots.
    *
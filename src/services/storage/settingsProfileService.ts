@@ -0,0 +1,151 @@
+/**
+ * Settings Profile Service
+ * Manages the setting overrides saved per game and per console, and merges
+ * them over the global settings when a game starts: the game's profile
+ * wins over its console's profile, which wins over the global settings.
+ *
+ * @module services/storage/settingsProfileService
+ */
+
+import { db } from '../database/db';
+import type { SettingsOverrides, SettingsProfile, SettingsProfileScope, UserSettings } from '../database/models';
+import { DEFAULT_DISPLAY_SETTINGS } from '@/types';
+import type { ConsoleType, Game } from '@/types';
+import { settingsService } from './settingsService';
+
+/**
+ * Drops unset fields, so a profile without overrides can be detected.
+ */
+function compactOverrides(overrides: SettingsOverrides): SettingsOverrides {
+  return Object.fromEntries(
+    Object.entries(overrides).filter(([, value]) => value !== undefined)
+  ) as SettingsOverrides;
+}
+
+/**
+ * Merges profile overrides over the global settings. Later profiles win,
+ * so pass the console profile before the game profile.
+ *
+ * @param settings - The global settings
+ * @param console - Console of the game the settings are for
+ * @param profiles - Overrides to apply, lowest priority first
+ * @returns Settings with the overrides applied
+ */
+export function applySettingsOverrides(
+  settings: UserSettings,
+  console: ConsoleType,
+  profiles: readonly (SettingsOverrides | undefined)[]
+): UserSettings {
+  const overrides: SettingsOverrides = Object.assign({}, ...profiles.map((profile) => compactOverrides(profile ?? {})));
+  const display = { ...DEFAULT_DISPLAY_SETTINGS, ...settings.display };
+
+  return {
+    ...settings,
+    rewindEnabled: overrides.rewindEnabled ?? settings.rewindEnabled,
+    rewindGranularity: overrides.rewindGranularity ?? settings.rewindGranularity,
+    fastForwardRatio: overrides.fastForwardRatio ?? settings.fastForwardRatio,
+    display: {
+      ...display,
+      integerScaling: overrides.integerScaling ?? display.integerScaling,
+      maintainAspectRatio: overrides.maintainAspectRatio ?? display.maintainAspectRatio,
+    },
+    // A profile shader is the console's pick for this game (see resolveShader)
+    consoleShaders:
+      overrides.shader !== undefined
+        ? { ...settings.consoleShaders, [console]: overrides.shader }
+        : settings.consoleShaders,
+    controlMappings: overrides.controls
+      ? { ...settings.controlMappings, [console]: overrides.controls }
+      : settings.controlMappings,
+  };
+}
+
+/**
+ * Settings profile management service
+ */
+export const settingsProfileService = {
+  /**
+   * Gets the profile of a game or console.
+   *
+   * @param scope - Whether the target is a game or a console
+   * @param targetId - The game ID or console type
+   * @returns The profile, or undefined if the target uses the global settings
+   */
+  async getProfile(scope: SettingsProfileScope, targetId: string): Promise<SettingsProfile | undefined> {
+    try {
+      return await db.getSettingsProfile(scope, targetId);
+    } catch (error) {
+      console.error('Error getting settings profile:', error);
+      throw new Error(`Failed to get settings profile: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  },
+
+  /**
+   * Changes one override of a game or console profile. Clearing the last
+   * override deletes the profile.
+   *
+   * @param scope - Whether the target is a game or a console
+   * @param targetId - The game ID or console type
+   * @param key - The setting to override
+   * @param value - The new value, or undefined to use the inherited one
+   */
+  async setOverride<K extends keyof SettingsOverrides>(
+    scope: SettingsProfileScope,
+    targetId: string,
+    key: K,
+    value: SettingsOverrides[K] | undefined
+  ): Promise<void> {
+    try {
+      const profile = await db.getSettingsProfile(scope, targetId);
+      const overrides = compactOverrides({ ...profile?.overrides, [key]: value });
+
+      if (Object.keys(overrides).length === 0) {
+        await db.deleteSettingsProfile(scope, targetId);
+      } else {
+        await db.putSettingsProfile(scope, targetId, overrides);
+      }
+    } catch (error) {
+      console.error('Error updating settings profile:', error);
+      throw new Error(`Failed to update settings profile: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  },
+
+  /**
+   * Removes every override of a game or console, so it goes back to the
+   * global settings.
+   *
+   * @param scope - Whether the target is a game or a console
+   * @param targetId - The game ID or console type
+   */
+  async resetProfile(scope: SettingsProfileScope, targetId: string): Promise<void> {
+    try {
+      await db.deleteSettingsProfile(scope, targetId);
+    } catch (error) {
+      console.error('Error resetting settings profile:', error);
+      throw new Error(`Failed to reset settings profile: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  },
+
+  /**
+   * Gets the settings a game runs with: the global settings with the
+   * console and game profiles applied. Falls back to the global settings
+   * if the profiles cannot be read, so a game can always start.
+   *
+   * @param game - The game about to start
+   * @returns The merged settings
+   */
+  async getEffectiveSettings(game: Pick<Game, 'id' | 'console'>): Promise<UserSettings> {
+    const settings = await settingsService.getSettings();
+
+    try {
+      const [consoleProfile, gameProfile] = await Promise.all([
+        db.getSettingsProfile('console', game.console),
+        db.getSettingsProfile('game', game.id),
+      ]);
+      return applySettingsOverrides(settings, game.console, [consoleProfile?.overrides, gameProfile?.overrides]);
+    } catch (error) {
+      console.error('Error getting settings profiles:', error);
+      return applySettingsOverrides(settings, game.console, []);
+    }
+  },
+};
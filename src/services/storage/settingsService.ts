@@ -8,6 +8,45 @@
 import { db } from '../database/db';
 import { DEFAULT_USER_SETTINGS } from '../database/models';
 import type { UserSettings } from '../database/models';
+import { DEFAULT_DISPLAY_SETTINGS, isEmulatorShader, isFastForwardRatio, isRewindGranularity } from '@/types';
+import type {
+  ConsoleControlMappings,
+  ConsoleType,
+  ControlMappingsByConsole,
+  ControlPlayer,
+  DisplaySettings,
+  EmulatorShader,
+  FastForwardRatio,
+  GamepadAssignments,
+  RewindGranularity,
+} from '@/types';
+import { CONTROL_PLAYERS } from '@/services/emulator/controlMappings';
+
+/**
+ * Keeps the valid entries of an imported per-console shader map.
+ */
+function sanitizeConsoleShaders(value: unknown): Partial<Record<ConsoleType, EmulatorShader>> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return {};
+  }
+  return Object.fromEntries(
+    Object.entries(value).filter(([, shader]) => isEmulatorShader(shader))
+  ) as Partial<Record<ConsoleType, EmulatorShader>>;
+}
+
+/**
+ * Keeps the valid entries of an imported gamepad assignment map.
+ */
+function sanitizeGamepadAssignments(value: unknown): GamepadAssignments {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return {};
+  }
+  return Object.fromEntries(
+    Object.entries(value).filter(
+      ([player, id]) => CONTROL_PLAYERS.includes(player as ControlPlayer) && typeof id === 'string'
+    )
+  ) as GamepadAssignments;
+}
 
 /**
  * User settings management service
@@ -146,12 +185,118 @@ export const settingsService = {
     await this.updateSettings({ showVirtualGamepad: show });
   },
 
+  /**
+   * Gets the auto-save configuration.
+   *
+   * @returns Whether auto-save is enabled and the interval in seconds
+   */
+  async getAutoSave(): Promise<{ enabled: boolean; intervalSeconds: number }> {
+    const settings = await this.getSettings();
+    return {
+      enabled: settings.autoSaveEnabled,
+      intervalSeconds: settings.autoSaveIntervalSeconds,
+    };
+  },
+
+  /**
+   * Updates the auto-save configuration.
+   *
+   * @param enabled - Whether auto-save is enabled
+   * @param intervalSeconds - Seconds between periodic saves (0 = only on exit)
+   */
+  async setAutoSave(enabled: boolean, intervalSeconds?: number): Promise<void> {
+    const updates: Partial<Omit<UserSettings, 'id' | 'lastUpdated'>> = { autoSaveEnabled: enabled };
+    if (intervalSeconds !== undefined) {
+      updates.autoSaveIntervalSeconds = Math.max(0, Math.floor(intervalSeconds));
+    }
+    await this.updateSettings(updates);
+  },
+
+  /**
+   * Gets the rewind and fast-forward configuration.
+   *
+   * @returns Whether rewind is enabled, its granularity and the fast-forward ratio
+   */
+  async getPlaybackSpeed(): Promise<{
+    rewindEnabled: boolean;
+    rewindGranularity: RewindGranularity;
+    fastForwardRatio: FastForwardRatio;
+  }> {
+    const settings = await this.getSettings();
+    return {
+      rewindEnabled: settings.rewindEnabled,
+      rewindGranularity: settings.rewindGranularity,
+      fastForwardRatio: settings.fastForwardRatio,
+    };
+  },
+
+  /**
+   * Updates the rewind configuration. Takes effect when the next game starts.
+   *
+   * @param enabled - Whether the emulator records frames for rewinding
+   * @param granularity - Frames between rewind snapshots
+   */
+  async setRewind(enabled: boolean, granularity?: RewindGranularity): Promise<void> {
+    const updates: Partial<Omit<UserSettings, 'id' | 'lastUpdated'>> = { rewindEnabled: enabled };
+    if (granularity !== undefined) {
+      updates.rewindGranularity = granularity;
+    }
+    await this.updateSettings(updates);
+  },
+
+  /**
+   * Updates the fast-forward speed. Takes effect when the next game starts.
+   *
+   * @param ratio - Speed multiplier while fast-forwarding
+   */
+  async setFastForwardRatio(ratio: FastForwardRatio): Promise<void> {
+    await this.updateSettings({ fastForwardRatio: ratio });
+  },
+
+  /**
+   * Gets the video output settings.
+   *
+   * @returns Display settings, with defaults for missing fields
+   */
+  async getDisplaySettings(): Promise<DisplaySettings> {
+    const display = await this.getSetting('display');
+    return { ...DEFAULT_DISPLAY_SETTINGS, ...display };
+  },
+
+  /**
+   * Updates video output settings with partial values.
+   * Takes effect when the next game starts.
+   *
+   * @param display - Display settings to change
+   */
+  async updateDisplaySettings(display: Partial<DisplaySettings>): Promise<void> {
+    const current = await this.getDisplaySettings();
+    await this.updateSettings({ display: { ...current, ...display } });
+  },
+
+  /**
+   * Sets the shader a console starts with.
+   * Passing null goes back to the console's preset.
+   *
+   * @param console - The console to update
+   * @param shader - Shader to use ('' = none), or null for the preset
+   */
+  async setConsoleShader(console: ConsoleType, shader: EmulatorShader | null): Promise<void> {
+    const current = { ...(await this.getSetting('consoleShaders')) };
+    if (shader === null) {
+      delete current[console];
+    } else {
+      current[console] = shader;
+    }
+    await this.updateSettings({ consoleShaders: current });
+  },
+
   /**
    * Gets the control mappings.
    *
    * @returns Control mappings object
    */
-  async getControlMappings(): Promise<Record<string, unknown>> {
+  async getControlMappings(): Promise<ControlMappingsByConsole> {
     return this.getSetting('controlMappings');
   },
 
@@ -160,10 +305,53 @@ export const settingsService = {
    *
    * @param mappings - New control mappings
    */
-  async setControlMappings(mappings: Record<string, unknown>): Promise<void> {
+  async setControlMappings(mappings: ControlMappingsByConsole): Promise<void> {
     await this.updateSettings({ controlMappings: mappings });
   },
 
+  /**
+   * Replaces the control overrides of a single console.
+   * Passing an empty object removes the console's overrides.
+   *
+   * @param console - The console to update
+   * @param mappings - New control overrides for the console
+   */
+  async setConsoleControlMappings(console: ConsoleType, mappings: ConsoleControlMappings): Promise<void> {
+    const current = { ...(await this.getControlMappings()) };
+    if (mappings.keyboard || mappings.gamepad) {
+      current[console] = mappings;
+    } else {
+      delete current[console];
+    }
+    await this.setControlMappings(current);
+  },
+
+  /**
+   * Resets a single console's controls to the defaults.
+   *
+   * @param console - The console to reset
+   */
+  async resetConsoleControlMappings(console: ConsoleType): Promise<void> {
+    await this.setConsoleControlMappings(console, {});
+  },
+
+  /**
+   * Binds a gamepad to a player slot.
+   * Passing null lets the player take the next free controller.
+   *
+   * @param player - The player slot
+   * @param gamepadId - Gamepad.id of the controller, or null
+   */
+  async setGamepadAssignment(player: ControlPlayer, gamepadId: string | null): Promise<void> {
+    const current = { ...(await this.getSetting('gamepadAssignments')) };
+    if (gamepadId === null) {
+      delete current[player];
+    } else {
+      current[player] = gamepadId;
+    }
+    await this.updateSettings({ gamepadAssignments: current });
+  },
+
   /**
    * Gets the default settings object.
    * Useful for comparison or reset purposes.
@@ -188,7 +376,15 @@ export const settingsService = {
         current.volume !== defaults.volume ||
         current.defaultSaveSlot !== defaults.defaultSaveSlot ||
         current.showVirtualGamepad !== defaults.showVirtualGamepad ||
-        JSON.stringify(current.controlMappings) !== JSON.stringify(defaults.controlMappings)
+        current.autoSaveEnabled !== defaults.autoSaveEnabled ||
+        current.autoSaveIntervalSeconds !== defaults.autoSaveIntervalSeconds ||
+        current.rewindEnabled !== defaults.rewindEnabled ||
+        current.rewindGranularity !== defaults.rewindGranularity ||
+        current.fastForwardRatio !== defaults.fastForwardRatio ||
+        JSON.stringify(current.display) !== JSON.stringify(defaults.display) ||
+        JSON.stringify(current.consoleShaders) !== JSON.stringify(defaults.consoleShaders) ||
+        JSON.stringify(current.controlMappings) !== JSON.stringify(defaults.controlMappings) ||
+        JSON.stringify(current.gamepadAssignments) !== JSON.stringify(defaults.gamepadAssignments)
       );
     } catch {
       return false;
@@ -238,6 +434,43 @@ export const settingsService = {
         updates.controlMappings = parsed.controlMappings;
       }
 
+      if (parsed.gamepadAssignments !== undefined) {
+        updates.gamepadAssignments = sanitizeGamepadAssignments(parsed.gamepadAssignments);
+      }
+
+      if (typeof parsed.autoSaveEnabled === 'boolean') {
+        updates.autoSaveEnabled = parsed.autoSaveEnabled;
+      }
+
+      if (typeof parsed.autoSaveIntervalSeconds === 'number') {
+        updates.autoSaveIntervalSeconds = Math.max(0, Math.floor(parsed.autoSaveIntervalSeconds));
+      }
+
+      if (typeof parsed.rewindEnabled === 'boolean') {
+        updates.rewindEnabled = parsed.rewindEnabled;
+      }
+
+      if (isRewindGranularity(parsed.rewindGranularity)) {
+        updates.rewindGranularity = parsed.rewindGranularity;
+      }
+
+      if (isFastForwardRatio(parsed.fastForwardRatio)) {
+        updates.fastForwardRatio = parsed.fastForwardRatio;
+      }
+
+      if (typeof parsed.display === 'object' && parsed.display !== null) {
+        const display: DisplaySettings = { ...DEFAULT_DISPLAY_SETTINGS };
+        if (isEmulatorShader(parsed.display.shader)) display.shader = parsed.display.shader;
+        for (const key of ['showFps', 'maintainAspectRatio', 'integerScaling', 'fullscreenOnLoad'] as const) {
+          if (typeof parsed.display[key] === 'boolean') display[key] = parsed.display[key];
+        }
+        updates.display = display;
+      }
+
+      if (parsed.consoleShaders !== undefined) {
+        updates.consoleShaders = sanitizeConsoleShaders(parsed.consoleShaders);
+      }
+
       await db.updateSettings(updates);
     } catch (error) {
       console.error('Error importing settings:', error);
@@ -0,0 +1,446 @@
+/**
+ * Storage Service
+ * Reports where the browser storage quota goes (per category, game and
+ * console) and frees space with bulk cleanups, such as deleting the saves
+ * of games not played for a while.
+ *
+ * Categories cover the data the app manages itself: save states and their
+ * screenshots, imported ROMs and BIOS files (IndexedDB), and the EmulatorJS
+ * runtime cache and offline games (Cache Storage). Everything else the
+ * browser counts for this origin (the app shell, EmulatorJS's own core
+ * cache limited by EJS_CacheLimit, database overhead) is reported as other.
+ *
+ * @module services/storage/storageService
+ */
+
+import { db } from '../database/db';
+import type { SaveState } from '../database/models';
+import { offlineService, EMULATORJS_CACHE } from './offlineService';
+import { gamesApi } from '@/services/api/gamesApi';
+import type { DatabaseStats } from '@/types';
+
+/** Milliseconds in a day */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Kinds of data counted in the storage report
+ */
+export type StorageCategory = 'saves' | 'screenshots' | 'importedRoms' | 'bios' | 'offlineGames' | 'emulatorCache';
+
+/**
+ * Bytes used per category
+ */
+export type StorageBreakdown = Record<StorageCategory, number>;
+
+/**
+ * Storage used by one game
+ */
+export interface GameStorageUsage {
+  gameId: string;
+  /** Console the game runs on, when known */
+  console?: string;
+  /** Bytes per category (BIOS and the EmulatorJS cache are never per game) */
+  breakdown: StorageBreakdown;
+  /** Total bytes */
+  total: number;
+  /** Number of save states */
+  saveCount: number;
+  /** Last time the game was played (ms), if ever */
+  lastPlayedAt?: number;
+}
+
+/**
+ * Storage used by the games and BIOS files of one console
+ */
+export interface ConsoleStorageUsage {
+  /** Console id, or null for data whose console is unknown */
+  console: string | null;
+  breakdown: StorageBreakdown;
+  total: number;
+  /** Number of games with stored data */
+  gameCount: number;
+}
+
+/**
+ * Storage usage report
+ */
+export interface StorageReport {
+  /** Bytes used by this origin, as estimated by the browser */
+  usage: number;
+  /** Bytes this origin may use (0 when the browser does not say) */
+  quota: number;
+  /** Whether the browser will not evict this origin's storage */
+  persisted: boolean;
+  /** Bytes per category */
+  categories: StorageBreakdown;
+  /** Bytes the categories do not account for */
+  other: number;
+  /** Games with stored data, largest first */
+  games: GameStorageUsage[];
+  /** Consoles with stored data, largest first */
+  consoles: ConsoleStorageUsage[];
+  /** Save, favorite and play time totals */
+  stats: DatabaseStats;
+}
+
+/**
+ * Bulk cleanup to free space
+ */
+export type StorageCleanupRule =
+  /** Delete every save of games not played for the given number of days */
+  | { type: 'stale-saves'; days: number }
+  /** Delete save screenshots, keeping the saves */
+  | { type: 'screenshots' }
+  /** Remove offline copies of games not played for the given number of days */
+  | { type: 'stale-offline-games'; days: number }
+  /** Clear the EmulatorJS runtime cache (files are downloaded again when needed) */
+  | { type: 'emulator-cache' };
+
+/**
+ * What a cleanup removes (or removed)
+ */
+export interface StorageCleanupPlan {
+  rule: StorageCleanupRule;
+  /** Games affected */
+  gameIds: string[];
+  /** Number of saves, screenshots, offline games or cached files */
+  itemCount: number;
+  /** Bytes freed */
+  bytes: number;
+}
+
+/**
+ * Creates an empty breakdown.
+ */
+function emptyBreakdown(): StorageBreakdown {
+  return { saves: 0, screenshots: 0, importedRoms: 0, bios: 0, offlineGames: 0, emulatorCache: 0 };
+}
+
+/**
+ * Sums a breakdown.
+ */
+function sumBreakdown(breakdown: StorageBreakdown): number {
+  return Object.values(breakdown).reduce((total, bytes) => total + bytes, 0);
+}
+
+/**
+ * Size of a save's state data. Older records without sizeBytes fall back
+ * to the blob itself.
+ */
+function getSaveSize(save: SaveState): number {
+  return save.sizeBytes ?? save.data?.size ?? 0;
+}
+
+/**
+ * Gets the last time each game was played: its most recent session, or
+ * for games without sessions (e.g. saves imported from an archive) the
+ * newest save.
+ */
+async function getLastActivityTimes(saves: readonly SaveState[]): Promise<Map<string, number>> {
+  const lastPlayed = await db.getLastPlayedTimes();
+  const times = new Map(Object.entries(lastPlayed));
+
+  for (const save of saves) {
+    if (lastPlayed[save.gameId] !== undefined) continue;
+    times.set(save.gameId, Math.max(times.get(save.gameId) ?? 0, save.updatedAt.getTime()));
+  }
+
+  return times;
+}
+
+/**
+ * Measures the EmulatorJS runtime cache.
+ *
+ * @returns Number of cached files and their size in bytes
+ */
+async function measureEmulatorCache(): Promise<{ count: number; bytes: number }> {
+  if (typeof caches === 'undefined' || !(await caches.has(EMULATORJS_CACHE))) {
+    return { count: 0, bytes: 0 };
+  }
+
+  const cache = await caches.open(EMULATORJS_CACHE);
+  const requests = await cache.keys();
+  let bytes = 0;
+
+  for (const request of requests) {
+    const response = await cache.match(request);
+    if (!response) continue;
+
+    // Content-Length avoids reading large cores into memory
+    const length = Number(response.headers.get('content-length'));
+    bytes += length > 0 ? length : (await response.blob()).size;
+  }
+
+  return { count: requests.length, bytes };
+}
+
+/**
+ * Checks whether an error means the storage quota is exhausted. Dexie
+ * reports it directly or as the inner error of an aborted transaction.
+ *
+ * @param error - Error to check
+ * @returns True for quota errors
+ */
+export function isQuotaExceededError(error: unknown): boolean {
+  if (!(error instanceof Error || error instanceof DOMException)) return false;
+  if (error.name === 'QuotaExceededError') return true;
+
+  const inner = (error as { inner?: unknown }).inner;
+  return inner !== undefined && inner !== error && isQuotaExceededError(inner);
+}
+
+/**
+ * Storage usage and cleanup service
+ */
+export const storageService = {
+  /**
+   * Computes the save, favorite and play time totals.
+   *
+   * @returns Database statistics
+   */
+  async getDatabaseStats(): Promise<DatabaseStats> {
+    try {
+      let saveStateCount = 0;
+      let saveStateTotalSize = 0;
+      let sessionCount = 0;
+      let totalPlayTime = 0;
+
+      await db.saveStates.each((save) => {
+        saveStateCount++;
+        saveStateTotalSize += getSaveSize(save) + (save.screenshot?.size ?? 0);
+      });
+      await db.playSessions.each((session) => {
+        sessionCount++;
+        totalPlayTime += session.durationSeconds;
+      });
+
+      return {
+        saveStateCount,
+        saveStateTotalSize,
+        favoriteCount: await db.favorites.count(),
+        sessionCount,
+        totalPlayTime,
+      };
+    } catch (error) {
+      console.error('Error getting database stats:', error);
+      throw new Error(`Failed to get database stats: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  },
+
+  /**
+   * Reports storage usage per category, game and console.
+   * Saves missing their console are matched against the cached game catalog.
+   *
+   * @returns Storage report
+   */
+  async getReport(): Promise<StorageReport> {
+    try {
+      const [estimate, persisted, saves, libraryGames, biosFiles, offlineGames, emulatorCache, stats] =
+        await Promise.all([
+          navigator.storage?.estimate?.() ?? Promise.resolve<StorageEstimate>({}),
+          navigator.storage?.persisted?.() ?? Promise.resolve(false),
+          db.saveStates.toArray(),
+          db.libraryGames.toArray(),
+          db.biosFiles.toArray(),
+          db.offlineGames.toArray(),
+          measureEmulatorCache(),
+          storageService.getDatabaseStats(),
+        ]);
+      const lastActivity = await getLastActivityTimes(saves);
+
+      const catalog = gamesApi.getFromCache(true)?.games ?? [];
+      const catalogConsoles = new Map(catalog.map((game) => [game.id, game.console as string]));
+
+      const categories = emptyBreakdown();
+      const games = new Map<string, GameStorageUsage>();
+
+      const getGame = (gameId: string, console?: string): GameStorageUsage => {
+        let game = games.get(gameId);
+        if (!game) {
+          game = {
+            gameId,
+            breakdown: emptyBreakdown(),
+            total: 0,
+            saveCount: 0,
+            lastPlayedAt: lastActivity.get(gameId),
+          };
+          games.set(gameId, game);
+        }
+        game.console ??= console ?? catalogConsoles.get(gameId);
+        return game;
+      };
+
+      const add = (game: GameStorageUsage, category: StorageCategory, bytes: number): void => {
+        game.breakdown[category] += bytes;
+        game.total += bytes;
+        categories[category] += bytes;
+      };
+
+      for (const save of saves) {
+        const game = getGame(save.gameId, save.consoleType);
+        game.saveCount++;
+        add(game, 'saves', getSaveSize(save));
+        if (save.screenshot) add(game, 'screenshots', save.screenshot.size);
+      }
+      for (const entry of libraryGames) {
+        add(getGame(entry.id, entry.console), 'importedRoms', entry.size);
+      }
+      for (const entry of offlineGames) {
+        add(getGame(entry.gameId, entry.console), 'offlineGames', entry.size);
+      }
+
+      // Consoles: their games, plus BIOS files
+      const consoles = new Map<string | null, ConsoleStorageUsage>();
+      const getConsole = (console: string | null): ConsoleStorageUsage => {
+        let usage = consoles.get(console);
+        if (!usage) {
+          usage = { console, breakdown: emptyBreakdown(), total: 0, gameCount: 0 };
+          consoles.set(console, usage);
+        }
+        return usage;
+      };
+
+      for (const game of games.values()) {
+        const usage = getConsole(game.console ?? null);
+        usage.gameCount++;
+        usage.total += game.total;
+        for (const category of Object.keys(game.breakdown) as StorageCategory[]) {
+          usage.breakdown[category] += game.breakdown[category];
+        }
+      }
+      for (const file of biosFiles) {
+        const usage = getConsole(file.console);
+        usage.breakdown.bios += file.size;
+        usage.total += file.size;
+        categories.bios += file.size;
+      }
+
+      categories.emulatorCache = emulatorCache.bytes;
+      const usage = estimate.usage ?? 0;
+
+      return {
+        usage,
+        quota: estimate.quota ?? 0,
+        persisted,
+        categories,
+        other: Math.max(0, usage - sumBreakdown(categories)),
+        games: [...games.values()].sort((a, b) => b.total - a.total),
+        consoles: [...consoles.values()].sort((a, b) => b.total - a.total),
+        stats,
+      };
+    } catch (error) {
+      console.error('Error building storage report:', error);
+      throw new Error(`Failed to read storage usage: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  },
+
+  /**
+   * Works out what a cleanup would remove, without removing anything.
+   *
+   * @param rule - Cleanup to plan
+   * @param now - Current time (ms), for the stale rules
+   * @returns Games, items and bytes the cleanup would remove
+   */
+  async planCleanup(rule: StorageCleanupRule, now = Date.now()): Promise<StorageCleanupPlan> {
+    try {
+      const gameIds = new Set<string>();
+      let itemCount = 0;
+      let bytes = 0;
+
+      switch (rule.type) {
+        case 'stale-saves': {
+          const saves = await db.saveStates.toArray();
+          const lastActivity = await getLastActivityTimes(saves);
+          const cutoff = now - rule.days * DAY_MS;
+
+          for (const save of saves) {
+            if ((lastActivity.get(save.gameId) ?? 0) >= cutoff) continue;
+            gameIds.add(save.gameId);
+            itemCount++;
+            bytes += getSaveSize(save) + (save.screenshot?.size ?? 0);
+          }
+          break;
+        }
+
+        case 'screenshots':
+          await db.saveStates.each((save) => {
+            if (!save.screenshot) return;
+            gameIds.add(save.gameId);
+            itemCount++;
+            bytes += save.screenshot.size;
+          });
+          break;
+
+        case 'stale-offline-games': {
+          const lastPlayed = await db.getLastPlayedTimes();
+          const cutoff = now - rule.days * DAY_MS;
+
+          for (const entry of await db.offlineGames.toArray()) {
+            // Games pinned but never played count from when they were pinned
+            if ((lastPlayed[entry.gameId] ?? entry.pinnedAt.getTime()) >= cutoff) continue;
+            gameIds.add(entry.gameId);
+            itemCount++;
+            bytes += entry.size;
+          }
+          break;
+        }
+
+        case 'emulator-cache': {
+          const cache = await measureEmulatorCache();
+          itemCount = cache.count;
+          bytes = cache.bytes;
+          break;
+        }
+      }
+
+      return { rule, gameIds: [...gameIds], itemCount, bytes };
+    } catch (error) {
+      console.error('Error planning storage cleanup:', error);
+      throw new Error(`Failed to plan storage cleanup: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  },
+
+  /**
+   * Runs a cleanup.
+   *
+   * @param rule - Cleanup to run
+   * @param now - Current time (ms), for the stale rules
+   * @returns What was removed
+   */
+  async runCleanup(rule: StorageCleanupRule, now = Date.now()): Promise<StorageCleanupPlan> {
+    const plan = await storageService.planCleanup(rule, now);
+
+    try {
+      switch (rule.type) {
+        case 'stale-saves':
+          if (plan.gameIds.length > 0) {
+            await db.saveStates.where('gameId').anyOf(plan.gameIds).delete();
+          }
+          break;
+
+        case 'screenshots':
+          await db.saveStates
+            .filter((save) => save.screenshot !== undefined)
+            .modify((save) => {
+              delete save.screenshot;
+            });
+          break;
+
+        case 'stale-offline-games':
+          for (const gameId of plan.gameIds) {
+            await offlineService.unpinGame(gameId);
+          }
+          break;
+
+        case 'emulator-cache':
+          await offlineService.clearRuntimeCache();
+          break;
+      }
+
+      return plan;
+    } catch (error) {
+      console.error('Error running storage cleanup:', error);
+      throw new Error(`Failed to free storage: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  },
+};
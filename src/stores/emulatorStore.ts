@@ -5,7 +5,7 @@
 
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
-import type { Game } from '../types';
+import type { EmulatorShader, Game } from '../types';
 
 // =============================================================================
 // Types
@@ -24,6 +24,14 @@ interface EmulatorStoreState {
   isFullscreen: boolean;
   showVirtualGamepad: boolean;
 
+  // Playback speed (applied to the running game by EmulatorContainer)
+  isFastForward: boolean;
+  isSlowMotion: boolean;
+  isRewinding: boolean;
+
+  // Shader picked in-game (null = the one the game started with)
+  currentShader: EmulatorShader | null;
+
   // Actions
   loadGame: (game: Game) => void;
   unloadGame: () => void;
@@ -33,6 +41,12 @@ interface EmulatorStoreState {
   toggleMute: () => void;
   setFullscreen: (isFullscreen: boolean) => void;
   toggleVirtualGamepad: () => void;
+  setFastForward: (active: boolean) => void;
+  toggleFastForward: () => void;
+  setSlowMotion: (active: boolean) => void;
+  toggleSlowMotion: () => void;
+  setRewinding: (active: boolean) => void;
+  setCurrentShader: (shader: EmulatorShader | null) => void;
 }
 
 // =============================================================================
@@ -43,6 +57,13 @@ const DEFAULT_VOLUME = 0.7;
 const MIN_VOLUME = 0;
 const MAX_VOLUME = 1;
 
+/** Playback speed flags when nothing is held or toggled */
+const NORMAL_SPEED = {
+  isFastForward: false,
+  isSlowMotion: false,
+  isRewinding: false,
+} as const;
+
 // =============================================================================
 // Helper Functions
 // =============================================================================
@@ -77,6 +98,10 @@ export const useEmulatorStore = create<EmulatorStoreState>()(
       isMuted: false,
       isFullscreen: false,
       showVirtualGamepad: false,
+      isFastForward: false,
+      isSlowMotion: false,
+      isRewinding: false,
+      currentShader: null,
 
       // Actions
       loadGame: (game: Game) => {
@@ -87,6 +112,8 @@ export const useEmulatorStore = create<EmulatorStoreState>()(
           isLoading: true,
           loadProgress: 0,
           isFullscreen: false,
+          ...NORMAL_SPEED,
+          currentShader: null,
         });
       },
 
@@ -97,6 +124,8 @@ export const useEmulatorStore = create<EmulatorStoreState>()(
           isLoading: false,
           loadProgress: 0,
           isFullscreen: false,
+          ...NORMAL_SPEED,
+          currentShader: null,
         });
       },
 
@@ -153,6 +182,31 @@ export const useEmulatorStore = create<EmulatorStoreState>()(
           showVirtualGamepad: !state.showVirtualGamepad,
         }));
       },
+
+      // Fast-forward and slow motion are mutually exclusive
+      setFastForward: (active: boolean) => {
+        set(active ? { isFastForward: true, isSlowMotion: false } : { isFastForward: false });
+      },
+
+      toggleFastForward: () => {
+        get().setFastForward(!get().isFastForward);
+      },
+
+      setSlowMotion: (active: boolean) => {
+        set(active ? { isSlowMotion: true, isFastForward: false } : { isSlowMotion: false });
+      },
+
+      toggleSlowMotion: () => {
+        get().setSlowMotion(!get().isSlowMotion);
+      },
+
+      setRewinding: (active: boolean) => {
+        set({ isRewinding: active });
+      },
+
+      setCurrentShader: (shader: EmulatorShader | null) => {
+        set({ currentShader: shader });
+      },
     }),
     {
       name: 'retro-gaming-emulator-store',
@@ -8,11 +8,17 @@ import { persist, createJSONStorage } from 'zustand/middleware';
 import type {
   Game,
   ConsoleType,
+  GameFilter,
+  GameGenre,
+  PlayerCount,
   GameSortField,
   SortOrder,
   ViewMode,
   GamesManifest,
+  GameSearchResult,
 } from '../types';
+import { hasSearchText, parseSearchQuery, searchGames } from '../services/search';
+import type { ParsedSearchQuery } from '../services/search';
 
 // CDN Base URL from environment
 const CDN_BASE_URL = import.meta.env.VITE_CDN_BASE_URL || '';
@@ -23,32 +29,84 @@ const CDN_BASE_URL = import.meta.env.VITE_CDN_BASE_URL || '';
 
 interface GameStoreState {
   // Data
+  /** Catalog and library games combined (library first) */
   games: Game[];
+  /** Games from the CDN catalog manifest */
+  catalogGames: Game[];
+  /** Games imported by the user into My Library */
+  libraryGames: Game[];
   isLoading: boolean;
   error: string | null;
 
   // Filters
   selectedConsole: ConsoleType | null;
   searchQuery: string;
+  selectedGenre: GameGenre | null;
+  /** Minimum number of supported players */
+  selectedPlayers: PlayerCount | null;
+  releaseYearRange: YearRange;
+  selectedRegion: string | null;
+  favoritesOnly: boolean;
   sortBy: GameSortField;
   sortOrder: SortOrder;
   viewMode: ViewMode;
 
+  // Joined data (kept in sync by useGameFilterData)
+  /** IDs of favorited games, for favoritesOnly */
+  favoriteGameIds: string[];
+  /** Last play session start per game id (ms), for sorting by lastPlayed */
+  lastPlayedAt: Record<string, number>;
+
   // Actions
   fetchGames: () => Promise<void>;
   setGames: (games: Game[]) => void;
+  setLibraryGames: (games: Game[]) => void;
   setSelectedConsole: (console: ConsoleType | null) => void;
   setSearchQuery: (query: string) => void;
+  setSelectedGenre: (genre: GameGenre | null) => void;
+  setSelectedPlayers: (players: PlayerCount | null) => void;
+  setReleaseYearRange: (range: YearRange) => void;
+  setSelectedRegion: (region: string | null) => void;
+  setFavoritesOnly: (favoritesOnly: boolean) => void;
+  /** Replace every filter and the sort at once (e.g. from URL params) */
+  setFilter: (filter: GameFilter) => void;
+  setFavoriteGameIds: (ids: string[]) => void;
+  setLastPlayedAt: (lastPlayedAt: Record<string, number>) => void;
   setSortBy: (sort: GameSortField) => void;
   setSortOrder: (order: SortOrder) => void;
   setViewMode: (mode: ViewMode) => void;
   resetFilters: () => void;
 
   // Computed (implemented as methods for direct access)
+  /** Current filters and sort as a GameFilter */
+  getActiveFilter: () => GameFilter;
+  /** Filtered games with relevance and highlights, sorted */
+  getSearchResults: () => GameSearchResult[];
   getFilteredGames: () => Game[];
   getGameById: (id: string) => Game | undefined;
 }
 
+/**
+ * Inclusive release year range (open where a bound is missing)
+ */
+export type YearRange = NonNullable<GameFilter['releaseYearRange']>;
+
+/**
+ * Store fields that make up the active GameFilter
+ */
+export type GameFilterFields = Pick<
+  GameStoreState,
+  | 'selectedConsole'
+  | 'searchQuery'
+  | 'selectedGenre'
+  | 'selectedPlayers'
+  | 'releaseYearRange'
+  | 'selectedRegion'
+  | 'favoritesOnly'
+  | 'sortBy'
+  | 'sortOrder'
+>;
+
 // =============================================================================
 // Default Values
 // =============================================================================
@@ -62,104 +120,203 @@ const DEFAULT_VIEW_MODE: ViewMode = 'grid';
 // =============================================================================
 
 /**
- * Filter games based on console and search query
+ * Check a game against the structured filter fields
  */
-function filterGames(
-  games: Game[],
-  selectedConsole: ConsoleType | null,
-  searchQuery: string
-): Game[] {
-  return games.filter((game) => {
-    // Filter by console
-    if (selectedConsole && game.console !== selectedConsole) {
+function matchesFilter(
+  game: Game,
+  filter: GameFilter,
+  favoriteIds: ReadonlySet<string>
+): boolean {
+  if (filter.console && game.console !== filter.console) {
+    return false;
+  }
+
+  if (filter.genre && game.genre !== filter.genre) {
+    return false;
+  }
+
+  // Games support the requested number of players or more
+  if (filter.players && (game.players === undefined || game.players < filter.players)) {
+    return false;
+  }
+
+  const { min, max } = filter.releaseYearRange ?? {};
+  if (min !== undefined || max !== undefined) {
+    const year = game.releaseYear;
+    if (year === undefined || (min !== undefined && year < min) || (max !== undefined && year > max)) {
       return false;
     }
+  }
 
-    // Filter by search query
-    if (searchQuery.trim()) {
-      const query = searchQuery.toLowerCase().trim();
-      const titleMatch = game.title.toLowerCase().includes(query);
-      const descriptionMatch = game.description?.toLowerCase().includes(query);
-      const developerMatch = game.developer?.toLowerCase().includes(query);
-      const publisherMatch = game.publisher?.toLowerCase().includes(query);
-      const tagsMatch = game.tags?.some((tag) =>
-        tag.toLowerCase().includes(query)
-      );
-
-      if (
-        !titleMatch &&
-        !descriptionMatch &&
-        !developerMatch &&
-        !publisherMatch &&
-        !tagsMatch
-      ) {
-        return false;
-      }
-    }
+  if (filter.region && game.region?.toLowerCase() !== filter.region.toLowerCase()) {
+    return false;
+  }
 
-    return true;
-  });
+  if (filter.favoritesOnly && !favoriteIds.has(game.id)) {
+    return false;
+  }
+
+  return true;
 }
 
 /**
- * Sort games by field and order
+ * Filter games by the structured filters and search query.
+ * Free-text queries come back ranked by relevance.
  */
-function sortGames(
+function filterGames(
   games: Game[],
-  sortBy: GameSortField,
-  sortOrder: SortOrder
-): Game[] {
-  const sorted = [...games].sort((a, b) => {
-    let comparison = 0;
+  filter: GameFilter,
+  parsedQuery: ParsedSearchQuery,
+  favoriteIds: ReadonlySet<string>
+): GameSearchResult[] {
+  const filtered = games.filter((game) => matchesFilter(game, filter, favoriteIds));
+
+  return searchGames(filtered, parsedQuery);
+}
 
-    switch (sortBy) {
-      case 'title':
+/**
+ * Compare two games by field and order
+ */
+function compareGames(
+  a: Game,
+  b: Game,
+  sortBy: GameSortField,
+  sortOrder: SortOrder,
+  lastPlayedAt: Record<string, number>
+): number {
+  let comparison = 0;
+
+  switch (sortBy) {
+    case 'title':
+      comparison = a.title.localeCompare(b.title);
+      break;
+
+    case 'console':
+      comparison = a.console.localeCompare(b.console);
+      // Secondary sort by title when console is the same
+      if (comparison === 0) {
         comparison = a.title.localeCompare(b.title);
-        break;
+      }
+      break;
 
-      case 'console':
-        comparison = a.console.localeCompare(b.console);
-        // Secondary sort by title when console is the same
-        if (comparison === 0) {
-          comparison = a.title.localeCompare(b.title);
-        }
-        break;
+    case 'releaseYear': {
+      const yearA = a.releaseYear ?? 0;
+      const yearB = b.releaseYear ?? 0;
+      comparison = yearA - yearB;
+      break;
+    }
 
-      case 'releaseYear': {
-        const yearA = a.releaseYear ?? 0;
-        const yearB = b.releaseYear ?? 0;
-        comparison = yearA - yearB;
-        break;
-      }
+    case 'genre': {
+      const genreA = a.genre ?? 'zzz'; // Sort games without genre to end
+      const genreB = b.genre ?? 'zzz';
+      comparison = genreA.localeCompare(genreB);
+      break;
+    }
 
-      case 'genre': {
-        const genreA = a.genre ?? 'zzz'; // Sort games without genre to end
-        const genreB = b.genre ?? 'zzz';
-        comparison = genreA.localeCompare(genreB);
-        break;
-      }
+    case 'lastPlayed':
+      // Never played games count as oldest; ties by title
+      comparison =
+        (lastPlayedAt[a.id] ?? 0) - (lastPlayedAt[b.id] ?? 0) ||
+        a.title.localeCompare(b.title);
+      break;
+
+    case 'addedAt': {
+      const dateA = a.addedAt ? new Date(a.addedAt).getTime() : 0;
+      const dateB = b.addedAt ? new Date(b.addedAt).getTime() : 0;
+      comparison = dateA - dateB;
+      break;
+    }
 
-      case 'lastPlayed':
-        // This would need additional metadata tracking
-        // For now, fall back to title
-        comparison = a.title.localeCompare(b.title);
-        break;
+    default:
+      comparison = a.title.localeCompare(b.title);
+  }
 
-      case 'addedAt': {
-        const dateA = a.addedAt ? new Date(a.addedAt).getTime() : 0;
-        const dateB = b.addedAt ? new Date(b.addedAt).getTime() : 0;
-        comparison = dateA - dateB;
-        break;
-      }
+  return sortOrder === 'asc' ? comparison : -comparison;
+}
 
-      default:
-        comparison = a.title.localeCompare(b.title);
-    }
+/**
+ * Sort search results by field and order.
+ * Ranked (free-text) results keep their relevance order.
+ */
+function sortResults(
+  results: GameSearchResult[],
+  parsedQuery: ParsedSearchQuery,
+  sortBy: GameSortField,
+  sortOrder: SortOrder,
+  lastPlayedAt: Record<string, number>
+): GameSearchResult[] {
+  if (hasSearchText(parsedQuery)) {
+    return results;
+  }
+
+  return [...results].sort((a, b) =>
+    compareGames(a.game, b.game, sortBy, sortOrder, lastPlayedAt)
+  );
+}
 
-    return sortOrder === 'asc' ? comparison : -comparison;
-  });
+/**
+ * Build the GameFilter described by the store's filter fields.
+ *
+ * @param fields - Filter and sort fields of the store
+ * @returns The filter, with unset filters left out
+ */
+export function toGameFilter(fields: GameFilterFields): GameFilter {
+  const { min, max } = fields.releaseYearRange;
+
+  return {
+    console: fields.selectedConsole ?? undefined,
+    search: fields.searchQuery || undefined,
+    genre: fields.selectedGenre ?? undefined,
+    players: fields.selectedPlayers ?? undefined,
+    releaseYearRange:
+      min !== undefined || max !== undefined ? { min, max } : undefined,
+    region: fields.selectedRegion ?? undefined,
+    favoritesOnly: fields.favoritesOnly || undefined,
+    sortBy: fields.sortBy,
+    sortOrder: fields.sortOrder,
+  };
+}
 
-  return sorted;
+/**
+ * Play data a filter can refer to (favoritesOnly, lastPlayed sorting)
+ */
+export interface GameFilterContext {
+  favoriteGameIds: readonly string[];
+  lastPlayedAt: Record<string, number>;
+}
+
+/**
+ * Apply a complete GameFilter (structured filters, search and sorting) to
+ * a game list. Used by the browse view and by smart collections.
+ *
+ * @param games - Games to filter
+ * @param filter - Filter to apply
+ * @param context - Favorites and last-played times
+ * @returns Matching games, sorted (ranked by relevance for free-text searches)
+ */
+export function queryGames(
+  games: Game[],
+  filter: GameFilter,
+  context: GameFilterContext
+): GameSearchResult[] {
+  const parsedQuery = parseSearchQuery(filter.search ?? '');
+
+  // Apply filters and search
+  const results = filterGames(
+    games,
+    filter,
+    parsedQuery,
+    new Set(context.favoriteGameIds)
+  );
+
+  // Apply sorting
+  return sortResults(
+    results,
+    parsedQuery,
+    filter.sortBy,
+    filter.sortOrder,
+    context.lastPlayedAt
+  );
 }
 
 // =============================================================================
@@ -171,13 +328,22 @@ export const useGameStore = create<GameStoreState>()(
     (set, get) => ({
       // Initial State
       games: [],
+      catalogGames: [],
+      libraryGames: [],
       isLoading: false,
       error: null,
       selectedConsole: null,
       searchQuery: '',
+      selectedGenre: null,
+      selectedPlayers: null,
+      releaseYearRange: {},
+      selectedRegion: null,
+      favoritesOnly: false,
       sortBy: DEFAULT_SORT_BY,
       sortOrder: DEFAULT_SORT_ORDER,
       viewMode: DEFAULT_VIEW_MODE,
+      favoriteGameIds: [],
+      lastPlayedAt: {},
 
       // Actions
       fetchGames: async () => {
@@ -211,8 +377,11 @@ export const useGameStore = create<GameStoreState>()(
               : game.coverPath,
           }));
 
+          const catalogGames = games as Game[];
+
           set({
-            games: games as Game[],
+            catalogGames,
+            games: [...get().libraryGames, ...catalogGames],
             isLoading: false,
             error: null,
           });
@@ -230,7 +399,11 @@ export const useGameStore = create<GameStoreState>()(
       },
 
       setGames: (games: Game[]) => {
-        set({ games });
+        set({ catalogGames: games, games: [...get().libraryGames, ...games] });
+      },
+
+      setLibraryGames: (libraryGames: Game[]) => {
+        set({ libraryGames, games: [...libraryGames, ...get().catalogGames] });
       },
 
       setSelectedConsole: (selectedConsole: ConsoleType | null) => {
@@ -241,6 +414,48 @@ export const useGameStore = create<GameStoreState>()(
         set({ searchQuery });
       },
 
+      setSelectedGenre: (selectedGenre: GameGenre | null) => {
+        set({ selectedGenre });
+      },
+
+      setSelectedPlayers: (selectedPlayers: PlayerCount | null) => {
+        set({ selectedPlayers });
+      },
+
+      setReleaseYearRange: (releaseYearRange: YearRange) => {
+        set({ releaseYearRange });
+      },
+
+      setSelectedRegion: (selectedRegion: string | null) => {
+        set({ selectedRegion });
+      },
+
+      setFavoritesOnly: (favoritesOnly: boolean) => {
+        set({ favoritesOnly });
+      },
+
+      setFilter: (filter: GameFilter) => {
+        set({
+          selectedConsole: filter.console ?? null,
+          searchQuery: filter.search ?? '',
+          selectedGenre: filter.genre ?? null,
+          selectedPlayers: filter.players ?? null,
+          releaseYearRange: filter.releaseYearRange ?? {},
+          selectedRegion: filter.region ?? null,
+          favoritesOnly: filter.favoritesOnly ?? false,
+          sortBy: filter.sortBy,
+          sortOrder: filter.sortOrder,
+        });
+      },
+
+      setFavoriteGameIds: (favoriteGameIds: string[]) => {
+        set({ favoriteGameIds });
+      },
+
+      setLastPlayedAt: (lastPlayedAt: Record<string, number>) => {
+        set({ lastPlayedAt });
+      },
+
       setSortBy: (sortBy: GameSortField) => {
         set({ sortBy });
       },
@@ -257,23 +472,28 @@ export const useGameStore = create<GameStoreState>()(
         set({
           selectedConsole: null,
           searchQuery: '',
+          selectedGenre: null,
+          selectedPlayers: null,
+          releaseYearRange: {},
+          selectedRegion: null,
+          favoritesOnly: false,
           sortBy: DEFAULT_SORT_BY,
           sortOrder: DEFAULT_SORT_ORDER,
         });
       },
 
       // Computed Getters
-      getFilteredGames: () => {
-        const { games, selectedConsole, searchQuery, sortBy, sortOrder } =
-          get();
-
-        // Apply filters
-        const filtered = filterGames(games, selectedConsole, searchQuery);
+      getActiveFilter: () => toGameFilter(get()),
 
-        // Apply sorting
-        const sorted = sortGames(filtered, sortBy, sortOrder);
+      getSearchResults: () => {
+        const { games, favoriteGameIds, lastPlayedAt, getActiveFilter } = get();
+        return queryGames(games, getActiveFilter(), { favoriteGameIds, lastPlayedAt });
+      },
 
-        return sorted;
+      getFilteredGames: () => {
+        return get()
+          .getSearchResults()
+          .map((result) => result.game);
       },
 
       getGameById: (id: string) => {
@@ -330,6 +550,22 @@ export const selectSortConfig = (state: GameStoreState) => ({
   sortOrder: state.sortOrder,
 });
 
+/**
+ * Select the filter and sort fields. Returns a new object, so use it with
+ * useShallow; the result then only changes when a filter does.
+ */
+export const selectFilterFields = (state: GameStoreState): GameFilterFields => ({
+  selectedConsole: state.selectedConsole,
+  searchQuery: state.searchQuery,
+  selectedGenre: state.selectedGenre,
+  selectedPlayers: state.selectedPlayers,
+  releaseYearRange: state.releaseYearRange,
+  selectedRegion: state.selectedRegion,
+  favoritesOnly: state.favoritesOnly,
+  sortBy: state.sortBy,
+  sortOrder: state.sortOrder,
+});
+
 /**
  * Select view mode
  */
@@ -366,4 +602,11 @@ export const selectFilteredGameCount = (state: GameStoreState) =>
  * Check if any filters are active
  */
 export const selectHasActiveFilters = (state: GameStoreState) =>
-  state.selectedConsole !== null || state.searchQuery.trim() !== '';
+  state.selectedConsole !== null ||
+  state.searchQuery.trim() !== '' ||
+  state.selectedGenre !== null ||
+  state.selectedPlayers !== null ||
+  state.releaseYearRange.min !== undefined ||
+  state.releaseYearRange.max !== undefined ||
+  state.selectedRegion !== null ||
+  state.favoritesOnly;
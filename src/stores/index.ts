@@ -6,7 +6,7 @@
 // =============================================================================
 // Game Store
 // =============================================================================
-export { useGameStore } from './gameStore';
+export { useGameStore, queryGames, toGameFilter } from './gameStore';
 export {
   selectGames,
   selectIsLoading as selectGamesLoading,
@@ -14,12 +14,14 @@ export {
   selectSelectedConsole,
   selectSearchQuery,
   selectSortConfig,
+  selectFilterFields,
   selectViewMode,
   selectGameCountByConsole,
   selectTotalGameCount,
   selectFilteredGameCount,
   selectHasActiveFilters,
 } from './gameStore';
+export type { YearRange, GameFilterContext, GameFilterFields } from './gameStore';
 
 // =============================================================================
 // Emulator Store
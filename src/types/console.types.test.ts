@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { CONSOLE_CONFIG, SUPPORTED_CONSOLES, type ConsoleConfiguration, type ConsoleType } from './console.types';
+
+/**
+ * Every ConsoleType. Declared as a Record so adding a console to the type
+ * fails to compile until it is listed here too.
+ */
+const CONSOLE_TYPES: Record<ConsoleType, true> = {
+  ps1: true,
+  nes: true,
+  snes: true,
+  n64: true,
+  gb: true,
+  gba: true,
+  nds: true,
+  genesis: true,
+  sms: true,
+  gg: true,
+  segacd: true,
+  atari2600: true,
+  atari7800: true,
+  pce: true,
+  arcade: true,
+};
+
+const ALL_CONSOLES = Object.keys(CONSOLE_TYPES) as ConsoleType[];
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+const MD5 = /^[0-9a-f]{32}$/;
+
+describe('CONSOLE_CONFIG', () => {
+  it('has an entry for every ConsoleType and nothing else', () => {
+    expect([...SUPPORTED_CONSOLES].sort()).toEqual([...ALL_CONSOLES].sort());
+  });
+
+  describe.each(ALL_CONSOLES)('%s', (console) => {
+    const config: ConsoleConfiguration = CONSOLE_CONFIG[console];
+
+    it('has names', () => {
+      expect(config.name.trim()).not.toBe('');
+      expect(config.shortName.trim()).not.toBe('');
+    });
+
+    it('has a core and distinct fallback cores', () => {
+      expect(config.core).toBeTruthy();
+      expect(config.fallbackCores.length).toBeGreaterThan(0);
+      expect(config.fallbackCores).not.toContain(config.core);
+      expect(new Set(config.fallbackCores).size).toBe(config.fallbackCores.length);
+    });
+
+    it('has ROM extensions', () => {
+      expect(config.extensions.length).toBeGreaterThan(0);
+      for (const extension of config.extensions) {
+        expect(extension).toMatch(/^\.[a-z0-9]+$/);
+      }
+    });
+
+    it('has controller buttons including Start', () => {
+      const inputs = config.buttons.map((button) => button.button);
+
+      expect(config.buttons.length).toBeGreaterThan(0);
+      expect(inputs).toContain('start');
+      expect(new Set(inputs).size).toBe(inputs.length);
+      for (const button of config.buttons) {
+        expect(button.label.trim()).not.toBe('');
+      }
+    });
+
+    it('has a touch layout made of its own buttons', () => {
+      const inputs = config.buttons.map((button) => button.button);
+      const { actions, shoulders = [] } = config.touchLayout;
+
+      expect(actions.length).toBeGreaterThan(0);
+      for (const input of [...actions, ...shoulders]) {
+        expect(inputs).toContain(input);
+      }
+    });
+
+    it('has brand colours', () => {
+      expect(config.color).toMatch(HEX_COLOR);
+      expect(config.secondaryColor).toMatch(HEX_COLOR);
+    });
+
+    it('describes its BIOS set', () => {
+      const biosFiles = config.biosFiles ?? [];
+
+      if (config.requiresBios) {
+        expect(biosFiles.some((file) => file.required)).toBe(true);
+      } else {
+        expect(biosFiles.filter((file) => file.required)).toEqual([]);
+      }
+
+      if (biosFiles.length > 0) {
+        expect(config.biosPath).toBeTruthy();
+      }
+      for (const file of biosFiles) {
+        expect(file.name.trim()).not.toBe('');
+        expect(file.md5).toMatch(MD5);
+      }
+    });
+  });
+});
@@ -1,12 +1,32 @@
 /**
  * Console Types for Retro Gaming Platform
- * Defines supported gaming consoles and their configurations for EmulatorJS
+ * Defines supported gaming consoles and their configurations for EmulatorJS.
+ *
+ * CONSOLE_CONFIG is the single console registry: cores, BIOS sets, button
+ * layouts and theming for every console are read from here.
  */
 
+import type { EmulatorCore, InputButton } from './emulator.types';
+
 /**
  * Supported console types that can be emulated
  */
-export type ConsoleType = 'ps1' | 'nes' | 'snes' | 'n64' | 'gb' | 'gba';
+export type ConsoleType =
+  | 'ps1'
+  | 'nes'
+  | 'snes'
+  | 'n64'
+  | 'gb'
+  | 'gba'
+  | 'nds'
+  | 'genesis'
+  | 'sms'
+  | 'gg'
+  | 'segacd'
+  | 'atari2600'
+  | 'atari7800'
+  | 'pce'
+  | 'arcade';
 
 /**
  * File extensions commonly associated with ROMs for each console
@@ -28,7 +48,22 @@ export type RomExtension =
   | '.v64'
   | '.gb'
   | '.gbc'
-  | '.gba';
+  | '.gba'
+  | '.nds'
+  | '.md'
+  | '.gen'
+  | '.smd'
+  | '.sms'
+  | '.gg'
+  | '.a26'
+  | '.a78'
+  | '.pce'
+  | '.zip';
+
+/**
+ * Hardware region of a region-locked BIOS
+ */
+export type BiosRegion = 'us' | 'eu' | 'jp';
 
 /**
  * BIOS file configuration for consoles that require it
@@ -42,6 +77,34 @@ export interface BiosFile {
   readonly description?: string;
   /** Whether this BIOS file is required or optional */
   readonly required: boolean;
+  /** Region of the console the BIOS was dumped from, if region-locked */
+  readonly region?: BiosRegion;
+}
+
+/**
+ * A console button and the RetroPad input it is bound to
+ */
+export interface ConsoleButton {
+  /** RetroPad input the button maps to */
+  readonly button: InputButton;
+  /** Label printed on the original controller */
+  readonly label: string;
+  /** Compact label for on-screen buttons (defaults to label) */
+  readonly shortLabel?: string;
+}
+
+/**
+ * Arrangement of the on-screen touch controls
+ */
+export interface TouchLayout {
+  /** Face buttons, in visual order */
+  readonly actions: readonly InputButton[];
+  /** Shoulder buttons, in visual order */
+  readonly shoulders?: readonly InputButton[];
+  /** Whether to show the N64 C-buttons */
+  readonly cButtons?: boolean;
+  /** Grid used to arrange the face buttons */
+  readonly grid: 'gb' | 'nes' | 'snes' | 'ps1' | 'n64';
 }
 
 /**
@@ -51,20 +114,34 @@ export interface BiosFile {
 export interface ConsoleConfiguration {
   /** Display name of the console */
   readonly name: string;
+  /** Compact name for tabs and badges */
+  readonly shortName: string;
   /** EmulatorJS core identifier */
-  readonly core: string;
+  readonly core: EmulatorCore;
+  /**
+   * Cores to try, in order, when the primary core fails to start. Where
+   * EmulatorJS has no alternative core, this names the console's own core
+   * directly, so a retry does not go through the system alias again.
+   */
+  readonly fallbackCores: readonly EmulatorCore[];
   /** Supported ROM file extensions */
   readonly extensions: readonly RomExtension[];
   /** Whether this console requires BIOS files to function */
   readonly requiresBios: boolean;
   /** BIOS files required by this console (if any) */
   readonly biosFiles?: readonly BiosFile[];
-  /** Path to BIOS directory relative to public folder */
+  /** Path to the BIOS directory on the CDN */
   readonly biosPath?: string;
+  /** Buttons of the original controller, excluding the D-pad */
+  readonly buttons: readonly ConsoleButton[];
+  /** On-screen touch control layout */
+  readonly touchLayout: TouchLayout;
   /** Icon identifier for UI display */
   readonly icon: string;
   /** Brand color for UI theming (hex format) */
   readonly color: string;
+  /** Darker brand color for gradients (hex format) */
+  readonly secondaryColor: string;
   /** Short description of the console */
   readonly description?: string;
   /** Year the console was released */
@@ -87,7 +164,11 @@ export type ConsoleConfigMap = {
 export const CONSOLE_CONFIG = {
   ps1: {
     name: 'PlayStation',
-    core: 'psx',
+    shortName: 'PS1',
+    // mednafen_psx_hw has WebAssembly issues in EmulatorJS (function signature
+    // mismatch), so pcsx_rearmed is preferred and mednafen is only a fallback
+    core: 'pcsx_rearmed',
+    fallbackCores: ['mednafen_psx_hw'],
     extensions: ['.bin', '.cue', '.iso', '.img', '.pbp', '.chd'],
     requiresBios: true, // Use real BIOS for better compatibility
     biosFiles: [
@@ -96,74 +177,141 @@ export const CONSOLE_CONFIG = {
         md5: '490f666e1afb15b7362b406ed1cea246',
         description: 'PlayStation BIOS (US)',
         required: true,
+        region: 'us',
       },
       {
         name: 'scph5500.bin',
         md5: '8dd7d5296a650fac7319bce665a6a53c',
         description: 'PlayStation BIOS (JP)',
         required: false,
+        region: 'jp',
       },
       {
         name: 'scph5502.bin',
         md5: '32736f17079d0b2b7024407c39bd3050',
         description: 'PlayStation BIOS (EU)',
         required: false,
+        region: 'eu',
       },
     ],
-    biosPath: 'https://cdn.komplexaci.cz/roms/bios/ps1',
+    biosPath: 'roms/bios/ps1',
+    buttons: [
+      { button: 'b', label: 'Cross', shortLabel: '✕' },
+      { button: 'a', label: 'Circle', shortLabel: '○' },
+      { button: 'y', label: 'Square', shortLabel: '□' },
+      { button: 'x', label: 'Triangle', shortLabel: '△' },
+      { button: 'l', label: 'L1' },
+      { button: 'r', label: 'R1' },
+      { button: 'l2', label: 'L2' },
+      { button: 'r2', label: 'R2' },
+      { button: 'l3', label: 'L3' },
+      { button: 'r3', label: 'R3' },
+      { button: 'start', label: 'Start' },
+      { button: 'select', label: 'Select' },
+    ],
+    touchLayout: { actions: ['y', 'x', 'b', 'a'], shoulders: ['l', 'r', 'l2', 'r2'], grid: 'ps1' },
     icon: 'playstation',
     color: '#003087',
+    secondaryColor: '#001057',
     description: 'Sony PlayStation (1994)',
     releaseYear: 1994,
     manufacturer: 'Sony',
   },
   nes: {
     name: 'Nintendo Entertainment System',
+    shortName: 'NES',
     core: 'nes',
+    fallbackCores: ['nestopia'],
     extensions: ['.nes', '.unf', '.fds'],
     requiresBios: false,
+    buttons: [
+      { button: 'a', label: 'A' },
+      { button: 'b', label: 'B' },
+      { button: 'start', label: 'Start' },
+      { button: 'select', label: 'Select' },
+    ],
+    touchLayout: { actions: ['b', 'a'], grid: 'nes' },
     icon: 'nintendo',
     color: '#E60012',
+    secondaryColor: '#8B0000',
     description: 'Nintendo Entertainment System (1983)',
     releaseYear: 1983,
     manufacturer: 'Nintendo',
   },
   snes: {
     name: 'Super Nintendo',
+    shortName: 'SNES',
     core: 'snes',
+    fallbackCores: ['snes9x'],
     extensions: ['.sfc', '.smc'],
     requiresBios: false,
+    buttons: [
+      { button: 'a', label: 'A' },
+      { button: 'b', label: 'B' },
+      { button: 'x', label: 'X' },
+      { button: 'y', label: 'Y' },
+      { button: 'l', label: 'L' },
+      { button: 'r', label: 'R' },
+      { button: 'start', label: 'Start' },
+      { button: 'select', label: 'Select' },
+    ],
+    touchLayout: { actions: ['y', 'x', 'b', 'a'], shoulders: ['l', 'r'], grid: 'snes' },
     icon: 'snes',
     color: '#7B5AA6',
+    secondaryColor: '#4B2A66',
     description: 'Super Nintendo Entertainment System (1990)',
     releaseYear: 1990,
     manufacturer: 'Nintendo',
   },
   n64: {
     name: 'Nintendo 64',
+    shortName: 'N64',
     core: 'n64',
+    fallbackCores: ['parallel_n64'],
     extensions: ['.z64', '.n64', '.v64'],
     requiresBios: false,
+    buttons: [
+      { button: 'b', label: 'A' },
+      { button: 'y', label: 'B' },
+      { button: 'l2', label: 'Z' },
+      { button: 'l', label: 'L' },
+      { button: 'r', label: 'R' },
+      { button: 'start', label: 'Start' },
+    ],
+    touchLayout: { actions: ['y', 'b'], shoulders: ['l', 'r', 'l2'], cButtons: true, grid: 'n64' },
     icon: 'n64',
     color: '#009E60',
+    secondaryColor: '#006030',
     description: 'Nintendo 64 (1996)',
     releaseYear: 1996,
     manufacturer: 'Nintendo',
   },
   gb: {
     name: 'Game Boy',
+    shortName: 'GB',
     core: 'gb',
+    fallbackCores: ['mgba'],
     extensions: ['.gb', '.gbc'],
     requiresBios: false,
+    buttons: [
+      { button: 'a', label: 'A' },
+      { button: 'b', label: 'B' },
+      { button: 'start', label: 'Start' },
+      { button: 'select', label: 'Select' },
+    ],
+    touchLayout: { actions: ['b', 'a'], grid: 'nes' },
     icon: 'gameboy',
     color: '#8B956D',
+    secondaryColor: '#5B654D',
     description: 'Nintendo Game Boy / Game Boy Color (1989)',
     releaseYear: 1989,
     manufacturer: 'Nintendo',
   },
   gba: {
     name: 'Game Boy Advance',
+    shortName: 'GBA',
     core: 'gba',
+    fallbackCores: ['mgba'],
     extensions: ['.gba'],
     requiresBios: false,
     biosFiles: [
@@ -174,13 +322,280 @@ export const CONSOLE_CONFIG = {
         required: false,
       },
     ],
-    biosPath: '/bios/gba',
+    biosPath: 'roms/bios/gba',
+    buttons: [
+      { button: 'a', label: 'A' },
+      { button: 'b', label: 'B' },
+      { button: 'l', label: 'L' },
+      { button: 'r', label: 'R' },
+      { button: 'start', label: 'Start' },
+      { button: 'select', label: 'Select' },
+    ],
+    touchLayout: { actions: ['b', 'a'], shoulders: ['l', 'r'], grid: 'snes' },
     icon: 'gba',
     color: '#5A2D82',
+    secondaryColor: '#3A1D52',
     description: 'Nintendo Game Boy Advance (2001)',
     releaseYear: 2001,
     manufacturer: 'Nintendo',
   },
+  nds: {
+    name: 'Nintendo DS',
+    shortName: 'NDS',
+    core: 'nds',
+    fallbackCores: ['desmume2015'],
+    extensions: ['.nds'],
+    requiresBios: false,
+    biosFiles: [
+      {
+        name: 'bios7.bin',
+        md5: 'df692a80a5b1bc90728bc3dfc76cd948',
+        description: 'NDS ARM7 BIOS (optional, improves compatibility)',
+        required: false,
+      },
+      {
+        name: 'bios9.bin',
+        md5: 'a392174eb3e572fed6447e956bde4b25',
+        description: 'NDS ARM9 BIOS (optional, improves compatibility)',
+        required: false,
+      },
+      {
+        name: 'firmware.bin',
+        md5: 'e45033d9b0fa6b0de071292bba7c9d13',
+        description: 'NDS firmware (optional)',
+        required: false,
+      },
+    ],
+    biosPath: 'roms/bios/nds',
+    buttons: [
+      { button: 'a', label: 'A' },
+      { button: 'b', label: 'B' },
+      { button: 'x', label: 'X' },
+      { button: 'y', label: 'Y' },
+      { button: 'l', label: 'L' },
+      { button: 'r', label: 'R' },
+      { button: 'start', label: 'Start' },
+      { button: 'select', label: 'Select' },
+    ],
+    touchLayout: { actions: ['y', 'x', 'b', 'a'], shoulders: ['l', 'r'], grid: 'snes' },
+    icon: 'nds',
+    color: '#C0C0C0',
+    secondaryColor: '#707070',
+    description: 'Nintendo DS (2004)',
+    releaseYear: 2004,
+    manufacturer: 'Nintendo',
+  },
+  genesis: {
+    name: 'Sega Genesis',
+    shortName: 'MD',
+    core: 'segaMD',
+    fallbackCores: ['picodrive'],
+    extensions: ['.md', '.gen', '.smd', '.bin'],
+    requiresBios: false,
+    // Genesis Plus GX 6-button layout: A/B/C on Y/B/A, X/Y/Z on L/X/R
+    buttons: [
+      { button: 'y', label: 'A' },
+      { button: 'b', label: 'B' },
+      { button: 'a', label: 'C' },
+      { button: 'l', label: 'X' },
+      { button: 'x', label: 'Y' },
+      { button: 'r', label: 'Z' },
+      { button: 'start', label: 'Start' },
+      { button: 'select', label: 'Mode' },
+    ],
+    touchLayout: { actions: ['y', 'b', 'a'], shoulders: ['l', 'x', 'r'], grid: 'snes' },
+    icon: 'genesis',
+    color: '#17569B',
+    secondaryColor: '#0B2F5B',
+    description: 'Sega Genesis / Mega Drive (1988)',
+    releaseYear: 1988,
+    manufacturer: 'Sega',
+  },
+  sms: {
+    name: 'Sega Master System',
+    shortName: 'SMS',
+    core: 'segaMS',
+    fallbackCores: ['genesis_plus_gx'],
+    extensions: ['.sms'],
+    requiresBios: false,
+    buttons: [
+      { button: 'b', label: 'Button 1', shortLabel: '1' },
+      { button: 'a', label: 'Button 2', shortLabel: '2' },
+      { button: 'start', label: 'Pause' },
+    ],
+    touchLayout: { actions: ['b', 'a'], grid: 'nes' },
+    icon: 'sms',
+    color: '#D52B1E',
+    secondaryColor: '#85150F',
+    description: 'Sega Master System (1985)',
+    releaseYear: 1985,
+    manufacturer: 'Sega',
+  },
+  gg: {
+    name: 'Sega Game Gear',
+    shortName: 'GG',
+    core: 'segaGG',
+    fallbackCores: ['genesis_plus_gx'],
+    extensions: ['.gg'],
+    requiresBios: false,
+    buttons: [
+      { button: 'b', label: 'Button 1', shortLabel: '1' },
+      { button: 'a', label: 'Button 2', shortLabel: '2' },
+      { button: 'start', label: 'Start' },
+    ],
+    touchLayout: { actions: ['b', 'a'], grid: 'nes' },
+    icon: 'gamegear',
+    color: '#2E3A87',
+    secondaryColor: '#161D4A',
+    description: 'Sega Game Gear (1990)',
+    releaseYear: 1990,
+    manufacturer: 'Sega',
+  },
+  segacd: {
+    name: 'Sega CD',
+    shortName: 'SCD',
+    core: 'segaCD',
+    fallbackCores: ['picodrive'],
+    extensions: ['.cue', '.iso', '.chd'],
+    requiresBios: true,
+    biosFiles: [
+      {
+        name: 'bios_CD_U.bin',
+        md5: '2efd74e3232ff260e371b99f84024f7f',
+        description: 'Sega CD BIOS (US)',
+        required: true,
+        region: 'us',
+      },
+      {
+        name: 'bios_CD_E.bin',
+        md5: 'e66fa1dc5820d254611fdcdba0662372',
+        description: 'Mega-CD BIOS (EU)',
+        required: false,
+        region: 'eu',
+      },
+      {
+        name: 'bios_CD_J.bin',
+        md5: '278a9397d192149e84e820ac621a8edd',
+        description: 'Mega-CD BIOS (JP)',
+        required: false,
+        region: 'jp',
+      },
+    ],
+    biosPath: 'roms/bios/segacd',
+    buttons: [
+      { button: 'y', label: 'A' },
+      { button: 'b', label: 'B' },
+      { button: 'a', label: 'C' },
+      { button: 'l', label: 'X' },
+      { button: 'x', label: 'Y' },
+      { button: 'r', label: 'Z' },
+      { button: 'start', label: 'Start' },
+      { button: 'select', label: 'Mode' },
+    ],
+    touchLayout: { actions: ['y', 'b', 'a'], shoulders: ['l', 'x', 'r'], grid: 'snes' },
+    icon: 'segacd',
+    color: '#1C1C1C',
+    secondaryColor: '#000000',
+    description: 'Sega CD / Mega-CD (1991)',
+    releaseYear: 1991,
+    manufacturer: 'Sega',
+  },
+  atari2600: {
+    name: 'Atari 2600',
+    shortName: '2600',
+    core: 'atari2600',
+    fallbackCores: ['stella2014'],
+    extensions: ['.a26', '.bin'],
+    requiresBios: false,
+    buttons: [
+      { button: 'b', label: 'Fire', shortLabel: 'F' },
+      { button: 'start', label: 'Reset' },
+      { button: 'select', label: 'Select' },
+    ],
+    touchLayout: { actions: ['b'], grid: 'gb' },
+    icon: 'atari',
+    color: '#B5651D',
+    secondaryColor: '#6B3A10',
+    description: 'Atari 2600 (1977)',
+    releaseYear: 1977,
+    manufacturer: 'Atari',
+  },
+  atari7800: {
+    name: 'Atari 7800',
+    shortName: '7800',
+    core: 'atari7800',
+    fallbackCores: ['prosystem'],
+    extensions: ['.a78', '.bin'],
+    requiresBios: false,
+    buttons: [
+      { button: 'b', label: 'Fire 1', shortLabel: '1' },
+      { button: 'a', label: 'Fire 2', shortLabel: '2' },
+      { button: 'start', label: 'Pause' },
+      { button: 'select', label: 'Select' },
+    ],
+    touchLayout: { actions: ['b', 'a'], grid: 'nes' },
+    icon: 'atari',
+    color: '#8B4513',
+    secondaryColor: '#4F2709',
+    description: 'Atari 7800 ProSystem (1986)',
+    releaseYear: 1986,
+    manufacturer: 'Atari',
+  },
+  pce: {
+    name: 'PC Engine',
+    shortName: 'PCE',
+    core: 'pce',
+    fallbackCores: ['mednafen_pce'],
+    extensions: ['.pce', '.cue', '.chd'],
+    requiresBios: false,
+    biosFiles: [
+      {
+        name: 'syscard3.pce',
+        md5: '38179df8f4ac870017db21ebcbf53114',
+        description: 'PC Engine CD System Card 3.0 (required for CD games only)',
+        required: false,
+      },
+    ],
+    biosPath: 'roms/bios/pce',
+    buttons: [
+      { button: 'a', label: 'I' },
+      { button: 'b', label: 'II' },
+      { button: 'start', label: 'Run' },
+      { button: 'select', label: 'Select' },
+    ],
+    touchLayout: { actions: ['b', 'a'], grid: 'nes' },
+    icon: 'pcengine',
+    color: '#F39800',
+    secondaryColor: '#8F5A00',
+    description: 'NEC PC Engine / TurboGrafx-16 (1987)',
+    releaseYear: 1987,
+    manufacturer: 'NEC',
+  },
+  arcade: {
+    name: 'Arcade',
+    shortName: 'ARC',
+    // FBNeo handles most arcade sets; MAME-only sets need the fallback core
+    core: 'arcade',
+    fallbackCores: ['mame2003_plus'],
+    extensions: ['.zip'],
+    requiresBios: false,
+    buttons: [
+      { button: 'b', label: 'Button 1', shortLabel: '1' },
+      { button: 'a', label: 'Button 2', shortLabel: '2' },
+      { button: 'y', label: 'Button 3', shortLabel: '3' },
+      { button: 'x', label: 'Button 4', shortLabel: '4' },
+      { button: 'l', label: 'Button 5', shortLabel: '5' },
+      { button: 'r', label: 'Button 6', shortLabel: '6' },
+      { button: 'start', label: 'Start' },
+      { button: 'select', label: 'Coin' },
+    ],
+    touchLayout: { actions: ['b', 'a', 'y', 'x'], grid: 'snes' },
+    icon: 'arcade',
+    color: '#FF2E63',
+    secondaryColor: '#8F1235',
+    description: 'Arcade machines via FBNeo / MAME',
+    manufacturer: 'Various',
+  },
 } as const satisfies ConsoleConfigMap;
 
 /**
@@ -1,10 +1,12 @@
 /**
  * Database Types for Dexie.js IndexedDB Integration
- * Defines models for persistent storage of save states, favorites, sessions, and settings
+ * Shared shapes and constants for persistent storage of save states, favorites
+ * and sessions. The records actually stored, including UserSettings, are
+ * defined in services/database/models.
  */
 
 import type { ConsoleType } from './console.types';
-import type { ControlMapping, EmulatorShader } from './emulator.types';
+import type { EmulatorShader } from './emulator.types';
 
 /**
  * Base interface for all database entities
@@ -178,80 +180,6 @@ export const DEFAULT_DISPLAY_SETTINGS: DisplaySettings = {
   fullscreenOnLoad: false,
 } as const;
 
-/**
- * User settings stored in IndexedDB
- * Contains all user preferences and configurations
- */
-export interface UserSettings {
-  /** Primary key (always 1 for singleton pattern) */
-  id: number;
-  /** Audio volume (0-1) */
-  volume: number;
-  /** Whether audio is muted */
-  isMuted: boolean;
-  /** Default save slot for quick save */
-  defaultSaveSlot: number;
-  /** Virtual gamepad configuration */
-  virtualGamepad: VirtualGamepadSettings;
-  /** Display settings */
-  display: DisplaySettings;
-  /** Control mappings per player */
-  controlMappings: {
-    player1: ControlMapping;
-    player2?: ControlMapping;
-    player3?: ControlMapping;
-    player4?: ControlMapping;
-  };
-  /** Preferred UI language */
-  language: string;
-  /** UI theme preference */
-  theme: 'light' | 'dark' | 'system';
-  /** Enable rewind feature */
-  rewindEnabled: boolean;
-  /** Fast-forward speed multiplier */
-  fastForwardSpeed: number;
-  /** Show confirmation dialogs */
-  confirmations: {
-    /** Confirm before overwriting save states */
-    overwriteSave: boolean;
-    /** Confirm before exiting game */
-    exitGame: boolean;
-    /** Confirm before deleting save states */
-    deleteSave: boolean;
-  };
-  /** Last updated timestamp */
-  lastUpdated: Date;
-}
-
-/**
- * Default user settings
- */
-export const DEFAULT_USER_SETTINGS: Omit<UserSettings, 'lastUpdated'> = {
-  id: 1,
-  volume: 0.7,
-  isMuted: false,
-  defaultSaveSlot: 0,
-  virtualGamepad: DEFAULT_VIRTUAL_GAMEPAD_SETTINGS,
-  display: DEFAULT_DISPLAY_SETTINGS,
-  controlMappings: {
-    player1: {},
-  },
-  language: 'en-US',
-  theme: 'system',
-  rewindEnabled: true,
-  fastForwardSpeed: 2,
-  confirmations: {
-    overwriteSave: true,
-    exitGame: true,
-    deleteSave: true,
-  },
-} as const;
-
-/**
- * Partial user settings for updates
- */
-export type UserSettingsUpdate = Partial<Omit<UserSettings, 'id' | 'lastUpdated'>>;
-
 /**
  * Database schema version info
  */
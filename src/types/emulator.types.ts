@@ -6,10 +6,42 @@
 import type { ConsoleType } from './console.types';
 
 /**
- * EmulatorJS core type mapping
- * Maps our console types to EmulatorJS core identifiers
+ * EmulatorJS core identifiers
+ * System names select EmulatorJS's default core for that system;
+ * libretro core names select a specific core.
  */
-export type EmulatorCore = 'psx' | 'mednafen_psx_hw' | 'pcsx_rearmed' | 'nes' | 'snes' | 'n64' | 'gb' | 'gba';
+export type EmulatorCore =
+  // System names
+  | 'psx'
+  | 'nes'
+  | 'snes'
+  | 'n64'
+  | 'gb'
+  | 'gba'
+  | 'nds'
+  | 'segaMD'
+  | 'segaMS'
+  | 'segaGG'
+  | 'segaCD'
+  | 'atari2600'
+  | 'atari7800'
+  | 'pce'
+  | 'arcade'
+  // Specific cores
+  | 'pcsx_rearmed'
+  | 'mednafen_psx_hw'
+  | 'nestopia'
+  | 'snes9x'
+  | 'parallel_n64'
+  | 'mgba'
+  | 'desmume2015'
+  | 'genesis_plus_gx'
+  | 'picodrive'
+  | 'stella2014'
+  | 'prosystem'
+  | 'mednafen_pce'
+  | 'mame2003'
+  | 'mame2003_plus';
 
 /**
  * EmulatorJS language codes
@@ -27,7 +59,8 @@ export type EmulatorLanguage =
   | 'ru-RU';
 
 /**
- * Shader/filter options available in EmulatorJS
+ * Shader/filter options: EmulatorJS built-ins plus 'lcd-grid', which the
+ * app supplies (see services/emulator/shaders)
  */
 export type EmulatorShader =
   | ''
@@ -37,7 +70,30 @@ export type EmulatorShader =
   | 'crt-mattias'
   | 'sabr'
   | 'bicubic'
-  | 'mix-frames';
+  | 'mix-frames'
+  | 'lcd-grid';
+
+/**
+ * All shaders ('' = none)
+ */
+export const EMULATOR_SHADERS: readonly EmulatorShader[] = [
+  '',
+  'crt-aperture',
+  'crt-easymode',
+  'crt-geom',
+  'crt-mattias',
+  'sabr',
+  'bicubic',
+  'mix-frames',
+  'lcd-grid',
+];
+
+/**
+ * Type guard to check if a value is a valid EmulatorShader
+ */
+export function isEmulatorShader(value: unknown): value is EmulatorShader {
+  return EMULATOR_SHADERS.includes(value as EmulatorShader);
+}
 
 /**
  * Color scheme options
@@ -54,6 +110,35 @@ export type FastForwardRatio = 1.5 | 2 | 3 | 4 | 5 | 10 | 'unlimited';
  */
 export type RewindGranularity = 1 | 3 | 6 | 10 | 15 | 30 | 60;
 
+/**
+ * All fast-forward ratios, slowest first
+ */
+export const FAST_FORWARD_RATIOS: readonly FastForwardRatio[] = [1.5, 2, 3, 4, 5, 10, 'unlimited'];
+
+/**
+ * All rewind granularities, finest first
+ */
+export const REWIND_GRANULARITIES: readonly RewindGranularity[] = [1, 3, 6, 10, 15, 30, 60];
+
+/**
+ * Type guard to check if a value is a valid FastForwardRatio
+ */
+export function isFastForwardRatio(value: unknown): value is FastForwardRatio {
+  return FAST_FORWARD_RATIOS.includes(value as FastForwardRatio);
+}
+
+/**
+ * Type guard to check if a value is a valid RewindGranularity
+ */
+export function isRewindGranularity(value: unknown): value is RewindGranularity {
+  return REWIND_GRANULARITIES.includes(value as RewindGranularity);
+}
+
+/**
+ * Cheat code formats (see services/emulator/cheatCodes)
+ */
+export type CheatFormat = 'game-genie' | 'pro-action-replay' | 'gameshark' | 'raw';
+
 /**
  * Complete EmulatorJS configuration options
  * Prefixed with EJS_ to match EmulatorJS convention
@@ -211,6 +296,35 @@ export interface PlayerControlMappings {
   player4?: ControlMapping;
 }
 
+/**
+ * Player key within PlayerControlMappings
+ */
+export type ControlPlayer = keyof PlayerControlMappings;
+
+/**
+ * Input device a control mapping applies to
+ */
+export type ControlDevice = 'keyboard' | 'gamepad';
+
+/**
+ * User control overrides for a single console, per device and player.
+ * Buttons without an override use the built-in defaults.
+ */
+export type ConsoleControlMappings = {
+  [D in ControlDevice]?: PlayerControlMappings;
+};
+
+/**
+ * User control overrides for every console
+ */
+export type ControlMappingsByConsole = Partial<Record<ConsoleType, ConsoleControlMappings>>;
+
+/**
+ * Gamepad (by Gamepad.id) bound to each player slot.
+ * Players without an entry take the next free controller.
+ */
+export type GamepadAssignments = Partial<Record<ControlPlayer, string>>;
+
 /**
  * Current state of the emulator
  */
@@ -237,6 +351,8 @@ export interface EmulatorState {
   isFastForward: boolean;
   /** Current rewind status */
   isRewinding: boolean;
+  /** Current slow-motion status */
+  isSlowMotion: boolean;
   /** Error message if emulation failed */
   error?: string;
 }
@@ -255,6 +371,7 @@ export const DEFAULT_EMULATOR_STATE: EmulatorState = {
   currentShader: '',
   isFastForward: false,
   isRewinding: false,
+  isSlowMotion: false,
 } as const;
 
 /**
@@ -323,4 +440,5 @@ export type EmulatorAction =
   | { type: 'TOGGLE_FAST_FORWARD' }
   | { type: 'START_REWIND' }
   | { type: 'STOP_REWIND' }
+  | { type: 'TOGGLE_SLOW_MOTION' }
   | { type: 'RESET' };
@@ -27,6 +27,54 @@ export type GameGenre =
  */
 export type PlayerCount = 1 | 2 | 3 | 4;
 
+/**
+ * All genres, in display order
+ */
+export const GAME_GENRES: readonly GameGenre[] = [
+  'action',
+  'adventure',
+  'rpg',
+  'platformer',
+  'puzzle',
+  'racing',
+  'shooter',
+  'sports',
+  'fighting',
+  'strategy',
+  'simulation',
+  'other',
+];
+
+/**
+ * Display names for genres
+ */
+export const GENRE_LABELS: Readonly<Record<GameGenre, string>> = {
+  action: 'Action',
+  adventure: 'Adventure',
+  rpg: 'RPG',
+  platformer: 'Platformer',
+  puzzle: 'Puzzle',
+  racing: 'Racing',
+  shooter: 'Shooter',
+  sports: 'Sports',
+  fighting: 'Fighting',
+  strategy: 'Strategy',
+  simulation: 'Simulation',
+  other: 'Other',
+};
+
+/**
+ * All player count options
+ */
+export const PLAYER_COUNTS: readonly PlayerCount[] = [1, 2, 3, 4];
+
+/**
+ * Type guard for genre names
+ */
+export function isGameGenre(value: string): value is GameGenre {
+  return (GAME_GENRES as readonly string[]).includes(value);
+}
+
 /**
  * Sort field options for game lists
  */
@@ -37,6 +85,21 @@ export type GameSortField = 'title' | 'console' | 'releaseYear' | 'genre' | 'las
  */
 export type SortOrder = 'asc' | 'desc';
 
+/**
+ * Where a game comes from: the shared CDN catalog or the user's own
+ * imported ROM files (stored in IndexedDB)
+ */
+export type GameSource = 'catalog' | 'library';
+
+/**
+ * Result of checking a ROM dump against No-Intro/Redump DAT files:
+ * - verified: hashes match a known good dump
+ * - bad: hashes match a dump the DAT marks as bad
+ * - modified: the DAT lists the game, but the hashes differ (hack, trained or corrupted)
+ * - unknown: the game is not in any DAT
+ */
+export type DumpStatus = 'verified' | 'bad' | 'modified' | 'unknown';
+
 /**
  * Represents a single game in the library
  */
@@ -69,6 +132,16 @@ export interface Game {
   readonly tags?: readonly string[];
   /** Date when game was added to library */
   readonly addedAt?: string;
+  /** Where the game comes from (defaults to 'catalog') */
+  readonly source?: GameSource;
+  /** CRC32 of the ROM dump (lowercase hex) */
+  readonly crc32?: string;
+  /** SHA-1 of the ROM dump (lowercase hex) */
+  readonly sha1?: string;
+  /** Game name in the matching No-Intro/Redump DAT */
+  readonly datName?: string;
+  /** DAT verification result (absent when the dump was never checked) */
+  readonly dumpStatus?: DumpStatus;
 }
 
 /**
@@ -156,6 +229,19 @@ export interface FilteredGamesResult {
   activeFilters: Partial<GameFilter>;
 }
 
+/**
+ * Game fields covered by free-text search
+ */
+export type SearchField = 'title' | 'description' | 'developer' | 'publisher' | 'tags';
+
+/**
+ * Matched character range in a field, end exclusive
+ */
+export interface HighlightRange {
+  readonly start: number;
+  readonly end: number;
+}
+
 /**
  * Game search result with relevance scoring
  */
@@ -165,7 +251,9 @@ export interface GameSearchResult {
   /** Search relevance score (0-1) */
   relevance: number;
   /** Matched field(s) */
-  matchedFields: readonly ('title' | 'description' | 'tags')[];
+  matchedFields: readonly SearchField[];
+  /** Matched ranges per field (tags are matched as one ', '-joined string) */
+  highlights: Readonly<Partial<Record<SearchField, readonly HighlightRange[]>>>;
 }
 
 /**
@@ -12,6 +12,9 @@ export type {
   ConsoleType,
   RomExtension,
   BiosFile,
+  BiosRegion,
+  ConsoleButton,
+  TouchLayout,
   ConsoleConfiguration,
   ConsoleConfigMap,
 } from './console.types';
@@ -32,15 +35,23 @@ export type {
   PlayerCount,
   GameSortField,
   SortOrder,
+  GameSource,
+  DumpStatus,
   Game,
   GameWithMetadata,
   GamesManifest,
   GameFilter,
   FilteredGamesResult,
   GameSearchResult,
+  SearchField,
+  HighlightRange,
 } from './game.types';
 
 export {
+  GAME_GENRES,
+  GENRE_LABELS,
+  PLAYER_COUNTS,
+  isGameGenre,
   DEFAULT_GAME_FILTER,
   isValidGame,
   isValidGamesManifest,
@@ -57,12 +68,18 @@ export type {
   EmulatorColorScheme,
   FastForwardRatio,
   RewindGranularity,
+  CheatFormat,
   EmulatorConfig,
   InputButton,
   KeyboardMapping,
   GamepadMapping,
   ControlMapping,
   PlayerControlMappings,
+  ControlPlayer,
+  ControlDevice,
+  ConsoleControlMappings,
+  ControlMappingsByConsole,
+  GamepadAssignments,
   EmulatorState,
   SaveStateSlot,
   GameSaveStates,
@@ -71,6 +88,12 @@ export type {
 
 export {
   DEFAULT_EMULATOR_STATE,
+  EMULATOR_SHADERS,
+  isEmulatorShader,
+  FAST_FORWARD_RATIOS,
+  REWIND_GRANULARITIES,
+  isFastForwardRatio,
+  isRewindGranularity,
   MAX_SAVE_SLOTS,
   createEmptySaveSlots,
 } from './emulator.types';
@@ -89,8 +112,6 @@ export type {
   GamePlayStats,
   VirtualGamepadSettings,
   DisplaySettings,
-  UserSettings,
-  UserSettingsUpdate,
   DatabaseMeta,
   DatabaseTableName,
   DatabaseStats,
@@ -100,7 +121,6 @@ export {
   SAVE_SLOT,
   DEFAULT_VIRTUAL_GAMEPAD_SETTINGS,
   DEFAULT_DISPLAY_SETTINGS,
-  DEFAULT_USER_SETTINGS,
 } from './database.types';
 
 // =============================================================================
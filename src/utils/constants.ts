@@ -1,10 +1,20 @@
 export const CDN_BASE_URL = 'https://cdn.komplexaci.cz';
-export const EMULATORJS_DATA_PATH = '/data/';
+
+/**
+ * EmulatorJS release the app runs. Pinned so upstream releases cannot
+ * change emulator behaviour (and save state compatibility) unannounced;
+ * every save state records it.
+ */
+export const EMULATORJS_VERSION: string = import.meta.env.VITE_EMULATORJS_VERSION || '4.2.3';
+
+/** Path to EmulatorJS data files on the CDN (see scripts/mirror-emulatorjs.sh) */
+export const EMULATORJS_DATA_PATH = `/emulatorjs/${EMULATORJS_VERSION}/data/`;
 
 export const ROUTES = {
   HOME: '/',
   BROWSE: '/browse',
   PLAY: '/play/:gameId',
   FAVORITES: '/favorites',
+  STATS: '/stats',
   SETTINGS: '/settings',
 } as const;
@@ -0,0 +1,55 @@
+/**
+ * CRC32 Hashing
+ * CRC-32 (IEEE 802.3, as used by zip and the No-Intro/Redump DATs) for
+ * identifying ROM dumps.
+ *
+ * @module utils/crc32
+ */
+
+/** Lookup table for the reflected polynomial 0xEDB88320 */
+const TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+/**
+ * Updates a CRC-32 with more data, for hashing in chunks
+ * (same convention as zlib's crc32(data, value)).
+ *
+ * @param input - Next chunk of data
+ * @param previous - CRC-32 of the preceding data (0 to start)
+ * @returns CRC-32 of all data so far, as an unsigned integer
+ */
+export function crc32Update(input: ArrayBuffer | Uint8Array, previous = 0): number {
+  const bytes = input instanceof Uint8Array ? input : new Uint8Array(input);
+  let crc = (previous ^ 0xffffffff) >>> 0;
+
+  for (let i = 0; i < bytes.length; i++) {
+    crc = TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Formats a CRC-32 value as DAT files do.
+ *
+ * @param value - CRC-32 as an unsigned integer
+ * @returns Lowercase hex checksum (8 characters)
+ */
+export function formatCrc32(value: number): string {
+  return value.toString(16).padStart(8, '0');
+}
+
+/**
+ * Computes the CRC-32 of binary data.
+ *
+ * @param input - Data to hash
+ * @returns Lowercase hex checksum (8 characters)
+ */
+export function crc32(input: ArrayBuffer | Uint8Array): string {
+  return formatCrc32(crc32Update(input));
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { parseCueSheetFiles, resolveCueSheetFiles } from './cueSheet';
+
+const MULTI_TRACK_CUE = [
+  'FILE "Game (USA) (Track 1).bin" BINARY',
+  '  TRACK 01 MODE2/2352',
+  '    INDEX 01 00:00:00',
+  'FILE "Game (USA) (Track 2).bin" BINARY',
+  '  TRACK 02 AUDIO',
+  '    INDEX 00 00:00:00',
+  '    INDEX 01 00:02:00',
+].join('\r\n');
+
+describe('parseCueSheetFiles', () => {
+  it('lists quoted file names with spaces', () => {
+    expect(parseCueSheetFiles(MULTI_TRACK_CUE)).toEqual(['Game (USA) (Track 1).bin', 'Game (USA) (Track 2).bin']);
+  });
+
+  it('reads unquoted names, lowercase commands and Windows separators', () => {
+    const cue = 'file tracks\\game.bin BINARY\n  TRACK 01 MODE1/2352\nFILE game.bin BINARY\n';
+    expect(parseCueSheetFiles(cue)).toEqual(['tracks/game.bin', 'game.bin']);
+  });
+
+  it('returns nothing for text without FILE commands', () => {
+    expect(parseCueSheetFiles('REM just a comment\nTRACK 01 AUDIO')).toEqual([]);
+  });
+});
+
+describe('resolveCueSheetFiles', () => {
+  it('resolves tracks next to the cue sheet and encodes their names', () => {
+    expect(resolveCueSheetFiles(MULTI_TRACK_CUE, 'https://cdn.example.com/roms/ps1/Game%20(USA).cue')).toEqual([
+      'https://cdn.example.com/roms/ps1/Game%20(USA)%20(Track%201).bin',
+      'https://cdn.example.com/roms/ps1/Game%20(USA)%20(Track%202).bin',
+    ]);
+  });
+
+  it('keeps characters that would end the URL path inside the name', () => {
+    expect(resolveCueSheetFiles('FILE "Disc #1?.bin" BINARY', 'https://cdn.example.com/roms/a.cue')).toEqual([
+      'https://cdn.example.com/roms/Disc%20%231%3F.bin',
+    ]);
+  });
+});
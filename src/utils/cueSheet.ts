@@ -0,0 +1,44 @@
+/**
+ * Cue Sheets
+ * Reads the track files a CD image cue sheet references, so disc games
+ * can be downloaded as a whole.
+ *
+ * @module utils/cueSheet
+ */
+
+/** FILE command: quoted names may contain spaces, unquoted ones end at the first */
+const FILE_COMMAND = /^\s*FILE\s+(?:"([^"]+)"|(\S+))/i;
+
+/**
+ * Lists the files referenced by a cue sheet, in order and without duplicates.
+ *
+ * @param cue - Text of the .cue file
+ * @returns File paths relative to the cue sheet, with forward slashes
+ */
+export function parseCueSheetFiles(cue: string): string[] {
+  const files = new Set<string>();
+
+  for (const line of cue.split(/\r?\n/)) {
+    const match = line.match(FILE_COMMAND);
+    const file = match?.[1] ?? match?.[2];
+    if (file) {
+      files.add(file.replace(/\\/g, '/'));
+    }
+  }
+
+  return [...files];
+}
+
+/**
+ * Resolves the files referenced by a cue sheet against the cue sheet's URL.
+ *
+ * @param cue - Text of the .cue file
+ * @param cueUrl - Absolute URL the cue sheet was loaded from
+ * @returns Absolute URLs of the referenced files
+ */
+export function resolveCueSheetFiles(cue: string, cueUrl: string): string[] {
+  return parseCueSheetFiles(cue).map((file) => {
+    const path = file.split('/').map(encodeURIComponent).join('/');
+    return new URL(path, cueUrl).href;
+  });
+}
@@ -0,0 +1,247 @@
+/**
+ * DAT Matching
+ * Reads Logiqx XML DAT files (the format of No-Intro and Redump sets) and
+ * matches ROM hashes against them.
+ *
+ * Shared by the client and scripts/match-dats.ts, so this module only uses
+ * relative type imports and no browser or Node APIs.
+ *
+ * @module utils/datMatching
+ */
+
+import type { DumpStatus } from '../types/game.types';
+
+/**
+ * ROM entry of a DAT game
+ */
+export interface DatRom {
+  name: string;
+  size: number;
+  /** Lowercase hex CRC32 */
+  crc?: string;
+  /** Lowercase hex MD5 */
+  md5?: string;
+  /** Lowercase hex SHA-1 */
+  sha1?: string;
+  /** Dump status ('baddump', 'nodump', 'verified'); absent means good */
+  status?: string;
+}
+
+/**
+ * Game (or machine) entry of a DAT
+ */
+export interface DatGame {
+  name: string;
+  description?: string;
+  roms: DatRom[];
+}
+
+/**
+ * Parsed DAT file
+ */
+export interface DatFile {
+  /** DAT name from the header, e.g. "Nintendo - Game Boy" */
+  name: string;
+  description?: string;
+  version?: string;
+  games: DatGame[];
+}
+
+/**
+ * Hashes of a ROM dump to look up
+ */
+export interface RomHashes {
+  size: number;
+  /** Lowercase hex CRC32 */
+  crc32: string;
+  /** Lowercase hex SHA-1 (preferred when the DAT has it) */
+  sha1?: string;
+}
+
+/**
+ * Result of looking up a ROM dump
+ */
+export interface DatMatch {
+  status: DumpStatus;
+  /** Matching DAT game name */
+  datName?: string;
+  /** Name of the DAT the match came from */
+  datFile?: string;
+  /** Matching ROM entry */
+  rom?: DatRom;
+}
+
+/**
+ * Hash lookup tables over one or more DAT files
+ */
+export interface DatIndex {
+  bySha1: Map<string, DatIndexEntry>;
+  byCrcAndSize: Map<string, DatIndexEntry>;
+  /** Lowercased game names, for detecting modified dumps */
+  byName: Map<string, DatIndexEntry>;
+}
+
+interface DatIndexEntry {
+  datFile: string;
+  game: DatGame;
+  rom?: DatRom;
+}
+
+/** XML entities used in DAT names */
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+/**
+ * Decodes XML character and entity references.
+ */
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return XML_ENTITIES[entity] ?? match;
+  });
+}
+
+/**
+ * Parses the attributes of an XML start tag.
+ */
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const [, name, doubleQuoted, singleQuoted] of source.matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[name] = decodeXml(doubleQuoted ?? singleQuoted);
+  }
+  return attributes;
+}
+
+/**
+ * Reads the text content of the first child element with a given name.
+ */
+function readElement(source: string, name: string): string | undefined {
+  const match = source.match(new RegExp(`<${name}>([\\s\\S]*?)</${name}>`));
+  return match ? decodeXml(match[1].trim()) : undefined;
+}
+
+/**
+ * Builds the CRC32 + size lookup key.
+ */
+function crcKey(crc: string, size: number): string {
+  return `${crc.toLowerCase()}:${size}`;
+}
+
+/**
+ * Parses a Logiqx XML DAT file.
+ *
+ * @param xml - DAT file contents
+ * @returns Parsed DAT
+ * @throws Error if the file is not a Logiqx DAT
+ */
+export function parseDat(xml: string): DatFile {
+  if (!/<datafile[\s>]/.test(xml)) {
+    throw new Error('Not a Logiqx XML DAT file');
+  }
+
+  const header = xml.match(/<header>([\s\S]*?)<\/header>/)?.[1] ?? '';
+  const games: DatGame[] = [];
+
+  // MAME-style DATs use <machine> instead of <game>
+  for (const [, , attributes, body] of xml.matchAll(/<(game|machine)\b([^>]*)>([\s\S]*?)<\/\1>/g)) {
+    const roms: DatRom[] = [];
+    for (const [, romAttributes] of body.matchAll(/<rom\b([^>]*?)\/?>/g)) {
+      const rom = parseAttributes(romAttributes);
+      roms.push({
+        name: rom.name ?? '',
+        size: Number(rom.size ?? 0),
+        crc: rom.crc?.toLowerCase(),
+        md5: rom.md5?.toLowerCase(),
+        sha1: rom.sha1?.toLowerCase(),
+        status: rom.status,
+      });
+    }
+
+    games.push({
+      name: parseAttributes(attributes).name ?? '',
+      description: readElement(body, 'description'),
+      roms,
+    });
+  }
+
+  return {
+    name: readElement(header, 'name') ?? 'Unknown DAT',
+    description: readElement(header, 'description'),
+    version: readElement(header, 'version'),
+    games,
+  };
+}
+
+/**
+ * Builds hash lookup tables over DAT files. Earlier DATs win when the
+ * same dump appears in several.
+ *
+ * @param dats - Parsed DAT files
+ * @returns Lookup tables for matchRom
+ */
+export function createDatIndex(dats: readonly DatFile[]): DatIndex {
+  const index: DatIndex = { bySha1: new Map(), byCrcAndSize: new Map(), byName: new Map() };
+
+  for (const dat of dats) {
+    for (const game of dat.games) {
+      const nameKey = game.name.toLowerCase();
+      if (!index.byName.has(nameKey)) index.byName.set(nameKey, { datFile: dat.name, game });
+
+      for (const rom of game.roms) {
+        if (rom.status === 'nodump') continue;
+        const entry = { datFile: dat.name, game, rom };
+        if (rom.sha1 && !index.bySha1.has(rom.sha1)) index.bySha1.set(rom.sha1, entry);
+        if (rom.crc) {
+          const key = crcKey(rom.crc, rom.size);
+          if (!index.byCrcAndSize.has(key)) index.byCrcAndSize.set(key, entry);
+        }
+      }
+    }
+  }
+
+  return index;
+}
+
+/**
+ * Looks up a ROM dump by its hashes.
+ * A hash match is "verified" unless the DAT flags that dump as bad. When
+ * nothing matches but a DAT game has one of the given names, the dump is
+ * "modified".
+ *
+ * @param index - Lookup tables from createDatIndex
+ * @param hashes - Hashes of the dump
+ * @param names - Candidate DAT game names (e.g. the file name without
+ *   extension) to try for modified-dump detection
+ * @returns Match result
+ */
+export function matchRom(index: DatIndex, hashes: RomHashes, names: readonly string[] = []): DatMatch {
+  const entry =
+    (hashes.sha1 && index.bySha1.get(hashes.sha1.toLowerCase())) ||
+    index.byCrcAndSize.get(crcKey(hashes.crc32, hashes.size));
+
+  if (entry) {
+    return {
+      status: entry.rom?.status === 'baddump' ? 'bad' : 'verified',
+      datName: entry.game.name,
+      datFile: entry.datFile,
+      rom: entry.rom,
+    };
+  }
+
+  for (const name of names) {
+    const byName = index.byName.get(name.toLowerCase());
+    if (byName) {
+      return { status: 'modified', datName: byName.game.name, datFile: byName.datFile };
+    }
+  }
+
+  return { status: 'unknown' };
+}
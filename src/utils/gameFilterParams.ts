@@ -0,0 +1,123 @@
+/**
+ * Game Filter URL Params
+ * Converts a GameFilter to and from URL search params, so browse views
+ * can be shared and bookmarked:
+ *
+ *   /browse?q=zelda&console=snes&genre=rpg&players=2&year=1991-1995&region=eu&favorites=1&sort=releaseYear&order=desc
+ *
+ * Defaults are left out of the URL, and invalid values are ignored.
+ *
+ * @module utils/gameFilterParams
+ */
+
+import {
+  CONSOLE_CONFIG,
+  DEFAULT_GAME_FILTER,
+  GENRE_LABELS,
+  PLAYER_COUNTS,
+  isConsoleType,
+  isGameGenre,
+} from '@/types';
+import type { GameFilter, GameSortField, PlayerCount } from '@/types';
+
+/** Sort fields accepted in the URL */
+const SORT_FIELDS: readonly GameSortField[] = ['title', 'console', 'releaseYear', 'genre', 'lastPlayed', 'addedAt'];
+
+/**
+ * Parses a 'min-max' year range; either bound may be left out.
+ */
+function parseYearRange(value: string | null): GameFilter['releaseYearRange'] {
+  const match = value ? /^(\d+)?-(\d+)?$|^(\d+)$/.exec(value) : null;
+  if (!match) return undefined;
+
+  if (match[3]) {
+    const year = Number(match[3]);
+    return { min: year, max: year };
+  }
+
+  if (!match[1] && !match[2]) return undefined;
+  return {
+    min: match[1] ? Number(match[1]) : undefined,
+    max: match[2] ? Number(match[2]) : undefined,
+  };
+}
+
+/**
+ * Reads a GameFilter from URL search params.
+ *
+ * @param params - URL search params
+ * @returns Filter, with defaults for missing or invalid params
+ */
+export function parseGameFilterParams(params: URLSearchParams): GameFilter {
+  const consoleParam = params.get('console');
+  const genre = params.get('genre');
+  const players = Number(params.get('players'));
+  const sort = params.get('sort');
+  const order = params.get('order');
+
+  return {
+    console: consoleParam && isConsoleType(consoleParam) ? consoleParam : undefined,
+    search: params.get('q') || undefined,
+    genre: genre && isGameGenre(genre) ? genre : undefined,
+    players: PLAYER_COUNTS.includes(players as PlayerCount) ? (players as PlayerCount) : undefined,
+    releaseYearRange: parseYearRange(params.get('year')),
+    region: params.get('region') || undefined,
+    favoritesOnly: params.get('favorites') === '1' || undefined,
+    sortBy: SORT_FIELDS.find((field) => field === sort) ?? DEFAULT_GAME_FILTER.sortBy,
+    sortOrder: order === 'asc' || order === 'desc' ? order : DEFAULT_GAME_FILTER.sortOrder,
+  };
+}
+
+/**
+ * Writes a GameFilter to URL search params, leaving out defaults.
+ *
+ * @param filter - Filter to write
+ * @returns URL search params
+ */
+export function toGameFilterParams(filter: GameFilter): URLSearchParams {
+  const params = new URLSearchParams();
+  const { min, max } = filter.releaseYearRange ?? {};
+
+  if (filter.search) params.set('q', filter.search);
+  if (filter.console) params.set('console', filter.console);
+  if (filter.genre) params.set('genre', filter.genre);
+  if (filter.players) params.set('players', String(filter.players));
+  if (min !== undefined || max !== undefined) {
+    params.set('year', min !== undefined && min === max ? String(min) : `${min ?? ''}-${max ?? ''}`);
+  }
+  if (filter.region) params.set('region', filter.region);
+  if (filter.favoritesOnly) params.set('favorites', '1');
+  if (filter.sortBy !== DEFAULT_GAME_FILTER.sortBy) params.set('sort', filter.sortBy);
+  if (filter.sortOrder !== DEFAULT_GAME_FILTER.sortOrder) params.set('order', filter.sortOrder);
+
+  return params;
+}
+
+/**
+ * Describes the active parts of a GameFilter, e.g. for smart collections:
+ * ['SNES', 'Platformer', '2+ players', '1991–1995'].
+ * Sorting is not included.
+ *
+ * @param filter - Filter to describe
+ * @returns One label per active filter field
+ */
+export function describeGameFilter(filter: GameFilter): string[] {
+  const labels: string[] = [];
+  const { min, max } = filter.releaseYearRange ?? {};
+
+  if (filter.search) labels.push(`"${filter.search}"`);
+  if (filter.console) labels.push(CONSOLE_CONFIG[filter.console].shortName);
+  if (filter.genre) labels.push(GENRE_LABELS[filter.genre]);
+  if (filter.players) labels.push(filter.players === 1 ? '1 player' : `${filter.players}+ players`);
+  if (min !== undefined && max !== undefined) {
+    labels.push(min === max ? String(min) : `${min}–${max}`);
+  } else if (min !== undefined) {
+    labels.push(`From ${min}`);
+  } else if (max !== undefined) {
+    labels.push(`Until ${max}`);
+  }
+  if (filter.region) labels.push(filter.region.toUpperCase());
+  if (filter.favoritesOnly) labels.push('Favorites');
+
+  return labels;
+}
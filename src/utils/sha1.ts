@@ -0,0 +1,17 @@
+/**
+ * SHA-1 Hashing
+ * Thin wrapper over Web Crypto, which implements SHA-1 natively.
+ *
+ * @module utils/sha1
+ */
+
+/**
+ * Computes the SHA-1 digest of binary data.
+ *
+ * @param input - Data to hash
+ * @returns Lowercase hex digest (40 characters)
+ */
+export async function sha1(input: ArrayBuffer | Uint8Array<ArrayBuffer>): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-1', input);
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 import compression from 'vite-plugin-compression'
@@ -80,6 +81,11 @@ export default defineConfig({
     minify: 'esbuild',
   },
 
+  test: {
+    environment: 'node',
+    include: ['src/**/*.test.ts'],
+  },
+
   // Optimize dependencies
   optimizeDeps: {
     include: ['react', 'react-dom', 'react-router-dom', 'zustand', 'dexie', 'clsx'],
@@ -0,0 +1,255 @@
+// Save Sync Worker - stores per-user save states in R2
+//
+// Every request needs:
+//   Authorization: Bearer <user token>
+//   X-Sync-User: <user id>   (letters, digits, "-" and "_")
+//
+// The user token is the hex HMAC-SHA256 of the user id keyed with SYNC_SECRET
+// (see README.md), so a token only opens the saves of the user it was issued for.
+//
+// Objects are stored as users/<user>/saves/<gameId>/<slot>/data and .../screenshot.
+// Save metadata lives in R2 custom metadata on the data object.
+//
+// Local development (miniflare, local R2 simulation):
+//   npm run sync:dev
+
+interface Env {
+  SAVES_BUCKET: R2Bucket;
+  SYNC_SECRET: string;
+}
+
+interface SaveMeta {
+  gameId: string;
+  slot: number;
+  createdAt: string;
+  updatedAt: string;
+  size: number;
+  hasScreenshot: boolean;
+  consoleType?: string;
+  label?: string;
+  emulatorVersion?: string;
+}
+
+const USER_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+const GAME_ID_PATTERN = /^[A-Za-z0-9._-]{1,128}$/;
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, PUT, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers":
+    "Authorization, Content-Type, X-Sync-User, X-Save-Created-At, X-Save-Updated-At, X-Save-Console-Type, X-Save-Label, X-Save-Emulator-Version, X-Save-Has-Screenshot",
+  "Access-Control-Expose-Headers": "X-Save-Meta",
+  "Access-Control-Max-Age": "86400",
+};
+
+function hexToBytes(hex: string): Uint8Array | null {
+  if (!/^(?:[0-9a-f]{2})+$/i.test(hex)) return null;
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+// Checks that the token was issued for this user (constant-time HMAC verify)
+async function isValidUserToken(secret: string, user: string, token: string): Promise<boolean> {
+  const signature = hexToBytes(token);
+  if (!signature) return false;
+
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["verify"]
+  );
+  return crypto.subtle.verify("HMAC", key, signature, encoder.encode(user));
+}
+
+function withCors(response: Response): Response {
+  const headers = new Headers(response.headers);
+  for (const [name, value] of Object.entries(CORS_HEADERS)) {
+    headers.set(name, value);
+  }
+  return new Response(response.body, { status: response.status, headers });
+}
+
+function savePrefix(user: string, gameId: string, slot: number): string {
+  return `users/${user}/saves/${gameId}/${slot}`;
+}
+
+// Labels travel percent-encoded (headers are ASCII-only); returns null if malformed
+function decodeLabel(label: string): string | null {
+  try {
+    return decodeURIComponent(label);
+  } catch {
+    return null;
+  }
+}
+
+function toMeta(obj: R2Object, gameId: string, slot: number): SaveMeta {
+  const meta = obj.customMetadata ?? {};
+  return {
+    gameId,
+    slot,
+    createdAt: meta.createdAt ?? obj.uploaded.toISOString(),
+    updatedAt: meta.updatedAt ?? obj.uploaded.toISOString(),
+    size: obj.size,
+    hasScreenshot: meta.hasScreenshot === "1",
+    consoleType: meta.consoleType || undefined,
+    // Objects stored before labels were validated may hold a raw label
+    label: meta.label ? (decodeLabel(meta.label) ?? meta.label) : undefined,
+    emulatorVersion: meta.emulatorVersion || undefined,
+  };
+}
+
+async function handle(request: Request, env: Env): Promise<Response> {
+  const url = new URL(request.url);
+  const path = url.pathname;
+
+  if (request.method === "GET" && path === "/health") {
+    return new Response("OK");
+  }
+
+  // Check auth: the token must belong to the requested user
+  const user = request.headers.get("X-Sync-User") || "";
+  if (!USER_PATTERN.test(user)) {
+    return new Response("Missing or invalid X-Sync-User", { status: 400 });
+  }
+  const token = (request.headers.get("Authorization") || "").replace(/^Bearer\s+/, "");
+  if (!env.SYNC_SECRET || !(await isValidUserToken(env.SYNC_SECRET, user, token))) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  // === INDEX ===
+
+  // GET /saves?gameId=xxx -> [SaveMeta]
+  if (request.method === "GET" && path === "/saves") {
+    const gameId = url.searchParams.get("gameId");
+    if (gameId && !GAME_ID_PATTERN.test(gameId)) {
+      return new Response("Invalid gameId", { status: 400 });
+    }
+
+    const prefix = gameId ? `users/${user}/saves/${gameId}/` : `users/${user}/saves/`;
+    const saves: SaveMeta[] = [];
+    let cursor: string | undefined;
+
+    do {
+      // `include` is needed for customMetadata in list results (missing from older workers-types)
+      const listed = await env.SAVES_BUCKET.list({
+        prefix,
+        cursor,
+        include: ["customMetadata"],
+      } as R2ListOptions);
+      for (const obj of listed.objects) {
+        // users/<user>/saves/<gameId>/<slot>/data
+        const parts = obj.key.split("/");
+        if (parts.length !== 6 || parts[5] !== "data") continue;
+        saves.push(toMeta(obj, parts[3], parseInt(parts[4])));
+      }
+      cursor = listed.truncated ? listed.cursor : undefined;
+    } while (cursor);
+
+    return Response.json(saves);
+  }
+
+  // === SINGLE SAVE ===
+
+  // /saves/<gameId>/<slot>[/screenshot] (negative slots are the reserved auto/quick saves)
+  const match = path.match(/^\/saves\/([^/]+)\/(-?\d+)(\/screenshot)?$/);
+  if (!match || !GAME_ID_PATTERN.test(match[1])) {
+    return new Response("Not found", { status: 404 });
+  }
+
+  const gameId = match[1];
+  const slot = parseInt(match[2]);
+  const isScreenshot = !!match[3];
+  const prefix = savePrefix(user, gameId, slot);
+  const key = `${prefix}/${isScreenshot ? "screenshot" : "data"}`;
+
+  // GET /saves/<gameId>/<slot> -> data blob, metadata in X-Save-Meta
+  if (request.method === "GET") {
+    const obj = await env.SAVES_BUCKET.get(key);
+    if (!obj) return new Response("Not found", { status: 404 });
+
+    const headers = new Headers({
+      "Content-Type": obj.httpMetadata?.contentType || "application/octet-stream",
+    });
+    if (!isScreenshot) {
+      headers.set("X-Save-Meta", JSON.stringify(toMeta(obj, gameId, slot)));
+    }
+    return new Response(obj.body, { headers });
+  }
+
+  // PUT /saves/<gameId>/<slot>/screenshot
+  if (request.method === "PUT" && isScreenshot) {
+    await env.SAVES_BUCKET.put(key, request.body, {
+      httpMetadata: { contentType: request.headers.get("Content-Type") || "image/png" },
+    });
+    return Response.json({ success: true, key });
+  }
+
+  // PUT /saves/<gameId>/<slot>?force=1
+  // Rejects older writes with 409 unless forced (last-write-wins on updatedAt)
+  if (request.method === "PUT") {
+    const updatedAt = request.headers.get("X-Save-Updated-At");
+    if (!updatedAt || isNaN(Date.parse(updatedAt))) {
+      return new Response("Missing or invalid X-Save-Updated-At", { status: 400 });
+    }
+
+    const label = request.headers.get("X-Save-Label") || "";
+    if (label && decodeLabel(label) === null) {
+      return new Response("Invalid X-Save-Label (must be percent-encoded)", { status: 400 });
+    }
+
+    const existing = await env.SAVES_BUCKET.head(key);
+    if (existing && url.searchParams.get("force") !== "1") {
+      const remote = toMeta(existing, gameId, slot);
+      if (Date.parse(remote.updatedAt) > Date.parse(updatedAt)) {
+        return Response.json({ conflict: true, remote }, { status: 409 });
+      }
+    }
+
+    const hasScreenshot = request.headers.get("X-Save-Has-Screenshot") === "1";
+    const obj = await env.SAVES_BUCKET.put(key, request.body, {
+      httpMetadata: { contentType: "application/octet-stream" },
+      customMetadata: {
+        createdAt: request.headers.get("X-Save-Created-At") || updatedAt,
+        updatedAt,
+        hasScreenshot: hasScreenshot ? "1" : "0",
+        consoleType: request.headers.get("X-Save-Console-Type") || "",
+        label,
+        emulatorVersion: request.headers.get("X-Save-Emulator-Version") || "",
+      },
+    });
+
+    if (!hasScreenshot) {
+      await env.SAVES_BUCKET.delete(`${prefix}/screenshot`);
+    }
+
+    return Response.json({ success: true, save: toMeta(obj, gameId, slot) });
+  }
+
+  // DELETE /saves/<gameId>/<slot>
+  if (request.method === "DELETE" && !isScreenshot) {
+    await env.SAVES_BUCKET.delete([`${prefix}/data`, `${prefix}/screenshot`]);
+    return Response.json({ success: true, deleted: prefix });
+  }
+
+  return new Response("Method not allowed", { status: 405 });
+}
+
+export default {
+  async fetch(request: Request, env: Env): Promise<Response> {
+    if (request.method === "OPTIONS") {
+      return new Response(null, { status: 204, headers: CORS_HEADERS });
+    }
+
+    try {
+      return withCors(await handle(request, env));
+    } catch (error) {
+      return withCors(new Response(`Sync failed: ${error}`, { status: 500 }));
+    }
+  },
+};